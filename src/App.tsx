@@ -21,6 +21,16 @@ import Financeiro from "./pages/Financeiro";
 import Contas from "./pages/Contas";
 import PrevisaoEstoque from "./pages/PrevisaoEstoque";
 import CriticalStockReport from "./pages/CriticalStockReport";
+import Serials from "./pages/Serials";
+import SerialHistory from "./pages/SerialHistory";
+import InventoryCounts from "./pages/InventoryCounts";
+import InventoryCountDetail from "./pages/InventoryCountDetail";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import PurchaseOrderDetail from "./pages/PurchaseOrderDetail";
+import SalesOrders from "./pages/SalesOrders";
+import SalesOrderDetail from "./pages/SalesOrderDetail";
+import Reposicao from "./pages/Reposicao";
+import ClassificacaoABC from "./pages/ClassificacaoABC";
 
 // Lazy load less frequently used pages
 const AcceptInvite = lazy(() => import("./pages/AcceptInvite"));
@@ -125,6 +135,70 @@ const App = () => (
                   </Layout>
                 }
               />
+              <Route
+                path="/serials"
+                element={
+                  <Layout>
+                    <Serials />
+                  </Layout>
+                }
+              />
+              <Route
+                path="/serials/:id"
+                element={
+                  <Layout>
+                    <SerialHistory />
+                  </Layout>
+                }
+              />
+              <Route
+                path="/inventory-counts"
+                element={
+                  <Layout>
+                    <InventoryCounts />
+                  </Layout>
+                }
+              />
+              <Route
+                path="/inventory-counts/:id"
+                element={
+                  <Layout>
+                    <InventoryCountDetail />
+                  </Layout>
+                }
+              />
+              <Route
+                path="/purchase-orders"
+                element={
+                  <Layout>
+                    <PurchaseOrders />
+                  </Layout>
+                }
+              />
+              <Route
+                path="/purchase-orders/:id"
+                element={
+                  <Layout>
+                    <PurchaseOrderDetail />
+                  </Layout>
+                }
+              />
+              <Route
+                path="/sales-orders"
+                element={
+                  <Layout>
+                    <SalesOrders />
+                  </Layout>
+                }
+              />
+              <Route
+                path="/sales-orders/:id"
+                element={
+                  <Layout>
+                    <SalesOrderDetail />
+                  </Layout>
+                }
+              />
               <Route
                 path="/previsao-estoque"
                 element={
@@ -133,6 +207,22 @@ const App = () => (
                   </Layout>
                 }
               />
+              <Route
+                path="/reposicao"
+                element={
+                  <Layout>
+                    <Reposicao />
+                  </Layout>
+                }
+              />
+              <Route
+                path="/classificacao-abc"
+                element={
+                  <Layout>
+                    <ClassificacaoABC />
+                  </Layout>
+                }
+              />
               <Route
                 path="/estoque-critico"
                 element={
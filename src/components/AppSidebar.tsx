@@ -1,4 +1,4 @@
-import { Home, Package, TrendingUp, FileText, Settings, LogOut, Boxes, Warehouse, Shield, DollarSign, Receipt, Brain, ChevronRight, AlertTriangle } from "lucide-react";
+import { Home, Package, TrendingUp, FileText, Settings, LogOut, Boxes, Warehouse, Shield, DollarSign, Receipt, Brain, ChevronRight, AlertTriangle, ScanBarcode, ClipboardList, ShoppingCart, ShoppingBag, PackagePlus, Grid3X3 } from "lucide-react";
 import { NavLink, useNavigate, useLocation } from "react-router-dom";
 import stockmasterLogo from "@/assets/stockmaster-logo.png";
 import { Sidebar, SidebarContent, SidebarGroup, SidebarGroupContent, SidebarGroupLabel, SidebarMenu, SidebarMenuButton, SidebarMenuItem, SidebarHeader, SidebarFooter, useSidebar } from "@/components/ui/sidebar";
@@ -103,7 +103,7 @@ export function AppSidebar() {
           queryFn: async () => {
             const { data } = await supabase
               .from("products")
-              .select("*, category:categories(name), location:locations(name)")
+              .select("*, category:categories(name), location:locations(name), supplier:suppliers(name), stock_balances(location_id, quantity, location:locations(name))")
               .eq("active", true)
               .eq("organization_id", organizationId)
               .order("name", { ascending: true });
@@ -161,7 +161,7 @@ export function AppSidebar() {
           queryFn: async () => {
             const { data } = await supabase
               .from("kits")
-              .select("*, kit_items(count)")
+              .select("*, kit_items!kit_items_kit_id_fkey(count)")
               .eq("organization_id", organizationId)
               .order("name", { ascending: true });
             return data;
@@ -182,7 +182,11 @@ export function AppSidebar() {
     { title: "Produtos", url: "/products", icon: Package },
     { title: "Kits", url: "/kits", icon: Boxes },
     { title: "Movimentações", url: "/movements", icon: TrendingUp },
+    { title: "Compras", url: "/purchase-orders", icon: ShoppingCart },
+    { title: "Vendas", url: "/sales-orders", icon: ShoppingBag },
     { title: "Estoque", url: "/stock", icon: Warehouse },
+    { title: "Números de Série", url: "/serials", icon: ScanBarcode },
+    { title: "Inventário", url: "/inventory-counts", icon: ClipboardList },
     { title: "Configurações", url: "/settings", icon: Settings },
   ];
 
@@ -190,14 +194,16 @@ export function AppSidebar() {
     { title: "Financeiro", url: "/financeiro", icon: DollarSign },
     { title: "Contas a Pagar/Receber", url: "/contas", icon: Receipt },
     { title: "Previsão de Estoque", url: "/previsao-estoque", icon: Brain },
+    { title: "Reposição", url: "/reposicao", icon: PackagePlus },
     { title: "Estoque Crítico", url: "/estoque-critico", icon: AlertTriangle },
+    { title: "Classificação ABC/XYZ", url: "/classificacao-abc", icon: Grid3X3 },
     { title: "Relatórios", url: "/reports", icon: FileText },
   ];
 
   let menuItems = [...baseMenuItems];
   
   if (userRole === "admin" || userRole === "superadmin") {
-    menuItems = [...baseMenuItems.slice(0, 5), ...adminMenuItems, ...baseMenuItems.slice(5)];
+    menuItems = [...baseMenuItems.slice(0, 9), ...adminMenuItems, ...baseMenuItems.slice(9)];
   }
 
   if (userRole === "superadmin") {
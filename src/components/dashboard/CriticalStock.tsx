@@ -12,6 +12,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { AlertTriangle, Package, Loader2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useOrganization } from "@/hooks/useOrganization";
+import { formatNumber } from "@/lib/formatters";
 
 export const CriticalStock = () => {
   const { data: organizationId } = useOrganization();
@@ -21,25 +22,10 @@ export const CriticalStock = () => {
     queryFn: async () => {
       if (!organizationId) return [];
       
-      const { data, error } = await supabase
-        .from("products")
-        .select(`
-          *,
-          categories (name),
-          locations (name)
-        `)
-        .eq("organization_id", organizationId)
-        .order("quantity", { ascending: true });
+      const { data, error } = await supabase.rpc("get_critical_products");
 
       if (error) throw error;
-      
-      return data?.filter(p => Number(p.quantity) <= Number(p.min_quantity))
-        .slice(0, 10)
-        .map(p => ({
-          ...p,
-          category_name: p.categories?.name,
-          location_name: p.locations?.name
-        }));
+      return (data || []).slice(0, 10);
     },
     enabled: !!organizationId,
   });
@@ -87,8 +73,8 @@ export const CriticalStock = () => {
                   </TableCell>
                 </TableRow>
               ) : criticalProducts && criticalProducts.length > 0 ? (
-                criticalProducts.map((product: any) => (
-                  <TableRow key={product.id} className="hover:bg-muted/20 transition-colors">
+                criticalProducts.map((product) => (
+                  <TableRow key={`${product.id}-${product.location_id}`} className="hover:bg-muted/20 transition-colors">
                     <TableCell>
                       <div className="flex items-center gap-3">
                         <div className="h-8 w-8 rounded-lg bg-muted/50 flex items-center justify-center">
@@ -112,17 +98,17 @@ export const CriticalStock = () => {
                         variant="destructive" 
                         className="font-semibold min-w-[40px] justify-center"
                       >
-                        {product.quantity}
+                        {formatNumber(Number(product.location_quantity))}
                       </Badge>
                     </TableCell>
                     <TableCell className="text-center">
                       <span className="text-sm font-medium text-muted-foreground">
-                        {product.min_quantity}
+                        {formatNumber(Number(product.location_min_quantity))}
                       </span>
                     </TableCell>
                     <TableCell>
                       <span className="text-sm text-muted-foreground">
-                        {product.location_name || "—"}
+                        {product.per_location ? product.location_name || "—" : "Estoque total"}
                       </span>
                     </TableCell>
                   </TableRow>
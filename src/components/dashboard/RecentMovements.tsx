@@ -10,7 +10,7 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowDown, ArrowUp, ArrowLeftRight } from "lucide-react";
+import { ArrowDown, ArrowUp, ArrowLeftRight, SlidersHorizontal } from "lucide-react";
 import { format } from "date-fns";
 import { useOrganization } from "@/hooks/useOrganization";
 
@@ -63,6 +63,8 @@ export const RecentMovements = () => {
         return <ArrowUp className="h-4 w-4 text-red-500" />;
       case "TRANSFER":
         return <ArrowLeftRight className="h-4 w-4 text-blue-500" />;
+      case "ADJUSTMENT":
+        return <SlidersHorizontal className="h-4 w-4 text-yellow-500" />;
       default:
         return null;
     }
@@ -73,12 +75,14 @@ export const RecentMovements = () => {
       IN: "default",
       OUT: "destructive",
       TRANSFER: "secondary",
+      ADJUSTMENT: "secondary",
     };
 
     const labels: Record<string, string> = {
       IN: "Entrada",
       OUT: "Saída",
       TRANSFER: "Transferência",
+      ADJUSTMENT: "Ajuste",
     };
 
     return (
@@ -9,7 +9,7 @@ import { format, subDays, startOfMonth, endOfMonth, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { useOrganization } from "@/hooks/useOrganization";
 import { formatCurrency } from "@/lib/formatters";
-import { Download, TrendingUp, DollarSign, Percent, Target } from "lucide-react";
+import { Download, TrendingUp, DollarSign, Percent, Target, Undo2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { DateRangeFilter } from "@/components/shared/DateRangeFilter";
 import html2canvas from "html2canvas";
@@ -140,13 +140,13 @@ export const DashboardFinanceiro = () => {
   const chartData = useMemo(() => {
     if (!financialData) return [];
 
-    const dataByDay: Record<string, { faturamento: number; custo: number; lucro: number; vendas: number }> = {};
+    const dataByDay: Record<string, { faturamento: number; custo: number; lucro: number; vendas: number; devolucoes: number }> = {};
 
     financialData.forEach(item => {
       const date = format(parseISO(item.data), "dd/MM", { locale: ptBR });
       
       if (!dataByDay[date]) {
-        dataByDay[date] = { faturamento: 0, custo: 0, lucro: 0, vendas: 0 };
+        dataByDay[date] = { faturamento: 0, custo: 0, lucro: 0, vendas: 0, devolucoes: 0 };
       }
 
       if (item.tipo === "saida") {
@@ -156,7 +156,13 @@ export const DashboardFinanceiro = () => {
         dataByDay[date].faturamento += faturamento;
         dataByDay[date].custo += custo;
         dataByDay[date].lucro += (faturamento - custo);
-        dataByDay[date].vendas += 1;
+
+        // Devoluções de clientes entram como estorno (valores negativos) da venda
+        if (item.return_id) {
+          dataByDay[date].devolucoes -= faturamento;
+        } else {
+          dataByDay[date].vendas += 1;
+        }
       }
     });
 
@@ -166,12 +172,13 @@ export const DashboardFinanceiro = () => {
       custo: values.custo,
       lucro: values.lucro,
       vendas: values.vendas,
+      devolucoes: values.devolucoes,
     }));
   }, [financialData]);
 
   // Calculate metrics
   const metrics = useMemo(() => {
-    if (!financialData) return { ticketMedio: 0, crescimentoLucro: 0, margemMedia: 0, lucroAcumulado: 0 };
+    if (!financialData) return { ticketMedio: 0, crescimentoLucro: 0, margemMedia: 0, lucroAcumulado: 0, devolucoes: 0, totalDevolucoes: 0 };
 
     const currentFaturamento = financialData
       .filter(item => item.tipo === "saida")
@@ -182,7 +189,10 @@ export const DashboardFinanceiro = () => {
 
     const currentLucro = currentFaturamento - currentCusto;
 
-    const totalVendas = financialData.filter(item => item.tipo === "saida").length;
+    const totalVendas = financialData.filter(item => item.tipo === "saida" && !item.return_id).length;
+
+    const customerReturns = financialData.filter(item => item.tipo === "saida" && item.return_id);
+    const devolucoes = customerReturns.reduce((sum, item) => sum - Number(item.valor || 0), 0);
 
     const ticketMedio = totalVendas > 0 ? currentFaturamento / totalVendas : 0;
 
@@ -206,6 +216,8 @@ export const DashboardFinanceiro = () => {
       crescimentoLucro,
       margemMedia,
       lucroAcumulado: currentLucro,
+      devolucoes,
+      totalDevolucoes: customerReturns.length,
     };
   }, [financialData, previousPeriodData]);
 
@@ -298,6 +310,11 @@ export const DashboardFinanceiro = () => {
             <p className="text-sm">
               <span className="font-medium text-muted-foreground">Vendas:</span> {payload[0].payload.vendas}
             </p>
+            {payload[0].payload.devolucoes > 0 && (
+              <p className="text-sm">
+                <span className="font-medium text-[#f97316]">Devoluções:</span> {formatCurrency(payload[0].payload.devolucoes)}
+              </p>
+            )}
           </div>
         </div>
       );
@@ -445,6 +462,16 @@ export const DashboardFinanceiro = () => {
                   dot={{ fill: "#0ea5e9", r: 4 }}
                   activeDot={{ r: 6 }}
                 />
+                <Line 
+                  type="monotone" 
+                  dataKey="devolucoes" 
+                  stroke="#f97316" 
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  name="Devoluções"
+                  dot={{ fill: "#f97316", r: 3 }}
+                  activeDot={{ r: 5 }}
+                />
               </LineChart>
             </ResponsiveContainer>
           )}
@@ -452,7 +479,7 @@ export const DashboardFinanceiro = () => {
       </Card>
 
       {/* Metrics Cards */}
-      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-5">
         <Card className="border-0 shadow-card">
           <CardHeader className="flex flex-row items-center justify-between pb-3 space-y-0">
             <CardTitle className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
@@ -540,6 +567,25 @@ export const DashboardFinanceiro = () => {
             </p>
           </CardContent>
         </Card>
+
+        <Card className="border-0 shadow-card">
+          <CardHeader className="flex flex-row items-center justify-between pb-3 space-y-0">
+            <CardTitle className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">
+              Devoluções
+            </CardTitle>
+            <div className="h-10 w-10 rounded-full bg-destructive/10 flex items-center justify-center">
+              <Undo2 className="h-5 w-5 text-destructive" />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            <div className="text-3xl font-bold tracking-tight text-destructive">
+              {formatCurrency(metrics.devolucoes)}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {metrics.totalDevolucoes} devolução(ões) estornada(s)
+            </p>
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -31,6 +31,8 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { Plus, Trash2 } from "lucide-react";
 import { formatCurrency } from "@/lib/formatters";
+import { getAverageCostAt } from "@/lib/costs";
+import { getKitUnitCost } from "@/lib/kits";
 
 const CATEGORIAS = [
   "Operacional",
@@ -122,24 +124,30 @@ export function FinanceiroDialog({
           id,
           name,
           sku,
-          kit_items (
+          active,
+          kit_items!kit_items_kit_id_fkey (
+            kit_id,
+            product_id,
+            component_kit_id,
             quantity,
             products (
               custo_unitario
             )
           )
         `)
-        .eq("active", true)
         .order("name");
       
       if (error) throw error;
+
+      // Inactive kits still count when they are part of an active one
+      const bom = data.flatMap((kit) => kit.kit_items);
+      const productCosts = Object.fromEntries(
+        bom.map((item) => [item.product_id, Number(item.products?.custo_unitario || 0)])
+      );
       
       // Calcular custo de cada kit
-      return data?.map(kit => {
-        const custoTotal = kit.kit_items.reduce((sum: number, item: any) => {
-          const custoUnitario = item.products?.custo_unitario || 0;
-          return sum + (custoUnitario * item.quantity);
-        }, 0);
+      return data?.filter((kit) => kit.active).map(kit => {
+        const custoTotal = getKitUnitCost(kit.id, bom, productCosts, {});
         
         return {
           id: kit.id,
@@ -195,20 +203,43 @@ export function FinanceiroDialog({
   }, [movement, form]);
 
   // Auto-preencher custos quando produto ou kit selecionado
+  const produtoId = form.watch("produto_id");
+  const dataLancamento = form.watch("data");
   useEffect(() => {
-    const itemId = form.watch("produto_id");
-    if (itemId && itemId !== "none" && allItems) {
-      const item = allItems.find(p => p.id === itemId);
-      if (item) {
-        if (item.custo_unitario) {
-          form.setValue("custo_unitario", item.custo_unitario.toString());
-        }
-        if (item.preco_venda && !item.isKit) {
-          form.setValue("preco_venda", item.preco_venda.toString());
-        }
+    if (!produtoId || produtoId === "none") return;
+    // Ao editar, manter o custo gravado enquanto o item não for trocado
+    if (movement && movement.produto_id === produtoId) return;
+
+    const item = allItems.find(p => p.id === produtoId);
+    if (!item) return;
+
+    if (item.preco_venda && !item.isKit) {
+      form.setValue("preco_venda", item.preco_venda.toString());
+    }
+
+    if (item.isKit) {
+      if (item.custo_unitario) {
+        form.setValue("custo_unitario", item.custo_unitario.toString());
       }
+      return;
     }
-  }, [form.watch("produto_id"), allItems]);
+
+    // Produtos usam o custo médio vigente na data do lançamento
+    let cancelled = false;
+    getAverageCostAt(item.id, dataLancamento)
+      .catch(() => null)
+      .then((custoNaData) => {
+        if (cancelled) return;
+        const custo = custoNaData ?? item.custo_unitario;
+        if (custo) {
+          form.setValue("custo_unitario", custo.toString());
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [produtoId, dataLancamento, products, kits]);
 
   // Calcular valor total automaticamente
   useEffect(() => {
@@ -13,7 +13,7 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContaine
 import { formatCurrency } from "@/lib/formatters";
 import { format, subDays, startOfMonth } from "date-fns";
 import { DateRangeFilter } from "@/components/shared/DateRangeFilter";
-import { TrendingUp, TrendingDown, DollarSign, Target, Sparkles, Loader2, Zap } from "lucide-react";
+import { TrendingUp, TrendingDown, DollarSign, Target, Sparkles, Loader2, Zap, Undo2 } from "lucide-react";
 import { toast } from "sonner";
 import { IAPrecoIdealDialog } from "./IAPrecoIdealDialog";
 
@@ -24,9 +24,13 @@ interface ProductPerformance {
   name: string;
   type: "produto" | "kit";
   faturamento: number;
+  custo: number;
   lucro: number;
   margem: number;
   quantidade: number;
+  // Estornos de devoluções de clientes, já descontados de faturamento, lucro e quantidade
+  devolucoes: number;
+  quantidadeDevolvida: number;
   ticketMedio: number;
   classificacao: ClassificationType;
   color: string;
@@ -78,7 +82,7 @@ export function MapaLucro() {
       let query = supabase
         .from("financeiro")
         .select("*")
-        .eq("tipo", "venda")
+        .eq("tipo", "saida")
         .gte("data", dateRange.start)
         .lte("data", dateRange.end);
 
@@ -142,9 +146,12 @@ export function MapaLucro() {
           name: itemName,
           type: isKit ? "kit" : "produto",
           faturamento: 0,
+          custo: 0,
           lucro: 0,
           margem: 0,
           quantidade: 0,
+          devolucoes: 0,
+          quantidadeDevolvida: 0,
           ticketMedio: 0,
           classificacao: "Estável",
           color: "#0ea5e9",
@@ -153,14 +160,22 @@ export function MapaLucro() {
       }
 
       const item = itemsMap.get(itemId)!;
-      const lucro = mov.lucro_liquido || 0;
-      const faturamento = mov.preco_venda || 0;
       const quantidade = mov.quantidade || 0;
+      const faturamento = mov.preco_venda && quantidade ? mov.preco_venda * quantidade : mov.valor || 0;
+      // custo_total guarda o custo médio vigente no momento da venda, não o custo atual do produto
+      const custo = mov.custo_total || 0;
+      const lucro = faturamento - custo;
 
       item.faturamento += faturamento;
+      item.custo += custo;
       item.lucro += lucro;
       item.quantidade += quantidade;
 
+      if (mov.return_id) {
+        item.devolucoes -= faturamento;
+        item.quantidadeDevolvida -= quantidade;
+      }
+
       const existingDay = item.dailyData.find((d) => d.date === mov.data);
       if (existingDay) {
         existingDay.lucro += lucro;
@@ -217,6 +232,7 @@ export function MapaLucro() {
         maisLucrativo: null,
         piorMargem: null,
         ticketMedio: 0,
+        devolucoesTotal: 0,
       };
     }
 
@@ -226,8 +242,9 @@ export function MapaLucro() {
     const faturamentoTotal = performanceData.reduce((sum, item) => sum + item.faturamento, 0);
     const quantidadeTotal = performanceData.reduce((sum, item) => sum + item.quantidade, 0);
     const ticketMedio = quantidadeTotal > 0 ? faturamentoTotal / quantidadeTotal : 0;
+    const devolucoesTotal = performanceData.reduce((sum, item) => sum + item.devolucoes, 0);
 
-    return { lucroTotal, maisLucrativo, piorMargem, ticketMedio };
+    return { lucroTotal, maisLucrativo, piorMargem, ticketMedio, devolucoesTotal };
   }, [performanceData]);
 
   const chartData = useMemo(() => {
@@ -256,8 +273,8 @@ export function MapaLucro() {
         return;
       }
 
-      const custoMedio = selectedItem.faturamento > 0 
-        ? (selectedItem.faturamento - selectedItem.lucro) / selectedItem.quantidade 
+      const custoMedio = selectedItem.quantidade > 0 
+        ? selectedItem.custo / selectedItem.quantidade 
         : 0;
 
       const { data, error } = await supabase.functions.invoke("calcular-preco-ideal", {
@@ -378,7 +395,7 @@ export function MapaLucro() {
       </div>
 
       {/* Cards de métricas */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Lucro Total</CardTitle>
@@ -424,6 +441,17 @@ export function MapaLucro() {
             <div className="text-2xl font-bold">{formatCurrency(metrics.ticketMedio)}</div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Devoluções</CardTitle>
+            <Undo2 className="h-4 w-4 text-danger" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCurrency(metrics.devolucoesTotal)}</div>
+            <div className="text-xs text-muted-foreground">já descontadas do lucro</div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Gráfico de barras */}
@@ -468,6 +496,7 @@ export function MapaLucro() {
                 <TableHead className="text-right">Lucro</TableHead>
                 <TableHead className="text-right">Margem %</TableHead>
                 <TableHead className="text-right">Qtd. Vendida</TableHead>
+                <TableHead className="text-right">Devoluções</TableHead>
                 <TableHead className="text-right">Ticket Médio</TableHead>
                 <TableHead>Classificação</TableHead>
                 <TableHead className="text-center">Ações</TableHead>
@@ -506,6 +535,18 @@ export function MapaLucro() {
                   >
                     {item.quantidade}
                   </TableCell>
+                  <TableCell 
+                    className="text-right cursor-pointer"
+                    onClick={() => handleItemClick(item)}
+                  >
+                    {item.devolucoes > 0 ? (
+                      <span className="text-danger">
+                        {formatCurrency(item.devolucoes)} ({item.quantidadeDevolvida})
+                      </span>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
                   <TableCell 
                     className="text-right cursor-pointer"
                     onClick={() => handleItemClick(item)}
@@ -548,7 +589,7 @@ export function MapaLucro() {
           </DialogHeader>
           {selectedItem && (
             <div className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
                 <Card>
                   <CardContent className="pt-6">
                     <div className="text-sm text-muted-foreground">Lucro Total</div>
@@ -561,6 +602,12 @@ export function MapaLucro() {
                     <div className="text-2xl font-bold">{selectedItem.margem.toFixed(1)}%</div>
                   </CardContent>
                 </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <div className="text-sm text-muted-foreground">Devoluções</div>
+                    <div className="text-2xl font-bold">{formatCurrency(selectedItem.devolucoes)}</div>
+                  </CardContent>
+                </Card>
               </div>
 
               <Card>
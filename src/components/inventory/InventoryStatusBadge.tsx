@@ -0,0 +1,20 @@
+import { Badge } from "@/components/ui/badge";
+
+interface InventoryStatusBadgeProps {
+  status: string;
+}
+
+export const InventoryStatusBadge = ({ status }: InventoryStatusBadgeProps) => {
+  switch (status) {
+    case "counting":
+      return <Badge className="bg-primary text-white">Em contagem</Badge>;
+    case "review":
+      return <Badge className="bg-warning text-white">Em revisão</Badge>;
+    case "posted":
+      return <Badge className="bg-success text-white">Lançado</Badge>;
+    case "cancelled":
+      return <Badge variant="secondary">Cancelado</Badge>;
+    default:
+      return <Badge>{status}</Badge>;
+  }
+};
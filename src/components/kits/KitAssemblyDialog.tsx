@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { formatNumber } from "@/lib/formatters";
+
+export type KitAssemblyKind = "assembly" | "disassembly";
+
+export interface AssemblableKit {
+  id: string;
+  name: string;
+  sku: string;
+  components: {
+    quantity: number;
+    product: { id: string; name: string; unit: string } | null;
+  }[];
+}
+
+interface KitAssemblyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kit: AssemblableKit | null;
+  kind: KitAssemblyKind;
+}
+
+export function KitAssemblyDialog({ open, onOpenChange, kit, kind }: KitAssemblyDialogProps) {
+  const queryClient = useQueryClient();
+  const [quantity, setQuantity] = useState("");
+  const [locationId, setLocationId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isAssembly = kind === "assembly";
+
+  const { data: locations } = useQuery({
+    queryKey: ["locations"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("locations").select("*").eq("is_transit", false).order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Saldo dos componentes (montagem) ou dos kits montados (desmontagem) no local escolhido
+  const { data: available } = useQuery({
+    queryKey: ["kit-assembly-available", kind, kit?.id, locationId],
+    queryFn: async () => {
+      if (isAssembly) {
+        const productIds = kit!.components.flatMap((c) => (c.product ? [c.product.id] : []));
+        const { data, error } = await supabase
+          .from("stock_balances")
+          .select("product_id, quantity")
+          .eq("location_id", locationId)
+          .in("product_id", productIds);
+        if (error) throw error;
+        return Object.fromEntries(data.map((b) => [b.product_id, Number(b.quantity)])) as Record<string, number>;
+      }
+
+      const { data, error } = await supabase
+        .from("kit_stock_balances")
+        .select("quantity")
+        .eq("kit_id", kit!.id)
+        .eq("location_id", locationId)
+        .maybeSingle();
+      if (error) throw error;
+      return { [kit!.id]: Number(data?.quantity || 0) } as Record<string, number>;
+    },
+    enabled: open && !!kit && !!locationId,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setQuantity("");
+    setLocationId("");
+    setNotes("");
+  }, [open, kit, kind]);
+
+  const kitQuantity = Number(quantity) || 0;
+
+  const handleSubmit = async () => {
+    if (!kit) return;
+
+    if (!(kitQuantity > 0)) {
+      toast.error("Informe a quantidade de kits");
+      return;
+    }
+
+    if (!locationId) {
+      toast.error("Selecione o local");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.rpc("register_kit_assembly", {
+        _kit_id: kit.id,
+        _kind: kind,
+        _quantity: kitQuantity,
+        _location_id: locationId,
+        _notes: notes.trim() || undefined,
+      });
+      if (error) throw error;
+
+      toast.success(isAssembly ? "Montagem registrada" : "Desmontagem registrada");
+      queryClient.invalidateQueries({ queryKey: ["kits"] });
+      queryClient.invalidateQueries({ queryKey: ["kit-assembly-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["kit-assembly-available"] });
+      queryClient.invalidateQueries({ queryKey: ["movements"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["product-lots"] });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao registrar ordem de montagem");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isAssembly ? "Montar Kit" : "Desmontar Kit"}</DialogTitle>
+          <DialogDescription>
+            {kit?.sku} - {kit?.name} •{" "}
+            {isAssembly
+              ? "os componentes saem do estoque e os kits montados entram no local"
+              : "os kits montados saem do estoque e os componentes voltam ao local"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="assembly-quantity">Quantidade de kits *</Label>
+              <Input
+                id="assembly-quantity"
+                type="number"
+                min="1"
+                step="1"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Local *</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o local" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations?.map((loc) => (
+                    <SelectItem key={loc.id} value={loc.id}>
+                      {loc.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!isAssembly && kit && locationId && (
+            <p className="text-sm text-muted-foreground">
+              Kits montados no local: {formatNumber(available?.[kit.id] || 0)}
+            </p>
+          )}
+
+          <div className="rounded-lg border p-3 space-y-2">
+            <Label className="text-xs text-muted-foreground">
+              Componentes {isAssembly ? "consumidos" : "devolvidos ao estoque"}
+            </Label>
+            {kit?.components.map((component) => {
+              if (!component.product) return null;
+              const required = Number(component.quantity) * kitQuantity;
+              const onHand = available?.[component.product.id] || 0;
+              return (
+                <div key={component.product.id} className="flex items-center justify-between text-sm">
+                  <span>{component.product.name}</span>
+                  <span className="tabular-nums">
+                    {formatNumber(required)} {component.product.unit}
+                    {isAssembly && locationId && (
+                      <span className={cn("ml-2 text-xs", onHand < required ? "text-destructive" : "text-muted-foreground")}>
+                        (no local: {formatNumber(onHand)})
+                      </span>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="assembly-notes">Observações</Label>
+            <Textarea id="assembly-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter className="pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? "Registrando..." : isAssembly ? "Confirmar Montagem" : "Confirmar Desmontagem"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
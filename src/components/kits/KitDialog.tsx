@@ -23,7 +23,9 @@ import {
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
@@ -34,7 +36,9 @@ import { toast } from "sonner";
 import { Plus, Trash2, Sparkles } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { useOrganization } from "@/hooks/useOrganization";
+import { useKitBom } from "@/hooks/useKitBom";
 import { formatCurrency } from "@/lib/formatters";
+import { createsKitCycle, getKitUnitCost } from "@/lib/kits";
 import { IAPrecoIdealDialog } from "@/components/financeiro/IAPrecoIdealDialog";
 
 const kitSchema = z.object({
@@ -47,11 +51,16 @@ const kitSchema = z.object({
 
 type KitFormData = z.infer<typeof kitSchema>;
 
+// Um item do kit é um produto ou outro kit
 interface KitItem {
-  product_id: string;
+  product_id: string | null;
+  component_kit_id: string | null;
   quantity: number;
 }
 
+const sameComponent = (a: Omit<KitItem, "quantity">, b: Omit<KitItem, "quantity">) =>
+  a.product_id === b.product_id && a.component_kit_id === b.component_kit_id;
+
 interface CustoAdicional {
   descricao: string;
   valor: number;
@@ -100,12 +109,51 @@ export function KitDialog({ open, onOpenChange, kit }: KitDialogProps) {
     enabled: !!organizationId,
   });
 
-  // Calcular custo total do kit
-  const custoTotalKit = kitItems.reduce((sum, item) => {
-    const product = products?.find(p => p.id === item.product_id);
-    const custoUnitario = product?.custo_unitario || 0;
-    return sum + (custoUnitario * item.quantity);
-  }, 0);
+  // Kits that can go inside this one, with their own additional costs for the roll-up
+  const { data: componentKits } = useQuery({
+    queryKey: ["kits", "components", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const { data, error } = await supabase
+        .from("kits")
+        .select("id, name, sku, active, custos_adicionais")
+        .eq("organization_id", organizationId)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  const { data: bom = [] } = useKitBom();
+
+  // Active kits, minus those that would end up containing this one (already chosen ones stay listed)
+  const selectableKits = (componentKits || []).filter(
+    (k) =>
+      (k.active || kitItems.some((item) => item.component_kit_id === k.id)) &&
+      (!kit || (k.id !== kit.id && !createsKitCycle(kit.id, k.id, bom)))
+  );
+
+  const productCosts = Object.fromEntries(
+    (products || []).map((p) => [p.id, Number(p.custo_unitario) || 0])
+  ) as Record<string, number>;
+  const kitExtraCosts = Object.fromEntries(
+    (componentKits || []).map((k) => [
+      k.id,
+      ((k.custos_adicionais as unknown as CustoAdicional[]) || []).reduce((sum, c) => sum + (Number(c.valor) || 0), 0),
+    ])
+  ) as Record<string, number>;
+
+  const getItemCost = (item: KitItem) => {
+    if (item.component_kit_id) {
+      return getKitUnitCost(item.component_kit_id, bom, productCosts, kitExtraCosts) * item.quantity;
+    }
+    return (item.product_id ? productCosts[item.product_id] || 0 : 0) * item.quantity;
+  };
+
+  // Calcular custo total do kit (sub-kits pelo custo completo deles)
+  const custoTotalKit = kitItems.reduce((sum, item) => sum + getItemCost(item), 0);
 
   const custoAdicionaisTotal = custosAdicionais.reduce((sum, c) => sum + c.valor, 0);
   const custoTotal = custoTotalKit + custoAdicionaisTotal;
@@ -127,7 +175,7 @@ export function KitDialog({ open, onOpenChange, kit }: KitDialogProps) {
       // Fetch kit items
       supabase
         .from("kit_items")
-        .select("product_id, quantity")
+        .select("product_id, component_kit_id, quantity")
         .eq("kit_id", kit.id)
         .then(({ data }) => {
           if (data) {
@@ -150,7 +198,7 @@ export function KitDialog({ open, onOpenChange, kit }: KitDialogProps) {
   }, [kit, form]);
 
   const addItem = () => {
-    setKitItems([...kitItems, { product_id: "", quantity: 1 }]);
+    setKitItems([...kitItems, { product_id: null, component_kit_id: null, quantity: 1 }]);
   };
 
   const removeItem = (index: number) => {
@@ -163,13 +211,24 @@ export function KitDialog({ open, onOpenChange, kit }: KitDialogProps) {
     setKitItems(newItems);
   };
 
+  const updateItemComponent = (index: number, value: string) => {
+    const [kind, id] = value.split(":");
+    const newItems = [...kitItems];
+    newItems[index] = {
+      ...newItems[index],
+      product_id: kind === "product" ? id : null,
+      component_kit_id: kind === "kit" ? id : null,
+    };
+    setKitItems(newItems);
+  };
+
   const onSubmit = async (values: KitFormData) => {
     if (kitItems.length === 0) {
-      toast.error("Adicione pelo menos um produto ao kit");
+      toast.error("Adicione pelo menos um item ao kit");
       return;
     }
 
-    if (kitItems.some(item => !item.product_id || item.quantity <= 0)) {
+    if (kitItems.some(item => (!item.product_id && !item.component_kit_id) || item.quantity <= 0)) {
       toast.error("Preencha todos os itens corretamente");
       return;
     }
@@ -212,13 +271,13 @@ export function KitDialog({ open, onOpenChange, kit }: KitDialogProps) {
         // Fetch existing items to compare
         const { data: existingItems } = await supabase
           .from("kit_items")
-          .select("id, product_id, quantity")
+          .select("id, product_id, component_kit_id, quantity")
           .eq("kit_id", kit.id);
 
         // Delete items that are no longer in the list
         const itemsToDelete = existingItems?.filter(
           (existing) =>
-            !kitItems.some((item) => item.product_id === existing.product_id)
+            !kitItems.some((item) => sameComponent(item, existing))
         ) || [];
 
         if (itemsToDelete.length > 0) {
@@ -236,7 +295,7 @@ export function KitDialog({ open, onOpenChange, kit }: KitDialogProps) {
         // Update or insert items
         for (const item of kitItems) {
           const existingItem = existingItems?.find(
-            (ei) => ei.product_id === item.product_id
+            (ei) => sameComponent(ei, item)
           );
 
           if (existingItem) {
@@ -300,13 +359,15 @@ export function KitDialog({ open, onOpenChange, kit }: KitDialogProps) {
 
       queryClient.invalidateQueries({ queryKey: ["kits"] });
       queryClient.invalidateQueries({ queryKey: ["kits-with-cost"] });
+      queryClient.invalidateQueries({ queryKey: ["kit-bom"] });
       onOpenChange(false);
       form.reset();
       setKitItems([]);
       setCustosAdicionais([]);
     } catch (error) {
       console.error("Error saving kit:", error);
-      toast.error("Erro ao salvar kit");
+      // A composição circular é barrada no banco, que explica o motivo
+      toast.error(error instanceof Error && error.message ? error.message : "Erro ao salvar kit");
     } finally {
       setIsSubmitting(false);
     }
@@ -391,37 +452,54 @@ export function KitDialog({ open, onOpenChange, kit }: KitDialogProps) {
 
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
-                  <FormLabel>Produtos do Kit</FormLabel>
+                  <FormLabel>Itens do Kit</FormLabel>
                   <Button type="button" size="sm" onClick={addItem}>
                     <Plus className="h-4 w-4 mr-1" />
-                    Adicionar Produto
+                    Adicionar Item
                   </Button>
                 </div>
 
                 <div className="space-y-2">
                   {kitItems.map((item, index) => {
-                    const product = products?.find(p => p.id === item.product_id);
-                    const custoItem = product ? (product.custo_unitario || 0) * item.quantity : 0;
+                    const value = item.product_id
+                      ? `product:${item.product_id}`
+                      : item.component_kit_id
+                        ? `kit:${item.component_kit_id}`
+                        : "";
+                    const custoItem = getItemCost(item);
                     
                     return (
                       <div key={index} className="flex gap-2 items-start border p-3 rounded-lg">
                         <div className="flex-1">
                           <Select
-                            value={item.product_id}
-                            onValueChange={(value) => updateItem(index, "product_id", value)}
+                            value={value}
+                            onValueChange={(value) => updateItemComponent(index, value)}
                           >
                             <SelectTrigger>
-                              <SelectValue placeholder="Selecione um produto" />
+                              <SelectValue placeholder="Selecione um produto ou kit" />
                             </SelectTrigger>
                             <SelectContent>
-                              {products?.map((product) => (
-                                <SelectItem key={product.id} value={product.id}>
-                                  {product.name} ({product.sku})
-                                </SelectItem>
-                              ))}
+                              <SelectGroup>
+                                <SelectLabel>Produtos</SelectLabel>
+                                {products?.map((product) => (
+                                  <SelectItem key={product.id} value={`product:${product.id}`}>
+                                    {product.name} ({product.sku})
+                                  </SelectItem>
+                                ))}
+                              </SelectGroup>
+                              {selectableKits.length > 0 && (
+                                <SelectGroup>
+                                  <SelectLabel>Kits</SelectLabel>
+                                  {selectableKits.map((k) => (
+                                    <SelectItem key={k.id} value={`kit:${k.id}`}>
+                                      {k.name} ({k.sku})
+                                    </SelectItem>
+                                  ))}
+                                </SelectGroup>
+                              )}
                             </SelectContent>
                           </Select>
-                          {product && (
+                          {value && (
                             <div className="text-xs text-muted-foreground mt-1">
                               Custo: {formatCurrency(custoItem)}
                             </div>
@@ -451,7 +529,7 @@ export function KitDialog({ open, onOpenChange, kit }: KitDialogProps) {
 
                   {kitItems.length === 0 && (
                     <p className="text-sm text-muted-foreground text-center py-4">
-                      Nenhum produto adicionado. Clique em "Adicionar Produto" para começar.
+                      Nenhum item adicionado. Clique em "Adicionar Item" para começar.
                     </p>
                   )}
                 </div>
@@ -559,7 +637,7 @@ export function KitDialog({ open, onOpenChange, kit }: KitDialogProps) {
                 <div className="p-4 rounded-lg border bg-muted/30 space-y-2">
                   <div className="font-semibold text-sm text-muted-foreground mb-2">Prévia do Kit:</div>
                   <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Custo dos produtos:</span>
+                    <span className="text-muted-foreground">Custo dos itens:</span>
                     <span className="font-medium">{formatCurrency(custoTotalKit)}</span>
                   </div>
                   {custoAdicionaisTotal > 0 && (
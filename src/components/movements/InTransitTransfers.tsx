@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, PackageCheck, Truck } from "lucide-react";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useUserRole } from "@/hooks/useUserRole";
+import { formatNumber } from "@/lib/formatters";
+import { PendingTransfer, ReceiveTransferDialog } from "@/components/movements/ReceiveTransferDialog";
+
+interface InTransitTransfersProps {
+  canReceive: boolean;
+}
+
+export const InTransitTransfers = ({ canReceive }: InTransitTransfersProps) => {
+  const { data: organizationId } = useOrganization();
+  const { isAdmin } = useUserRole();
+  const [receiving, setReceiving] = useState<PendingTransfer | null>(null);
+
+  // Local em que o usuário está lotado: só ele (ou um administrador) confirma a chegada
+  const { data: userLocationId } = useQuery({
+    queryKey: ["current-profile-location"],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("location_id")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.location_id ?? null;
+    },
+  });
+
+  const canReceiveTransfer = (transfer: PendingTransfer) =>
+    canReceive && (isAdmin() || (!!transfer.to_location_id && transfer.to_location_id === userLocationId));
+
+  const { data: transfers, isLoading } = useQuery({
+    queryKey: ["stock-transfers", organizationId, "in_transit"],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const { data, error } = await supabase
+        .from("stock_transfers")
+        .select(`
+          id,
+          quantity,
+          reference,
+          notes,
+          created_at,
+          to_location_id,
+          product:products(name, sku, unit, serialized),
+          from_location:locations!stock_transfers_from_location_id_fkey(name),
+          to_location:locations!stock_transfers_to_location_id_fkey(name)
+        `)
+        .eq("organization_id", organizationId)
+        .eq("status", "in_transit")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data as PendingTransfer[];
+    },
+    enabled: !!organizationId,
+  });
+
+  return (
+    <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card overflow-hidden">
+      <CardHeader className="border-b border-border/50 bg-muted/30">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Truck className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg font-semibold">Em Trânsito</CardTitle>
+          </div>
+          {transfers && transfers.length > 0 && (
+            <Badge className="text-xs font-semibold px-3 py-1">
+              {transfers.length} {transfers.length === 1 ? "transferência" : "transferências"}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/30 hover:bg-muted/30">
+                <TableHead className="font-semibold text-xs uppercase tracking-wider">SKU</TableHead>
+                <TableHead className="font-semibold text-xs uppercase tracking-wider">Produto</TableHead>
+                <TableHead className="font-semibold text-xs uppercase tracking-wider">Origem</TableHead>
+                <TableHead className="font-semibold text-xs uppercase tracking-wider">Destino</TableHead>
+                <TableHead className="font-semibold text-xs uppercase tracking-wider text-center">Quantidade</TableHead>
+                <TableHead className="font-semibold text-xs uppercase tracking-wider">Enviado</TableHead>
+                {canReceive && <TableHead className="w-[120px]" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={canReceive ? 7 : 6} className="h-24">
+                    <div className="flex items-center justify-center">
+                      <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : transfers && transfers.length > 0 ? (
+                transfers.map((transfer) => (
+                  <TableRow key={transfer.id} className="hover:bg-muted/20 transition-colors">
+                    <TableCell>
+                      <code className="text-xs bg-muted px-2 py-1 rounded font-mono">
+                        {transfer.product?.sku}
+                      </code>
+                    </TableCell>
+                    <TableCell className="font-medium text-sm">
+                      {transfer.product?.name}
+                      {transfer.reference && (
+                        <span className="block text-xs text-muted-foreground">{transfer.reference}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{transfer.from_location?.name || "-"}</TableCell>
+                    <TableCell className="text-sm">{transfer.to_location?.name || "-"}</TableCell>
+                    <TableCell className="text-center tabular-nums">
+                      {formatNumber(Number(transfer.quantity))} {transfer.product?.unit}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(new Date(transfer.created_at), { addSuffix: true, locale: ptBR })}
+                    </TableCell>
+                    {canReceive && (
+                      <TableCell>
+                        {canReceiveTransfer(transfer) && (
+                          <Button size="sm" variant="outline" className="gap-2" onClick={() => setReceiving(transfer)}>
+                            <PackageCheck className="h-4 w-4" />
+                            Receber
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={canReceive ? 7 : 6} className="h-24 text-center text-muted-foreground">
+                    Nenhuma transferência em trânsito
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <ReceiveTransferDialog
+        open={!!receiving}
+        onOpenChange={(open) => !open && setReceiving(null)}
+        transfer={receiving}
+      />
+    </Card>
+  );
+};
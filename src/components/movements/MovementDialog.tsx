@@ -3,9 +3,11 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { useQueryClient, useQuery } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { Check, ChevronsUpDown, Plus, Trash2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -46,23 +48,43 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { useOrganization } from "@/hooks/useOrganization";
+import { useOrganizationSettings } from "@/hooks/useOrganizationSettings";
 import { cn } from "@/lib/utils";
-import { formatCurrency } from "@/lib/formatters";
+import { formatCurrency, formatNumber } from "@/lib/formatters";
+import { getLocationQuantity } from "@/lib/stock-balances";
+import { estimateFifoCost, getNewAverageCost } from "@/lib/costs";
+import { getUnitFactor, UnitConversion } from "@/lib/units";
+import { describeShortages, parsePostingError } from "@/lib/stock-posting";
+import { allocateFefo, isExpiringSoon, LotAllocation, sortLotsFefo } from "@/lib/lots";
+import { format, parseISO } from "date-fns";
 
 const movementSchema = z.object({
   type: z.enum(["IN", "OUT", "TRANSFER"]),
   item_type: z.enum(["product", "kit"]),
   product_id: z.string().optional(),
   kit_id: z.string().optional(),
+  assembled: z.boolean().optional(),
   quantity: z.string().min(1, "Quantidade é obrigatória"),
   from_location_id: z.string().optional(),
   to_location_id: z.string().optional(),
   reference: z.string().optional(),
   note: z.string().optional(),
   preco_venda: z.string().optional(),
+  lot_code: z.string().optional(),
+  expiry_date: z.string().optional(),
+  serial_numbers: z.string().optional(),
+  unit_cost: z.string().optional(),
+  unit: z.string().optional(),
+  in_transit: z.boolean().optional(),
 }).refine((data) => data.product_id || data.kit_id, {
   message: "Selecione um produto ou kit",
   path: ["product_id"],
+}).refine((data) => data.type !== "TRANSFER" || !!data.to_location_id, {
+  message: "Selecione o local de destino",
+  path: ["to_location_id"],
+}).refine((data) => data.type !== "TRANSFER" || data.from_location_id !== data.to_location_id, {
+  message: "Origem e destino devem ser diferentes",
+  path: ["to_location_id"],
 });
 
 type MovementFormData = z.infer<typeof movementSchema>;
@@ -75,18 +97,28 @@ interface CustoAdicional {
 interface MovementDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  movement?: any;
+  /** Reversed movement whose values prefill the form; the new movement is linked to it as its correction */
+  correctionOf?: any;
 }
 
-export function MovementDialog({ open, onOpenChange, movement }: MovementDialogProps) {
+export function MovementDialog({ open, onOpenChange, correctionOf }: MovementDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [custoUnitario, setCustoUnitario] = useState(0);
+  const [estoqueAtual, setEstoqueAtual] = useState(0);
   const [precoVendaPadrao, setPrecoVendaPadrao] = useState(0);
   const [openProductCombo, setOpenProductCombo] = useState(false);
   const [openKitCombo, setOpenKitCombo] = useState(false);
   const [custosAdicionais, setCustosAdicionais] = useState<CustoAdicional[]>([]);
+  const [trackLots, setTrackLots] = useState(false);
+  const [lotAllocations, setLotAllocations] = useState<LotAllocation[]>([]);
+  const [serialized, setSerialized] = useState(false);
+  const [selectedSerialIds, setSelectedSerialIds] = useState<string[]>([]);
+  const [baseUnit, setBaseUnit] = useState("");
+  const [purchaseUnit, setPurchaseUnit] = useState("");
+  const [unitConversions, setUnitConversions] = useState<UnitConversion[]>([]);
   const queryClient = useQueryClient();
   const { data: organizationId } = useOrganization();
+  const { data: orgSettings } = useOrganizationSettings();
 
   const { data: products } = useQuery({
     queryKey: ["products-list"],
@@ -117,7 +149,7 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
   const { data: locations } = useQuery({
     queryKey: ["locations"],
     queryFn: async () => {
-      const { data, error } = await supabase.from("locations").select("*").order("name");
+      const { data, error } = await supabase.from("locations").select("*").eq("is_transit", false).order("name");
       if (error) throw error;
       return data;
     },
@@ -130,52 +162,211 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
       item_type: "product",
       product_id: "",
       kit_id: "",
+      assembled: false,
       quantity: "",
       from_location_id: "",
       to_location_id: "",
       reference: "",
       note: "",
       preco_venda: "",
+      lot_code: "",
+      expiry_date: "",
+      serial_numbers: "",
+      unit_cost: "",
+      unit: "",
+      in_transit: false,
     },
   });
 
   useEffect(() => {
-    if (movement) {
+    if (correctionOf) {
       form.reset({
-        type: movement.type,
-        item_type: movement.kit_id ? "kit" : "product",
-        product_id: movement.product_id || "",
-        kit_id: movement.kit_id || "",
-        quantity: String(movement.quantity),
-        from_location_id: movement.from_location_id || "",
-        to_location_id: movement.to_location_id || "",
-        reference: movement.reference || "",
-        note: movement.note || "",
-        preco_venda: String(movement.preco_venda_usado || ""),
+        type: correctionOf.type,
+        item_type: correctionOf.kit_id ? "kit" : "product",
+        product_id: correctionOf.product_id || "",
+        kit_id: correctionOf.kit_id || "",
+        assembled: !!correctionOf.assembled,
+        // Corrections start from the quantity as it was typed; unit_cost is stored per base unit
+        quantity: String(correctionOf.entered_quantity ?? correctionOf.quantity),
+        from_location_id: correctionOf.from_location_id || "",
+        to_location_id: correctionOf.to_location_id || "",
+        reference: correctionOf.reference || "",
+        note: correctionOf.note || "",
+        preco_venda: String(correctionOf.preco_venda_usado || ""),
+        lot_code: "",
+        expiry_date: "",
+        serial_numbers: "",
+        unit_cost: correctionOf.unit_cost != null
+          ? String(correctionOf.entered_quantity
+            ? (Number(correctionOf.unit_cost) * Number(correctionOf.quantity)) / Number(correctionOf.entered_quantity)
+            : correctionOf.unit_cost)
+          : "",
+        unit: correctionOf.entered_unit || "",
       });
-      setCustosAdicionais(movement.custos_adicionais || []);
+      setCustosAdicionais(correctionOf.custos_adicionais || []);
     } else {
       form.reset({
         type: "IN",
         item_type: "product",
         product_id: "",
         kit_id: "",
+        assembled: false,
         quantity: "",
         from_location_id: "",
         to_location_id: "",
         reference: "",
         note: "",
         preco_venda: "",
+        lot_code: "",
+        expiry_date: "",
+        serial_numbers: "",
+        unit_cost: "",
+        unit: "",
+        in_transit: false,
       });
       setCustosAdicionais([]);
     }
-  }, [movement, form]);
+  }, [correctionOf, form]);
 
   const movementType = form.watch("type");
   const itemType = form.watch("item_type");
   const productId = form.watch("product_id");
   const kitId = form.watch("kit_id");
-  const quantity = form.watch("quantity");
+  const enteredQuantity = form.watch("quantity");
+  const unitCost = form.watch("unit_cost");
+  const selectedUnit = form.watch("unit");
+
+  // Quantities may be typed in any configured unit; everything below works on the base quantity
+  const unitFactor = itemType === "product" ? getUnitFactor(unitConversions, selectedUnit) : 1;
+  const quantity = enteredQuantity && unitFactor !== 1
+    ? String(parseFloat(enteredQuantity) * unitFactor)
+    : enteredQuantity;
+
+  const { data: productBalances } = useQuery({
+    queryKey: ["stock-balances", productId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("stock_balances")
+        .select("location_id, quantity")
+        .eq("product_id", productId);
+      if (error) throw error;
+      return data;
+    },
+    enabled: itemType === "product" && !!productId,
+  });
+
+  // Under FIFO the sale preview is costed from the product's open cost layers
+  const usesFifoPreview = movementType === "OUT" && itemType === "product"
+    && orgSettings?.costing_method === "fifo";
+
+  const { data: openCostLayers } = useQuery({
+    queryKey: ["cost-layers", productId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("cost_layers")
+        .select("unit_cost, remaining_quantity")
+        .eq("product_id", productId!)
+        .gt("remaining_quantity", 0)
+        .order("received_at")
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: usesFifoPreview && !!productId,
+  });
+
+  const custoItensPrevisto = usesFifoPreview && openCostLayers
+    ? estimateFifoCost(openCostLayers, parseFloat(quantity || '0'), custoUnitario)
+    : custoUnitario * parseFloat(quantity || '0');
+
+  // Lots are captured/consumed for products that track them
+  const usesLots = itemType === "product" && trackLots;
+
+  const { data: productLots } = useQuery({
+    queryKey: ["product-lots", productId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("product_lots")
+        .select("id, lot_code, expiry_date, quantity, created_at")
+        .eq("product_id", productId)
+        .gt("quantity", 0);
+      if (error) throw error;
+      return sortLotsFefo(data);
+    },
+    enabled: usesLots && !!productId,
+  });
+
+  // Suggest lots first-expiring-first-out whenever the quantity changes
+  useEffect(() => {
+    if (usesLots && movementType === "OUT") {
+      setLotAllocations(allocateFefo(productLots, parseFloat(quantity || "0")));
+    } else {
+      setLotAllocations([]);
+    }
+  }, [usesLots, movementType, productLots, quantity]);
+
+  const allocatedQuantity = lotAllocations.reduce((sum, a) => sum + a.quantity, 0);
+  const lotsAvailable = (productLots || []).reduce((sum, l) => sum + Number(l.quantity), 0);
+
+  const setLotAllocation = (lotId: string, value: number) => {
+    const others = lotAllocations.filter((a) => a.lot_id !== lotId);
+    setLotAllocations(value > 0 ? [...others, { lot_id: lotId, quantity: value }] : others);
+  };
+
+  // Serialized products move specific units: IN registers them, OUT/TRANSFER picks them
+  const usesSerials = itemType === "product" && serialized;
+  const fromLocationId = form.watch("from_location_id");
+
+  const { data: serialsInStock } = useQuery({
+    queryKey: ["product-serials", "in-stock", productId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("product_serials")
+        .select("id, serial_number, location_id, location:locations(name)")
+        .eq("product_id", productId)
+        .eq("status", "in_stock")
+        .order("serial_number");
+      if (error) throw error;
+      return data;
+    },
+    enabled: usesSerials && movementType !== "IN" && !!productId,
+  });
+
+  const pickableSerials = serialsInStock?.filter(
+    (serial) => !fromLocationId || serial.location_id === fromLocationId
+  );
+
+  const parseSerialNumbers = (value?: string) =>
+    Array.from(
+      new Set(
+        (value || "")
+          .split(/[\n,;]/)
+          .map((serial) => serial.trim())
+          .filter(Boolean)
+      )
+    );
+
+  // The quantity of a serialized movement is the number of units informed
+  useEffect(() => {
+    setSelectedSerialIds([]);
+  }, [productId, movementType, fromLocationId]);
+
+  useEffect(() => {
+    if (usesSerials && movementType !== "IN") {
+      form.setValue("quantity", selectedSerialIds.length > 0 ? String(selectedSerialIds.length) : "");
+    }
+  }, [usesSerials, movementType, selectedSerialIds, form]);
+
+  const toggleSerial = (serialId: string, checked: boolean) => {
+    setSelectedSerialIds((current) =>
+      checked ? [...current, serialId] : current.filter((id) => id !== serialId)
+    );
+  };
+
+  const getLocationLabel = (location: { id: string; name: string }) => {
+    if (itemType !== "product" || !productId) return location.name;
+    return `${location.name} (disp.: ${formatNumber(getLocationQuantity(productBalances, location.id))})`;
+  };
 
   // Fetch cost and price when product/kit changes
   useEffect(() => {
@@ -183,12 +374,22 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
       if (itemType === "product" && productId) {
         const { data: product } = await supabase
           .from("products")
-          .select("custo_unitario, preco_venda")
+          .select("quantity, custo_unitario, preco_venda, track_lots, serialized, unit, purchase_unit, product_unit_conversions (unit, factor)")
           .eq("id", productId)
           .single();
         
         if (product) {
+          setTrackLots(product.track_lots);
+          setSerialized(product.serialized);
+          setBaseUnit(product.unit);
+          // Serialized units are identified one by one, so they always move in the base unit
+          const conversions = product.serialized ? [] : product.product_unit_conversions || [];
+          setUnitConversions(conversions);
+          setPurchaseUnit(
+            conversions.some((c) => c.unit === product.purchase_unit) ? product.purchase_unit! : ""
+          );
           setCustoUnitario(Number(product.custo_unitario) || 0);
+          setEstoqueAtual(Number(product.quantity) || 0);
           setPrecoVendaPadrao(Number(product.preco_venda) || 0);
           if (!form.getValues("preco_venda")) {
             form.setValue("preco_venda", String(Number(product.preco_venda) || 0));
@@ -197,40 +398,33 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
       } else if (itemType === "kit" && kitId) {
         const { data: kit } = await supabase
           .from("kits")
-          .select(`
-            preco_venda,
-            custos_adicionais,
-            kit_items (
-              quantity,
-              products (custo_unitario)
-            )
-          `)
+          .select("preco_venda")
           .eq("id", kitId)
           .single();
         
         if (kit) {
-          let kitCost = 0;
-          if (kit.kit_items) {
-            for (const item of kit.kit_items) {
-              const productCost = Number(item.products?.custo_unitario) || 0;
-              kitCost += productCost * Number(item.quantity);
-            }
-          }
+          // Same roll-up the database uses: products of every level plus the additional costs
+          const { data: kitCost } = await supabase.rpc("get_kit_unit_cost", { _kit_id: kitId });
 
-          if (kit.custos_adicionais && Array.isArray(kit.custos_adicionais)) {
-            for (const custo of kit.custos_adicionais as unknown as CustoAdicional[]) {
-              kitCost += Number(custo.valor) || 0;
-            }
-          }
-
-          setCustoUnitario(kitCost);
+          setTrackLots(false);
+          setSerialized(false);
+          setBaseUnit("");
+          setPurchaseUnit("");
+          setUnitConversions([]);
+          setCustoUnitario(Number(kitCost) || 0);
           setPrecoVendaPadrao(Number(kit.preco_venda) || 0);
           if (!form.getValues("preco_venda")) {
             form.setValue("preco_venda", String(Number(kit.preco_venda) || 0));
           }
         }
       } else {
+        setTrackLots(false);
+        setSerialized(false);
+        setBaseUnit("");
+        setPurchaseUnit("");
+        setUnitConversions([]);
         setCustoUnitario(0);
+        setEstoqueAtual(0);
         setPrecoVendaPadrao(0);
       }
     };
@@ -238,6 +432,20 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
     fetchCost();
   }, [productId, kitId, itemType]);
 
+  // Entries default to the purchase unit; other movements to the base unit
+  useEffect(() => {
+    if (!correctionOf) {
+      form.setValue("unit", movementType === "IN" ? purchaseUnit : "");
+    }
+  }, [correctionOf, movementType, productId, purchaseUnit, form]);
+
+  // The entry cost is typed per selected unit, starting from the current average cost
+  useEffect(() => {
+    if (!correctionOf && itemType === "product" && productId) {
+      form.setValue("unit_cost", String(Math.round(custoUnitario * unitFactor * 100) / 100));
+    }
+  }, [correctionOf, itemType, productId, custoUnitario, unitFactor, form]);
+
   const onSubmit = async (data: MovementFormData) => {
     setIsSubmitting(true);
     try {
@@ -245,203 +453,164 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
       if (!user) throw new Error("Usuário não autenticado");
       if (!organizationId) throw new Error("Organization not found");
 
-      const quantity = parseFloat(data.quantity);
+      const quantity = parseFloat(data.quantity) * unitFactor;
 
-      // Validate sufficient stock for OUT movements
-      if (data.type === "OUT") {
-        if (data.item_type === "product" && data.product_id) {
-          // Validar estoque de produto único
-          const { data: productData, error: productError } = await supabase
-            .from("products")
-            .select("quantity, name")
-            .eq("id", data.product_id)
-            .single();
+      const serialNumbers = parseSerialNumbers(data.serial_numbers);
+      let serialLocationId: string | null = null;
 
-          if (productError) throw productError;
-
-          if (!productData) {
-            toast.error("Produto não encontrado");
+      if (usesSerials && data.product_id) {
+        if (data.type === "IN") {
+          if (serialNumbers.length !== quantity) {
+            toast.error(
+              `Informe um número de série por unidade. Informados: ${serialNumbers.length}, Quantidade: ${quantity}`
+            );
             setIsSubmitting(false);
             return;
           }
 
-          const currentQuantity = Number(productData.quantity);
-          if (currentQuantity < quantity) {
+          const { data: existingSerials, error: serialsError } = await supabase
+            .from("product_serials")
+            .select("serial_number")
+            .eq("product_id", data.product_id)
+            .eq("status", "in_stock")
+            .in("serial_number", serialNumbers);
+          if (serialsError) throw serialsError;
+
+          if (existingSerials && existingSerials.length > 0) {
             toast.error(
-              `Estoque insuficiente! Disponível: ${currentQuantity}, Solicitado: ${quantity}`
+              `Números de série já em estoque: ${existingSerials.map((s) => s.serial_number).join(", ")}`
             );
             setIsSubmitting(false);
             return;
           }
-        } else if (data.item_type === "kit" && data.kit_id) {
-          // Validar estoque de TODOS os produtos do kit
-          const { data: kitData } = await supabase
-            .from("kits")
-            .select(`
-              name,
-              kit_items (
-                quantity,
-                products (
-                  id,
-                  name,
-                  quantity
-                )
-              )
-            `)
-            .eq("id", data.kit_id)
-            .single();
-
-          if (kitData) {
-            const insufficientProducts: string[] = [];
-            
-            for (const item of kitData.kit_items) {
-              const requiredQty = Number(item.quantity) * quantity;
-              const availableQty = Number(item.products?.quantity || 0);
-              
-              if (availableQty < requiredQty) {
-                insufficientProducts.push(
-                  `${item.products?.name} (disponível: ${availableQty}, necessário: ${requiredQty})`
-                );
-              }
-            }
-
-            if (insufficientProducts.length > 0) {
-              toast.error(
-                `Estoque insuficiente para os produtos do kit: ${insufficientProducts.join(", ")}`
-              );
-              setIsSubmitting(false);
-              return;
-            }
+        } else {
+          if (selectedSerialIds.length === 0 || selectedSerialIds.length !== quantity) {
+            toast.error("Selecione os números de série das unidades movimentadas");
+            setIsSubmitting(false);
+            return;
           }
+
+          // Without an explicit origin, the units must all come from the same location
+          const selectedLocations = new Set(
+            serialsInStock
+              ?.filter((serial) => selectedSerialIds.includes(serial.id))
+              .map((serial) => serial.location_id)
+          );
+          if (!data.from_location_id && selectedLocations.size > 1) {
+            toast.error("As unidades selecionadas estão em locais diferentes. Informe o local de origem");
+            setIsSubmitting(false);
+            return;
+          }
+          serialLocationId = data.from_location_id || Array.from(selectedLocations)[0] || null;
         }
       }
 
-      const movementData = {
-        type: data.type,
-        product_id: data.item_type === "product" ? data.product_id : null,
-        kit_id: data.item_type === "kit" ? data.kit_id : null,
-        quantity: quantity,
-        from_location_id: data.from_location_id || null,
-        to_location_id: data.to_location_id || null,
-        reference: data.reference || null,
-        note: data.note || null,
-        created_by: user.id,
-        organization_id: organizationId,
-        custos_adicionais: data.type === "OUT" ? (custosAdicionais as any) : [],
-        preco_venda_usado: data.type === "OUT" ? parseFloat(data.preco_venda || "0") : 0,
-      };
-
-      if (movement) {
-        const { error } = await supabase
-          .from("movements")
-          .update(movementData)
-          .eq("id", movement.id);
-        if (error) throw error;
-        toast.success("Movimentação atualizada com sucesso");
-      } else {
-        const { error } = await supabase.from("movements").insert(movementData);
-        if (error) throw error;
-
-        // Create financial record for IN and OUT movements
-        if (data.type === "IN" || data.type === "OUT") {
-          let itemData = null;
-          let itemName = "";
-          let custoUnitario = 0;
-          let precoVenda = 0;
-
-          if (data.item_type === "product" && data.product_id) {
-            const { data: product } = await supabase
-              .from("products")
-              .select("name, custo_unitario, preco_venda")
-              .eq("id", data.product_id)
-              .single();
-            
-            if (product) {
-              itemData = product;
-              itemName = product.name;
-              custoUnitario = Number(product.custo_unitario) || 0;
-              precoVenda = data.type === "OUT" && data.preco_venda 
-                ? parseFloat(data.preco_venda) 
-                : Number(product.preco_venda) || 0;
-            }
-          } else if (data.item_type === "kit" && data.kit_id) {
-            const { data: kit } = await supabase
-              .from("kits")
-              .select(`
-                name,
-                preco_venda,
-                custos_adicionais,
-                kit_items (
-                  quantity,
-                  products (custo_unitario)
-                )
-              `)
-              .eq("id", data.kit_id)
-              .single();
-            
-            if (kit) {
-              itemData = kit;
-              itemName = kit.name;
-              precoVenda = data.type === "OUT" && data.preco_venda 
-                ? parseFloat(data.preco_venda) 
-                : Number(kit.preco_venda) || 0;
-
-              // Calculate kit cost from components
-              let kitCost = 0;
-              if (kit.kit_items) {
-                for (const item of kit.kit_items) {
-                  const productCost = Number(item.products?.custo_unitario) || 0;
-                  kitCost += productCost * Number(item.quantity);
-                }
-              }
-
-              // Add kit's additional costs (custos do cadastro do kit)
-              if (kit.custos_adicionais && Array.isArray(kit.custos_adicionais)) {
-                for (const custo of kit.custos_adicionais as unknown as CustoAdicional[]) {
-                  kitCost += Number(custo.valor) || 0;
-                }
-              }
-
-              custoUnitario = kitCost;
-            }
-          }
+      if (usesLots && data.type === "IN" && !data.lot_code?.trim()) {
+        toast.error("Informe o lote da entrada");
+        setIsSubmitting(false);
+        return;
+      }
 
-          if (itemData) {
-            // Adicionar custos adicionais da movimentação ao custo total
-            const custosAdicionaisTotal = custosAdicionais.reduce((sum, c) => sum + Number(c.valor || 0), 0);
-            const custoTotal = (custoUnitario * quantity) + custosAdicionaisTotal;
-            const valorTotal = data.type === "OUT" ? precoVenda * quantity : custoTotal;
-            const lucroLiquido = data.type === "OUT" ? (valorTotal - custoTotal) : 0;
-            const margemPercentual = data.type === "OUT" && valorTotal > 0 
-              ? (lucroLiquido / valorTotal) * 100 
-              : 0;
-
-            const financeiroData = {
-              tipo: data.type === "IN" ? "entrada" : "saida",
-              data: new Date().toISOString().split('T')[0],
-              descricao: `${data.type === "IN" ? "Entrada" : "Saída"} - ${itemName}${data.reference ? ` (${data.reference})` : ""}`,
-              produto_id: data.item_type === "product" ? data.product_id : data.kit_id,
-              quantidade: quantity,
-              custo_total: custoTotal,
-              preco_venda: precoVenda,
-              valor: valorTotal,
-              lucro_liquido: lucroLiquido,
-              margem_percentual: margemPercentual,
-              custos_adicionais: custosAdicionais as any,
-              user_id: user.id,
-              organization_id: organizationId,
-            };
-
-            await supabase.from("financeiro").insert(financeiroData);
-          }
+      if (usesLots && data.type === "OUT") {
+        const overAllocated = lotAllocations.find((a) => {
+          const lot = productLots?.find((l) => l.id === a.lot_id);
+          return !lot || a.quantity > Number(lot.quantity);
+        });
+        if (overAllocated) {
+          toast.error("A quantidade informada para um dos lotes é maior que o saldo do lote");
+          setIsSubmitting(false);
+          return;
+        }
+        if (allocatedQuantity > quantity || allocatedQuantity < Math.min(quantity, lotsAvailable)) {
+          toast.error(
+            `Distribua a quantidade entre os lotes. Alocado: ${allocatedQuantity}, Solicitado: ${quantity}`
+          );
+          setIsSubmitting(false);
+          return;
         }
+      }
+
+      // Assembled kits have no default location to fall back on
+      if (data.item_type === "kit" && data.assembled) {
+        const missingLocation =
+          (data.type !== "IN" && !data.from_location_id) || (data.type !== "OUT" && !data.to_location_id);
+        if (missingLocation) {
+          toast.error("Informe o local dos kits montados");
+          setIsSubmitting(false);
+          return;
+        }
+      }
 
-        toast.success("Movimentação registrada com sucesso");
+      const isInTransit = data.type === "TRANSFER" && data.item_type === "product" && !!data.in_transit && !correctionOf;
+
+      // Saldo, lotes, séries e financeiro são conferidos e gravados numa única transação no banco
+      const { error } = isInTransit
+        ? await supabase.rpc("dispatch_stock_transfer", {
+            _product_id: data.product_id as string,
+            _quantity: quantity,
+            _from_location_id: data.from_location_id || serialLocationId || undefined,
+            _to_location_id: data.to_location_id as string,
+            _reference: data.reference || undefined,
+            _notes: data.note || undefined,
+            _entered_unit: unitFactor !== 1 ? data.unit : undefined,
+            _entered_quantity: unitFactor !== 1 ? parseFloat(data.quantity) : undefined,
+            _serial_ids: usesSerials ? selectedSerialIds : [],
+          })
+        : await supabase.rpc("post_movement", {
+        _type: data.type,
+        _quantity: quantity,
+        _product_id: data.item_type === "product" ? data.product_id : undefined,
+        _kit_id: data.item_type === "kit" ? data.kit_id : undefined,
+        _assembled: data.item_type === "kit" && !!data.assembled,
+        _from_location_id: data.from_location_id || serialLocationId || undefined,
+        _to_location_id: data.to_location_id || undefined,
+        _reference: data.reference || undefined,
+        _note: data.note || undefined,
+        _unit_cost: data.type === "IN" && data.item_type === "product" && data.unit_cost
+          ? parseFloat(data.unit_cost) / unitFactor
+          : undefined,
+        _unit_price: data.type === "OUT" && data.preco_venda ? parseFloat(data.preco_venda) : undefined,
+        _custos_adicionais: data.type === "OUT" ? (custosAdicionais as unknown as Json) : [],
+        _entered_unit: unitFactor !== 1 ? data.unit : undefined,
+        _entered_quantity: unitFactor !== 1 ? parseFloat(data.quantity) : undefined,
+        _lot_code: usesLots && data.type === "IN" ? data.lot_code?.trim() : undefined,
+        _expiry_date: usesLots && data.type === "IN" && data.expiry_date ? data.expiry_date : undefined,
+        _lot_allocations: usesLots && data.type === "OUT" ? (lotAllocations as unknown as Json) : [],
+        _serial_numbers: usesSerials && data.type === "IN" ? serialNumbers : [],
+        _serial_ids: usesSerials && data.type !== "IN" ? selectedSerialIds : [],
+        _correction_of_id: correctionOf?.id ?? undefined,
+      });
+
+      if (error) {
+        const postingError = parsePostingError(error);
+        if (postingError.shortages.length > 0) {
+          toast.error(postingError.message, {
+            description: describeShortages(
+              postingError.shortages,
+              (locationId) => locations?.find((l) => l.id === locationId)?.name || "sem local definido"
+            ),
+          });
+          return;
+        }
+        throw new Error(postingError.message);
       }
+
+      toast.success(
+        isInTransit
+          ? "Transferência enviada. O destino confirma o recebimento quando a mercadoria chegar"
+          : "Movimentação registrada com sucesso"
+      );
       queryClient.invalidateQueries({ queryKey: ["products"] });
       queryClient.invalidateQueries({ queryKey: ["movements"] });
       queryClient.invalidateQueries({ queryKey: ["critical-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["product-lots"] });
+      queryClient.invalidateQueries({ queryKey: ["product-serials"] });
+      queryClient.invalidateQueries({ queryKey: ["expiring-lots"] });
       queryClient.invalidateQueries({ queryKey: ["financeiro"] });
+      queryClient.invalidateQueries({ queryKey: ["cost-layers"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-transfers"] });
       onOpenChange(false);
       form.reset();
     } catch (error: any) {
@@ -455,10 +624,10 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-lg">
         <DialogHeader>
-          <DialogTitle>{movement ? "Editar Movimentação" : "Nova Movimentação"}</DialogTitle>
+          <DialogTitle>{correctionOf ? "Corrigir Movimentação" : "Nova Movimentação"}</DialogTitle>
           <DialogDescription>
-            {movement
-              ? "Atualize os detalhes da movimentação"
+            {correctionOf
+              ? "Lance a movimentação correta no lugar da que foi estornada"
               : "Registre entrada, saída ou transferência de estoque"}
           </DialogDescription>
         </DialogHeader>
@@ -629,19 +798,84 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
               />
             )}
 
-            <FormField
-              control={form.control}
-              name="quantity"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Quantidade *</FormLabel>
-                  <FormControl>
-                    <Input type="number" step="1" min="1" placeholder="0" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
+            {itemType === "kit" && (
+              <FormField
+                control={form.control}
+                name="assembled"
+                render={({ field }) => (
+                  <FormItem className="flex items-start gap-3 space-y-0 rounded-lg border border-border/50 p-4">
+                    <FormControl>
+                      <Checkbox checked={!!field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Kits montados</FormLabel>
+                      <p className="text-xs text-muted-foreground">
+                        Movimenta unidades já montadas do kit em vez dos componentes
+                      </p>
+                    </div>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className={cn("grid gap-4", itemType === "product" && unitConversions.length > 0 && "grid-cols-2")}>
+              <FormField
+                control={form.control}
+                name="quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Quantidade *</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="1"
+                        min="1"
+                        placeholder="0"
+                        readOnly={usesSerials}
+                        {...field}
+                      />
+                    </FormControl>
+                    {unitFactor !== 1 && enteredQuantity && (
+                      <p className="text-xs text-muted-foreground">
+                        = {formatNumber(parseFloat(quantity || "0"))} {baseUnit}
+                      </p>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {itemType === "product" && unitConversions.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="unit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unidade</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === "BASE" ? "" : value)}
+                        value={field.value || "BASE"}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="BASE">{baseUnit}</SelectItem>
+                          {unitConversions.map((conversion) => (
+                            <SelectItem key={conversion.unit} value={conversion.unit}>
+                              {conversion.unit} ({formatNumber(Number(conversion.factor))} {baseUnit})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               )}
-            />
+            </div>
 
             {movementType === "OUT" && (
               <>
@@ -724,9 +958,15 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
                 {custoUnitario > 0 && quantity && (
                   <div className="rounded-lg border bg-muted/50 p-4 space-y-2">
                     <div className="flex items-center justify-between text-sm">
-                      <span className="text-muted-foreground">Custo Unitário dos Itens:</span>
+                      <span className="text-muted-foreground">
+                        Custo Unitário dos Itens{usesFifoPreview ? " (PEPS)" : ""}:
+                      </span>
                       <span className="font-medium">
-                        {formatCurrency(custoUnitario)}
+                        {formatCurrency(
+                          usesFifoPreview && parseFloat(quantity || '0') > 0
+                            ? custoItensPrevisto / parseFloat(quantity || '0')
+                            : custoUnitario
+                        )}
                       </span>
                     </div>
                     {custosAdicionais.length > 0 && (
@@ -741,7 +981,7 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
                       <span className="text-muted-foreground">Custo Total:</span>
                       <span className="font-bold">
                         {formatCurrency(
-                          (custoUnitario * parseFloat(quantity || '0')) + 
+                          custoItensPrevisto + 
                           custosAdicionais.reduce((sum, c) => sum + Number(c.valor || 0), 0)
                         )}
                       </span>
@@ -758,13 +998,13 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
                           <span className="text-muted-foreground">Lucro Estimado:</span>
                           <span className={`font-bold ${
                             (parseFloat(form.watch("preco_venda") || '0') * parseFloat(quantity || '0')) - 
-                            ((custoUnitario * parseFloat(quantity || '0')) + custosAdicionais.reduce((sum, c) => sum + Number(c.valor || 0), 0)) >= 0
+                            (custoItensPrevisto + custosAdicionais.reduce((sum, c) => sum + Number(c.valor || 0), 0)) >= 0
                               ? 'text-success' 
                               : 'text-destructive'
                           }`}>
                             {formatCurrency(
                               (parseFloat(form.watch("preco_venda") || '0') * parseFloat(quantity || '0')) - 
-                              ((custoUnitario * parseFloat(quantity || '0')) + custosAdicionais.reduce((sum, c) => sum + Number(c.valor || 0), 0))
+                              (custoItensPrevisto + custosAdicionais.reduce((sum, c) => sum + Number(c.valor || 0), 0))
                             )}
                           </span>
                         </div>
@@ -775,7 +1015,59 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
               </>
             )}
 
-            {movementType === "IN" && custoUnitario > 0 && quantity && (
+            {movementType === "IN" && itemType === "product" && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="unit_cost"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {unitFactor !== 1 ? `Custo por ${selectedUnit} (R$)` : "Custo Unitário da Entrada (R$)"}
+                      </FormLabel>
+                      <FormControl>
+                        <Input 
+                          type="number" 
+                          step="0.01" 
+                          min="0" 
+                          placeholder="0.00" 
+                          {...field} 
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {quantity && (
+                  <div className="rounded-lg border bg-muted/50 p-4 space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Valor Total:</span>
+                      <span className="font-bold text-primary">
+                        {formatCurrency(parseFloat(unitCost || '0') * parseFloat(enteredQuantity || '0'))}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between text-sm border-t pt-2">
+                      <span className="text-muted-foreground">Custo Médio Atual:</span>
+                      <span className="font-medium">{formatCurrency(custoUnitario)}</span>
+                    </div>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Novo Custo Médio:</span>
+                      <span className="font-bold">
+                        {formatCurrency(getNewAverageCost(
+                          estoqueAtual,
+                          custoUnitario,
+                          parseFloat(quantity || '0'),
+                          parseFloat(unitCost || '0') / unitFactor
+                        ))}
+                      </span>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+
+            {movementType === "IN" && itemType === "kit" && custoUnitario > 0 && quantity && (
               <div className="rounded-lg border bg-muted/50 p-4">
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Custo Unitário:</span>
@@ -815,7 +1107,7 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
                         <SelectContent>
                           {locations?.map((loc) => (
                             <SelectItem key={loc.id} value={loc.id}>
-                              {loc.name}
+                              {getLocationLabel(loc)}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -830,7 +1122,7 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
                   name="to_location_id"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Para (Local de Destino)</FormLabel>
+                      <FormLabel>Para (Local de Destino) *</FormLabel>
                       <Select onValueChange={field.onChange} defaultValue={field.value}>
                         <FormControl>
                           <SelectTrigger>
@@ -849,6 +1141,26 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
                     </FormItem>
                   )}
                 />
+
+                {itemType === "product" && !correctionOf && (
+                  <FormField
+                    control={form.control}
+                    name="in_transit"
+                    render={({ field }) => (
+                      <FormItem className="flex items-start gap-3 space-y-0 rounded-lg border border-border/50 p-4">
+                        <FormControl>
+                          <Checkbox checked={!!field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                        </FormControl>
+                        <div className="space-y-1 leading-none">
+                          <FormLabel>Em trânsito</FormLabel>
+                          <p className="text-xs text-muted-foreground">
+                            Sai da origem agora e só entra no destino quando o recebimento for confirmado lá
+                          </p>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                )}
               </>
             )}
 
@@ -879,6 +1191,76 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
               />
             )}
 
+            {usesLots && movementType === "IN" && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="lot_code"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lote *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="L2024-001" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="expiry_date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Validade</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {usesLots && movementType === "OUT" && (
+              <div className="space-y-2">
+                <FormLabel>Lotes (primeiro a vencer, primeiro a sair)</FormLabel>
+                {productLots && productLots.length > 0 ? (
+                  <div className="rounded-lg border divide-y">
+                    {productLots.map((lot) => (
+                      <div key={lot.id} className="flex items-center justify-between gap-3 p-2 text-sm">
+                        <div>
+                          <span className="font-mono font-medium">{lot.lot_code}</span>
+                          <span className={cn("ml-2 text-xs", isExpiringSoon(lot.expiry_date) ? "text-destructive" : "text-muted-foreground")}>
+                            {lot.expiry_date ? `Val.: ${format(parseISO(lot.expiry_date), "dd/MM/yyyy")}` : "Sem validade"}
+                          </span>
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            (disp.: {formatNumber(Number(lot.quantity))})
+                          </span>
+                        </div>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={Number(lot.quantity)}
+                          className="w-24 h-8"
+                          value={lotAllocations.find((a) => a.lot_id === lot.id)?.quantity ?? 0}
+                          onChange={(e) => setLotAllocation(lot.id, parseFloat(e.target.value) || 0)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">Nenhum lote com saldo para este produto</p>
+                )}
+                {quantity && allocatedQuantity < parseFloat(quantity) && (
+                  <p className="text-xs text-muted-foreground">
+                    Sem lote vinculado: {formatNumber(parseFloat(quantity) - allocatedQuantity)}
+                  </p>
+                )}
+              </div>
+            )}
+
             {movementType === "OUT" && (
               <FormField
                 control={form.control}
@@ -895,7 +1277,7 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
                       <SelectContent>
                         {locations?.map((loc) => (
                           <SelectItem key={loc.id} value={loc.id}>
-                            {loc.name}
+                            {getLocationLabel(loc)}
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -906,6 +1288,60 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
               />
             )}
 
+            {usesSerials && movementType === "IN" && (
+              <FormField
+                control={form.control}
+                name="serial_numbers"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Números de Série *</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="Um número de série por linha"
+                        rows={4}
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(e);
+                          const count = parseSerialNumbers(e.target.value).length;
+                          form.setValue("quantity", count > 0 ? String(count) : "");
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {usesSerials && movementType !== "IN" && (
+              <div className="space-y-2">
+                <FormLabel>Números de Série *</FormLabel>
+                {pickableSerials && pickableSerials.length > 0 ? (
+                  <div className="max-h-48 overflow-y-auto rounded-lg border divide-y">
+                    {pickableSerials.map((serial) => (
+                      <label
+                        key={serial.id}
+                        className="flex items-center gap-3 p-2 text-sm cursor-pointer hover:bg-muted/50"
+                      >
+                        <Checkbox
+                          checked={selectedSerialIds.includes(serial.id)}
+                          onCheckedChange={(checked) => toggleSerial(serial.id, checked === true)}
+                        />
+                        <span className="font-mono">{serial.serial_number}</span>
+                        <span className="ml-auto text-xs text-muted-foreground">
+                          {serial.location?.name || "Sem local"}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Nenhuma unidade em estoque{fromLocationId ? " neste local" : ""}
+                  </p>
+                )}
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="reference"
@@ -939,7 +1375,7 @@ export function MovementDialog({ open, onOpenChange, movement }: MovementDialogP
                 Cancelar
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? "Salvando..." : movement ? "Atualizar" : "Registrar"}
+                {isSubmitting ? "Salvando..." : correctionOf ? "Registrar Correção" : "Registrar"}
               </Button>
             </DialogFooter>
           </form>
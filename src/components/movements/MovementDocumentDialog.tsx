@@ -0,0 +1,621 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { format } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Plus, ScanBarcode, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { BarcodeScanInput, ScanResult } from "@/components/shared/BarcodeScanInput";
+import { ProductDialog } from "@/components/products/ProductDialog";
+import { useOrganization } from "@/hooks/useOrganization";
+import { formatCurrency } from "@/lib/formatters";
+import { resolveScanCode } from "@/lib/barcode";
+
+const NONE = "none";
+
+const documentSchema = z.object({
+  type: z.enum(["IN", "OUT", "TRANSFER"]),
+  reference: z.string().max(100).optional(),
+  document_date: z.string().min(1, "Data é obrigatória"),
+  from_location_id: z.string(),
+  to_location_id: z.string(),
+  note: z.string().optional(),
+}).refine((data) => data.type !== "TRANSFER" || (data.from_location_id !== NONE && data.to_location_id !== NONE), {
+  message: "Transferências exigem local de origem e de destino",
+  path: ["to_location_id"],
+}).refine((data) => data.type !== "TRANSFER" || data.from_location_id !== data.to_location_id, {
+  message: "Origem e destino devem ser diferentes",
+  path: ["to_location_id"],
+});
+
+type DocumentFormData = z.infer<typeof documentSchema>;
+
+interface DocumentLineDraft {
+  // "product:<id>" ou "kit:<id>"
+  item: string;
+  assembled: boolean;
+  quantity: string;
+  // Custo unitário nas entradas, preço de venda nas saídas
+  price: string;
+  lot_code: string;
+  expiry_date: string;
+  serial_numbers: string;
+}
+
+interface MovementDocumentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Opens with the barcode scanner input active
+  scanMode?: boolean;
+}
+
+const emptyLine = (): DocumentLineDraft => ({
+  item: "",
+  assembled: false,
+  quantity: "1",
+  price: "",
+  lot_code: "",
+  expiry_date: "",
+  serial_numbers: "",
+});
+
+const parseSerialNumbers = (value: string) =>
+  value.split(/[\n,;]/).map((s) => s.trim()).filter(Boolean);
+
+export function MovementDocumentDialog({ open, onOpenChange, scanMode = false }: MovementDocumentDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [documentLines, setDocumentLines] = useState<DocumentLineDraft[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [unknownCode, setUnknownCode] = useState<string | null>(null);
+  const [productDialogOpen, setProductDialogOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { data: organizationId } = useOrganization();
+
+  const { data: locations } = useQuery({
+    queryKey: ["locations"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("locations").select("*").eq("is_transit", false).order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: products } = useQuery({
+    queryKey: ["products", "document-lines", organizationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, sku, barcode, custo_unitario, preco_venda, track_lots, serialized")
+        .eq("organization_id", organizationId!)
+        .eq("active", true)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  const { data: kits } = useQuery({
+    queryKey: ["kits-with-price", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const { data, error } = await supabase
+        .from("kits")
+        .select("id, name, sku, preco_venda")
+        .eq("organization_id", organizationId)
+        .eq("active", true)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  const form = useForm<DocumentFormData>({
+    resolver: zodResolver(documentSchema),
+    defaultValues: {
+      type: "IN",
+      reference: "",
+      document_date: format(new Date(), "yyyy-MM-dd"),
+      from_location_id: NONE,
+      to_location_id: NONE,
+      note: "",
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset({
+      type: "IN",
+      reference: "",
+      document_date: format(new Date(), "yyyy-MM-dd"),
+      from_location_id: NONE,
+      to_location_id: NONE,
+      note: "",
+    });
+    setDocumentLines([emptyLine()]);
+    setIsScanning(scanMode);
+    setUnknownCode(null);
+  }, [open, scanMode, form]);
+
+  const documentType = form.watch("type");
+
+  const getProduct = (item: string) =>
+    item.startsWith("product:") ? products?.find((p) => `product:${p.id}` === item) : undefined;
+
+  const updateLine = (index: number, changes: Partial<DocumentLineDraft>) => {
+    setDocumentLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  // Entradas partem do custo médio atual; saídas, do preço de venda do cadastro
+  const getDefaultPrice = (item: string) => {
+    const [kind, id] = item.split(":");
+    if (kind === "kit") {
+      return documentType === "OUT" ? String(kits?.find((k) => k.id === id)?.preco_venda ?? 0) : "";
+    }
+    const product = products?.find((p) => p.id === id);
+    if (documentType === "IN") return String(product?.custo_unitario ?? 0);
+    if (documentType === "OUT") return String(product?.preco_venda ?? 0);
+    return "";
+  };
+
+  const handleItemChange = (index: number, item: string) => {
+    updateLine(index, { item, assembled: false, price: getDefaultPrice(item), lot_code: "", expiry_date: "", serial_numbers: "" });
+  };
+
+  // Each scan adds the item as a new line, or one more unit when it is already in the document
+  const addScannedItem = (item: string) => {
+    setDocumentLines((prev) => {
+      const index = prev.findIndex((line) => line.item === item && !line.assembled);
+      if (index >= 0) {
+        return prev.map((line, i) =>
+          i === index ? { ...line, quantity: String((Number(line.quantity) || 0) + 1) } : line
+        );
+      }
+      return placeLine(prev, { ...emptyLine(), item, price: getDefaultPrice(item) });
+    });
+  };
+
+  // Fills the first blank line, if any, instead of appending a new one
+  const placeLine = (lines: DocumentLineDraft[], line: DocumentLineDraft) => {
+    const blank = lines.findIndex((l) => !l.item);
+    return blank >= 0 ? lines.map((l, i) => (i === blank ? line : l)) : [...lines, line];
+  };
+
+  // O produto recém-cadastrado ainda não está na lista carregada, então o preço vem do próprio cadastro
+  const handleProductCreated = (product: Tables<"products">) => {
+    setUnknownCode(null);
+    const price = documentType === "IN"
+      ? String(product.custo_unitario ?? 0)
+      : documentType === "OUT" ? String(product.preco_venda ?? 0) : "";
+    setDocumentLines((prev) => placeLine(prev, { ...emptyLine(), item: `product:${product.id}`, price }));
+  };
+
+  const handleScan = (code: string): ScanResult => {
+    const match = resolveScanCode(code, products, kits);
+    if (!match) {
+      setUnknownCode(code);
+      return { ok: false, message: `Código ${code} não encontrado` };
+    }
+
+    setUnknownCode(null);
+    const item = `${match.kind}:${match.id}`;
+    addScannedItem(item);
+
+    const name = match.kind === "kit"
+      ? kits?.find((k) => k.id === match.id)?.name
+      : products?.find((p) => p.id === match.id)?.name;
+    const quantity = (Number(documentLines.find((line) => line.item === item && !line.assembled)?.quantity) || 0) + 1;
+    return { ok: true, message: `${name} • quantidade ${quantity}` };
+  };
+
+  const documentTotal = documentType === "TRANSFER"
+    ? 0
+    : documentLines.reduce((sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.price) || 0), 0);
+
+  const onSubmit = async (data: DocumentFormData) => {
+    if (!organizationId) return;
+
+    const filled = documentLines.filter((line) => line.item);
+    if (filled.length === 0) {
+      toast.error("Adicione pelo menos um produto ou kit ao documento");
+      return;
+    }
+
+    if (filled.some((line) => !(Number(line.quantity) > 0) || Number(line.price) < 0 || isNaN(Number(line.price)))) {
+      toast.error("Informe quantidades maiores que zero e preços válidos");
+      return;
+    }
+
+    for (const line of filled) {
+      const product = getProduct(line.item);
+      if (data.type === "IN" && product?.track_lots && !line.lot_code.trim()) {
+        toast.error(`Informe o lote de ${product.name}`);
+        return;
+      }
+      if (product?.serialized && parseSerialNumbers(line.serial_numbers).length !== Number(line.quantity)) {
+        toast.error(`Informe um número de série por unidade de ${product.name}`);
+        return;
+      }
+    }
+
+    if (data.type !== "IN" && filled.some((line) => line.assembled) && data.from_location_id === NONE) {
+      toast.error("Informe o local de origem dos kits montados");
+      return;
+    }
+
+    if (data.type !== "OUT" && filled.some((line) => line.assembled) && data.to_location_id === NONE) {
+      toast.error("Informe o local de destino dos kits montados");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.rpc("register_movement_document", {
+        _type: data.type,
+        _reference: data.reference?.trim() || undefined,
+        _document_date: data.document_date,
+        _from_location_id: data.from_location_id === NONE ? undefined : data.from_location_id,
+        _to_location_id: data.to_location_id === NONE ? undefined : data.to_location_id,
+        _note: data.note?.trim() || undefined,
+        _lines: filled.map((line) => {
+          const [kind, id] = line.item.split(":");
+          return {
+            product_id: kind === "product" ? id : null,
+            kit_id: kind === "kit" ? id : null,
+            assembled: kind === "kit" && line.assembled,
+            quantity: Number(line.quantity),
+            unit_cost: data.type === "IN" && line.price !== "" ? Number(line.price) : null,
+            unit_price: data.type === "OUT" ? Number(line.price) || 0 : 0,
+            lot_code: line.lot_code.trim() || null,
+            expiry_date: line.expiry_date || null,
+            serial_numbers: parseSerialNumbers(line.serial_numbers),
+          };
+        }),
+      });
+      if (error) throw error;
+
+      toast.success(`Documento registrado com ${filled.length} ${filled.length === 1 ? "linha" : "linhas"}`);
+      queryClient.invalidateQueries({ queryKey: ["movements"] });
+      queryClient.invalidateQueries({ queryKey: ["movement-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["kits"] });
+      queryClient.invalidateQueries({ queryKey: ["critical-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["product-lots"] });
+      queryClient.invalidateQueries({ queryKey: ["product-serials"] });
+      queryClient.invalidateQueries({ queryKey: ["expiring-lots"] });
+      queryClient.invalidateQueries({ queryKey: ["financeiro"] });
+      queryClient.invalidateQueries({ queryKey: ["cost-layers"] });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao registrar documento");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const locationSelect = (name: "from_location_id" | "to_location_id", label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {documentType !== "TRANSFER" && <SelectItem value={NONE}>Local padrão</SelectItem>}
+              {locations?.map((loc) => (
+                <SelectItem key={loc.id} value={loc.id}>
+                  {loc.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Novo Documento de Movimentação</DialogTitle>
+          <DialogDescription>
+            Várias linhas com o mesmo cabeçalho, gravadas de uma vez: entram todas ou nenhuma. Quantidades na unidade base.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col flex-1 overflow-hidden">
+            <div className="flex-1 overflow-y-auto space-y-4 pr-2">
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tipo *</FormLabel>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          form.setValue("from_location_id", NONE);
+                          form.setValue("to_location_id", NONE);
+                          setDocumentLines([emptyLine()]);
+                        }}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="IN">Entrada</SelectItem>
+                          <SelectItem value="OUT">Saída</SelectItem>
+                          <SelectItem value="TRANSFER">Transferência</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="reference"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Referência</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Nota fiscal, pedido..." {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="document_date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Data *</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {documentType !== "IN" && locationSelect("from_location_id", documentType === "TRANSFER" ? "Origem *" : "Origem")}
+                {documentType !== "OUT" && locationSelect("to_location_id", documentType === "TRANSFER" ? "Destino *" : "Destino")}
+              </div>
+
+              <div className="space-y-2 rounded-lg border p-3">
+                <div className="flex items-center gap-2">
+                  <Switch id="document-scan-mode" checked={isScanning} onCheckedChange={setIsScanning} />
+                  <Label htmlFor="document-scan-mode" className="flex items-center gap-1 cursor-pointer">
+                    <ScanBarcode className="h-4 w-4" />
+                    Modo leitura de código de barras
+                  </Label>
+                </div>
+                {isScanning && <BarcodeScanInput onScan={handleScan} />}
+                {isScanning && unknownCode && (
+                  <div className="flex items-center justify-between gap-2 rounded-md bg-muted/60 p-2 text-sm">
+                    <span>
+                      Nenhum produto ou kit com o código <span className="font-mono">{unknownCode}</span>
+                    </span>
+                    <Button type="button" size="sm" variant="outline" onClick={() => setProductDialogOpen(true)}>
+                      Cadastrar produto
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Linhas ({documentLines.filter((line) => line.item).length})</Label>
+                  <Button type="button" size="sm" onClick={() => setDocumentLines((prev) => [...prev, emptyLine()])}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Adicionar Linha
+                  </Button>
+                </div>
+
+                {documentLines.map((line, index) => {
+                  const product = getProduct(line.item);
+                  const isKit = line.item.startsWith("kit:");
+                  const needsLot = documentType === "IN" && !!product?.track_lots;
+                  return (
+                    <div key={index} className="border p-3 rounded-lg space-y-2">
+                      <div className="flex gap-2 items-center">
+                        <div className="flex-1">
+                          <Select value={line.item} onValueChange={(value) => handleItemChange(index, value)}>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Selecione um produto ou kit" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectGroup>
+                                <SelectLabel>Produtos</SelectLabel>
+                                {products?.map((p) => (
+                                  <SelectItem key={p.id} value={`product:${p.id}`}>
+                                    {p.name} ({p.sku})
+                                  </SelectItem>
+                                ))}
+                              </SelectGroup>
+                              {kits && kits.length > 0 && (
+                                <SelectGroup>
+                                  <SelectLabel>Kits</SelectLabel>
+                                  {kits.map((kit) => (
+                                    <SelectItem key={kit.id} value={`kit:${kit.id}`}>
+                                      {kit.name} ({kit.sku})
+                                    </SelectItem>
+                                  ))}
+                                </SelectGroup>
+                              )}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder="Qtd"
+                          className="w-24 text-right"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                        />
+                        {documentType !== "TRANSFER" && (
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            placeholder={documentType === "IN" ? "Custo unit." : "Preço unit."}
+                            title={documentType === "IN" && isKit ? "Kits entram pelo custo dos componentes" : undefined}
+                            disabled={documentType === "IN" && isKit}
+                            className="w-32 text-right"
+                            value={line.price}
+                            onChange={(e) => updateLine(index, { price: e.target.value })}
+                          />
+                        )}
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDocumentLines((prev) => prev.filter((_, i) => i !== index))}
+                          disabled={documentLines.length === 1}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+
+                      {isKit && (
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id={`document-line-assembled-${index}`}
+                            checked={line.assembled}
+                            onCheckedChange={(checked) => updateLine(index, { assembled: checked === true })}
+                          />
+                          <Label htmlFor={`document-line-assembled-${index}`} className="text-sm font-normal cursor-pointer">
+                            Kits montados
+                          </Label>
+                        </div>
+                      )}
+
+                      {needsLot && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <Input
+                            placeholder="Lote *"
+                            value={line.lot_code}
+                            onChange={(e) => updateLine(index, { lot_code: e.target.value })}
+                          />
+                          <Input
+                            type="date"
+                            title="Validade"
+                            value={line.expiry_date}
+                            onChange={(e) => updateLine(index, { expiry_date: e.target.value })}
+                          />
+                        </div>
+                      )}
+
+                      {product?.serialized && (
+                        <Textarea
+                          rows={2}
+                          placeholder="Números de série, um por linha ou separados por vírgula"
+                          value={line.serial_numbers}
+                          onChange={(e) => updateLine(index, { serial_numbers: e.target.value })}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+
+                {documentType !== "TRANSFER" && (
+                  <div className="flex justify-end text-sm">
+                    <span className="text-muted-foreground mr-2">Total do documento:</span>
+                    <span className="font-semibold tabular-nums">{formatCurrency(documentTotal)}</span>
+                  </div>
+                )}
+              </div>
+
+              <FormField
+                control={form.control}
+                name="note"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Observação</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Aplicada a todas as linhas" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter className="pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Registrando..." : "Registrar Documento"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+
+      <ProductDialog
+        open={productDialogOpen}
+        onOpenChange={setProductDialogOpen}
+        initialBarcode={unknownCode || undefined}
+        onCreated={handleProductCreated}
+      />
+    </Dialog>
+  );
+}
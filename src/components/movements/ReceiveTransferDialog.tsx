@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { formatNumber } from "@/lib/formatters";
+import { parsePostingError } from "@/lib/stock-posting";
+
+export interface PendingTransfer {
+  id: string;
+  quantity: number;
+  reference: string | null;
+  notes: string | null;
+  created_at: string;
+  to_location_id: string | null;
+  product: { name: string; sku: string; unit: string; serialized: boolean } | null;
+  from_location: { name: string } | null;
+  to_location: { name: string } | null;
+}
+
+interface ReceiveTransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transfer: PendingTransfer | null;
+}
+
+export function ReceiveTransferDialog({ open, onOpenChange, transfer }: ReceiveTransferDialogProps) {
+  const queryClient = useQueryClient();
+  const [quantity, setQuantity] = useState("");
+  const [notes, setNotes] = useState("");
+  const [receivedSerials, setReceivedSerials] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isSerialized = !!transfer?.product?.serialized;
+
+  // Unidades que saíram da origem nesta transferência
+  const { data: serials } = useQuery({
+    queryKey: ["transfer-serials", transfer?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("movement_serials")
+        .select("serial:product_serials(id, serial_number), movement:movements!inner(transfer_id)")
+        .eq("movement.transfer_id", transfer!.id);
+      if (error) throw error;
+      return data
+        .map((row) => row.serial)
+        .filter((serial): serial is NonNullable<typeof serial> => !!serial);
+    },
+    enabled: open && isSerialized,
+  });
+
+  useEffect(() => {
+    if (!open || !transfer) return;
+    setQuantity(String(transfer.quantity));
+    setNotes("");
+  }, [open, transfer]);
+
+  // Por padrão todas as unidades chegaram; o usuário desmarca as que faltaram
+  useEffect(() => {
+    if (open) setReceivedSerials((serials || []).map((s) => s.id));
+  }, [open, serials]);
+
+  const receivedQuantity = isSerialized ? receivedSerials.length : Number(quantity);
+  const shortfall = transfer ? Number(transfer.quantity) - receivedQuantity : 0;
+
+  const toggleSerial = (serialId: string) => {
+    setReceivedSerials((prev) =>
+      prev.includes(serialId) ? prev.filter((s) => s !== serialId) : [...prev, serialId]
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!transfer) return;
+
+    if (quantity === "" || !(receivedQuantity >= 0) || shortfall < 0) {
+      toast.error(`Informe uma quantidade recebida entre 0 e ${formatNumber(Number(transfer.quantity))}`);
+      return;
+    }
+
+    if (shortfall > 0 && !notes.trim()) {
+      toast.error("Descreva nas observações o motivo da diferença");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.rpc("receive_stock_transfer", {
+        _transfer_id: transfer.id,
+        _received_quantity: receivedQuantity,
+        _notes: notes.trim() || undefined,
+        _received_serial_ids: isSerialized ? receivedSerials : [],
+      });
+      if (error) throw new Error(parsePostingError(error).message);
+
+      toast.success(
+        shortfall > 0
+          ? `Recebimento confirmado. Perda de ${formatNumber(shortfall)} ${transfer.product?.unit || ""} registrada`
+          : "Recebimento confirmado"
+      );
+      queryClient.invalidateQueries({ queryKey: ["stock-transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["pending-transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+      queryClient.invalidateQueries({ queryKey: ["movements"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["product-lots"] });
+      queryClient.invalidateQueries({ queryKey: ["product-serials"] });
+      queryClient.invalidateQueries({ queryKey: ["cost-layers"] });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao confirmar recebimento");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Confirmar Recebimento</DialogTitle>
+          <DialogDescription>
+            {transfer?.product?.name}
+            {transfer?.reference && ` • ${transfer.reference}`} • {transfer?.from_location?.name || "-"} →{" "}
+            {transfer?.to_location?.name || "-"} • Enviado: {formatNumber(Number(transfer?.quantity || 0))}{" "}
+            {transfer?.product?.unit}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isSerialized ? (
+            <div className="space-y-2">
+              <Label>Unidades recebidas ({receivedSerials.length})</Label>
+              <div className="max-h-40 overflow-y-auto rounded-lg border p-3 space-y-2">
+                {serials?.map((serial) => (
+                  <label key={serial.id} className="flex items-center gap-2 text-sm font-mono">
+                    <Checkbox
+                      checked={receivedSerials.includes(serial.id)}
+                      onCheckedChange={() => toggleSerial(serial.id)}
+                    />
+                    {serial.serial_number}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="received-quantity">Quantidade recebida *</Label>
+              <Input
+                id="received-quantity"
+                type="number"
+                min="0"
+                max={transfer?.quantity}
+                step="0.01"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+          )}
+
+          {shortfall > 0 && (
+            <p className="text-sm text-warning">
+              {formatNumber(shortfall)} {transfer?.product?.unit} não chegaram e serão baixados do estoque como perda
+              em trânsito
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="receipt-notes">Observações{shortfall > 0 && " *"}</Label>
+            <Textarea id="receipt-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter className="pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !transfer}>
+            {isSubmitting ? "Confirmando..." : "Confirmar Recebimento"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
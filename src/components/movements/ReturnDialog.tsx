@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { RETURN_REASONS } from "@/constants";
+import { formatNumber } from "@/lib/formatters";
+
+const ORIGINAL = "original";
+
+export interface ReturnableMovement {
+  id: string;
+  type: string;
+  quantity: number;
+  reference: string | null;
+  products: { name: string; sku: string; serialized: boolean } | null;
+  kits: { name: string; sku: string } | null;
+}
+
+interface ReturnDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  movement: ReturnableMovement | null;
+}
+
+export function ReturnDialog({ open, onOpenChange, movement }: ReturnDialogProps) {
+  const queryClient = useQueryClient();
+  const [quantity, setQuantity] = useState("");
+  const [reasonCode, setReasonCode] = useState("");
+  const [locationId, setLocationId] = useState(ORIGINAL);
+  const [notes, setNotes] = useState("");
+  const [selectedSerials, setSelectedSerials] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isCustomerReturn = movement?.type === "OUT";
+
+  const { data: locations } = useQuery({
+    queryKey: ["locations"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("locations").select("*").eq("is_transit", false).order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: returned } = useQuery({
+    queryKey: ["movement-returns", movement?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("stock_returns")
+        .select("quantity")
+        .eq("original_movement_id", movement!.id);
+      if (error) throw error;
+      return data.reduce((sum, r) => sum + Number(r.quantity), 0);
+    },
+    enabled: open && !!movement,
+  });
+
+  // Números de série da movimentação original que ainda podem ser devolvidos
+  const { data: serials } = useQuery({
+    queryKey: ["movement-returnable-serials", movement?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("movement_serials")
+        .select("serial:product_serials(id, serial_number, status)")
+        .eq("movement_id", movement!.id);
+      if (error) throw error;
+
+      const expectedStatus = movement!.type === "OUT" ? "out" : "in_stock";
+      return data
+        .map((row) => row.serial)
+        .filter((serial): serial is NonNullable<typeof serial> => !!serial && serial.status === expectedStatus);
+    },
+    enabled: open && !!movement?.products?.serialized,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setQuantity("");
+    setReasonCode("");
+    setLocationId(ORIGINAL);
+    setNotes("");
+    setSelectedSerials([]);
+  }, [open, movement]);
+
+  const remaining = movement ? Number(movement.quantity) - (returned || 0) : 0;
+  const isSerialized = !!movement?.products?.serialized;
+
+  const toggleSerial = (serialNumber: string) => {
+    setSelectedSerials((prev) =>
+      prev.includes(serialNumber) ? prev.filter((s) => s !== serialNumber) : [...prev, serialNumber]
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!movement) return;
+
+    const returnQuantity = isSerialized ? selectedSerials.length : Number(quantity);
+    if (!(returnQuantity > 0)) {
+      toast.error(isSerialized ? "Selecione os números de série devolvidos" : "Informe a quantidade devolvida");
+      return;
+    }
+
+    if (returnQuantity > remaining) {
+      toast.error(`Quantidade maior que o saldo a devolver (${formatNumber(remaining)})`);
+      return;
+    }
+
+    if (!reasonCode) {
+      toast.error("Selecione o motivo da devolução");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.rpc("register_return", {
+        _movement_id: movement.id,
+        _quantity: returnQuantity,
+        _reason_code: reasonCode,
+        _location_id: locationId === ORIGINAL ? undefined : locationId,
+        _notes: notes.trim() || undefined,
+        _serial_numbers: isSerialized ? selectedSerials : [],
+      });
+      if (error) throw error;
+
+      toast.success("Devolução registrada");
+      queryClient.invalidateQueries({ queryKey: ["movements"] });
+      queryClient.invalidateQueries({ queryKey: ["movement-returns", movement.id] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["product-lots"] });
+      queryClient.invalidateQueries({ queryKey: ["product-serials"] });
+      queryClient.invalidateQueries({ queryKey: ["financeiro"] });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao registrar devolução");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const itemName = movement?.products?.name || movement?.kits?.name;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isCustomerReturn ? "Devolução de Cliente" : "Devolução ao Fornecedor"}</DialogTitle>
+          <DialogDescription>
+            {itemName}
+            {movement?.reference && ` • ${movement.reference}`} • Saldo a devolver: {formatNumber(remaining)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isSerialized ? (
+            <div className="space-y-2">
+              <Label>Números de série devolvidos ({selectedSerials.length})</Label>
+              <div className="max-h-40 overflow-y-auto rounded-lg border p-3 space-y-2">
+                {serials?.map((serial) => (
+                  <label key={serial.id} className="flex items-center gap-2 text-sm font-mono">
+                    <Checkbox
+                      checked={selectedSerials.includes(serial.serial_number)}
+                      onCheckedChange={() => toggleSerial(serial.serial_number)}
+                    />
+                    {serial.serial_number}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="return-quantity">Quantidade *</Label>
+              <Input
+                id="return-quantity"
+                type="number"
+                min="0"
+                max={remaining}
+                step="0.01"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Motivo *</Label>
+            <Select value={reasonCode} onValueChange={setReasonCode}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o motivo" />
+              </SelectTrigger>
+              <SelectContent>
+                {RETURN_REASONS.map((reason) => (
+                  <SelectItem key={reason.value} value={reason.value}>
+                    {reason.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{isCustomerReturn ? "Local de destino" : "Local de origem"}</Label>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ORIGINAL}>Mesmo local da movimentação original</SelectItem>
+                {locations?.map((loc) => (
+                  <SelectItem key={loc.id} value={loc.id}>
+                    <span className="flex items-center gap-2">
+                      {loc.name}
+                      {loc.is_quarantine && (
+                        <Badge variant="outline" className="text-warning border-warning/30">
+                          Quarentena
+                        </Badge>
+                      )}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isCustomerReturn && (
+              <p className="text-xs text-muted-foreground">
+                Envie para um local de quarentena os itens que precisam de inspeção antes de voltar à venda
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return-notes">Observações</Label>
+            <Textarea id="return-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter className="pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || remaining <= 0}>
+            {isSubmitting ? "Registrando..." : "Registrar Devolução"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { MOVEMENT_TYPES } from "@/constants";
+import { formatNumber } from "@/lib/formatters";
+
+export interface ReversibleMovement {
+  id: string;
+  type: string;
+  quantity: number;
+  created_at: string;
+  reference: string | null;
+  products: { name: string; sku: string } | null;
+  kits: { name: string; sku: string } | null;
+}
+
+interface ReverseMovementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  movement: ReversibleMovement | null;
+  /** Called after the reversal is recorded; correct tells whether a corrected copy should be entered next */
+  onReversed: (correct: boolean) => void;
+}
+
+export function ReverseMovementDialog({ open, onOpenChange, movement, onReversed }: ReverseMovementDialogProps) {
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+  const [correct, setCorrect] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setReason("");
+    setCorrect(false);
+  }, [open, movement]);
+
+  const handleSubmit = async () => {
+    if (!movement) return;
+
+    if (!reason.trim()) {
+      toast.error("Informe o motivo do estorno");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.rpc("reverse_movement", {
+        _movement_id: movement.id,
+        _reason: reason.trim(),
+      });
+      if (error) throw error;
+
+      toast.success("Movimentação estornada");
+      queryClient.invalidateQueries({ queryKey: ["movements"] });
+      queryClient.invalidateQueries({ queryKey: ["movement-links"] });
+      queryClient.invalidateQueries({ queryKey: ["movement-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["kits"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-balances"] });
+      queryClient.invalidateQueries({ queryKey: ["product-lots"] });
+      queryClient.invalidateQueries({ queryKey: ["product-serials"] });
+      queryClient.invalidateQueries({ queryKey: ["cost-layers"] });
+      queryClient.invalidateQueries({ queryKey: ["financeiro"] });
+      onReversed(correct);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao estornar movimentação");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const item = movement?.products || movement?.kits;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Estornar Movimentação</DialogTitle>
+          <DialogDescription>
+            Movimentações não são editadas nem excluídas: o estorno lança o efeito oposto e fica ligado à original
+          </DialogDescription>
+        </DialogHeader>
+
+        {movement && (
+          <div className="rounded-lg border bg-muted/50 p-3 text-sm space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{item?.name || "-"}</span>
+              <span className="text-xs text-muted-foreground font-mono">{item?.sku}</span>
+            </div>
+            <div className="flex items-center justify-between text-muted-foreground">
+              <span>
+                {MOVEMENT_TYPES.find((t) => t.value === movement.type)?.label || movement.type} de{" "}
+                {formatNumber(Number(movement.quantity))}
+                {movement.reference ? ` • ${movement.reference}` : ""}
+              </span>
+              <span>{format(new Date(movement.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reversal-reason">Motivo *</Label>
+            <Textarea
+              id="reversal-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ex.: quantidade digitada errada"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="reversal-correct"
+              checked={correct}
+              onCheckedChange={(checked) => setCorrect(checked === true)}
+            />
+            <Label htmlFor="reversal-correct" className="font-normal cursor-pointer">
+              Lançar a movimentação corrigida em seguida
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter className="pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? "Estornando..." : "Confirmar Estorno"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
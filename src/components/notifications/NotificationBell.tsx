@@ -1,4 +1,4 @@
-import { Bell } from "lucide-react";
+import { Bell, Truck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Popover,
@@ -19,10 +19,13 @@ import { useEffect, useState } from "react";
 import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
 import { ptBR } from "date-fns/locale";
+import { formatNumber } from "@/lib/formatters";
+import { PendingTransfer, ReceiveTransferDialog } from "@/components/movements/ReceiveTransferDialog";
 
 export const NotificationBell = () => {
   const queryClient = useQueryClient();
   const [selectedNotification, setSelectedNotification] = useState<any>(null);
+  const [receivingTransfer, setReceivingTransfer] = useState<PendingTransfer | null>(null);
 
   // Fetch notifications
   const { data: notifications = [], isLoading } = useQuery({
@@ -53,6 +56,41 @@ export const NotificationBell = () => {
     },
   });
 
+  // Transfers on their way to the user's work location
+  const { data: pendingTransfers = [] } = useQuery({
+    queryKey: ["pending-transfers"],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("location_id")
+        .eq("user_id", user.id)
+        .maybeSingle();
+      if (!profile?.location_id) return [];
+
+      const { data, error } = await supabase
+        .from("stock_transfers")
+        .select(`
+          id,
+          quantity,
+          reference,
+          notes,
+          created_at,
+          product:products(name, sku, unit, serialized),
+          from_location:locations!stock_transfers_from_location_id_fkey(name),
+          to_location:locations!stock_transfers_to_location_id_fkey(name)
+        `)
+        .eq("status", "in_transit")
+        .eq("to_location_id", profile.location_id)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data as PendingTransfer[];
+    },
+  });
+
   // Mark notification as read
   const markAsReadMutation = useMutation({
     mutationFn: async (notificationId: string) => {
@@ -109,6 +147,17 @@ export const NotificationBell = () => {
           });
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "stock_transfers",
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["pending-transfers"] });
+        }
+      )
       .subscribe();
 
     return () => {
@@ -117,6 +166,7 @@ export const NotificationBell = () => {
   }, [queryClient]);
 
   const unreadCount = notifications.filter((n) => !n.read).length;
+  const badgeCount = unreadCount + pendingTransfers.length;
 
   const getNotificationIcon = (type: string) => {
     switch (type) {
@@ -136,12 +186,12 @@ export const NotificationBell = () => {
       <PopoverTrigger asChild>
         <Button variant="ghost" size="icon" className="relative">
           <Bell className="h-5 w-5" />
-          {unreadCount > 0 && (
+          {badgeCount > 0 && (
             <Badge
               variant="destructive"
               className="absolute -top-1 -right-1 h-5 w-5 flex items-center justify-center p-0 text-xs"
             >
-              {unreadCount > 9 ? "9+" : unreadCount}
+              {badgeCount > 9 ? "9+" : badgeCount}
             </Badge>
           )}
         </Button>
@@ -160,6 +210,37 @@ export const NotificationBell = () => {
           )}
         </div>
         <ScrollArea className="h-[400px]">
+          {pendingTransfers.length > 0 && (
+            <div className="border-b">
+              <p className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                Transferências a receber
+              </p>
+              <div className="divide-y">
+                {pendingTransfers.map((transfer) => (
+                  <div key={transfer.id} className="flex items-start gap-3 p-4">
+                    <Truck className="h-5 w-5 mt-0.5 text-primary shrink-0" />
+                    <div className="flex-1 space-y-1">
+                      <p className="font-medium text-sm">{transfer.product?.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatNumber(Number(transfer.quantity))} {transfer.product?.unit} vindo de{" "}
+                        {transfer.from_location?.name || "-"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Enviado{" "}
+                        {formatDistanceToNow(new Date(transfer.created_at), {
+                          addSuffix: true,
+                          locale: ptBR,
+                        })}
+                      </p>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => setReceivingTransfer(transfer)}>
+                      Receber
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
           {isLoading ? (
             <div className="p-4 text-center text-muted-foreground">
               Carregando...
@@ -238,6 +319,12 @@ export const NotificationBell = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      <ReceiveTransferDialog
+        open={!!receivingTransfer}
+        onOpenChange={(open) => !open && setReceivingTransfer(null)}
+        transfer={receivingTransfer}
+      />
     </Popover>
   );
 };
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Button } from "@/components/ui/button";
+import { useOrganization } from "@/hooks/useOrganization";
+import { AbcBasis, useOrganizationSettings } from "@/hooks/useOrganizationSettings";
+
+interface ClassificationSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ABC_BASES: { value: AbcBasis; label: string; description: string }[] = [
+  {
+    value: "revenue",
+    label: "Faturamento",
+    description: "Valor das vendas lançadas no financeiro no período",
+  },
+  {
+    value: "consumption",
+    label: "Valor de consumo",
+    description: "Quantidade que saiu do estoque no período multiplicada pelo custo do produto",
+  },
+];
+
+export function ClassificationSettingsDialog({ open, onOpenChange }: ClassificationSettingsDialogProps) {
+  const queryClient = useQueryClient();
+  const { data: organizationId } = useOrganization();
+  const { data: settings } = useOrganizationSettings();
+  const [basis, setBasis] = useState<AbcBasis>("revenue");
+  const [aThreshold, setAThreshold] = useState("");
+  const [bThreshold, setBThreshold] = useState("");
+  const [xThreshold, setXThreshold] = useState("");
+  const [yThreshold, setYThreshold] = useState("");
+  const [periodDays, setPeriodDays] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !settings) return;
+    setBasis(settings.abc_basis);
+    setAThreshold(String(settings.abc_a_threshold));
+    setBThreshold(String(settings.abc_b_threshold));
+    setXThreshold(String(settings.xyz_x_threshold));
+    setYThreshold(String(settings.xyz_y_threshold));
+    setPeriodDays(String(settings.classification_period_days));
+  }, [open, settings]);
+
+  const handleSave = async () => {
+    if (!organizationId) return;
+
+    const a = Number(aThreshold);
+    const b = Number(bThreshold);
+    const x = Number(xThreshold);
+    const y = Number(yThreshold);
+    const days = Number(periodDays);
+
+    if (!(a > 0 && a < b && b <= 100)) {
+      toast.error("Os limites da curva ABC devem ficar entre 0 e 100%, com A menor que B");
+      return;
+    }
+    if (!(x > 0 && x < y)) {
+      toast.error("Os limites XYZ devem ser maiores que zero, com X menor que Y");
+      return;
+    }
+    if (!Number.isInteger(days) || days < 7) {
+      toast.error("O período deve ter pelo menos 7 dias");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.from("organization_settings").upsert({
+        organization_id: organizationId,
+        abc_basis: basis,
+        abc_a_threshold: a,
+        abc_b_threshold: b,
+        xyz_x_threshold: x,
+        xyz_y_threshold: y,
+        classification_period_days: days,
+      });
+      if (error) throw error;
+
+      // Os produtos são reclassificados na hora com os novos limites
+      const { data: classified, error: classifyError } = await supabase.rpc("classify_inventory");
+      if (classifyError) throw classifyError;
+
+      toast.success(`Limites salvos e ${classified} produto(s) reclassificado(s)`);
+      queryClient.invalidateQueries({ queryKey: ["organization-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["product-classification"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar limites");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Limites da Classificação</DialogTitle>
+          <DialogDescription>
+            Critérios usados para classificar os produtos nas curvas ABC e XYZ
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Base da curva ABC</Label>
+            <RadioGroup value={basis} onValueChange={(value) => setBasis(value as AbcBasis)} className="space-y-2">
+              {ABC_BASES.map((option) => (
+                <div key={option.value} className="flex items-center gap-3 rounded-lg border border-border/50 p-3">
+                  <RadioGroupItem value={option.value} id={`abc-basis-${option.value}`} />
+                  <div className="space-y-0.5">
+                    <Label htmlFor={`abc-basis-${option.value}`} className="font-medium cursor-pointer">
+                      {option.label}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">{option.description}</p>
+                  </div>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="abc-a-threshold">Classe A até (%)</Label>
+              <Input
+                id="abc-a-threshold"
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                value={aThreshold}
+                onChange={(e) => setAThreshold(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="abc-b-threshold">Classe B até (%)</Label>
+              <Input
+                id="abc-b-threshold"
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                value={bThreshold}
+                onChange={(e) => setBThreshold(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-3">
+            Participação acumulada no valor total, dos produtos de maior valor para os de menor valor
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="xyz-x-threshold">Classe X até (CV)</Label>
+              <Input
+                id="xyz-x-threshold"
+                type="number"
+                min="0"
+                step="0.05"
+                value={xThreshold}
+                onChange={(e) => setXThreshold(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="xyz-y-threshold">Classe Y até (CV)</Label>
+              <Input
+                id="xyz-y-threshold"
+                type="number"
+                min="0"
+                step="0.05"
+                value={yThreshold}
+                onChange={(e) => setYThreshold(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-3">
+            Coeficiente de variação das saídas semanais (desvio padrão ÷ média). Produtos sem saídas ficam em Z.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="classification-period">Período analisado (dias)</Label>
+            <Input
+              id="classification-period"
+              type="number"
+              min="7"
+              step="1"
+              value={periodDays}
+              onChange={(e) => setPeriodDays(e.target.value)}
+              className="w-28"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Salvando..." : "Salvar e Reclassificar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,139 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { useOrganization } from "@/hooks/useOrganization";
+import { formatNumber } from "@/lib/formatters";
+import { getDaysToExpiry } from "@/lib/lots";
+import { EXPIRY_WARNING_DAYS } from "@/constants";
+
+interface ExpiringLotsProps {
+  days?: number;
+}
+
+export const ExpiringLots = ({ days = EXPIRY_WARNING_DAYS }: ExpiringLotsProps) => {
+  const { data: organizationId } = useOrganization();
+
+  const { data: lots, isLoading } = useQuery({
+    queryKey: ["expiring-lots", organizationId, days],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const limitDate = new Date();
+      limitDate.setDate(limitDate.getDate() + days);
+
+      const { data, error } = await supabase
+        .from("product_lots")
+        .select(`
+          id,
+          lot_code,
+          expiry_date,
+          quantity,
+          product:products(name, sku, unit)
+        `)
+        .eq("organization_id", organizationId)
+        .gt("quantity", 0)
+        .not("expiry_date", "is", null)
+        .lte("expiry_date", format(limitDate, "yyyy-MM-dd"))
+        .order("expiry_date", { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  const getExpiryBadge = (expiryDate: string) => {
+    const daysLeft = getDaysToExpiry(expiryDate);
+    if (daysLeft < 0) {
+      return <Badge variant="destructive">Vencido</Badge>;
+    }
+    if (daysLeft <= 7) {
+      return <Badge variant="destructive">{daysLeft} dias</Badge>;
+    }
+    return <Badge className="bg-warning text-warning-foreground">{daysLeft} dias</Badge>;
+  };
+
+  return (
+    <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card overflow-hidden">
+      <CardHeader className="border-b border-border/50 bg-muted/30">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-warning" />
+            <CardTitle className="text-lg font-semibold">Lotes a Vencer</CardTitle>
+          </div>
+          {lots && lots.length > 0 && (
+            <Badge className="bg-warning text-warning-foreground text-xs font-semibold px-3 py-1">
+              {lots.length} {lots.length === 1 ? "lote" : "lotes"} em {days} dias
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/30 hover:bg-muted/30">
+                <TableHead className="font-semibold text-xs uppercase tracking-wider">SKU</TableHead>
+                <TableHead className="font-semibold text-xs uppercase tracking-wider">Produto</TableHead>
+                <TableHead className="font-semibold text-xs uppercase tracking-wider">Lote</TableHead>
+                <TableHead className="font-semibold text-xs uppercase tracking-wider text-center">Saldo</TableHead>
+                <TableHead className="font-semibold text-xs uppercase tracking-wider text-center">Validade</TableHead>
+                <TableHead className="font-semibold text-xs uppercase tracking-wider text-center">Vence em</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24">
+                    <div className="flex items-center justify-center">
+                      <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : lots && lots.length > 0 ? (
+                lots.map((lot) => (
+                  <TableRow key={lot.id} className="hover:bg-muted/20 transition-colors">
+                    <TableCell>
+                      <code className="text-xs bg-muted px-2 py-1 rounded font-mono">
+                        {lot.product?.sku}
+                      </code>
+                    </TableCell>
+                    <TableCell className="font-medium text-sm">{lot.product?.name}</TableCell>
+                    <TableCell className="font-mono text-sm">{lot.lot_code}</TableCell>
+                    <TableCell className="text-center tabular-nums">
+                      {formatNumber(Number(lot.quantity))} {lot.product?.unit}
+                    </TableCell>
+                    <TableCell className="text-center text-sm text-muted-foreground">
+                      {lot.expiry_date && format(parseISO(lot.expiry_date), "dd/MM/yyyy", { locale: ptBR })}
+                    </TableCell>
+                    <TableCell className="text-center">
+                      {lot.expiry_date && getExpiryBadge(lot.expiry_date)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center text-sm text-muted-foreground">
+                    Nenhum lote vencido ou a vencer nos próximos {days} dias
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -5,7 +5,7 @@ import * as z from "zod";
 import { supabase } from "@/integrations/supabase/client";
 import { useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
-import { Sparkles, Upload, X } from "lucide-react";
+import { Plus, Sparkles, Trash2, Upload, X } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -32,9 +32,22 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
 import { useQuery } from "@tanstack/react-query";
 import { useOrganization } from "@/hooks/useOrganization";
 import { IAPrecoIdealDialog } from "@/components/financeiro/IAPrecoIdealDialog";
+import { VariantAttributeRow, VariantGridEditor, VariantGridRow } from "@/components/products/VariantGridEditor";
+import {
+  buildVariantCombinations,
+  buildVariantSku,
+  formatVariantLabel,
+  getVariantKey,
+  parseVariantValues,
+  VariantAttribute,
+  VariantValues,
+} from "@/lib/variants";
+import { parsePostingError } from "@/lib/stock-posting";
+import type { Json, Tables } from "@/integrations/supabase/types";
 
 const productSchema = z.object({
   sku: z.string().optional(),
@@ -45,26 +58,52 @@ const productSchema = z.object({
   unit: z.string().min(1, "Unidade é obrigatória"),
   cost: z.string().optional(),
   min_quantity: z.string().min(0, "Quantidade mínima deve ser positiva"),
+  min_order_quantity: z.string().optional(),
   location_id: z.string().optional(),
   supplier_id: z.string().optional(),
   initial_quantity: z.string().optional(),
+  track_lots: z.boolean().optional(),
+  serialized: z.boolean().optional(),
+  purchase_unit: z.string().optional(),
 });
 
 type ProductFormData = z.infer<typeof productSchema>;
 
+interface ConversionRow {
+  unit: string;
+  factor: string;
+}
+
+interface LocationLevelRow {
+  location_id: string;
+  min_quantity: string;
+  max_quantity: string;
+}
+
 interface ProductDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   product?: any;
+  // Editing a parent product: its grid can gain new variations
+  parentProduct?: Tables<"parent_products"> | null;
+  // New product from an unknown scanned code: the code prefills the barcode
+  initialBarcode?: string;
+  onCreated?: (product: Tables<"products">) => void;
 }
 
-export function ProductDialog({ open, onOpenChange, product }: ProductDialogProps) {
+export function ProductDialog({ open, onOpenChange, product, parentProduct, initialBarcode, onCreated }: ProductDialogProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isCustomUnit, setIsCustomUnit] = useState(false);
   const [customUnit, setCustomUnit] = useState("");
   const [priceDialogOpen, setPriceDialogOpen] = useState(false);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(product?.image_url || null);
+  const [conversions, setConversions] = useState<ConversionRow[]>([]);
+  const [locationLevels, setLocationLevels] = useState<LocationLevelRow[]>([]);
+  const [hasVariants, setHasVariants] = useState(false);
+  const [attributeRows, setAttributeRows] = useState<VariantAttributeRow[]>([{ name: "", values: "" }]);
+  const [skuOverrides, setSkuOverrides] = useState<Record<string, string>>({});
+  const [excludedKeys, setExcludedKeys] = useState<string[]>([]);
   const queryClient = useQueryClient();
   const { data: organizationId } = useOrganization();
 
@@ -80,7 +119,7 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
   const { data: locations } = useQuery({
     queryKey: ["locations"],
     queryFn: async () => {
-      const { data, error } = await supabase.from("locations").select("*").order("name");
+      const { data, error } = await supabase.from("locations").select("*").eq("is_transit", false).order("name");
       if (error) throw error;
       return data;
     },
@@ -95,6 +134,67 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
     },
   });
 
+  const { data: savedConversions } = useQuery({
+    queryKey: ["product-unit-conversions", product?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("product_unit_conversions")
+        .select("unit, factor")
+        .eq("product_id", product.id)
+        .order("factor");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!product?.id,
+  });
+
+  useEffect(() => {
+    setConversions(
+      product && savedConversions
+        ? savedConversions.map((c) => ({ unit: c.unit, factor: String(c.factor) }))
+        : []
+    );
+  }, [product, savedConversions]);
+
+  const { data: savedLocationLevels } = useQuery({
+    queryKey: ["product-location-levels", product?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("product_location_levels")
+        .select("location_id, min_quantity, max_quantity")
+        .eq("product_id", product.id);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!product?.id,
+  });
+
+  useEffect(() => {
+    setLocationLevels(
+      product && savedLocationLevels
+        ? savedLocationLevels.map((l) => ({
+            location_id: l.location_id,
+            min_quantity: String(l.min_quantity),
+            max_quantity: l.max_quantity === null ? "" : String(l.max_quantity),
+          }))
+        : []
+    );
+  }, [product, savedLocationLevels]);
+
+  const { data: existingVariants } = useQuery({
+    queryKey: ["product-variants", parentProduct?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, sku, variant_attributes, category_id, unit, cost, custo_unitario, min_quantity, min_order_quantity, location_id, supplier_id, track_lots, serialized")
+        .eq("parent_product_id", parentProduct!.id)
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!parentProduct?.id,
+  });
+
   const form = useForm<ProductFormData>({
     resolver: zodResolver(productSchema),
     defaultValues: product
@@ -105,10 +205,14 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
           description: product.description || "",
           category_id: product.category_id || "",
           unit: product.unit,
-          cost: String(product.cost),
+          cost: String(product.custo_unitario ?? product.cost),
           min_quantity: String(product.min_quantity),
+          min_order_quantity: String(product.min_order_quantity ?? 0),
           location_id: product.location_id || "",
           supplier_id: product.supplier_id || "",
+          track_lots: product.track_lots ?? false,
+          serialized: product.serialized ?? false,
+          purchase_unit: product.purchase_unit || "",
         }
       : {
           sku: "",
@@ -119,14 +223,38 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
           unit: "UN",
           cost: "",
           min_quantity: "0",
+          min_order_quantity: "0",
           location_id: "",
           supplier_id: "",
           initial_quantity: "",
+          track_lots: false,
+          serialized: false,
+          purchase_unit: "",
         },
   });
 
   useEffect(() => {
-    if (product) {
+    if (parentProduct) {
+      // Shared fields come from the first variation and apply to the new ones
+      const reference = existingVariants?.[0];
+      form.reset({
+        sku: parentProduct.sku || "",
+        barcode: "",
+        name: parentProduct.name,
+        description: parentProduct.description || "",
+        category_id: parentProduct.category_id || "",
+        unit: reference?.unit || "UN",
+        cost: reference ? String(reference.custo_unitario ?? reference.cost) : "",
+        min_quantity: reference ? String(reference.min_quantity) : "0",
+        min_order_quantity: reference ? String(reference.min_order_quantity) : "0",
+        location_id: reference?.location_id || "",
+        supplier_id: reference?.supplier_id || "",
+        track_lots: reference?.track_lots ?? false,
+        serialized: reference?.serialized ?? false,
+        purchase_unit: "",
+      });
+      setImagePreview(null);
+    } else if (product) {
       form.reset({
         sku: product.sku,
         barcode: product.barcode || "",
@@ -134,31 +262,98 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
         description: product.description || "",
         category_id: product.category_id || "",
         unit: product.unit,
-        cost: String(product.cost),
+        cost: String(product.custo_unitario ?? product.cost),
         min_quantity: String(product.min_quantity),
+        min_order_quantity: String(product.min_order_quantity ?? 0),
         location_id: product.location_id || "",
         supplier_id: product.supplier_id || "",
+        track_lots: product.track_lots ?? false,
+        serialized: product.serialized ?? false,
+        purchase_unit: product.purchase_unit || "",
       });
       setImagePreview(product.image_url || null);
     } else {
       form.reset({
         sku: "",
-        barcode: "",
+        barcode: initialBarcode || "",
         name: "",
         description: "",
         category_id: "",
         unit: "UN",
         cost: "",
         min_quantity: "0",
+        min_order_quantity: "0",
         location_id: "",
         supplier_id: "",
+        track_lots: false,
+        serialized: false,
+        purchase_unit: "",
       });
       setImagePreview(null);
     }
     setIsCustomUnit(false);
     setCustomUnit("");
     setImageFile(null);
-  }, [product, form]);
+  }, [product, parentProduct, existingVariants, initialBarcode, form]);
+
+  useEffect(() => {
+    const attributes = (parentProduct?.attributes || []) as unknown as VariantAttribute[];
+    setHasVariants(!!parentProduct);
+    setAttributeRows(
+      attributes.length > 0
+        ? attributes.map((a) => ({ name: a.name, values: a.values.join(", ") }))
+        : [{ name: "", values: "" }]
+    );
+    setSkuOverrides({});
+    setExcludedKeys([]);
+  }, [parentProduct, open]);
+
+  // Lot-tracked and serialized products receive stock through IN movements,
+  // where lot/expiry and serial numbers are captured
+  const trackLots = form.watch("track_lots");
+  const serialized = form.watch("serialized");
+  const baseUnit = form.watch("unit");
+  const purchaseUnit = form.watch("purchase_unit");
+  const formSku = form.watch("sku");
+
+  // Grid of variations: existing ones keep their SKU, new ones get one generated from the parent SKU
+  const variantAttributes: VariantAttribute[] = attributeRows
+    .map((a) => ({ name: a.name.trim(), values: parseVariantValues(a.values) }))
+    .filter((a) => a.name && a.values.length > 0);
+
+  const existingVariantKeys = new Map(
+    (existingVariants || []).map((v) => [getVariantKey((v.variant_attributes || {}) as VariantValues), v])
+  );
+
+  const variantRows: VariantGridRow[] = hasVariants
+    ? buildVariantCombinations(variantAttributes).map((values) => {
+        const key = getVariantKey(values);
+        const existing = existingVariantKeys.get(key);
+        return {
+          key,
+          values,
+          sku: existing ? existing.sku : skuOverrides[key] ?? buildVariantSku(formSku || "", values),
+          existing: !!existing,
+          include: !!existing || !excludedKeys.includes(key),
+        };
+      })
+    : [];
+
+  const updateConversion = (index: number, changes: Partial<ConversionRow>) => {
+    setConversions((rows) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const updateLocationLevel = (index: number, changes: Partial<LocationLevelRow>) => {
+    setLocationLevels((rows) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const removeConversion = (index: number) => {
+    const removed = conversions[index];
+    setConversions((rows) => rows.filter((_, i) => i !== index));
+    if (removed && removed.unit === purchaseUnit) {
+      form.setValue("purchase_unit", "");
+    }
+  };
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -186,6 +381,86 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
     try {
       if (!organizationId) throw new Error("Organization not found");
 
+      // Conversões sem unidade são ignoradas; a unidade base não pode ser convertida nela mesma
+      const conversionRows = conversions
+        .map((c) => ({ unit: c.unit.trim().toUpperCase(), factor: parseFloat(c.factor) }))
+        .filter((c) => c.unit);
+
+      if (conversionRows.some((c) => !(c.factor > 0))) {
+        toast.error("Informe um fator maior que zero para cada unidade de conversão");
+        setIsSubmitting(false);
+        return;
+      }
+
+      if (conversionRows.some((c) => c.unit === data.unit)) {
+        toast.error("A unidade base do produto não pode ter conversão");
+        setIsSubmitting(false);
+        return;
+      }
+
+      if (new Set(conversionRows.map((c) => c.unit)).size !== conversionRows.length) {
+        toast.error("Cada unidade de conversão só pode aparecer uma vez");
+        setIsSubmitting(false);
+        return;
+      }
+
+      // Níveis sem local são ignorados; sem máximo, a reposição do local vai até o mínimo
+      const levelRows = locationLevels
+        .filter((l) => l.location_id)
+        .map((l) => ({
+          location_id: l.location_id,
+          min_quantity: parseFloat(l.min_quantity || "0"),
+          max_quantity: l.max_quantity.trim() ? parseFloat(l.max_quantity) : null,
+        }));
+
+      if (levelRows.some((l) => !(l.min_quantity >= 0) || (l.max_quantity !== null && !(l.max_quantity >= l.min_quantity)))) {
+        toast.error("O máximo de cada local deve ser maior ou igual ao mínimo");
+        setIsSubmitting(false);
+        return;
+      }
+
+      if (new Set(levelRows.map((l) => l.location_id)).size !== levelRows.length) {
+        toast.error("Cada local só pode ter um nível mínimo e máximo");
+        setIsSubmitting(false);
+        return;
+      }
+
+      const purchaseUnitValue = conversionRows.some((c) => c.unit === data.purchase_unit)
+        ? data.purchase_unit
+        : null;
+
+      // As conversões do produto são substituídas pelas linhas do formulário
+      const saveConversions = async (productId: string) => {
+        const { error: deleteError } = await supabase
+          .from("product_unit_conversions")
+          .delete()
+          .eq("product_id", productId);
+        if (deleteError) throw deleteError;
+
+        if (conversionRows.length === 0) return;
+
+        const { error: insertError } = await supabase
+          .from("product_unit_conversions")
+          .insert(conversionRows.map((c) => ({ ...c, product_id: productId, organization_id: organizationId })));
+        if (insertError) throw insertError;
+      };
+
+      // Os níveis por local do produto são substituídos pelas linhas do formulário
+      const saveLocationLevels = async (productId: string) => {
+        const { error: deleteError } = await supabase
+          .from("product_location_levels")
+          .delete()
+          .eq("product_id", productId);
+        if (deleteError) throw deleteError;
+
+        if (levelRows.length === 0) return;
+
+        const { error: insertError } = await supabase
+          .from("product_location_levels")
+          .insert(levelRows.map((l) => ({ ...l, product_id: productId, organization_id: organizationId })));
+        if (insertError) throw insertError;
+      };
+
       // Generate SKU if not provided
       let sku = data.sku?.trim() || "";
       if (!sku) {
@@ -228,8 +503,23 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
         return;
       }
 
+      if (hasVariants) {
+        const { data: existingParentSku } = await supabase
+          .from("parent_products")
+          .select("id")
+          .eq("sku", sku)
+          .eq("organization_id", organizationId)
+          .neq("id", parentProduct?.id || "00000000-0000-0000-0000-000000000000");
+
+        if (existingParentSku && existingParentSku.length > 0) {
+          toast.error("SKU já existe. Por favor, use um SKU diferente.");
+          setIsSubmitting(false);
+          return;
+        }
+      }
+
       // Validate barcode uniqueness if provided
-      if (data.barcode) {
+      if (data.barcode && !hasVariants) {
         const { data: existingBarcode } = await supabase
           .from("products")
           .select("id")
@@ -285,61 +575,163 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
         description: data.description || null,
         category_id: data.category_id || null,
         unit: data.unit,
-        cost: data.cost ? parseFloat(data.cost) : 0,
         quantity: product ? parseFloat(String(product.quantity)) : 0,
         min_quantity: parseFloat(data.min_quantity),
+        min_order_quantity: parseFloat(data.min_order_quantity || "0") || 0,
         location_id: data.location_id || null,
         supplier_id: data.supplier_id || null,
         organization_id: organizationId,
         image_url: imageUrl,
+        track_lots: data.track_lots ?? false,
+        serialized: data.serialized ?? false,
+        purchase_unit: purchaseUnitValue,
       };
 
-      if (product) {
+      if (hasVariants) {
+        const newVariants = variantRows
+          .filter((row) => row.include && !row.existing)
+          .map((row) => ({
+            values: row.values,
+            sku: (skuOverrides[row.key] ?? buildVariantSku(sku, row.values)).trim(),
+          }));
+
+        if (!variantRows.some((row) => row.include)) {
+          toast.error("Informe ao menos um atributo com valores para gerar as variações");
+          setIsSubmitting(false);
+          return;
+        }
+
+        const variantSkus = newVariants.map((v) => v.sku);
+        if (variantSkus.some((s) => !s) || new Set(variantSkus).size !== variantSkus.length) {
+          toast.error("Cada variação precisa de um SKU único");
+          setIsSubmitting(false);
+          return;
+        }
+
+        if (variantSkus.length > 0) {
+          const { data: takenSkus } = await supabase
+            .from("products")
+            .select("sku")
+            .in("sku", variantSkus)
+            .eq("organization_id", organizationId);
+
+          if (takenSkus && takenSkus.length > 0) {
+            toast.error(`SKU já existe: ${takenSkus.map((p) => p.sku).join(", ")}`);
+            setIsSubmitting(false);
+            return;
+          }
+        }
+
+        const parentData = {
+          name: data.name,
+          sku,
+          description: data.description || null,
+          category_id: data.category_id || null,
+          attributes: variantAttributes as unknown as Json,
+          organization_id: organizationId,
+        };
+
+        let parentId = parentProduct?.id as string | undefined;
+        if (parentProduct) {
+          const { error } = await supabase
+            .from("parent_products")
+            .update(parentData)
+            .eq("id", parentProduct.id);
+          if (error) throw error;
+        } else {
+          const { data: newParent, error } = await supabase
+            .from("parent_products")
+            .insert(parentData)
+            .select("id")
+            .single();
+          if (error) throw error;
+          parentId = newParent.id;
+        }
+
+        // Variações são produtos comuns ligados ao pai, sem estoque inicial
+        if (newVariants.length > 0) {
+          const initialCost = data.cost ? parseFloat(data.cost) : 0;
+          const { data: createdVariants, error } = await supabase
+            .from("products")
+            .insert(
+              newVariants.map((variant) => ({
+                ...productData,
+                sku: variant.sku,
+                barcode: null,
+                name: `${data.name} - ${formatVariantLabel(variant.values)}`,
+                quantity: 0,
+                cost: initialCost,
+                custo_unitario: initialCost,
+                parent_product_id: parentId,
+                variant_attributes: variant.values,
+              }))
+            )
+            .select("id");
+          if (error) throw error;
+
+          for (const variant of createdVariants || []) {
+            await saveConversions(variant.id);
+            await saveLocationLevels(variant.id);
+          }
+        }
+
+        toast.success(
+          parentProduct
+            ? `Produto atualizado${newVariants.length > 0 ? ` com ${newVariants.length} nova(s) variação(ões)` : ""}`
+            : `Produto criado com ${newVariants.length} variação(ões)`
+        );
+      } else if (product) {
+        // O custo de produtos existentes é o custo médio, recalculado a cada entrada
         const { error } = await supabase
           .from("products")
           .update(productData)
           .eq("id", product.id);
         if (error) throw error;
+        await saveConversions(product.id);
+        await saveLocationLevels(product.id);
         toast.success("Produto atualizado com sucesso");
       } else {
+        const initialCost = data.cost ? parseFloat(data.cost) : 0;
         const { data: newProduct, error } = await supabase
           .from("products")
-          .insert(productData)
+          .insert({ ...productData, cost: initialCost, custo_unitario: initialCost })
           .select()
           .single();
         
         if (error) throw error;
+        await saveConversions(newProduct.id);
+        await saveLocationLevels(newProduct.id);
 
         // Se houver quantidade inicial, criar movimentação de entrada
-        const initialQty = data.initial_quantity ? parseFloat(data.initial_quantity) : 0;
+        const initialQty = data.initial_quantity && !data.track_lots && !data.serialized ? parseFloat(data.initial_quantity) : 0;
         if (initialQty > 0 && newProduct) {
-          const { data: { user } } = await supabase.auth.getUser();
-          
-          const movementData = {
-            product_id: newProduct.id,
-            type: 'IN' as const,
-            quantity: initialQty,
-            to_location_id: data.location_id || null,
-            note: 'Entrada inicial ao cadastrar produto',
-            reference: sku,
-            organization_id: organizationId,
-            created_by: user?.id,
-          };
-
-          const { error: movementError } = await supabase
-            .from("movements")
-            .insert(movementData);
+          const { error: movementError } = await supabase.rpc("post_movement", {
+            _type: "IN",
+            _quantity: initialQty,
+            _product_id: newProduct.id,
+            _to_location_id: data.location_id || undefined,
+            _reference: sku,
+            _note: "Entrada inicial ao cadastrar produto",
+          });
 
           if (movementError) {
-            console.error("Erro ao criar movimentação inicial:", movementError);
-            toast.warning("Produto criado, mas não foi possível registrar a entrada inicial");
+            toast.warning("Produto criado, mas não foi possível registrar a entrada inicial", {
+              description: parsePostingError(movementError).message,
+            });
           }
         }
         
         toast.success("Produto criado com sucesso");
+        onCreated?.(newProduct);
       }
 
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product-unit-conversions"] });
+      queryClient.invalidateQueries({ queryKey: ["product-location-levels"] });
+      queryClient.invalidateQueries({ queryKey: ["critical-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["critical-stock-report"] });
+      queryClient.invalidateQueries({ queryKey: ["parent-products"] });
+      queryClient.invalidateQueries({ queryKey: ["product-variants"] });
       onOpenChange(false);
       form.reset();
     } catch (error: any) {
@@ -353,16 +745,18 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>{product ? "Editar Produto" : "Novo Produto"}</DialogTitle>
+          <DialogTitle>{product || parentProduct ? "Editar Produto" : "Novo Produto"}</DialogTitle>
           <DialogDescription>
-            {product
+            {parentProduct
+              ? "Atualize o produto pai e acrescente variações à grade"
+              : product
               ? "Atualize as informações do produto"
               : "Adicione um novo produto ao catálogo"}
           </DialogDescription>
         </DialogHeader>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <div className="grid grid-cols-2 gap-4">
+            <div className={hasVariants ? "grid gap-4" : "grid grid-cols-2 gap-4"}>
               <FormField
                 control={form.control}
                 name="sku"
@@ -376,19 +770,21 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
                   </FormItem>
                 )}
               />
-              <FormField
-                control={form.control}
-                name="barcode"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Código de Barras</FormLabel>
-                    <FormControl>
-                      <Input placeholder="7891234567890" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {!hasVariants && (
+                <FormField
+                  control={form.control}
+                  name="barcode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Código de Barras</FormLabel>
+                      <FormControl>
+                        <Input placeholder="7891234567890" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
             </div>
 
             <FormField
@@ -419,6 +815,39 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
               )}
             />
 
+            {!product && (
+              <div className="space-y-3 rounded-lg border border-border/50 p-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <p className="text-sm font-medium">Produto com variações (grade)</p>
+                    <p className="text-xs text-muted-foreground">
+                      Cada combinação de atributos vira uma variação com SKU e estoque próprios
+                    </p>
+                  </div>
+                  <Switch checked={hasVariants} onCheckedChange={setHasVariants} disabled={!!parentProduct} />
+                </div>
+                {hasVariants && (
+                  <>
+                    <VariantGridEditor
+                      attributes={attributeRows}
+                      onAttributesChange={setAttributeRows}
+                      rows={variantRows}
+                      onSkuChange={(key, value) => setSkuOverrides((current) => ({ ...current, [key]: value }))}
+                      onIncludeChange={(key, include) =>
+                        setExcludedKeys((current) =>
+                          include ? current.filter((k) => k !== key) : [...current, key]
+                        )
+                      }
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Unidade, custo, estoque mínimo, local e fornecedor abaixo valem para as novas variações.
+                      Variações já cadastradas são editadas individualmente.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
             <div className="space-y-2">
               <FormLabel>Imagem do Produto</FormLabel>
               {imagePreview ? (
@@ -560,10 +989,15 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
                 name="cost"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Custo (R$)</FormLabel>
+                    <FormLabel>{product ? "Custo Médio (R$)" : "Custo (R$)"}</FormLabel>
                     <FormControl>
-                      <Input type="number" step="0.01" min="0" placeholder="0.00" {...field} />
+                      <Input type="number" step="0.01" min="0" placeholder="0.00" readOnly={!!product} {...field} />
                     </FormControl>
+                    {product && (
+                      <p className="text-xs text-muted-foreground">
+                        Recalculado automaticamente a cada entrada
+                      </p>
+                    )}
                     <FormMessage />
                     {product && (
                       <Button
@@ -594,9 +1028,218 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="min_order_quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lote Mínimo de Compra</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1" min="0" {...field} />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground">
+                      Menor quantidade aceita pelo fornecedor por pedido
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
 
-            {!product && (
+            <div className="space-y-3 rounded-lg border border-border/50 p-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <p className="text-sm font-medium">Conversões de unidade</p>
+                  <p className="text-xs text-muted-foreground">
+                    Quantas unidades base ({baseUnit}) cabem em cada unidade alternativa. O estoque é sempre controlado em {baseUnit}.
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => setConversions((rows) => [...rows, { unit: "", factor: "" }])}
+                >
+                  <Plus className="h-3 w-3" />
+                  Adicionar
+                </Button>
+              </div>
+
+              {conversions.map((conversion, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">1</span>
+                  <Input
+                    placeholder="Ex: CX"
+                    value={conversion.unit}
+                    onChange={(e) => updateConversion(index, { unit: e.target.value.toUpperCase() })}
+                    maxLength={10}
+                    className="w-28"
+                  />
+                  <span className="text-sm text-muted-foreground">=</span>
+                  <Input
+                    type="number"
+                    step="any"
+                    min="0"
+                    placeholder="12"
+                    value={conversion.factor}
+                    onChange={(e) => updateConversion(index, { factor: e.target.value })}
+                    className="w-28"
+                  />
+                  <span className="text-sm text-muted-foreground">{baseUnit}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="ml-auto"
+                    onClick={() => removeConversion(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              {conversions.some((c) => c.unit.trim()) && (
+                <FormField
+                  control={form.control}
+                  name="purchase_unit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Unidade de compra</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === "BASE" ? "" : value)}
+                        value={field.value || "BASE"}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="z-50">
+                          <SelectItem value="BASE">{baseUnit} (unidade base)</SelectItem>
+                          {conversions
+                            .filter((c) => c.unit.trim() && c.unit !== baseUnit)
+                            .map((c) => (
+                              <SelectItem key={c.unit} value={c.unit}>
+                                {c.unit}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Sugerida nas entradas e usada nas exportações em unidade de compra
+                      </p>
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+
+            <div className="space-y-3 rounded-lg border border-border/50 p-4">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <p className="text-sm font-medium">Níveis por local</p>
+                  <p className="text-xs text-muted-foreground">
+                    Mínimo e máximo de cada local. Com níveis por local, o estoque crítico é avaliado pelo saldo de cada local em vez da Qtd. Mínima do produto.
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="gap-1"
+                  onClick={() => setLocationLevels((rows) => [...rows, { location_id: "", min_quantity: "", max_quantity: "" }])}
+                >
+                  <Plus className="h-3 w-3" />
+                  Adicionar
+                </Button>
+              </div>
+
+              {locationLevels.map((level, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={level.location_id}
+                    onValueChange={(value) => updateLocationLevel(index, { location_id: value })}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Local" />
+                    </SelectTrigger>
+                    <SelectContent className="z-50">
+                      {locations?.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="1"
+                    min="0"
+                    placeholder="Mín."
+                    value={level.min_quantity}
+                    onChange={(e) => updateLocationLevel(index, { min_quantity: e.target.value })}
+                    className="w-24"
+                  />
+                  <Input
+                    type="number"
+                    step="1"
+                    min="0"
+                    placeholder="Máx."
+                    value={level.max_quantity}
+                    onChange={(e) => updateLocationLevel(index, { max_quantity: e.target.value })}
+                    className="w-24"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setLocationLevels((rows) => rows.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="track_lots"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border border-border/50 p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel>Controlar lotes e validade</FormLabel>
+                    <p className="text-xs text-muted-foreground">
+                      Entradas registram lote e validade; saídas consomem primeiro os lotes que vencem antes
+                    </p>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="serialized"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border border-border/50 p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel>Controlar número de série</FormLabel>
+                    <p className="text-xs text-muted-foreground">
+                      Cada unidade é identificada; entradas registram os números e saídas indicam quais unidades saíram
+                    </p>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {!product && !hasVariants && !trackLots && !serialized && (
               <FormField
                 control={form.control}
                 name="initial_quantity"
@@ -627,7 +1270,7 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
                 name="location_id"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Local</FormLabel>
+                    <FormLabel>Local Padrão</FormLabel>
                     <Select onValueChange={field.onChange} defaultValue={field.value}>
                       <FormControl>
                         <SelectTrigger>
@@ -678,7 +1321,7 @@ export function ProductDialog({ open, onOpenChange, product }: ProductDialogProp
                 Cancelar
               </Button>
               <Button type="submit" disabled={isSubmitting}>
-                {isSubmitting ? "Salvando..." : product ? "Atualizar" : "Criar"}
+                {isSubmitting ? "Salvando..." : product || parentProduct ? "Atualizar" : "Criar"}
               </Button>
             </DialogFooter>
           </form>
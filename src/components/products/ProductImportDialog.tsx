@@ -0,0 +1,433 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { AlertTriangle, CheckCircle2, Download, FileUp, XCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useOrganization } from "@/hooks/useOrganization";
+import {
+  ColumnMapping,
+  downloadImportErrorReport,
+  guessMapping,
+  IMPORT_FIELDS,
+  ImportLookups,
+  ImportMode,
+  ImportRowResult,
+  readSpreadsheet,
+  SpreadsheetData,
+  validateImportRows,
+} from "@/lib/product-import";
+import { parsePostingError } from "@/lib/stock-posting";
+
+const NONE = "none";
+const INSERT_CHUNK_SIZE = 200;
+// Códigos por consulta ao buscar SKUs e códigos de barras já cadastrados
+const LOOKUP_CHUNK_SIZE = 200;
+
+type Step = "upload" | "mapping" | "preview" | "done";
+
+interface ProductImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ProductImportDialog({ open, onOpenChange }: ProductImportDialogProps) {
+  const queryClient = useQueryClient();
+  const { data: organizationId } = useOrganization();
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [spreadsheet, setSpreadsheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [mode, setMode] = useState<ImportMode>("create");
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [isValidating, setIsValidating] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setStep("upload");
+    setFileName("");
+    setSpreadsheet(null);
+    setMapping({});
+    setMode("create");
+    setResults([]);
+    setProgress(null);
+  }, [open]);
+
+  // Cadastros usados para resolver categoria, fornecedor e local por nome ou código
+  const { data: lookups, isLoading: isLoadingLookups } = useQuery({
+    queryKey: ["product-import-lookups", organizationId],
+    queryFn: async () => {
+      const [categories, suppliers, locations] = await Promise.all([
+        supabase.from("categories").select("id, name").eq("organization_id", organizationId!),
+        supabase.from("suppliers").select("id, name, cnpj").eq("organization_id", organizationId!),
+        supabase.from("locations").select("id, name, code").eq("organization_id", organizationId!).eq("is_transit", false),
+      ]);
+      for (const result of [categories, suppliers, locations]) {
+        if (result.error) throw result.error;
+      }
+      return {
+        categories: categories.data || [],
+        suppliers: suppliers.data || [],
+        locations: locations.data || [],
+      };
+    },
+    enabled: open && !!organizationId,
+  });
+
+  // Só os produtos que compartilham SKU ou código de barras com a planilha, em lotes
+  const fetchConflictingProducts = async (column: "sku" | "barcode", codes: string[]) => {
+    const found: ImportLookups["products"] = [];
+    for (let i = 0; i < codes.length; i += LOOKUP_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, sku, barcode")
+        .eq("organization_id", organizationId!)
+        .in(column, codes.slice(i, i + LOOKUP_CHUNK_SIZE));
+      if (error) throw error;
+      found.push(...(data || []));
+    }
+    return found;
+  };
+
+  const summary = useMemo(() => ({
+    create: results.filter((r) => r.action === "create").length,
+    update: results.filter((r) => r.action === "update").length,
+    invalid: results.filter((r) => r.errors.length > 0).length,
+    warnings: results.filter((r) => r.warnings.length > 0).length,
+  }), [results]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.headers.length === 0 || data.rows.length === 0) {
+        toast.error("A planilha está vazia ou sem linha de cabeçalho");
+        return;
+      }
+      setFileName(file.name);
+      setSpreadsheet(data);
+      setMapping(guessMapping(data.headers));
+      setStep("mapping");
+    } catch (error) {
+      console.error("Erro ao ler planilha:", error);
+      toast.error("Não foi possível ler o arquivo. Use CSV ou XLSX");
+    }
+  };
+
+  const handleValidate = async () => {
+    if (!spreadsheet || !lookups || !organizationId) return;
+
+    const missing = IMPORT_FIELDS.filter((f) => f.required && !mapping[f.key]);
+    if (missing.length > 0) {
+      toast.error(`Associe as colunas obrigatórias: ${missing.map((f) => f.label).join(", ")}`);
+      return;
+    }
+
+    const columnValues = (header: string | undefined) =>
+      header ? [...new Set(spreadsheet.rows.map((row) => row[header]).filter(Boolean))] : [];
+
+    setIsValidating(true);
+    try {
+      const [bySku, byBarcode] = await Promise.all([
+        fetchConflictingProducts("sku", columnValues(mapping.sku)),
+        fetchConflictingProducts("barcode", columnValues(mapping.barcode)),
+      ]);
+      const products = [...new Map([...bySku, ...byBarcode].map((p) => [p.id, p])).values()];
+
+      setResults(validateImportRows(spreadsheet, mapping, { ...lookups, products }, mode));
+      setStep("preview");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao validar planilha");
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const failRow = (row: ImportRowResult, message: string) => {
+    row.errors.push(message);
+    row.action = null;
+  };
+
+  const handleCommit = async () => {
+    if (!organizationId) return;
+
+    // Cópia mutável: falhas do banco entram no relatório junto com as da validação
+    const rows = results.map((r) => ({ ...r, errors: [...r.errors], warnings: [...r.warnings] }));
+    const creates = rows.filter((r) => r.action === "create");
+    const updates = rows.filter((r) => r.action === "update");
+    const total = creates.length + updates.length;
+    let done = 0;
+    setProgress(0);
+
+    const toInsert = (row: ImportRowResult): TablesInsert<"products"> => ({
+      ...row.values,
+      sku: row.sku,
+      name: row.values.name || row.sku,
+      organization_id: organizationId,
+      cost: row.values.cost ?? 0,
+      custo_unitario: row.values.cost ?? 0,
+    });
+
+    const created: { row: ImportRowResult; id: string }[] = [];
+    for (let i = 0; i < creates.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = creates.slice(i, i + INSERT_CHUNK_SIZE);
+      const { data, error } = await supabase.from("products").insert(chunk.map(toInsert)).select("id, sku");
+
+      if (!error && data) {
+        data.forEach((p) => {
+          const row = chunk.find((r) => r.sku === p.sku);
+          if (row) created.push({ row, id: p.id });
+        });
+      } else {
+        // O lote inteiro foi recusado: uma linha por vez para apontar qual falhou
+        for (const row of chunk) {
+          const single = await supabase.from("products").insert(toInsert(row)).select("id").single();
+          if (single.error) failRow(row, single.error.message);
+          else created.push({ row, id: single.data.id });
+        }
+      }
+      done += chunk.length;
+      setProgress(Math.round((done / total) * 100));
+    }
+
+    for (const row of updates) {
+      const { error } = await supabase.from("products").update(row.values).eq("id", row.productId!);
+      if (error) failRow(row, error.message);
+      done += 1;
+      setProgress(Math.round((done / total) * 100));
+    }
+
+    // Saldos iniciais entram pelo lançamento, como no cadastro manual; uma falha só afeta a própria linha
+    for (const { row, id } of created.filter(({ row }) => row.initialQuantity > 0)) {
+      const { error } = await supabase.rpc("post_movement", {
+        _type: "IN",
+        _quantity: row.initialQuantity,
+        _product_id: id,
+        _to_location_id: row.values.location_id || undefined,
+        _unit_cost: row.values.cost ?? undefined,
+        _reference: row.sku,
+        _note: "Entrada inicial por importação de planilha",
+      });
+      if (error) {
+        row.warnings.push(`Produto criado, mas não foi possível registrar a entrada inicial: ${parsePostingError(error).message}`);
+      }
+    }
+
+    setResults(rows);
+    setProgress(null);
+    setStep("done");
+
+    const updated = updates.filter((r) => r.action === "update").length;
+    toast.success(`${created.length} produto(s) criado(s) e ${updated} atualizado(s)`);
+
+    queryClient.invalidateQueries({ queryKey: ["products"] });
+    queryClient.invalidateQueries({ queryKey: ["product-stats"] });
+    queryClient.invalidateQueries({ queryKey: ["product-import-lookups"] });
+    queryClient.invalidateQueries({ queryKey: ["movements"] });
+    queryClient.invalidateQueries({ queryKey: ["stock-balances"] });
+  };
+
+  const isCommitting = progress !== null;
+  const importable = summary.create + summary.update;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isCommitting && onOpenChange(value)}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar Produtos</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Envie uma planilha CSV ou XLSX com uma linha de cabeçalho"}
+            {step === "mapping" && `${fileName} • ${spreadsheet?.rows.length} linha(s). Associe as colunas aos campos do produto`}
+            {step === "preview" && "Confira o resultado da validação. Nada foi gravado ainda"}
+            {step === "done" && "Importação concluída"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <label
+            htmlFor="product-import-file"
+            className="flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-border p-10 cursor-pointer hover:bg-muted/40 transition-colors"
+          >
+            <FileUp className="h-10 w-10 text-muted-foreground" />
+            <span className="text-sm text-muted-foreground text-center">
+              Clique para escolher o arquivo. A planilha exportada em Produtos pode ser usada como modelo
+            </span>
+            <Input
+              id="product-import-file"
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {step === "mapping" && spreadsheet && (
+          <div className="space-y-6">
+            <div className="grid gap-3 sm:grid-cols-2">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-xs">
+                    {field.label}
+                    {field.required && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] || NONE}
+                    onValueChange={(value) =>
+                      setMapping((prev) => ({ ...prev, [field.key]: value === NONE ? undefined : value }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Não importar</SelectItem>
+                      {spreadsheet.headers.map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>SKUs já cadastrados</Label>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="gap-2">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="create" id="import-mode-create" />
+                  <Label htmlFor="import-mode-create" className="font-normal cursor-pointer">
+                    Apenas criar: linhas com SKU existente são rejeitadas
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="upsert" id="import-mode-upsert" />
+                  <Label htmlFor="import-mode-upsert" className="font-normal cursor-pointer">
+                    Criar ou atualizar pelo SKU: células vazias mantêm o valor atual
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+          </div>
+        )}
+
+        {(step === "preview" || step === "done") && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge className="bg-success/10 text-success border-success/20">
+                {step === "done" ? "Criados" : "Criar"}: {summary.create}
+              </Badge>
+              <Badge className="bg-primary/10 text-primary border-primary/20">
+                {step === "done" ? "Atualizados" : "Atualizar"}: {summary.update}
+              </Badge>
+              <Badge variant="destructive" className="bg-destructive/10 text-destructive border-destructive/20">
+                Com erro: {summary.invalid}
+              </Badge>
+              {summary.warnings > 0 && (
+                <Badge variant="outline" className="text-warning border-warning/30">
+                  Com aviso: {summary.warnings}
+                </Badge>
+              )}
+            </div>
+
+            {isCommitting && <Progress value={progress} />}
+
+            <div className="max-h-[360px] overflow-y-auto rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Linha</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Resultado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell className="tabular-nums text-muted-foreground">{row.line}</TableCell>
+                      <TableCell className="font-mono text-sm">{row.sku || "-"}</TableCell>
+                      <TableCell>{row.name || "-"}</TableCell>
+                      <TableCell className="text-sm">
+                        {row.errors.length > 0 ? (
+                          <div className="flex items-start gap-1 text-destructive">
+                            <XCircle className="h-4 w-4 shrink-0 mt-0.5" />
+                            <span>{row.errors.join("; ")}</span>
+                          </div>
+                        ) : (
+                          <div className="flex items-start gap-1 text-success">
+                            <CheckCircle2 className="h-4 w-4 shrink-0 mt-0.5" />
+                            <span>
+                              {row.action === "create" ? "Novo produto" : "Atualização"}
+                              {row.initialQuantity > 0 && ` • entrada inicial de ${row.initialQuantity}`}
+                            </span>
+                          </div>
+                        )}
+                        {row.warnings.length > 0 && (
+                          <div className="flex items-start gap-1 text-warning">
+                            <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                            <span>{row.warnings.join("; ")}</span>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="pt-4 gap-2">
+          {(step === "preview" || step === "done") && (summary.invalid > 0 || summary.warnings > 0) && (
+            <Button variant="outline" className="gap-2 sm:mr-auto" onClick={() => downloadImportErrorReport(results)}>
+              <Download className="h-4 w-4" />
+              Relatório de erros
+            </Button>
+          )}
+          {step === "mapping" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                Voltar
+              </Button>
+              <Button onClick={handleValidate} disabled={isLoadingLookups || !lookups || isValidating}>
+                {isValidating ? "Validando..." : "Validar"}
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("mapping")} disabled={isCommitting}>
+                Voltar
+              </Button>
+              <Button onClick={handleCommit} disabled={isCommitting || importable === 0}>
+                {isCommitting ? "Importando..." : `Importar ${importable} produto(s)`}
+              </Button>
+            </>
+          )}
+          {step === "done" && <Button onClick={() => onOpenChange(false)}>Fechar</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,12 @@
+import { Badge } from "@/components/ui/badge";
+
+interface SerialStatusBadgeProps {
+  status: string;
+}
+
+export const SerialStatusBadge = ({ status }: SerialStatusBadgeProps) => {
+  if (status === "in_stock") {
+    return <Badge variant="default" className="bg-green-500/10 text-green-700 dark:text-green-400">Em estoque</Badge>;
+  }
+  return <Badge variant="secondary">Baixado</Badge>;
+};
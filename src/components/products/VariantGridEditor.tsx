@@ -0,0 +1,111 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { formatVariantLabel, VariantValues } from "@/lib/variants";
+
+export interface VariantAttributeRow {
+  name: string;
+  // Comma-separated values as typed, e.g. "P, M, G"
+  values: string;
+}
+
+export interface VariantGridRow {
+  key: string;
+  values: VariantValues;
+  sku: string;
+  existing: boolean;
+  include: boolean;
+}
+
+interface VariantGridEditorProps {
+  attributes: VariantAttributeRow[];
+  onAttributesChange: (attributes: VariantAttributeRow[]) => void;
+  rows: VariantGridRow[];
+  onSkuChange: (key: string, sku: string) => void;
+  onIncludeChange: (key: string, include: boolean) => void;
+}
+
+export function VariantGridEditor({
+  attributes,
+  onAttributesChange,
+  rows,
+  onSkuChange,
+  onIncludeChange,
+}: VariantGridEditorProps) {
+  const updateAttribute = (index: number, changes: Partial<VariantAttributeRow>) => {
+    onAttributesChange(attributes.map((attribute, i) => (i === index ? { ...attribute, ...changes } : attribute)));
+  };
+
+  const newCount = rows.filter((row) => !row.existing && row.include).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {attributes.map((attribute, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              placeholder="Atributo (ex: Tamanho)"
+              value={attribute.name}
+              onChange={(e) => updateAttribute(index, { name: e.target.value })}
+              className="w-40"
+            />
+            <Input
+              placeholder="Valores separados por vírgula (ex: P, M, G)"
+              value={attribute.values}
+              onChange={(e) => updateAttribute(index, { values: e.target.value })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onAttributesChange(attributes.filter((_, i) => i !== index))}
+              disabled={attributes.length === 1}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          onClick={() => onAttributesChange([...attributes, { name: "", values: "" }])}
+        >
+          <Plus className="h-3 w-3" />
+          Adicionar atributo
+        </Button>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="rounded-lg border border-border/50 overflow-hidden">
+          <div className="flex items-center justify-between px-3 py-2 bg-muted/30 border-b border-border/50 text-xs text-muted-foreground">
+            <span>{rows.length} combinações</span>
+            <span>{newCount} nova(s) variação(ões) a criar</span>
+          </div>
+          <div className="max-h-64 overflow-y-auto divide-y divide-border/50">
+            {rows.map((row) => (
+              <div key={row.key} className="flex items-center gap-3 px-3 py-2">
+                <Checkbox
+                  checked={row.include}
+                  disabled={row.existing}
+                  onCheckedChange={(checked) => onIncludeChange(row.key, checked === true)}
+                />
+                <span className="text-sm font-medium w-32 truncate">{formatVariantLabel(row.values)}</span>
+                <Input
+                  value={row.sku}
+                  onChange={(e) => onSkuChange(row.key, e.target.value)}
+                  disabled={row.existing || !row.include}
+                  className="h-8 font-mono text-xs"
+                />
+                {row.existing && <Badge variant="secondary">Cadastrada</Badge>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { useOrganization } from "@/hooks/useOrganization";
+import { formatCurrency } from "@/lib/formatters";
+
+const NONE = "none";
+
+const orderSchema = z.object({
+  supplier_id: z.string().min(1, "Fornecedor é obrigatório"),
+  expected_date: z.string().optional(),
+  location_id: z.string(),
+  notes: z.string().optional(),
+});
+
+type OrderFormData = z.infer<typeof orderSchema>;
+
+export interface PurchaseOrderLineDraft {
+  product_id: string;
+  quantity: string;
+  unit_cost: string;
+}
+
+interface PurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Pedido em rascunho sendo editado, com as linhas atuais
+  order?: Tables<"purchase_orders"> | null;
+  lines?: PurchaseOrderLineDraft[];
+  onSaved?: (orderId: string) => void;
+}
+
+export function PurchaseOrderDialog({ open, onOpenChange, order, lines, onSaved }: PurchaseOrderDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [orderLines, setOrderLines] = useState<PurchaseOrderLineDraft[]>([]);
+  const queryClient = useQueryClient();
+  const { data: organizationId } = useOrganization();
+
+  const { data: suppliers } = useQuery({
+    queryKey: ["suppliers"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("suppliers").select("*").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: locations } = useQuery({
+    queryKey: ["locations"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("locations").select("*").eq("is_transit", false).order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: products } = useQuery({
+    queryKey: ["products-with-cost", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, sku, custo_unitario")
+        .eq("organization_id", organizationId)
+        .eq("active", true)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  const form = useForm<OrderFormData>({
+    resolver: zodResolver(orderSchema),
+    defaultValues: {
+      supplier_id: "",
+      expected_date: "",
+      location_id: NONE,
+      notes: "",
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset({
+      supplier_id: order?.supplier_id || "",
+      expected_date: order?.expected_date || "",
+      location_id: order?.location_id || NONE,
+      notes: order?.notes || "",
+    });
+    setOrderLines(lines && lines.length > 0 ? lines : [{ product_id: "", quantity: "1", unit_cost: "" }]);
+  }, [open, order, lines, form]);
+
+  const updateLine = (index: number, changes: Partial<PurchaseOrderLineDraft>) => {
+    setOrderLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleProductChange = (index: number, productId: string) => {
+    const product = products?.find((p) => p.id === productId);
+    updateLine(index, {
+      product_id: productId,
+      unit_cost: orderLines[index].unit_cost || String(product?.custo_unitario ?? 0),
+    });
+  };
+
+  const orderTotal = orderLines.reduce(
+    (sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.unit_cost) || 0),
+    0
+  );
+
+  const onSubmit = async (data: OrderFormData) => {
+    if (!organizationId) return;
+
+    const filled = orderLines.filter((line) => line.product_id);
+    if (filled.length === 0) {
+      toast.error("Adicione pelo menos um produto ao pedido");
+      return;
+    }
+
+    if (filled.some((line) => !(Number(line.quantity) > 0) || Number(line.unit_cost) < 0 || isNaN(Number(line.unit_cost)))) {
+      toast.error("Informe quantidades maiores que zero e custos válidos");
+      return;
+    }
+
+    const productIds = filled.map((line) => line.product_id);
+    if (new Set(productIds).size !== productIds.length) {
+      toast.error("Cada produto só pode aparecer uma vez no pedido");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const orderData = {
+        supplier_id: data.supplier_id,
+        expected_date: data.expected_date || null,
+        location_id: data.location_id === NONE ? null : data.location_id,
+        notes: data.notes || null,
+      };
+
+      let orderId = order?.id;
+
+      if (orderId) {
+        const { error } = await supabase.from("purchase_orders").update(orderData).eq("id", orderId);
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase
+          .from("purchase_order_lines")
+          .delete()
+          .eq("order_id", orderId);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error("Usuário não autenticado");
+
+        const { data: created, error } = await supabase
+          .from("purchase_orders")
+          .insert({ ...orderData, organization_id: organizationId, created_by: user.id })
+          .select("id")
+          .single();
+        if (error) throw error;
+        orderId = created.id;
+      }
+
+      const { error: linesError } = await supabase.from("purchase_order_lines").insert(
+        filled.map((line) => ({
+          organization_id: organizationId,
+          order_id: orderId!,
+          product_id: line.product_id,
+          quantity: Number(line.quantity),
+          unit_cost: Number(line.unit_cost) || 0,
+        }))
+      );
+      if (linesError) throw linesError;
+
+      toast.success(order ? "Pedido atualizado" : "Pedido de compra criado");
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["purchase-order", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["purchase-order-lines", orderId] });
+      onOpenChange(false);
+      onSaved?.(orderId!);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar pedido de compra");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{order ? `Editar Pedido ${order.number}` : "Novo Pedido de Compra"}</DialogTitle>
+          <DialogDescription>
+            Quantidades na unidade base do produto, com o custo negociado por unidade
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col flex-1 overflow-hidden">
+            <div className="flex-1 overflow-y-auto space-y-4 pr-2">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="supplier_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fornecedor *</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Selecione o fornecedor" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {suppliers?.map((sup) => (
+                            <SelectItem key={sup.id} value={sup.id}>
+                              {sup.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="expected_date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Previsão de entrega</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="location_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Local de destino</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Local padrão</SelectItem>
+                        {locations?.map((loc) => (
+                          <SelectItem key={loc.id} value={loc.id}>
+                            {loc.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Itens do Pedido</Label>
+                  <Button
+                    type="button"
+                    size="sm"
+                    onClick={() => setOrderLines((prev) => [...prev, { product_id: "", quantity: "1", unit_cost: "" }])}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Adicionar Produto
+                  </Button>
+                </div>
+
+                {orderLines.map((line, index) => (
+                  <div key={index} className="flex gap-2 items-center border p-3 rounded-lg">
+                    <div className="flex-1">
+                      <Select value={line.product_id} onValueChange={(value) => handleProductChange(index, value)}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione um produto" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {products?.map((product) => (
+                            <SelectItem key={product.id} value={product.id}>
+                              {product.name} ({product.sku})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Qtd"
+                      className="w-24 text-right"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Custo unit."
+                      className="w-32 text-right"
+                      value={line.unit_cost}
+                      onChange={(e) => updateLine(index, { unit_cost: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setOrderLines((prev) => prev.filter((_, i) => i !== index))}
+                      disabled={orderLines.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                <div className="flex justify-end text-sm">
+                  <span className="text-muted-foreground mr-2">Total do pedido:</span>
+                  <span className="font-semibold tabular-nums">{formatCurrency(orderTotal)}</span>
+                </div>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Observações</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Condições de pagamento, frete..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter className="pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Salvando..." : "Salvar Rascunho"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,22 @@
+import { Badge } from "@/components/ui/badge";
+
+interface PurchaseOrderStatusBadgeProps {
+  status: string;
+}
+
+export const PurchaseOrderStatusBadge = ({ status }: PurchaseOrderStatusBadgeProps) => {
+  switch (status) {
+    case "draft":
+      return <Badge variant="outline">Rascunho</Badge>;
+    case "sent":
+      return <Badge className="bg-primary text-white">Enviado</Badge>;
+    case "partial":
+      return <Badge className="bg-warning text-white">Parcialmente recebido</Badge>;
+    case "received":
+      return <Badge className="bg-success text-white">Recebido</Badge>;
+    case "cancelled":
+      return <Badge variant="secondary">Cancelado</Badge>;
+    default:
+      return <Badge>{status}</Badge>;
+  }
+};
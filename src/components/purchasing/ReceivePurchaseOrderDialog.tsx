@@ -0,0 +1,296 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { formatCurrency, formatNumber } from "@/lib/formatters";
+
+const NONE = "none";
+
+export interface ReceivableLine {
+  id: string;
+  quantity: number;
+  received_quantity: number;
+  unit_cost: number;
+  product: {
+    name: string;
+    sku: string;
+    unit: string;
+    track_lots: boolean;
+    serialized: boolean;
+  } | null;
+}
+
+interface LineReceipt {
+  quantity: string;
+  lot_code: string;
+  expiry_date: string;
+  serial_numbers: string;
+}
+
+interface ReceivePurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  orderNumber: string;
+  defaultLocationId: string | null;
+  lines: ReceivableLine[];
+}
+
+const parseSerials = (input: string) =>
+  input
+    .split(/[\n,;]+/)
+    .map((serial) => serial.trim())
+    .filter(Boolean);
+
+export function ReceivePurchaseOrderDialog({
+  open,
+  onOpenChange,
+  orderId,
+  orderNumber,
+  defaultLocationId,
+  lines,
+}: ReceivePurchaseOrderDialogProps) {
+  const queryClient = useQueryClient();
+  const [receipts, setReceipts] = useState<Record<string, LineReceipt>>({});
+  const [locationId, setLocationId] = useState(NONE);
+  const [createPayable, setCreatePayable] = useState(false);
+  const [dueDate, setDueDate] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const pendingLines = lines.filter((line) => Number(line.quantity) > Number(line.received_quantity));
+
+  const { data: locations } = useQuery({
+    queryKey: ["locations"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("locations").select("*").eq("is_transit", false).order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Sugere receber todo o saldo de cada item
+  useEffect(() => {
+    if (!open) return;
+    const initial: Record<string, LineReceipt> = {};
+    lines.forEach((line) => {
+      const remaining = Number(line.quantity) - Number(line.received_quantity);
+      if (remaining > 0) {
+        initial[line.id] = { quantity: String(remaining), lot_code: "", expiry_date: "", serial_numbers: "" };
+      }
+    });
+    setReceipts(initial);
+    setLocationId(defaultLocationId || NONE);
+    setCreatePayable(false);
+    setDueDate("");
+  }, [open, lines, defaultLocationId]);
+
+  const updateReceipt = (lineId: string, changes: Partial<LineReceipt>) => {
+    setReceipts((prev) => ({ ...prev, [lineId]: { ...prev[lineId], ...changes } }));
+  };
+
+  const receiptTotal = pendingLines.reduce(
+    (sum, line) => sum + (Number(receipts[line.id]?.quantity) || 0) * Number(line.unit_cost),
+    0
+  );
+
+  const handleReceive = async () => {
+    const payload = pendingLines
+      .map((line) => {
+        const receipt = receipts[line.id];
+        return {
+          line_id: line.id,
+          quantity: Number(receipt?.quantity) || 0,
+          lot_code: receipt?.lot_code.trim() || null,
+          expiry_date: receipt?.expiry_date || null,
+          serial_numbers: line.product?.serialized ? parseSerials(receipt?.serial_numbers || "") : [],
+        };
+      })
+      .filter((receipt) => receipt.quantity > 0);
+
+    if (payload.length === 0) {
+      toast.error("Informe ao menos uma quantidade recebida");
+      return;
+    }
+
+    if (createPayable && !dueDate) {
+      toast.error("Informe o vencimento da conta a pagar");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { data: total, error } = await supabase.rpc("receive_purchase_order", {
+        _order_id: orderId,
+        _receipts: payload,
+        _location_id: locationId === NONE ? undefined : locationId,
+        _create_payable: createPayable,
+        _due_date: createPayable ? dueDate : undefined,
+      });
+      if (error) throw error;
+
+      toast.success(`Recebimento registrado: ${formatCurrency(Number(total) || 0)}`);
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["purchase-order", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["purchase-order-lines", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["purchase-order-receipts", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["movements"] });
+      queryClient.invalidateQueries({ queryKey: ["financeiro"] });
+      queryClient.invalidateQueries({ queryKey: ["contas"] });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao receber pedido");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Receber Pedido {orderNumber}</DialogTitle>
+          <DialogDescription>
+            Cada item recebido gera uma entrada no estoque pelo custo negociado e um lançamento no financeiro
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-2">
+          {pendingLines.map((line) => {
+            const remaining = Number(line.quantity) - Number(line.received_quantity);
+            const receipt = receipts[line.id];
+            if (!receipt) return null;
+
+            return (
+              <div key={line.id} className="space-y-3 border p-3 rounded-lg">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium">{line.product?.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {line.product?.sku} • Saldo {formatNumber(remaining)} {line.product?.unit} •{" "}
+                      {formatCurrency(Number(line.unit_cost))} / {line.product?.unit}
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={remaining}
+                    step="0.01"
+                    className="w-28 text-right"
+                    value={receipt.quantity}
+                    onChange={(e) => updateReceipt(line.id, { quantity: e.target.value })}
+                  />
+                </div>
+
+                {line.product?.track_lots && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Lote *</Label>
+                      <Input
+                        value={receipt.lot_code}
+                        onChange={(e) => updateReceipt(line.id, { lot_code: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Validade</Label>
+                      <Input
+                        type="date"
+                        value={receipt.expiry_date}
+                        onChange={(e) => updateReceipt(line.id, { expiry_date: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {line.product?.serialized && (
+                  <div className="space-y-1">
+                    <Label className="text-xs">
+                      Números de série ({parseSerials(receipt.serial_numbers).length} de{" "}
+                      {formatNumber(Number(receipt.quantity) || 0)})
+                    </Label>
+                    <Textarea
+                      placeholder="Um número de série por linha"
+                      value={receipt.serial_numbers}
+                      onChange={(e) => updateReceipt(line.id, { serial_numbers: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Local de destino</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Local padrão</SelectItem>
+                  {locations?.map((loc) => (
+                    <SelectItem key={loc.id} value={loc.id}>
+                      {loc.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end justify-end text-sm pb-2">
+              <span className="text-muted-foreground mr-2">Total recebido:</span>
+              <span className="font-semibold tabular-nums">{formatCurrency(receiptTotal)}</span>
+            </div>
+          </div>
+
+          <div className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="create-payable">Gerar conta a pagar</Label>
+                <p className="text-xs text-muted-foreground">
+                  Registra o valor recebido em Contas a Pagar para o fornecedor
+                </p>
+              </div>
+              <Switch id="create-payable" checked={createPayable} onCheckedChange={setCreatePayable} />
+            </div>
+            {createPayable && (
+              <div className="space-y-1">
+                <Label className="text-xs">Vencimento *</Label>
+                <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleReceive} disabled={isSubmitting}>
+            {isSubmitting ? "Registrando..." : "Confirmar Recebimento"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,7 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { TrendingDown, TrendingUp, ArrowRightLeft, Package, FileText, Clock } from "lucide-react";
+import { TrendingDown, TrendingUp, ArrowRightLeft, SlidersHorizontal, Package, FileText, Clock } from "lucide-react";
 import { useOrganization } from "@/hooks/useOrganization";
 import { formatCurrency } from "@/lib/formatters";
 
@@ -108,6 +108,8 @@ export const MovementsReportTable = ({ dateFrom, dateTo }: MovementsReportTableP
         return "bg-red-100 text-red-800 hover:bg-red-100";
       case "TRANSFER":
         return "bg-blue-100 text-blue-800 hover:bg-blue-100";
+      case "ADJUSTMENT":
+        return "bg-yellow-100 text-yellow-800 hover:bg-yellow-100";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -121,6 +123,8 @@ export const MovementsReportTable = ({ dateFrom, dateTo }: MovementsReportTableP
         return <TrendingDown className="h-4 w-4" />;
       case "TRANSFER":
         return <ArrowRightLeft className="h-4 w-4" />;
+      case "ADJUSTMENT":
+        return <SlidersHorizontal className="h-4 w-4" />;
       default:
         return null;
     }
@@ -134,6 +138,8 @@ export const MovementsReportTable = ({ dateFrom, dateTo }: MovementsReportTableP
         return "Saída";
       case "TRANSFER":
         return "Transferência";
+      case "ADJUSTMENT":
+        return "Ajuste";
       default:
         return type;
     }
@@ -276,7 +282,7 @@ export const MovementsReportTable = ({ dateFrom, dateTo }: MovementsReportTableP
                                 <ArrowRightLeft className="h-3 w-3" />
                                 <span className="font-medium">{movement.to_location?.name || "-"}</span>
                               </div>
-                            ) : movement.type === "IN" ? (
+                            ) : movement.type === "IN" || movement.type === "ADJUSTMENT" ? (
                               <span className="font-medium">{movement.to_location?.name || "-"}</span>
                             ) : (
                               <span className="text-muted-foreground">{movement.from_location?.name || "-"}</span>
@@ -0,0 +1,225 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Download, FileText, Hourglass } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useOrganization } from "@/hooks/useOrganization";
+import { cn } from "@/lib/utils";
+import { formatCurrency, formatNumber } from "@/lib/formatters";
+import {
+  DEAD_STOCK_BUCKET,
+  EMPTY_AGING_FILTERS,
+  filterStockAging,
+  getStockAging,
+  StockAgingFilters,
+  StockAgingLine,
+  summarizeStockAging,
+} from "@/lib/stock-aging";
+import { exportStockAgingReportExcel, exportStockAgingReportPDF } from "@/lib/report-exports";
+import { fromBaseQuantity, getDisplayUnit, UnitMode } from "@/lib/units";
+
+interface StockAgingReportTableProps {
+  unitMode: UnitMode;
+}
+
+// Opções de filtro a partir das linhas carregadas, ordenadas pelo nome
+const collectOptions = (
+  lines: StockAgingLine[],
+  getId: (line: StockAgingLine) => string | null,
+  getName: (line: StockAgingLine) => string | null
+) => {
+  const options = new Map<string, string>();
+  for (const line of lines) {
+    const id = getId(line);
+    if (id) options.set(id, getName(line) || "-");
+  }
+  return Array.from(options, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const StockAgingReportTable = ({ unitMode }: StockAgingReportTableProps) => {
+  const { data: organizationId } = useOrganization();
+  const [filters, setFilters] = useState<StockAgingFilters>(EMPTY_AGING_FILTERS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: lines, isLoading } = useQuery({
+    queryKey: ["stock-aging", organizationId],
+    queryFn: () => getStockAging(organizationId!),
+    enabled: !!organizationId,
+  });
+
+  const categories = useMemo(() => collectOptions(lines || [], (l) => l.category_id, (l) => l.category_name), [lines]);
+  const suppliers = useMemo(() => collectOptions(lines || [], (l) => l.supplier_id, (l) => l.supplier_name), [lines]);
+  const locations = useMemo(() => collectOptions(lines || [], (l) => l.location_id, (l) => l.location_name), [lines]);
+
+  const rows = useMemo(() => filterStockAging(lines || [], filters), [lines, filters]);
+  const summary = useMemo(() => summarizeStockAging(rows), [rows]);
+  const totalValue = rows.reduce((sum, row) => sum + row.value, 0);
+
+  const updateFilter = (key: keyof StockAgingFilters) => (value: string) =>
+    setFilters((current) => ({ ...current, [key]: value }));
+
+  const handleExport = async (exporter: typeof exportStockAgingReportPDF) => {
+    if (!organizationId) return;
+
+    setIsExporting(true);
+    try {
+      await exporter(organizationId, filters, unitMode);
+    } catch {
+      // O exportador já avisou o usuário
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <div className="flex items-center gap-2">
+              <Hourglass className="h-5 w-5 text-primary" />
+              <CardTitle>Envelhecimento do Estoque</CardTitle>
+            </div>
+            <CardDescription>
+              Valor parado em estoque por dias desde a última saída de cada produto
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="h-10"
+              onClick={() => handleExport(exportStockAgingReportPDF)}
+              disabled={isExporting || !organizationId}
+            >
+              <FileText className="h-3.5 w-3.5 mr-1" />
+              PDF
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-10"
+              onClick={() => handleExport(exportStockAgingReportExcel)}
+              disabled={isExporting || !organizationId}
+            >
+              <Download className="h-3.5 w-3.5 mr-1" />
+              XLSX
+            </Button>
+          </div>
+        </div>
+        <div className="grid gap-3 pt-2 md:grid-cols-3">
+          <Select value={filters.categoryId} onValueChange={updateFilter("categoryId")}>
+            <SelectTrigger>
+              <SelectValue placeholder="Categoria" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas as categorias</SelectItem>
+              {categories.map((option) => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.supplierId} onValueChange={updateFilter("supplierId")}>
+            <SelectTrigger>
+              <SelectValue placeholder="Fornecedor" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os fornecedores</SelectItem>
+              {suppliers.map((option) => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.locationId} onValueChange={updateFilter("locationId")}>
+            <SelectTrigger>
+              <SelectValue placeholder="Local" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os locais</SelectItem>
+              {locations.map((option) => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+              <SelectItem value="none">Sem local</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+          {summary.map((item) => (
+            <div
+              key={item.bucket.key}
+              className={cn(
+                "rounded-lg border p-3",
+                item.bucket.key === DEAD_STOCK_BUCKET.key && item.value > 0 && "border-destructive/40 bg-destructive/5"
+              )}
+            >
+              <p className="text-xs text-muted-foreground">{item.bucket.label}</p>
+              <p className="text-lg font-bold tabular-nums">{formatCurrency(item.value)}</p>
+              <p className="text-xs text-muted-foreground">
+                {item.products} produto(s) • {formatNumber(item.share)}%
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-8">Calculando envelhecimento...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">Nenhum produto com estoque para os filtros escolhidos</p>
+        ) : (
+          <div className="max-h-[480px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Produto</TableHead>
+                  <TableHead>Local</TableHead>
+                  <TableHead className="text-right">Quantidade</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead>Última Saída</TableHead>
+                  <TableHead className="text-right">Dias</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => {
+                  const { unit, factor } = getDisplayUnit(row, unitMode);
+                  return (
+                    <TableRow key={`${row.product_id}-${row.location_id}`}>
+                      <TableCell className="font-mono text-sm">{row.sku}</TableCell>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell className="text-muted-foreground">{row.location_name || "Sem local"}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {fromBaseQuantity(row.quantity, factor)} {unit}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold tabular-nums">
+                        {formatCurrency(row.value)}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {row.last_out_at ? format(new Date(row.last_out_at), "dd/MM/yyyy") : "Nunca"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={row.bucket.key === DEAD_STOCK_BUCKET.key ? "destructive" : "secondary"}>
+                          {row.days_without_out}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        {rows.length > 0 && (
+          <div className="flex justify-end gap-2 pt-4 border-t text-sm">
+            <span className="text-muted-foreground">Valor total em estoque:</span>
+            <span className="font-bold">{formatCurrency(totalValue)}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
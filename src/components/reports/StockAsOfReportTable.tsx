@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { CalendarClock, Download, FileText } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useOrganization } from "@/hooks/useOrganization";
+import { formatCurrency } from "@/lib/formatters";
+import { getStockAsOf, sumStockAsOfByProduct } from "@/lib/stock-as-of";
+import { exportStockAsOfReportExcel, exportStockAsOfReportPDF } from "@/lib/report-exports";
+import { fromBaseQuantity, getDisplayUnit, UnitMode } from "@/lib/units";
+
+interface StockAsOfReportTableProps {
+  unitMode: UnitMode;
+}
+
+export const StockAsOfReportTable = ({ unitMode }: StockAsOfReportTableProps) => {
+  const { data: organizationId } = useOrganization();
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [byLocation, setByLocation] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const asOf = date ? parseISO(date) : null;
+
+  const { data: lines, isLoading } = useQuery({
+    queryKey: ["stock-as-of", organizationId, date],
+    queryFn: () => getStockAsOf(organizationId!, asOf!),
+    enabled: !!organizationId && !!asOf,
+  });
+
+  const rows = byLocation ? lines || [] : sumStockAsOfByProduct(lines || []);
+  const totalValue = rows.reduce((sum, row) => sum + row.value, 0);
+
+  const handleExport = async (exporter: typeof exportStockAsOfReportPDF) => {
+    if (!organizationId || !asOf) return;
+
+    setIsExporting(true);
+    try {
+      await exporter(organizationId, asOf, byLocation, unitMode);
+    } catch {
+      // O exportador já avisou o usuário
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+          <div>
+            <div className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5 text-primary" />
+              <CardTitle>Estoque na Data</CardTitle>
+            </div>
+            <CardDescription>
+              Quantidades e valores reconstruídos a partir das movimentações até o fim do dia escolhido
+            </CardDescription>
+          </div>
+          <div className="flex flex-col gap-3 md:flex-row md:items-end">
+            <div className="space-y-1">
+              <Label htmlFor="stock-as-of-date" className="text-xs">Posição em</Label>
+              <Input
+                id="stock-as-of-date"
+                type="date"
+                value={date}
+                max={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setDate(e.target.value)}
+                className="w-44"
+              />
+            </div>
+            <div className="flex items-center gap-2 h-10">
+              <Switch id="stock-as-of-by-location" checked={byLocation} onCheckedChange={setByLocation} />
+              <Label htmlFor="stock-as-of-by-location" className="text-sm">Por local</Label>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="h-10"
+                onClick={() => handleExport(exportStockAsOfReportPDF)}
+                disabled={isExporting || !asOf || !organizationId}
+              >
+                <FileText className="h-3.5 w-3.5 mr-1" />
+                PDF
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-10"
+                onClick={() => handleExport(exportStockAsOfReportExcel)}
+                disabled={isExporting || !asOf || !organizationId}
+              >
+                <Download className="h-3.5 w-3.5 mr-1" />
+                XLSX
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center text-muted-foreground py-8">Reconstruindo estoque...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">Nenhum produto com estoque nesta data</p>
+        ) : (
+          <div className="max-h-[480px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>SKU</TableHead>
+                  <TableHead>Produto</TableHead>
+                  {byLocation && <TableHead>Local</TableHead>}
+                  <TableHead className="text-right">Quantidade</TableHead>
+                  <TableHead className="text-right">Custo Médio</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => {
+                  const { unit, factor } = getDisplayUnit(row, unitMode);
+                  return (
+                    <TableRow key={`${row.product_id}-${row.location_id}`}>
+                      <TableCell className="font-mono text-sm">{row.sku}</TableCell>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      {byLocation && (
+                        <TableCell className="text-muted-foreground">{row.location_name || "Sem local"}</TableCell>
+                      )}
+                      <TableCell className="text-right tabular-nums">
+                        {fromBaseQuantity(row.quantity, factor)} {unit}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatCurrency(row.unit_cost * factor)}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold tabular-nums">
+                        {formatCurrency(row.value)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        {rows.length > 0 && (
+          <div className="flex justify-end gap-2 pt-4 border-t mt-4 text-sm">
+            <span className="text-muted-foreground">Valor total em estoque:</span>
+            <span className="font-bold">{formatCurrency(totalValue)}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { formatCurrency } from "@/lib/formatters";
+
+interface InvoiceSalesOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  orderNumber: string;
+  orderTotal: number;
+}
+
+export function InvoiceSalesOrderDialog({
+  open,
+  onOpenChange,
+  orderId,
+  orderNumber,
+  orderTotal,
+}: InvoiceSalesOrderDialogProps) {
+  const queryClient = useQueryClient();
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [createReceivable, setCreateReceivable] = useState(true);
+  const [dueDate, setDueDate] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setInvoiceNumber("");
+    setCreateReceivable(true);
+    setDueDate("");
+  }, [open]);
+
+  const handleInvoice = async () => {
+    if (createReceivable && !dueDate) {
+      toast.error("Informe o vencimento da conta a receber");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.rpc("invoice_sales_order", {
+        _order_id: orderId,
+        _invoice_number: invoiceNumber.trim() || undefined,
+        _create_receivable: createReceivable,
+        _due_date: createReceivable ? dueDate : undefined,
+      });
+      if (error) throw error;
+
+      toast.success("Pedido faturado");
+      queryClient.invalidateQueries({ queryKey: ["sales-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["sales-order", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["contas"] });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao faturar pedido");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Faturar Pedido {orderNumber}</DialogTitle>
+          <DialogDescription>Valor do pedido: {formatCurrency(orderTotal)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="invoice-number">Número da nota fiscal</Label>
+            <Input
+              id="invoice-number"
+              value={invoiceNumber}
+              onChange={(e) => setInvoiceNumber(e.target.value)}
+            />
+          </div>
+
+          <div className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="create-receivable">Gerar conta a receber</Label>
+                <p className="text-xs text-muted-foreground">
+                  Registra o valor do pedido em Contas a Receber para o cliente
+                </p>
+              </div>
+              <Switch id="create-receivable" checked={createReceivable} onCheckedChange={setCreateReceivable} />
+            </div>
+            {createReceivable && (
+              <div className="space-y-1">
+                <Label className="text-xs">Vencimento *</Label>
+                <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleInvoice} disabled={isSubmitting}>
+            {isSubmitting ? "Faturando..." : "Confirmar Faturamento"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
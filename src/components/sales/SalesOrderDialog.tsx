@@ -0,0 +1,430 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { useOrganization } from "@/hooks/useOrganization";
+import { formatCurrency } from "@/lib/formatters";
+
+const NONE = "none";
+
+const orderSchema = z.object({
+  customer_name: z.string().trim().min(1, "Cliente é obrigatório").max(200),
+  customer_contact: z.string().max(200).optional(),
+  delivery_date: z.string().optional(),
+  location_id: z.string(),
+  notes: z.string().optional(),
+});
+
+type OrderFormData = z.infer<typeof orderSchema>;
+
+export interface SalesOrderLineDraft {
+  // "product:<id>" ou "kit:<id>"
+  item: string;
+  quantity: string;
+  unit_price: string;
+}
+
+interface SalesOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Pedido aberto sendo editado, com as linhas atuais
+  order?: Tables<"sales_orders"> | null;
+  lines?: SalesOrderLineDraft[];
+  onSaved?: (orderId: string) => void;
+}
+
+const emptyLine = (): SalesOrderLineDraft => ({ item: "", quantity: "1", unit_price: "" });
+
+export function SalesOrderDialog({ open, onOpenChange, order, lines, onSaved }: SalesOrderDialogProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [orderLines, setOrderLines] = useState<SalesOrderLineDraft[]>([]);
+  const queryClient = useQueryClient();
+  const { data: organizationId } = useOrganization();
+
+  const { data: locations } = useQuery({
+    queryKey: ["locations"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("locations").select("*").eq("is_transit", false).order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: products } = useQuery({
+    queryKey: ["products-with-price", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, sku, preco_venda")
+        .eq("organization_id", organizationId)
+        .eq("active", true)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  const { data: kits } = useQuery({
+    queryKey: ["kits-with-price", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const { data, error } = await supabase
+        .from("kits")
+        .select("id, name, sku, preco_venda")
+        .eq("organization_id", organizationId)
+        .eq("active", true)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  const form = useForm<OrderFormData>({
+    resolver: zodResolver(orderSchema),
+    defaultValues: {
+      customer_name: "",
+      customer_contact: "",
+      delivery_date: "",
+      location_id: NONE,
+      notes: "",
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset({
+      customer_name: order?.customer_name || "",
+      customer_contact: order?.customer_contact || "",
+      delivery_date: order?.delivery_date || "",
+      location_id: order?.location_id || NONE,
+      notes: order?.notes || "",
+    });
+    setOrderLines(lines && lines.length > 0 ? lines : [emptyLine()]);
+  }, [open, order, lines, form]);
+
+  const updateLine = (index: number, changes: Partial<SalesOrderLineDraft>) => {
+    setOrderLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleItemChange = (index: number, item: string) => {
+    const [kind, id] = item.split(":");
+    const source = kind === "kit" ? kits?.find((k) => k.id === id) : products?.find((p) => p.id === id);
+    updateLine(index, {
+      item,
+      unit_price: orderLines[index].unit_price || String(source?.preco_venda ?? 0),
+    });
+  };
+
+  const orderTotal = orderLines.reduce(
+    (sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.unit_price) || 0),
+    0
+  );
+
+  const onSubmit = async (data: OrderFormData) => {
+    if (!organizationId) return;
+
+    const filled = orderLines.filter((line) => line.item);
+    if (filled.length === 0) {
+      toast.error("Adicione pelo menos um produto ou kit ao pedido");
+      return;
+    }
+
+    if (filled.some((line) => !(Number(line.quantity) > 0) || Number(line.unit_price) < 0 || isNaN(Number(line.unit_price)))) {
+      toast.error("Informe quantidades maiores que zero e preços válidos");
+      return;
+    }
+
+    const items = filled.map((line) => line.item);
+    if (new Set(items).size !== items.length) {
+      toast.error("Cada produto ou kit só pode aparecer uma vez no pedido");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const orderData = {
+        customer_name: data.customer_name.trim(),
+        customer_contact: data.customer_contact?.trim() || null,
+        delivery_date: data.delivery_date || null,
+        location_id: data.location_id === NONE ? null : data.location_id,
+        notes: data.notes || null,
+      };
+
+      let orderId = order?.id;
+
+      if (orderId) {
+        const { error } = await supabase.from("sales_orders").update(orderData).eq("id", orderId);
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase
+          .from("sales_order_lines")
+          .delete()
+          .eq("order_id", orderId);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) throw new Error("Usuário não autenticado");
+
+        const { data: created, error } = await supabase
+          .from("sales_orders")
+          .insert({ ...orderData, organization_id: organizationId, created_by: user.id })
+          .select("id")
+          .single();
+        if (error) throw error;
+        orderId = created.id;
+      }
+
+      const { error: linesError } = await supabase.from("sales_order_lines").insert(
+        filled.map((line) => {
+          const [kind, id] = line.item.split(":");
+          return {
+            organization_id: organizationId,
+            order_id: orderId!,
+            product_id: kind === "product" ? id : null,
+            kit_id: kind === "kit" ? id : null,
+            quantity: Number(line.quantity),
+            unit_price: Number(line.unit_price) || 0,
+          };
+        })
+      );
+      if (linesError) throw linesError;
+
+      toast.success(order ? "Pedido atualizado" : "Pedido de venda criado");
+      queryClient.invalidateQueries({ queryKey: ["sales-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["sales-order", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["sales-order-lines", orderId] });
+      onOpenChange(false);
+      onSaved?.(orderId!);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar pedido de venda");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{order ? `Editar Pedido ${order.number}` : "Novo Pedido de Venda"}</DialogTitle>
+          <DialogDescription>
+            Quantidades na unidade base do produto, com o preço de venda por unidade
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col flex-1 overflow-hidden">
+            <div className="flex-1 overflow-y-auto space-y-4 pr-2">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="customer_name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cliente *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Nome do cliente" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="customer_contact"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Contato</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Telefone ou e-mail" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="delivery_date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Data de entrega</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="location_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Local de saída</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NONE}>Local padrão</SelectItem>
+                          {locations?.map((loc) => (
+                            <SelectItem key={loc.id} value={loc.id}>
+                              {loc.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Itens do Pedido</Label>
+                  <Button type="button" size="sm" onClick={() => setOrderLines((prev) => [...prev, emptyLine()])}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Adicionar Item
+                  </Button>
+                </div>
+
+                {orderLines.map((line, index) => (
+                  <div key={index} className="flex gap-2 items-center border p-3 rounded-lg">
+                    <div className="flex-1">
+                      <Select value={line.item} onValueChange={(value) => handleItemChange(index, value)}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione um produto ou kit" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectGroup>
+                            <SelectLabel>Produtos</SelectLabel>
+                            {products?.map((product) => (
+                              <SelectItem key={product.id} value={`product:${product.id}`}>
+                                {product.name} ({product.sku})
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                          {kits && kits.length > 0 && (
+                            <SelectGroup>
+                              <SelectLabel>Kits</SelectLabel>
+                              {kits.map((kit) => (
+                                <SelectItem key={kit.id} value={`kit:${kit.id}`}>
+                                  {kit.name} ({kit.sku})
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Qtd"
+                      className="w-24 text-right"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Preço unit."
+                      className="w-32 text-right"
+                      value={line.unit_price}
+                      onChange={(e) => updateLine(index, { unit_price: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setOrderLines((prev) => prev.filter((_, i) => i !== index))}
+                      disabled={orderLines.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+
+                <div className="flex justify-end text-sm">
+                  <span className="text-muted-foreground mr-2">Total do pedido:</span>
+                  <span className="font-semibold tabular-nums">{formatCurrency(orderTotal)}</span>
+                </div>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Observações</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Condições de pagamento, frete..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter className="pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Salvando..." : "Salvar Pedido"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
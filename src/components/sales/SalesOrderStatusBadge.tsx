@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge";
+
+interface SalesOrderStatusBadgeProps {
+  status: string;
+}
+
+export const SalesOrderStatusBadge = ({ status }: SalesOrderStatusBadgeProps) => {
+  switch (status) {
+    case "open":
+      return <Badge variant="outline">Aberto</Badge>;
+    case "reserved":
+      return <Badge className="bg-primary text-white">Reservado</Badge>;
+    case "picked":
+      return <Badge className="bg-warning text-white">Separado</Badge>;
+    case "shipped":
+      return <Badge className="bg-success text-white">Expedido</Badge>;
+    case "invoiced":
+      return <Badge className="bg-success/80 text-white">Faturado</Badge>;
+    case "cancelled":
+      return <Badge variant="secondary">Cancelado</Badge>;
+    default:
+      return <Badge>{status}</Badge>;
+  }
+};
@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { formatCurrency, formatNumber } from "@/lib/formatters";
+
+export interface ShippableLine {
+  id: string;
+  quantity: number;
+  unit_price: number;
+  product: {
+    name: string;
+    sku: string;
+    unit: string;
+    serialized: boolean;
+  } | null;
+  kit: {
+    name: string;
+    sku: string;
+  } | null;
+}
+
+interface ShipSalesOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string;
+  orderNumber: string;
+  lines: ShippableLine[];
+}
+
+const parseSerials = (input: string) =>
+  input
+    .split(/[\n,;]+/)
+    .map((serial) => serial.trim())
+    .filter(Boolean);
+
+export function ShipSalesOrderDialog({ open, onOpenChange, orderId, orderNumber, lines }: ShipSalesOrderDialogProps) {
+  const queryClient = useQueryClient();
+  const [serials, setSerials] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const serializedLines = lines.filter((line) => line.product?.serialized);
+  const orderTotal = lines.reduce((sum, line) => sum + Number(line.quantity) * Number(line.unit_price), 0);
+
+  useEffect(() => {
+    if (open) setSerials({});
+  }, [open]);
+
+  const handleShip = async () => {
+    const missing = serializedLines.find(
+      (line) => parseSerials(serials[line.id] || "").length !== Number(line.quantity)
+    );
+    if (missing) {
+      toast.error(`Informe um número de série por unidade de ${missing.product?.name}`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { data: total, error } = await supabase.rpc("ship_sales_order", {
+        _order_id: orderId,
+        _serials: serializedLines.map((line) => ({
+          line_id: line.id,
+          serial_numbers: parseSerials(serials[line.id] || ""),
+        })),
+      });
+      if (error) throw error;
+
+      toast.success(`Pedido expedido: ${formatCurrency(Number(total) || 0)}`);
+      queryClient.invalidateQueries({ queryKey: ["sales-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["sales-order", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["sales-order-lines", orderId] });
+      queryClient.invalidateQueries({ queryKey: ["reserved-quantities"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["movements"] });
+      queryClient.invalidateQueries({ queryKey: ["financeiro"] });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao expedir pedido");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Expedir Pedido {orderNumber}</DialogTitle>
+          <DialogDescription>
+            Cada item gera uma saída do estoque reservado e uma venda no financeiro pelo preço do pedido
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-2">
+          <div className="space-y-2">
+            {lines.map((line) => (
+              <div key={line.id} className="flex items-center justify-between text-sm border-b border-border/50 pb-2">
+                <span>
+                  {line.product?.name || line.kit?.name}
+                  <span className="text-muted-foreground"> • {formatNumber(Number(line.quantity))} {line.product?.unit || "kit"}</span>
+                </span>
+                <span className="tabular-nums">{formatCurrency(Number(line.quantity) * Number(line.unit_price))}</span>
+              </div>
+            ))}
+            <div className="flex justify-end text-sm">
+              <span className="text-muted-foreground mr-2">Total:</span>
+              <span className="font-semibold tabular-nums">{formatCurrency(orderTotal)}</span>
+            </div>
+          </div>
+
+          {serializedLines.map((line) => (
+            <div key={line.id} className="space-y-1">
+              <Label className="text-xs">
+                Números de série de {line.product?.name} ({parseSerials(serials[line.id] || "").length} de{" "}
+                {formatNumber(Number(line.quantity))})
+              </Label>
+              <Textarea
+                placeholder="Um número de série por linha"
+                value={serials[line.id] || ""}
+                onChange={(e) => setSerials((prev) => ({ ...prev, [line.id]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleShip} disabled={isSubmitting}>
+            {isSubmitting ? "Expedindo..." : "Confirmar Expedição"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
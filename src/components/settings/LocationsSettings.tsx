@@ -6,7 +6,7 @@ import * as z from "zod";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus, Pencil, Trash2, MapPin, Search, Hash, Building } from "lucide-react";
+import { Plus, Pencil, Trash2, MapPin, Search, Hash, Building, QrCode } from "lucide-react";
 import { toast } from "sonner";
 import {
   Table,
@@ -26,6 +26,7 @@ import {
 } from "@/components/ui/dialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import {
   Form,
   FormControl,
@@ -34,6 +35,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { LabelPrintDialog } from "@/components/shared/LabelPrintDialog";
 import { useOrganization } from "@/hooks/useOrganization";
 
 const locationSchema = z.object({
@@ -41,6 +43,7 @@ const locationSchema = z.object({
   name: z.string().trim().min(1, "Nome é obrigatório").max(200, "Nome deve ter no máximo 200 caracteres"),
   address: z.string().trim().max(500, "Endereço deve ter no máximo 500 caracteres").optional(),
   region: z.string().trim().max(200, "Região deve ter no máximo 200 caracteres").optional(),
+  is_quarantine: z.boolean(),
 });
 
 type LocationFormData = z.infer<typeof locationSchema>;
@@ -51,6 +54,7 @@ export function LocationsSettings() {
   const [editingLocation, setEditingLocation] = useState<any>(null);
   const [userRole, setUserRole] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [labelDialogOpen, setLabelDialogOpen] = useState(false);
   const queryClient = useQueryClient();
   const { data: organizationId } = useOrganization();
 
@@ -61,6 +65,7 @@ export function LocationsSettings() {
       name: "",
       address: "",
       region: "",
+      is_quarantine: false,
     },
   });
 
@@ -86,7 +91,7 @@ export function LocationsSettings() {
   const { data: locations, isLoading } = useQuery({
     queryKey: ["locations"],
     queryFn: async () => {
-      const { data, error } = await supabase.from("locations").select("*").order("name");
+      const { data, error } = await supabase.from("locations").select("*").eq("is_transit", false).order("name");
       if (error) throw error;
       return data;
     },
@@ -105,6 +110,7 @@ export function LocationsSettings() {
         name: editingLocation.name,
         address: editingLocation.address || "",
         region: editingLocation.region || "",
+        is_quarantine: editingLocation.is_quarantine ?? false,
       });
     } else {
       form.reset({
@@ -112,6 +118,7 @@ export function LocationsSettings() {
         name: "",
         address: "",
         region: "",
+        is_quarantine: false,
       });
     }
   }, [editingLocation, form]);
@@ -131,6 +138,7 @@ export function LocationsSettings() {
         name: data.name,
         address: data.address || null,
         region: data.region || null,
+        is_quarantine: data.is_quarantine,
         organization_id: organizationId,
       };
 
@@ -180,12 +188,23 @@ export function LocationsSettings() {
                 <CardDescription>Gerencie os locais de armazenamento</CardDescription>
               </div>
             </div>
-            {userRole !== "operador" && (
-              <Button onClick={() => handleOpenDialog()} className="gap-2">
-                <Plus className="h-4 w-4" />
-                Novo Local
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setLabelDialogOpen(true)}
+                disabled={!filteredLocations?.length}
+                className="gap-2"
+              >
+                <QrCode className="h-4 w-4" />
+                Etiquetas
               </Button>
-            )}
+              {userRole !== "operador" && (
+                <Button onClick={() => handleOpenDialog()} className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Novo Local
+                </Button>
+              )}
+            </div>
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -237,6 +256,11 @@ export function LocationsSettings() {
                             <Building className="h-4 w-4 text-primary" />
                           </div>
                           <span className="font-medium">{location.name}</span>
+                          {location.is_quarantine && (
+                            <Badge variant="outline" className="text-warning border-warning/30">
+                              Quarentena
+                            </Badge>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell>
@@ -376,6 +400,23 @@ export function LocationsSettings() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="is_quarantine"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border border-border/50 p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel>Local de quarentena</FormLabel>
+                      <p className="text-xs text-muted-foreground">
+                        Sugerido para devoluções de clientes que aguardam inspeção
+                      </p>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
               <DialogFooter className="gap-2 sm:gap-0">
                 <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                   Cancelar
@@ -388,6 +429,18 @@ export function LocationsSettings() {
           </Form>
         </DialogContent>
       </Dialog>
+
+      {/* Imprime os locais listados, respeitando a busca */}
+      <LabelPrintDialog
+        open={labelDialogOpen}
+        onOpenChange={setLabelDialogOpen}
+        kind="locations"
+        items={(filteredLocations || []).map((location) => ({
+          code: location.code,
+          name: location.name,
+          region: location.region,
+        }))}
+      />
     </>
   );
 }
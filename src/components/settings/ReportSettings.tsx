@@ -7,7 +7,7 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, FileText, DollarSign, AlertTriangle, TrendingUp, Package, Clock, Save } from "lucide-react";
+import { Loader2, FileText, DollarSign, AlertTriangle, TrendingUp, Package, Hourglass, Clock, Save } from "lucide-react";
 import { useOrganization } from "@/hooks/useOrganization";
 import { Separator } from "@/components/ui/separator";
 
@@ -21,6 +21,7 @@ export const ReportSettings = () => {
     incluir_estoque_critico: true,
     incluir_previsoes: true,
     incluir_valor_estoque: true,
+    incluir_estoque_parado: false,
     horario_envio: "08:00:00",
   });
 
@@ -45,6 +46,7 @@ export const ReportSettings = () => {
           incluir_estoque_critico: data.incluir_estoque_critico,
           incluir_previsoes: data.incluir_previsoes,
           incluir_valor_estoque: data.incluir_valor_estoque,
+          incluir_estoque_parado: data.incluir_estoque_parado,
           horario_envio: data.horario_envio,
         });
       }
@@ -209,6 +211,27 @@ export const ReportSettings = () => {
                 }
               />
             </div>
+
+            <div className="flex items-center justify-between p-4 rounded-lg border border-border/50 bg-background/50 hover:bg-muted/30 transition-colors">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-destructive/10">
+                  <Hourglass className="h-4 w-4 text-destructive" />
+                </div>
+                <div className="space-y-0.5">
+                  <Label htmlFor="estoque-parado" className="font-medium cursor-pointer">Estoque Parado (mensal)</Label>
+                  <p className="text-sm text-muted-foreground">
+                    No primeiro dia do mês, valor parado por dias sem saída e produtos há mais de 90 dias
+                  </p>
+                </div>
+              </div>
+              <Switch
+                id="estoque-parado"
+                checked={config.incluir_estoque_parado}
+                onCheckedChange={(checked) =>
+                  setConfig({ ...config, incluir_estoque_parado: checked })
+                }
+              />
+            </div>
           </div>
         </div>
 
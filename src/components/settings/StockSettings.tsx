@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Save, Warehouse } from "lucide-react";
+import { useOrganization } from "@/hooks/useOrganization";
+import { CostingMethod, useOrganizationSettings } from "@/hooks/useOrganizationSettings";
+
+const COSTING_METHODS: { value: CostingMethod; label: string; description: string }[] = [
+  {
+    value: "average",
+    label: "Custo Médio Ponderado",
+    description: "As saídas usam o custo médio do produto, recalculado a cada entrada",
+  },
+  {
+    value: "fifo",
+    label: "PEPS (Primeiro a Entrar, Primeiro a Sair)",
+    description: "As saídas consomem as camadas de custo mais antigas primeiro",
+  },
+];
+
+export const StockSettings = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: organizationId } = useOrganization();
+  const { data: settings, isLoading } = useOrganizationSettings();
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>("average");
+  const [reversalWindowDays, setReversalWindowDays] = useState("30");
+
+  useEffect(() => {
+    if (settings) {
+      setCostingMethod(settings.costing_method);
+      setReversalWindowDays(String(settings.reversal_window_days));
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!organizationId) throw new Error("Organização não encontrada");
+
+      const windowDays = Number(reversalWindowDays);
+      if (!Number.isInteger(windowDays) || windowDays < 0) {
+        throw new Error("O prazo para estorno deve ser um número inteiro de dias");
+      }
+
+      const { error } = await supabase
+        .from("organization_settings")
+        .upsert({
+          organization_id: organizationId,
+          costing_method: costingMethod,
+          reversal_window_days: windowDays,
+        });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["organization-settings"] });
+      toast({
+        title: "Configurações salvas",
+        description: "As regras de estoque foram atualizadas.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao salvar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card className="border-border/50 shadow-sm">
+        <CardContent className="flex items-center justify-center p-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="border-border/50 shadow-sm">
+      <CardHeader className="pb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2.5 rounded-xl bg-gradient-to-br from-primary/20 to-primary/10 border border-primary/20">
+            <Warehouse className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <CardTitle className="text-xl">Estoque</CardTitle>
+            <CardDescription>
+              Regras de estoque e custeio aplicadas a toda a organização
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-1">
+          <h3 className="text-sm font-medium text-foreground mb-3">Método de Custeio</h3>
+          <RadioGroup
+            value={costingMethod}
+            onValueChange={(value) => setCostingMethod(value as CostingMethod)}
+            className="space-y-3"
+          >
+            {COSTING_METHODS.map((method) => (
+              <div
+                key={method.value}
+                className="flex items-center gap-3 p-4 rounded-lg border border-border/50 bg-background/50 hover:bg-muted/30 transition-colors"
+              >
+                <RadioGroupItem value={method.value} id={`costing-${method.value}`} />
+                <div className="space-y-0.5">
+                  <Label htmlFor={`costing-${method.value}`} className="font-medium cursor-pointer">
+                    {method.label}
+                  </Label>
+                  <p className="text-sm text-muted-foreground">{method.description}</p>
+                </div>
+              </div>
+            ))}
+          </RadioGroup>
+          <p className="text-xs text-muted-foreground pt-2">
+            O método define o custo das mercadorias vendidas lançado no financeiro a partir das próximas saídas.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-foreground">Estorno de Movimentações</h3>
+          <div className="flex items-center gap-3">
+            <Input
+              id="reversal-window-days"
+              type="number"
+              min="0"
+              step="1"
+              value={reversalWindowDays}
+              onChange={(e) => setReversalWindowDays(e.target.value)}
+              className="w-28"
+            />
+            <Label htmlFor="reversal-window-days" className="font-normal">dias</Label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Movimentações não podem ser editadas nem excluídas, apenas estornadas. Depois desse prazo somente administradores podem estorná-las.
+          </p>
+        </div>
+
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          className="w-full gap-2"
+        >
+          {saveMutation.isPending ? (
+            <>
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Salvando...
+            </>
+          ) : (
+            <>
+              <Save className="h-4 w-4" />
+              Salvar Configurações
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
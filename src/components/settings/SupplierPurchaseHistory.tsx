@@ -14,6 +14,7 @@ import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Package, TrendingUp, DollarSign } from "lucide-react";
+import { PurchaseOrderStatusBadge } from "@/components/purchasing/PurchaseOrderStatusBadge";
 
 interface SupplierPurchaseHistoryProps {
   supplierId: string;
@@ -67,6 +68,21 @@ export function SupplierPurchaseHistory({ supplierId, supplierName }: SupplierPu
     enabled: !!products && products.length > 0,
   });
 
+  // Fetch purchase orders placed with this supplier
+  const { data: purchaseOrders } = useQuery({
+    queryKey: ["supplier-purchase-orders", supplierId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("purchase_orders")
+        .select("id, number, status, created_at, expected_date, purchase_order_lines(quantity, unit_cost)")
+        .eq("supplier_id", supplierId)
+        .order("created_at", { ascending: false })
+        .limit(20);
+      if (error) throw error;
+      return data;
+    },
+  });
+
   // Calculate statistics
   const totalPurchases = movements?.length || 0;
   const totalQuantity = movements?.reduce((sum, m) => sum + Number(m.quantity), 0) || 0;
@@ -113,6 +129,58 @@ export function SupplierPurchaseHistory({ supplierId, supplierName }: SupplierPu
         </Card>
       </div>
 
+      {purchaseOrders && purchaseOrders.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pedidos de Compra</CardTitle>
+            <CardDescription>
+              Últimos pedidos emitidos para o fornecedor {supplierName}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Número</TableHead>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Previsão</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead>Situação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {purchaseOrders.map((order) => (
+                    <TableRow key={order.id}>
+                      <TableCell className="font-mono text-sm">{order.number}</TableCell>
+                      <TableCell>
+                        {format(new Date(order.created_at), "dd/MM/yyyy", { locale: ptBR })}
+                      </TableCell>
+                      <TableCell>
+                        {order.expected_date
+                          ? format(new Date(`${order.expected_date}T00:00:00`), "dd/MM/yyyy", { locale: ptBR })
+                          : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(
+                          order.purchase_order_lines.reduce(
+                            (sum, line) => sum + Number(line.quantity) * Number(line.unit_cost),
+                            0
+                          )
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <PurchaseOrderStatusBadge status={order.status} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Histórico de Compras</CardTitle>
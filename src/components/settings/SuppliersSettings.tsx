@@ -6,7 +6,7 @@ import * as z from "zod";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus, Pencil, Trash2, Building2, Upload, History, Search, Phone, Mail, User } from "lucide-react";
+import { Plus, Pencil, Trash2, Building2, Upload, History, Search, Phone, Mail, User, Truck } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { toast } from "sonner";
 import {
@@ -51,6 +51,10 @@ const supplierSchema = z.object({
     (val) => !val || val === "" || validateCNPJ(val),
     { message: "CNPJ inválido" }
   ),
+  lead_time_days: z.string().refine(
+    (val) => /^\d+$/.test(val.trim()),
+    { message: "Informe o prazo em dias" }
+  ),
 });
 
 type SupplierFormData = z.infer<typeof supplierSchema>;
@@ -76,6 +80,7 @@ export function SuppliersSettings() {
       email: "",
       phone: "",
       cnpj: "",
+      lead_time_days: "7",
     },
   });
 
@@ -121,6 +126,7 @@ export function SuppliersSettings() {
         email: editingSupplier.email || "",
         phone: editingSupplier.phone || "",
         cnpj: editingSupplier.cnpj || "",
+        lead_time_days: String(editingSupplier.lead_time_days ?? 7),
       });
       setLogoPreview(editingSupplier.logo_url || null);
       setLogoFile(null);
@@ -131,6 +137,7 @@ export function SuppliersSettings() {
         email: "",
         phone: "",
         cnpj: "",
+        lead_time_days: "7",
       });
       setLogoPreview(null);
       setLogoFile(null);
@@ -187,6 +194,7 @@ export function SuppliersSettings() {
         email: data.email || null,
         phone: data.phone || null,
         cnpj: data.cnpj ? data.cnpj.replace(/\D/g, "") : null,
+        lead_time_days: parseInt(data.lead_time_days, 10),
         organization_id: organizationId,
         logo_url: logoUrl,
       };
@@ -566,6 +574,22 @@ export function SuppliersSettings() {
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="lead_time_days"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Prazo de Entrega (dias)</FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <Truck className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <Input type="number" min="0" step="1" className="pl-10" {...field} />
+                      </div>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <DialogFooter className="gap-2 sm:gap-0">
                 <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                   Cancelar
@@ -66,12 +66,16 @@ const editUserSchema = z.object({
   name: z.string().trim().min(1, "Nome é obrigatório").max(200, "Nome deve ter no máximo 200 caracteres"),
   email: z.string().trim().email("Email inválido"),
   phone: z.string().trim().max(20, "Telefone deve ter no máximo 20 caracteres").optional(),
+  location_id: z.string().optional(),
   password: z.string().min(6, "Senha deve ter no mínimo 6 caracteres").max(72, "Senha deve ter no máximo 72 caracteres").optional().or(z.literal("")),
 });
 
 type CreateUserFormData = z.infer<typeof createUserSchema>;
 type EditUserFormData = z.infer<typeof editUserSchema>;
 
+// Valor do Select para usuários sem local de trabalho definido
+const NO_LOCATION = "none";
+
 const roleLabels: Record<Role, string> = {
   superadmin: "Super Admin",
   admin: "Administrador",
@@ -117,10 +121,20 @@ export function UsersSettings() {
       name: "",
       email: "",
       phone: "",
+      location_id: NO_LOCATION,
       password: "",
     },
   });
 
+  const { data: locations } = useQuery({
+    queryKey: ["locations"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("locations").select("*").eq("is_transit", false).order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
   const { data: users, isLoading } = useQuery({
     queryKey: ["users-with-roles", organizationId],
     queryFn: async () => {
@@ -155,6 +169,7 @@ export function UsersSettings() {
           name,
           avatar_url,
           phone,
+          location_id,
           created_at
         `)
         .eq("organization_id", organizationId);
@@ -346,6 +361,7 @@ export function UsersSettings() {
         name: selectedUser.name || "",
         email: selectedUser.email || "",
         phone: selectedUser.phone || "",
+        location_id: selectedUser.location_id || NO_LOCATION,
         password: "",
       });
       setEditAvatarPreview(selectedUser.avatar_url || "");
@@ -386,6 +402,7 @@ export function UsersSettings() {
         .update({
           name: data.name,
           phone: data.phone || null,
+          location_id: data.location_id && data.location_id !== NO_LOCATION ? data.location_id : null,
           avatar_url: avatarUrl,
         })
         .eq('user_id', selectedUser.user_id);
@@ -675,6 +692,35 @@ export function UsersSettings() {
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={editForm.control}
+                name="location_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Local de trabalho</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_LOCATION}>Nenhum</SelectItem>
+                        {locations?.map((location) => (
+                          <SelectItem key={location.id} value={location.id}>
+                            {location.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Recebe os avisos das transferências enviadas para este local
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               
               <FormField
                 control={editForm.control}
@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from "react";
+import { CheckCircle2, ScanBarcode, XCircle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { playScanFeedback } from "@/lib/barcode";
+import { cn } from "@/lib/utils";
+
+export interface ScanResult {
+  ok: boolean;
+  message: string;
+}
+
+interface BarcodeScanInputProps {
+  /** Handles one scanned code (typed by the scanner and finished with Enter) */
+  onScan: (code: string) => ScanResult;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Input for keyboard-wedge barcode scanners. Keeps the focus so consecutive scans
+ * need no clicks, and signals each result with a beep and a colored message.
+ */
+export function BarcodeScanInput({ onScan, placeholder, className }: BarcodeScanInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [code, setCode] = useState("");
+  const [result, setResult] = useState<ScanResult | null>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // O destaque some pouco depois, pronto para a próxima leitura
+  useEffect(() => {
+    if (!result) return;
+    const timeout = setTimeout(() => setResult(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [result]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+
+    const value = code.trim();
+    setCode("");
+    if (!value) return;
+
+    const scan = onScan(value);
+    playScanFeedback(scan.ok);
+    setResult(scan);
+  };
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="relative">
+        <ScanBarcode className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          ref={inputRef}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder || "Leia o código de barras ou digite o SKU e tecle Enter"}
+          autoComplete="off"
+          className={cn(
+            "pl-9 font-mono transition-colors",
+            result?.ok && "border-success ring-1 ring-success",
+            result && !result.ok && "border-destructive ring-1 ring-destructive"
+          )}
+        />
+      </div>
+      {result && (
+        <p
+          className={cn(
+            "flex items-center gap-1 text-xs",
+            result.ok ? "text-success" : "text-destructive"
+          )}
+        >
+          {result.ok ? <CheckCircle2 className="h-3.5 w-3.5" /> : <XCircle className="h-3.5 w-3.5" />}
+          {result.message}
+        </p>
+      )}
+    </div>
+  );
+}
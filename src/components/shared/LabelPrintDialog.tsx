@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Printer } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import {
+  generateLocationLabelsPDF,
+  generateProductLabelsPDF,
+  LABEL_FORMATS,
+  LocationLabelData,
+  ProductLabelData,
+} from "@/lib/labels";
+
+type LabelPrintDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+} & (
+  | { kind: "products"; items: ProductLabelData[] }
+  | { kind: "locations"; items: LocationLabelData[] }
+);
+
+export function LabelPrintDialog(props: LabelPrintDialogProps) {
+  const { open, onOpenChange } = props;
+  const [formatId, setFormatId] = useState(LABEL_FORMATS[0].id);
+  const [copies, setCopies] = useState("1");
+  const [showPrice, setShowPrice] = useState(true);
+  const [showLocation, setShowLocation] = useState(true);
+
+  useEffect(() => {
+    if (open) setCopies("1");
+  }, [open]);
+
+  const format = LABEL_FORMATS.find((f) => f.id === formatId) || LABEL_FORMATS[0];
+  const copiesCount = Math.max(1, Math.floor(Number(copies) || 1));
+  const total = props.kind === "products" ? props.items.length * copiesCount : props.items.length;
+
+  const handleGenerate = () => {
+    try {
+      if (props.kind === "products") {
+        generateProductLabelsPDF(props.items, format, { copies: copiesCount, showPrice, showLocation });
+      } else {
+        generateLocationLabelsPDF(props.items, format);
+      }
+      toast.success("Etiquetas geradas com sucesso!");
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao gerar etiquetas");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{props.kind === "products" ? "Etiquetas de Produtos" : "Etiquetas de Locais"}</DialogTitle>
+          <DialogDescription>
+            {props.kind === "products"
+              ? "Código de barras EAN-13 quando o código do produto for um EAN válido; Code 128 nos demais casos"
+              : "Cada etiqueta traz um QR code com o código do local"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Formato</Label>
+            <Select value={formatId} onValueChange={setFormatId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LABEL_FORMATS.map((f) => (
+                  <SelectItem key={f.id} value={f.id}>
+                    {f.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {props.kind === "products" && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="label-copies">Cópias por produto</Label>
+                <Input
+                  id="label-copies"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={copies}
+                  onChange={(e) => setCopies(e.target.value)}
+                  className="w-28"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="label-show-price"
+                  checked={showPrice}
+                  onCheckedChange={(checked) => setShowPrice(checked === true)}
+                />
+                <Label htmlFor="label-show-price" className="font-normal cursor-pointer">
+                  Imprimir preço de venda
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="label-show-location"
+                  checked={showLocation}
+                  onCheckedChange={(checked) => setShowLocation(checked === true)}
+                />
+                <Label htmlFor="label-show-location" className="font-normal cursor-pointer">
+                  Imprimir localização
+                </Label>
+              </div>
+            </>
+          )}
+
+          <p className="text-sm text-muted-foreground">
+            {total} etiqueta(s)
+            {format.sheet && ` em ${Math.ceil(total / (format.sheet.columns * format.sheet.rows))} folha(s)`}
+          </p>
+        </div>
+
+        <DialogFooter className="pt-4">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleGenerate} disabled={total === 0} className="gap-2">
+            <Printer className="h-4 w-4" />
+            Gerar PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,8 +18,22 @@ export const MOVEMENT_TYPES = [
   { value: "IN", label: "Entrada" },
   { value: "OUT", label: "Saída" },
   { value: "TRANSFER", label: "Transferência" },
+  { value: "ADJUSTMENT", label: "Ajuste" },
 ] as const;
 
+export const RETURN_REASONS = [
+  { value: "defective", label: "Defeito" },
+  { value: "damaged", label: "Avaria no transporte" },
+  { value: "wrong_item", label: "Item errado" },
+  { value: "expired", label: "Vencido" },
+  { value: "not_as_described", label: "Diferente do pedido" },
+  { value: "customer_regret", label: "Desistência do cliente" },
+  { value: "other", label: "Outro" },
+] as const;
+
+// Lots expiring within this many days are flagged as "vencendo"
+export const EXPIRY_WARNING_DAYS = 30;
+
 export const ROLE_LABELS: Record<string, string> = {
   superadmin: "Super Admin",
   admin: "Administrador",
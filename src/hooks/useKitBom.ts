@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useOrganization } from "@/hooks/useOrganization";
+import { BomItem } from "@/lib/kits";
+
+/**
+ * Composition of every kit in the organization, for walking kits that contain other kits
+ */
+export function useKitBom() {
+  const { data: organizationId } = useOrganization();
+
+  return useQuery({
+    queryKey: ["kit-bom", organizationId],
+    queryFn: async (): Promise<BomItem[]> => {
+      const { data, error } = await supabase
+        .from("kit_items")
+        .select("kit_id, product_id, component_kit_id, quantity, kit:kits!kit_items_kit_id_fkey!inner (organization_id)")
+        .eq("kit.organization_id", organizationId!);
+
+      if (error) throw error;
+
+      return data.map(({ kit_id, product_id, component_kit_id, quantity }) => ({
+        kit_id,
+        product_id,
+        component_kit_id,
+        quantity: Number(quantity),
+      }));
+    },
+    enabled: !!organizationId,
+  });
+}
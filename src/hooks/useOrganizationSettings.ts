@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useOrganization } from "@/hooks/useOrganization";
+
+export type CostingMethod = "average" | "fifo";
+export type AbcBasis = "revenue" | "consumption";
+
+export interface OrganizationSettings {
+  costing_method: CostingMethod;
+  reversal_window_days: number;
+  abc_basis: AbcBasis;
+  abc_a_threshold: number;
+  abc_b_threshold: number;
+  xyz_x_threshold: number;
+  xyz_y_threshold: number;
+  classification_period_days: number;
+}
+
+const DEFAULT_SETTINGS: OrganizationSettings = {
+  costing_method: "average",
+  reversal_window_days: 30,
+  abc_basis: "revenue",
+  abc_a_threshold: 80,
+  abc_b_threshold: 95,
+  xyz_x_threshold: 0.5,
+  xyz_y_threshold: 1,
+  classification_period_days: 90,
+};
+
+export function useOrganizationSettings() {
+  const { data: organizationId } = useOrganization();
+
+  return useQuery({
+    queryKey: ["organization-settings", organizationId],
+    queryFn: async (): Promise<OrganizationSettings> => {
+      const { data, error } = await supabase
+        .from("organization_settings")
+        .select("*")
+        .eq("organization_id", organizationId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return DEFAULT_SETTINGS;
+
+      return {
+        costing_method: data.costing_method as CostingMethod,
+        reversal_window_days: data.reversal_window_days,
+        abc_basis: data.abc_basis as AbcBasis,
+        abc_a_threshold: Number(data.abc_a_threshold),
+        abc_b_threshold: Number(data.abc_b_threshold),
+        xyz_x_threshold: Number(data.xyz_x_threshold),
+        xyz_y_threshold: Number(data.xyz_y_threshold),
+        classification_period_days: data.classification_period_days,
+      };
+    },
+    enabled: !!organizationId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
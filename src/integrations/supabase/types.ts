@@ -127,6 +127,126 @@ export type Database = {
         }
         Relationships: []
       }
+      cost_layer_consumptions: {
+        Row: {
+          created_at: string
+          id: string
+          layer_id: string | null
+          movement_id: string
+          organization_id: string
+          product_id: string
+          quantity: number
+          unit_cost: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          layer_id?: string | null
+          movement_id: string
+          organization_id: string
+          product_id: string
+          quantity: number
+          unit_cost?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          layer_id?: string | null
+          movement_id?: string
+          organization_id?: string
+          product_id?: string
+          quantity?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cost_layer_consumptions_layer_id_fkey"
+            columns: ["layer_id"]
+            isOneToOne: false
+            referencedRelation: "cost_layers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cost_layer_consumptions_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cost_layer_consumptions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cost_layer_consumptions_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cost_layers: {
+        Row: {
+          created_at: string
+          id: string
+          movement_id: string | null
+          organization_id: string
+          original_quantity: number
+          product_id: string
+          received_at: string
+          remaining_quantity: number
+          unit_cost: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          movement_id?: string | null
+          organization_id: string
+          original_quantity: number
+          product_id: string
+          received_at?: string
+          remaining_quantity: number
+          unit_cost?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          movement_id?: string | null
+          organization_id?: string
+          original_quantity?: number
+          product_id?: string
+          received_at?: string
+          remaining_quantity?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cost_layers_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cost_layers_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cost_layers_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       financeiro: {
         Row: {
           categoria: string | null
@@ -142,6 +262,7 @@ export type Database = {
           preco_venda: number | null
           produto_id: string | null
           quantidade: number | null
+          return_id: string | null
           tipo: string
           updated_at: string
           user_id: string
@@ -161,6 +282,7 @@ export type Database = {
           preco_venda?: number | null
           produto_id?: string | null
           quantidade?: number | null
+          return_id?: string | null
           tipo: string
           updated_at?: string
           user_id: string
@@ -180,6 +302,7 @@ export type Database = {
           preco_venda?: number | null
           produto_id?: string | null
           quantidade?: number | null
+          return_id?: string | null
           tipo?: string
           updated_at?: string
           user_id?: string
@@ -187,54 +310,55 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "fk_produto"
-            columns: ["produto_id"]
+            foreignKeyName: "financeiro_return_id_fkey"
+            columns: ["return_id"]
             isOneToOne: false
-            referencedRelation: "products"
+            referencedRelation: "stock_returns"
             referencedColumns: ["id"]
           },
         ]
       }
-      invites: {
+      inventory_count_entries: {
         Row: {
-          accepted_at: string | null
+          counted_by: string
+          counted_quantity: number
           created_at: string
-          created_by: string
-          email: string
-          expires_at: string
           id: string
+          item_id: string
           organization_id: string
-          role: Database["public"]["Enums"]["app_role"]
-          status: Database["public"]["Enums"]["invite_status"]
+          round: number
           updated_at: string
         }
         Insert: {
-          accepted_at?: string | null
+          counted_by: string
+          counted_quantity: number
           created_at?: string
-          created_by: string
-          email: string
-          expires_at?: string
           id?: string
+          item_id: string
           organization_id: string
-          role?: Database["public"]["Enums"]["app_role"]
-          status?: Database["public"]["Enums"]["invite_status"]
+          round: number
           updated_at?: string
         }
         Update: {
-          accepted_at?: string | null
+          counted_by?: string
+          counted_quantity?: number
           created_at?: string
-          created_by?: string
-          email?: string
-          expires_at?: string
           id?: string
+          item_id?: string
           organization_id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          status?: Database["public"]["Enums"]["invite_status"]
+          round?: number
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "invites_organization_id_fkey"
+            foreignKeyName: "inventory_count_entries_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_count_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_count_entries_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
@@ -242,38 +366,64 @@ export type Database = {
           },
         ]
       }
-      kit_items: {
+      inventory_count_items: {
         Row: {
+          adjustment_movement_id: string | null
+          count_id: string
           created_at: string
           id: string
-          kit_id: string
+          organization_id: string
+          posted_system_quantity: number | null
           product_id: string
-          quantity: number
+          system_quantity: number
+          unit_cost: number
         }
         Insert: {
+          adjustment_movement_id?: string | null
+          count_id: string
           created_at?: string
           id?: string
-          kit_id: string
+          organization_id: string
+          posted_system_quantity?: number | null
           product_id: string
-          quantity: number
+          system_quantity?: number
+          unit_cost?: number
         }
         Update: {
+          adjustment_movement_id?: string | null
+          count_id?: string
           created_at?: string
           id?: string
-          kit_id?: string
+          organization_id?: string
+          posted_system_quantity?: number | null
           product_id?: string
-          quantity?: number
+          system_quantity?: number
+          unit_cost?: number
         }
         Relationships: [
           {
-            foreignKeyName: "kit_items_kit_id_fkey"
-            columns: ["kit_id"]
+            foreignKeyName: "inventory_count_items_adjustment_movement_id_fkey"
+            columns: ["adjustment_movement_id"]
             isOneToOne: false
-            referencedRelation: "kits"
+            referencedRelation: "movements"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "kit_items_product_id_fkey"
+            foreignKeyName: "inventory_count_items_count_id_fkey"
+            columns: ["count_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_counts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_count_items_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_count_items_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
@@ -281,46 +431,69 @@ export type Database = {
           },
         ]
       }
-      kits: {
+      inventory_counts: {
         Row: {
-          active: boolean
+          approved_by: string | null
+          category_id: string | null
           created_at: string
-          custos_adicionais: Json | null
-          description: string | null
+          created_by: string
+          current_round: number
           id: string
+          location_id: string | null
           name: string
+          notes: string | null
           organization_id: string
-          preco_venda: number | null
-          sku: string
+          posted_at: string | null
+          status: string
           updated_at: string
         }
         Insert: {
-          active?: boolean
+          approved_by?: string | null
+          category_id?: string | null
           created_at?: string
-          custos_adicionais?: Json | null
-          description?: string | null
+          created_by: string
+          current_round?: number
           id?: string
+          location_id?: string | null
           name: string
+          notes?: string | null
           organization_id: string
-          preco_venda?: number | null
-          sku: string
+          posted_at?: string | null
+          status?: string
           updated_at?: string
         }
         Update: {
-          active?: boolean
+          approved_by?: string | null
+          category_id?: string | null
           created_at?: string
-          custos_adicionais?: Json | null
-          description?: string | null
+          created_by?: string
+          current_round?: number
           id?: string
+          location_id?: string | null
           name?: string
+          notes?: string | null
           organization_id?: string
-          preco_venda?: number | null
-          sku?: string
+          posted_at?: string | null
+          status?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "kits_organization_id_fkey"
+            foreignKeyName: "inventory_counts_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_counts_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_counts_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
@@ -328,43 +501,46 @@ export type Database = {
           },
         ]
       }
-      locations: {
+      invites: {
         Row: {
-          active: boolean
-          address: string | null
-          code: string
+          accepted_at: string | null
           created_at: string
+          created_by: string
+          email: string
+          expires_at: string
           id: string
-          name: string
           organization_id: string
-          region: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          status: Database["public"]["Enums"]["invite_status"]
           updated_at: string
         }
         Insert: {
-          active?: boolean
-          address?: string | null
-          code: string
+          accepted_at?: string | null
           created_at?: string
+          created_by: string
+          email: string
+          expires_at?: string
           id?: string
-          name: string
           organization_id: string
-          region?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          status?: Database["public"]["Enums"]["invite_status"]
           updated_at?: string
         }
         Update: {
-          active?: boolean
-          address?: string | null
-          code?: string
+          accepted_at?: string | null
           created_at?: string
+          created_by?: string
+          email?: string
+          expires_at?: string
           id?: string
-          name?: string
           organization_id?: string
-          region?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          status?: Database["public"]["Enums"]["invite_status"]
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "locations_organization_id_fkey"
+            foreignKeyName: "invites_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
@@ -372,175 +548,164 @@ export type Database = {
           },
         ]
       }
-      metas_financeiras: {
+      kit_assembly_orders: {
         Row: {
-          ano: number
-          ativo: boolean
           created_at: string
+          created_by: string
           id: string
-          mes: number | null
+          kind: string
+          kit_id: string
+          location_id: string
+          notes: string | null
+          number: string
           organization_id: string
-          periodo: string
-          tipo: string
+          quantity: number
           updated_at: string
-          user_id: string
-          valor_meta: number
         }
         Insert: {
-          ano: number
-          ativo?: boolean
           created_at?: string
+          created_by: string
           id?: string
-          mes?: number | null
+          kind: string
+          kit_id: string
+          location_id: string
+          notes?: string | null
+          number: string
           organization_id: string
-          periodo: string
-          tipo: string
+          quantity: number
           updated_at?: string
-          user_id: string
-          valor_meta: number
         }
         Update: {
-          ano?: number
-          ativo?: boolean
           created_at?: string
+          created_by?: string
           id?: string
-          mes?: number | null
+          kind?: string
+          kit_id?: string
+          location_id?: string
+          notes?: string | null
+          number?: string
           organization_id?: string
-          periodo?: string
-          tipo?: string
+          quantity?: number
           updated_at?: string
-          user_id?: string
-          valor_meta?: number
         }
-        Relationships: []
-      }
-      movements: {
-        Row: {
-          created_at: string
-          created_by: string
-          custos_adicionais: Json | null
-          from_location_id: string | null
-          id: string
-          kit_id: string | null
-          note: string | null
-          organization_id: string
-          preco_venda_usado: number | null
-          product_id: string | null
+        Relationships: [
+          {
+            foreignKeyName: "kit_assembly_orders_kit_id_fkey"
+            columns: ["kit_id"]
+            isOneToOne: false
+            referencedRelation: "kits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kit_assembly_orders_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kit_assembly_orders_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kit_items: {
+        Row: {
+          component_kit_id: string | null
+          created_at: string
+          id: string
+          kit_id: string
+          product_id: string | null
           quantity: number
-          reference: string | null
-          to_location_id: string | null
-          type: Database["public"]["Enums"]["movement_type"]
         }
         Insert: {
+          component_kit_id?: string | null
           created_at?: string
-          created_by: string
-          custos_adicionais?: Json | null
-          from_location_id?: string | null
           id?: string
-          kit_id?: string | null
-          note?: string | null
-          organization_id: string
-          preco_venda_usado?: number | null
+          kit_id: string
           product_id?: string | null
           quantity: number
-          reference?: string | null
-          to_location_id?: string | null
-          type: Database["public"]["Enums"]["movement_type"]
         }
         Update: {
+          component_kit_id?: string | null
           created_at?: string
-          created_by?: string
-          custos_adicionais?: Json | null
-          from_location_id?: string | null
           id?: string
-          kit_id?: string | null
-          note?: string | null
-          organization_id?: string
-          preco_venda_usado?: number | null
+          kit_id?: string
           product_id?: string | null
           quantity?: number
-          reference?: string | null
-          to_location_id?: string | null
-          type?: Database["public"]["Enums"]["movement_type"]
         }
         Relationships: [
           {
-            foreignKeyName: "movements_from_location_id_fkey"
-            columns: ["from_location_id"]
+            foreignKeyName: "kit_items_component_kit_id_fkey"
+            columns: ["component_kit_id"]
             isOneToOne: false
-            referencedRelation: "locations"
+            referencedRelation: "kits"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "movements_kit_id_fkey"
+            foreignKeyName: "kit_items_kit_id_fkey"
             columns: ["kit_id"]
             isOneToOne: false
             referencedRelation: "kits"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "movements_organization_id_fkey"
-            columns: ["organization_id"]
-            isOneToOne: false
-            referencedRelation: "organizations"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "movements_product_id_fkey"
+            foreignKeyName: "kit_items_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "movements_to_location_id_fkey"
-            columns: ["to_location_id"]
-            isOneToOne: false
-            referencedRelation: "locations"
-            referencedColumns: ["id"]
-          },
         ]
       }
-      notifications: {
+      kit_stock_balances: {
         Row: {
           created_at: string
           id: string
-          message: string
+          kit_id: string
+          location_id: string
           organization_id: string
-          read: boolean
-          related_entity_id: string | null
-          related_entity_type: string | null
-          title: string
-          type: string
-          user_id: string
+          quantity: number
+          updated_at: string
         }
         Insert: {
           created_at?: string
           id?: string
-          message: string
+          kit_id: string
+          location_id: string
           organization_id: string
-          read?: boolean
-          related_entity_id?: string | null
-          related_entity_type?: string | null
-          title: string
-          type?: string
-          user_id: string
+          quantity?: number
+          updated_at?: string
         }
         Update: {
           created_at?: string
           id?: string
-          message?: string
+          kit_id?: string
+          location_id?: string
           organization_id?: string
-          read?: boolean
-          related_entity_id?: string | null
-          related_entity_type?: string | null
-          title?: string
-          type?: string
-          user_id?: string
+          quantity?: number
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "notifications_organization_id_fkey"
+            foreignKeyName: "kit_stock_balances_kit_id_fkey"
+            columns: ["kit_id"]
+            isOneToOne: false
+            referencedRelation: "kits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kit_stock_balances_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kit_stock_balances_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
@@ -548,28 +713,46 @@ export type Database = {
           },
         ]
       }
-      organization_members: {
+      kits: {
         Row: {
+          active: boolean
           created_at: string
+          custos_adicionais: Json | null
+          description: string | null
           id: string
+          name: string
           organization_id: string
-          user_id: string
+          preco_venda: number | null
+          sku: string
+          updated_at: string
         }
         Insert: {
+          active?: boolean
           created_at?: string
+          custos_adicionais?: Json | null
+          description?: string | null
           id?: string
+          name: string
           organization_id: string
-          user_id: string
+          preco_venda?: number | null
+          sku: string
+          updated_at?: string
         }
         Update: {
+          active?: boolean
           created_at?: string
+          custos_adicionais?: Json | null
+          description?: string | null
           id?: string
+          name?: string
           organization_id?: string
-          user_id?: string
+          preco_venda?: number | null
+          sku?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "organization_members_organization_id_fkey"
+            foreignKeyName: "kits_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
@@ -577,407 +760,1743 @@ export type Database = {
           },
         ]
       }
-      organizations: {
+      locations: {
         Row: {
           active: boolean
+          address: string | null
+          code: string
           created_at: string
           id: string
+          is_quarantine: boolean
+          is_transit: boolean
           name: string
-          slug: string
+          organization_id: string
+          region: string | null
           updated_at: string
         }
         Insert: {
           active?: boolean
+          address?: string | null
+          code: string
           created_at?: string
           id?: string
+          is_quarantine?: boolean
+          is_transit?: boolean
           name: string
-          slug: string
+          organization_id: string
+          region?: string | null
           updated_at?: string
         }
         Update: {
           active?: boolean
+          address?: string | null
+          code?: string
           created_at?: string
           id?: string
+          is_quarantine?: boolean
+          is_transit?: boolean
           name?: string
-          slug?: string
+          organization_id?: string
+          region?: string | null
           updated_at?: string
         }
-        Relationships: []
-      }
-      payment_history: {
-        Row: {
-          amount: number
-          created_at: string | null
-          id: string
-          metadata: Json | null
-          payment_date: string | null
-          payment_id: string | null
-          preapproval_id: string
-          status: string
-          subscription_id: string | null
-        }
-        Insert: {
-          amount: number
-          created_at?: string | null
-          id?: string
-          metadata?: Json | null
-          payment_date?: string | null
-          payment_id?: string | null
-          preapproval_id: string
-          status: string
-          subscription_id?: string | null
-        }
-        Update: {
-          amount?: number
-          created_at?: string | null
-          id?: string
-          metadata?: Json | null
-          payment_date?: string | null
-          payment_id?: string | null
-          preapproval_id?: string
-          status?: string
-          subscription_id?: string | null
-        }
         Relationships: [
           {
-            foreignKeyName: "payment_history_subscription_id_fkey"
-            columns: ["subscription_id"]
+            foreignKeyName: "locations_organization_id_fkey"
+            columns: ["organization_id"]
             isOneToOne: false
-            referencedRelation: "subscriptions"
+            referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
         ]
       }
-      plans: {
+      metas_financeiras: {
         Row: {
-          ai_features: Json | null
+          ano: number
+          ativo: boolean
           created_at: string
-          description: string | null
           id: string
-          max_companies: number
-          max_movements: number
-          max_products: number
-          max_users: number
-          mp_preapproval_template_id: string | null
-          name: string
-          price: number
-          status: string
+          mes: number | null
+          organization_id: string
+          periodo: string
+          tipo: string
           updated_at: string
+          user_id: string
+          valor_meta: number
         }
         Insert: {
-          ai_features?: Json | null
+          ano: number
+          ativo?: boolean
           created_at?: string
-          description?: string | null
           id?: string
-          max_companies?: number
-          max_movements?: number
-          max_products?: number
-          max_users?: number
-          mp_preapproval_template_id?: string | null
-          name: string
-          price?: number
-          status?: string
+          mes?: number | null
+          organization_id: string
+          periodo: string
+          tipo: string
           updated_at?: string
+          user_id: string
+          valor_meta: number
         }
         Update: {
-          ai_features?: Json | null
+          ano?: number
+          ativo?: boolean
           created_at?: string
-          description?: string | null
           id?: string
-          max_companies?: number
-          max_movements?: number
-          max_products?: number
-          max_users?: number
-          mp_preapproval_template_id?: string | null
-          name?: string
-          price?: number
+          mes?: number | null
+          organization_id?: string
+          periodo?: string
+          tipo?: string
+          updated_at?: string
+          user_id?: string
+          valor_meta?: number
+        }
+        Relationships: []
+      }
+      movement_documents: {
+        Row: {
+          created_at: string
+          created_by: string
+          document_date: string
+          from_location_id: string | null
+          id: string
+          note: string | null
+          number: string
+          organization_id: string
+          reference: string | null
+          to_location_id: string | null
+          type: Database["public"]["Enums"]["movement_type"]
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          document_date?: string
+          from_location_id?: string | null
+          id?: string
+          note?: string | null
+          number: string
+          organization_id: string
+          reference?: string | null
+          to_location_id?: string | null
+          type: Database["public"]["Enums"]["movement_type"]
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          document_date?: string
+          from_location_id?: string | null
+          id?: string
+          note?: string | null
+          number?: string
+          organization_id?: string
+          reference?: string | null
+          to_location_id?: string | null
+          type?: Database["public"]["Enums"]["movement_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "movement_documents_from_location_id_fkey"
+            columns: ["from_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movement_documents_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movement_documents_to_location_id_fkey"
+            columns: ["to_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      movement_lots: {
+        Row: {
+          created_at: string
+          id: string
+          lot_id: string
+          movement_id: string
+          organization_id: string
+          quantity: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          lot_id: string
+          movement_id: string
+          organization_id: string
+          quantity: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          lot_id?: string
+          movement_id?: string
+          organization_id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "movement_lots_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "product_lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movement_lots_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movement_lots_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      movement_serials: {
+        Row: {
+          created_at: string
+          id: string
+          movement_id: string
+          organization_id: string
+          serial_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          movement_id: string
+          organization_id: string
+          serial_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          movement_id?: string
+          organization_id?: string
+          serial_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "movement_serials_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movement_serials_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movement_serials_serial_id_fkey"
+            columns: ["serial_id"]
+            isOneToOne: false
+            referencedRelation: "product_serials"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      movements: {
+        Row: {
+          assembled: boolean
+          average_cost: number | null
+          correction_of_id: string | null
+          created_at: string
+          created_by: string
+          custos_adicionais: Json | null
+          document_id: string | null
+          entered_quantity: number | null
+          entered_unit: string | null
+          from_location_id: string | null
+          id: string
+          kit_assembly_order_id: string | null
+          kit_id: string | null
+          note: string | null
+          organization_id: string
+          preco_venda_usado: number | null
+          product_id: string | null
+          purchase_order_line_id: string | null
+          quantity: number
+          reference: string | null
+          reversal_of_id: string | null
+          sales_order_line_id: string | null
+          to_location_id: string | null
+          transfer_id: string | null
+          type: Database["public"]["Enums"]["movement_type"]
+          unit_cost: number | null
+        }
+        Insert: {
+          assembled?: boolean
+          average_cost?: number | null
+          correction_of_id?: string | null
+          created_at?: string
+          created_by: string
+          custos_adicionais?: Json | null
+          document_id?: string | null
+          entered_quantity?: number | null
+          entered_unit?: string | null
+          from_location_id?: string | null
+          id?: string
+          kit_assembly_order_id?: string | null
+          kit_id?: string | null
+          note?: string | null
+          organization_id: string
+          preco_venda_usado?: number | null
+          product_id?: string | null
+          purchase_order_line_id?: string | null
+          quantity: number
+          reference?: string | null
+          reversal_of_id?: string | null
+          sales_order_line_id?: string | null
+          to_location_id?: string | null
+          transfer_id?: string | null
+          type: Database["public"]["Enums"]["movement_type"]
+          unit_cost?: number | null
+        }
+        Update: {
+          assembled?: boolean
+          average_cost?: number | null
+          correction_of_id?: string | null
+          created_at?: string
+          created_by?: string
+          custos_adicionais?: Json | null
+          document_id?: string | null
+          entered_quantity?: number | null
+          entered_unit?: string | null
+          from_location_id?: string | null
+          id?: string
+          kit_assembly_order_id?: string | null
+          kit_id?: string | null
+          note?: string | null
+          organization_id?: string
+          preco_venda_usado?: number | null
+          product_id?: string | null
+          purchase_order_line_id?: string | null
+          quantity?: number
+          reference?: string | null
+          reversal_of_id?: string | null
+          sales_order_line_id?: string | null
+          to_location_id?: string | null
+          transfer_id?: string | null
+          type?: Database["public"]["Enums"]["movement_type"]
+          unit_cost?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "movements_correction_of_id_fkey"
+            columns: ["correction_of_id"]
+            isOneToOne: false
+            referencedRelation: "movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movements_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "movement_documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movements_from_location_id_fkey"
+            columns: ["from_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movements_kit_assembly_order_id_fkey"
+            columns: ["kit_assembly_order_id"]
+            isOneToOne: false
+            referencedRelation: "kit_assembly_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movements_kit_id_fkey"
+            columns: ["kit_id"]
+            isOneToOne: false
+            referencedRelation: "kits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movements_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movements_purchase_order_line_id_fkey"
+            columns: ["purchase_order_line_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movements_reversal_of_id_fkey"
+            columns: ["reversal_of_id"]
+            isOneToOne: false
+            referencedRelation: "movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movements_sales_order_line_id_fkey"
+            columns: ["sales_order_line_id"]
+            isOneToOne: false
+            referencedRelation: "sales_order_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movements_to_location_id_fkey"
+            columns: ["to_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movements_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          id: string
+          message: string
+          organization_id: string
+          read: boolean
+          related_entity_id: string | null
+          related_entity_type: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message: string
+          organization_id: string
+          read?: boolean
+          related_entity_id?: string | null
+          related_entity_type?: string | null
+          title: string
+          type?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string
+          organization_id?: string
+          read?: boolean
+          related_entity_id?: string | null
+          related_entity_type?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          id: string
+          organization_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          organization_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          organization_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_settings: {
+        Row: {
+          abc_a_threshold: number
+          abc_b_threshold: number
+          abc_basis: string
+          classification_period_days: number
+          costing_method: string
+          created_at: string
+          organization_id: string
+          reversal_window_days: number
+          updated_at: string
+          xyz_x_threshold: number
+          xyz_y_threshold: number
+        }
+        Insert: {
+          abc_a_threshold?: number
+          abc_b_threshold?: number
+          abc_basis?: string
+          classification_period_days?: number
+          costing_method?: string
+          created_at?: string
+          organization_id: string
+          reversal_window_days?: number
+          updated_at?: string
+          xyz_x_threshold?: number
+          xyz_y_threshold?: number
+        }
+        Update: {
+          abc_a_threshold?: number
+          abc_b_threshold?: number
+          abc_basis?: string
+          classification_period_days?: number
+          costing_method?: string
+          created_at?: string
+          organization_id?: string
+          reversal_window_days?: number
+          updated_at?: string
+          xyz_x_threshold?: number
+          xyz_y_threshold?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_settings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: string
+          name: string
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          name: string
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          name?: string
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      parent_products: {
+        Row: {
+          attributes: Json
+          category_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          organization_id: string
+          sku: string | null
+          updated_at: string
+        }
+        Insert: {
+          attributes?: Json
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          organization_id: string
+          sku?: string | null
+          updated_at?: string
+        }
+        Update: {
+          attributes?: Json
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          organization_id?: string
+          sku?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parent_products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "parent_products_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_history: {
+        Row: {
+          amount: number
+          created_at: string | null
+          id: string
+          metadata: Json | null
+          payment_date: string | null
+          payment_id: string | null
+          preapproval_id: string
+          status: string
+          subscription_id: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          id?: string
+          metadata?: Json | null
+          payment_date?: string | null
+          payment_id?: string | null
+          preapproval_id: string
+          status: string
+          subscription_id?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          id?: string
+          metadata?: Json | null
+          payment_date?: string | null
+          payment_id?: string | null
+          preapproval_id?: string
+          status?: string
+          subscription_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_history_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plans: {
+        Row: {
+          ai_features: Json | null
+          created_at: string
+          description: string | null
+          id: string
+          max_companies: number
+          max_movements: number
+          max_products: number
+          max_users: number
+          mp_preapproval_template_id: string | null
+          name: string
+          price: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          ai_features?: Json | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          max_companies?: number
+          max_movements?: number
+          max_products?: number
+          max_users?: number
+          mp_preapproval_template_id?: string | null
+          name: string
+          price?: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          ai_features?: Json | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          max_companies?: number
+          max_movements?: number
+          max_products?: number
+          max_users?: number
+          mp_preapproval_template_id?: string | null
+          name?: string
+          price?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      previsoes_estoque: {
+        Row: {
+          created_at: string
+          data_previsao: string
+          dias_restantes: number | null
+          estoque_atual: number
+          id: string
+          media_vendas_diaria: number
+          organization_id: string
+          perda_financeira: number | null
+          produto_id: string
+          recomendacao: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          data_previsao?: string
+          dias_restantes?: number | null
+          estoque_atual?: number
+          id?: string
+          media_vendas_diaria?: number
+          organization_id: string
+          perda_financeira?: number | null
+          produto_id: string
+          recomendacao?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          data_previsao?: string
+          dias_restantes?: number | null
+          estoque_atual?: number
+          id?: string
+          media_vendas_diaria?: number
+          organization_id?: string
+          perda_financeira?: number | null
+          produto_id?: string
+          recomendacao?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "previsoes_estoque_produto_id_fkey"
+            columns: ["produto_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_location_levels: {
+        Row: {
+          created_at: string
+          id: string
+          location_id: string
+          max_quantity: number | null
+          min_quantity: number
+          organization_id: string
+          product_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          location_id: string
+          max_quantity?: number | null
+          min_quantity?: number
+          organization_id: string
+          product_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          location_id?: string
+          max_quantity?: number | null
+          min_quantity?: number
+          organization_id?: string
+          product_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_location_levels_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_location_levels_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_location_levels_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_lots: {
+        Row: {
+          created_at: string
+          expiry_date: string | null
+          id: string
+          lot_code: string
+          organization_id: string
+          product_id: string
+          quantity: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          expiry_date?: string | null
+          id?: string
+          lot_code: string
+          organization_id: string
+          product_id: string
+          quantity?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          expiry_date?: string | null
+          id?: string
+          lot_code?: string
+          organization_id?: string
+          product_id?: string
+          quantity?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_lots_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_lots_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_serials: {
+        Row: {
+          created_at: string
+          id: string
+          location_id: string | null
+          organization_id: string
+          product_id: string
+          serial_number: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          location_id?: string | null
+          organization_id: string
+          product_id: string
+          serial_number: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          location_id?: string | null
+          organization_id?: string
+          product_id?: string
+          serial_number?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_serials_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_serials_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_serials_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_unit_conversions: {
+        Row: {
+          created_at: string
+          factor: number
+          id: string
+          organization_id: string
+          product_id: string
+          unit: string
+        }
+        Insert: {
+          created_at?: string
+          factor: number
+          id?: string
+          organization_id: string
+          product_id: string
+          unit: string
+        }
+        Update: {
+          created_at?: string
+          factor?: number
+          id?: string
+          organization_id?: string
+          product_id?: string
+          unit?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_unit_conversions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_unit_conversions_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          abc_class: string | null
+          active: boolean
+          barcode: string | null
+          category_id: string | null
+          classification_value: number | null
+          classified_at: string | null
+          cost: number
+          created_at: string
+          custo_unitario: number | null
+          demand_variation: number | null
+          description: string | null
+          id: string
+          image_url: string | null
+          location_id: string | null
+          min_order_quantity: number
+          min_quantity: number
+          name: string
+          organization_id: string
+          parent_product_id: string | null
+          preco_venda: number | null
+          purchase_unit: string | null
+          quantity: number
+          serialized: boolean
+          sku: string
+          supplier_id: string | null
+          track_lots: boolean
+          unit: string
+          updated_at: string
+          variant_attributes: Json | null
+          xyz_class: string | null
+        }
+        Insert: {
+          abc_class?: string | null
+          active?: boolean
+          barcode?: string | null
+          category_id?: string | null
+          classification_value?: number | null
+          classified_at?: string | null
+          cost?: number
+          created_at?: string
+          custo_unitario?: number | null
+          demand_variation?: number | null
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          location_id?: string | null
+          min_order_quantity?: number
+          min_quantity?: number
+          name: string
+          organization_id: string
+          parent_product_id?: string | null
+          preco_venda?: number | null
+          purchase_unit?: string | null
+          quantity?: number
+          serialized?: boolean
+          sku: string
+          supplier_id?: string | null
+          track_lots?: boolean
+          unit?: string
+          updated_at?: string
+          variant_attributes?: Json | null
+          xyz_class?: string | null
+        }
+        Update: {
+          abc_class?: string | null
+          active?: boolean
+          barcode?: string | null
+          category_id?: string | null
+          classification_value?: number | null
+          classified_at?: string | null
+          cost?: number
+          created_at?: string
+          custo_unitario?: number | null
+          demand_variation?: number | null
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          location_id?: string | null
+          min_order_quantity?: number
+          min_quantity?: number
+          name?: string
+          organization_id?: string
+          parent_product_id?: string | null
+          preco_venda?: number | null
+          purchase_unit?: string | null
+          quantity?: number
+          serialized?: boolean
+          sku?: string
+          supplier_id?: string | null
+          track_lots?: boolean
+          unit?: string
+          updated_at?: string
+          variant_attributes?: Json | null
+          xyz_class?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_parent_product_id_fkey"
+            columns: ["parent_product_id"]
+            isOneToOne: false
+            referencedRelation: "parent_products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          id: string
+          location_id: string | null
+          name: string
+          organization_id: string
+          phone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          id?: string
+          location_id?: string | null
+          name: string
+          organization_id: string
+          phone?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          id?: string
+          location_id?: string | null
+          name?: string
+          organization_id?: string
+          phone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_lines: {
+        Row: {
+          created_at: string
+          id: string
+          order_id: string
+          organization_id: string
+          product_id: string
+          quantity: number
+          received_quantity: number
+          unit_cost: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          order_id: string
+          organization_id: string
+          product_id: string
+          quantity: number
+          received_quantity?: number
+          unit_cost?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          order_id?: string
+          organization_id?: string
+          product_id?: string
+          quantity?: number
+          received_quantity?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          cancelled_at: string | null
+          created_at: string
+          created_by: string
+          expected_date: string | null
+          id: string
+          location_id: string | null
+          notes: string | null
+          number: string
+          organization_id: string
+          received_at: string | null
+          sent_at: string | null
+          status: string
+          supplier_id: string
+          updated_at: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          created_at?: string
+          created_by: string
+          expected_date?: string | null
+          id?: string
+          location_id?: string | null
+          notes?: string | null
+          number?: string
+          organization_id: string
+          received_at?: string | null
+          sent_at?: string | null
+          status?: string
+          supplier_id: string
+          updated_at?: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          created_at?: string
+          created_by?: string
+          expected_date?: string | null
+          id?: string
+          location_id?: string | null
+          notes?: string | null
+          number?: string
+          organization_id?: string
+          received_at?: string | null
+          sent_at?: string | null
           status?: string
+          supplier_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recomendacoes_preco: {
+        Row: {
+          analise_completa: string
+          aplicado: boolean
+          created_at: string
+          data_aplicacao: string | null
+          id: string
+          impacto_demanda: string | null
+          lucro_potencial: number | null
+          organization_id: string
+          preco_atual: number
+          preco_recomendado: number
+          produto_id: string | null
+          tipo: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          analise_completa: string
+          aplicado?: boolean
+          created_at?: string
+          data_aplicacao?: string | null
+          id?: string
+          impacto_demanda?: string | null
+          lucro_potencial?: number | null
+          organization_id: string
+          preco_atual: number
+          preco_recomendado: number
+          produto_id?: string | null
+          tipo: string
           updated_at?: string
+          user_id: string
+        }
+        Update: {
+          analise_completa?: string
+          aplicado?: boolean
+          created_at?: string
+          data_aplicacao?: string | null
+          id?: string
+          impacto_demanda?: string | null
+          lucro_potencial?: number | null
+          organization_id?: string
+          preco_atual?: number
+          preco_recomendado?: number
+          produto_id?: string | null
+          tipo?: string
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
-      previsoes_estoque: {
+      relatorio_configuracoes: {
         Row: {
           created_at: string
-          data_previsao: string
-          dias_restantes: number | null
-          estoque_atual: number
+          horario_envio: string
           id: string
-          media_vendas_diaria: number
+          incluir_estoque_critico: boolean
+          incluir_estoque_parado: boolean
+          incluir_financeiro: boolean
+          incluir_previsoes: boolean
+          incluir_valor_estoque: boolean
           organization_id: string
-          perda_financeira: number | null
-          produto_id: string
-          recomendacao: string | null
           updated_at: string
+          user_id: string
         }
         Insert: {
           created_at?: string
-          data_previsao?: string
-          dias_restantes?: number | null
-          estoque_atual?: number
+          horario_envio?: string
           id?: string
-          media_vendas_diaria?: number
+          incluir_estoque_critico?: boolean
+          incluir_estoque_parado?: boolean
+          incluir_financeiro?: boolean
+          incluir_previsoes?: boolean
+          incluir_valor_estoque?: boolean
           organization_id: string
-          perda_financeira?: number | null
-          produto_id: string
-          recomendacao?: string | null
           updated_at?: string
+          user_id: string
         }
         Update: {
           created_at?: string
-          data_previsao?: string
-          dias_restantes?: number | null
-          estoque_atual?: number
+          horario_envio?: string
           id?: string
-          media_vendas_diaria?: number
+          incluir_estoque_critico?: boolean
+          incluir_estoque_parado?: boolean
+          incluir_financeiro?: boolean
+          incluir_previsoes?: boolean
+          incluir_valor_estoque?: boolean
           organization_id?: string
-          perda_financeira?: number | null
-          produto_id?: string
-          recomendacao?: string | null
           updated_at?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "previsoes_estoque_produto_id_fkey"
-            columns: ["produto_id"]
+            foreignKeyName: "relatorio_configuracoes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_order_lines: {
+        Row: {
+          created_at: string
+          id: string
+          kit_id: string | null
+          order_id: string
+          organization_id: string
+          product_id: string | null
+          quantity: number
+          reserved_assembled: boolean
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kit_id?: string | null
+          order_id: string
+          organization_id: string
+          product_id?: string | null
+          quantity: number
+          reserved_assembled?: boolean
+          unit_price?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kit_id?: string | null
+          order_id?: string
+          organization_id?: string
+          product_id?: string | null
+          quantity?: number
+          reserved_assembled?: boolean
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_order_lines_kit_id_fkey"
+            columns: ["kit_id"]
+            isOneToOne: false
+            referencedRelation: "kits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_lines_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "sales_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_lines_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_lines_product_id_fkey"
+            columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
         ]
       }
-      products: {
+      sales_orders: {
         Row: {
-          active: boolean
-          barcode: string | null
-          category_id: string | null
-          cost: number
+          cancelled_at: string | null
           created_at: string
-          custo_unitario: number | null
-          description: string | null
+          created_by: string
+          customer_contact: string | null
+          customer_name: string
+          delivery_date: string | null
           id: string
-          image_url: string | null
+          invoice_number: string | null
+          invoiced_at: string | null
           location_id: string | null
-          min_quantity: number
-          name: string
+          notes: string | null
+          number: string
           organization_id: string
-          preco_venda: number | null
-          quantity: number
-          sku: string
-          supplier_id: string | null
-          unit: string
+          picked_at: string | null
+          reserved_at: string | null
+          shipped_at: string | null
+          status: string
           updated_at: string
         }
         Insert: {
-          active?: boolean
-          barcode?: string | null
-          category_id?: string | null
-          cost?: number
+          cancelled_at?: string | null
           created_at?: string
-          custo_unitario?: number | null
-          description?: string | null
+          created_by: string
+          customer_contact?: string | null
+          customer_name: string
+          delivery_date?: string | null
           id?: string
-          image_url?: string | null
+          invoice_number?: string | null
+          invoiced_at?: string | null
           location_id?: string | null
-          min_quantity?: number
-          name: string
+          notes?: string | null
+          number?: string
           organization_id: string
-          preco_venda?: number | null
-          quantity?: number
-          sku: string
-          supplier_id?: string | null
-          unit?: string
+          picked_at?: string | null
+          reserved_at?: string | null
+          shipped_at?: string | null
+          status?: string
           updated_at?: string
         }
         Update: {
-          active?: boolean
-          barcode?: string | null
-          category_id?: string | null
-          cost?: number
+          cancelled_at?: string | null
           created_at?: string
-          custo_unitario?: number | null
-          description?: string | null
+          created_by?: string
+          customer_contact?: string | null
+          customer_name?: string
+          delivery_date?: string | null
           id?: string
-          image_url?: string | null
+          invoice_number?: string | null
+          invoiced_at?: string | null
           location_id?: string | null
-          min_quantity?: number
-          name?: string
+          notes?: string | null
+          number?: string
           organization_id?: string
-          preco_venda?: number | null
-          quantity?: number
-          sku?: string
-          supplier_id?: string | null
-          unit?: string
+          picked_at?: string | null
+          reserved_at?: string | null
+          shipped_at?: string | null
+          status?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "products_category_id_fkey"
-            columns: ["category_id"]
-            isOneToOne: false
-            referencedRelation: "categories"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "products_location_id_fkey"
+            foreignKeyName: "sales_orders_location_id_fkey"
             columns: ["location_id"]
             isOneToOne: false
             referencedRelation: "locations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "products_organization_id_fkey"
+            foreignKeyName: "sales_orders_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "products_supplier_id_fkey"
-            columns: ["supplier_id"]
-            isOneToOne: false
-            referencedRelation: "suppliers"
-            referencedColumns: ["id"]
-          },
         ]
       }
-      profiles: {
+      stock_balances: {
         Row: {
-          avatar_url: string | null
           created_at: string
           id: string
-          name: string
+          location_id: string
           organization_id: string
-          phone: string | null
+          product_id: string
+          quantity: number
           updated_at: string
-          user_id: string
         }
         Insert: {
-          avatar_url?: string | null
           created_at?: string
           id?: string
-          name: string
+          location_id: string
           organization_id: string
-          phone?: string | null
+          product_id: string
+          quantity?: number
           updated_at?: string
-          user_id: string
         }
         Update: {
-          avatar_url?: string | null
           created_at?: string
           id?: string
-          name?: string
+          location_id?: string
           organization_id?: string
-          phone?: string | null
+          product_id?: string
+          quantity?: number
           updated_at?: string
-          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_organization_id_fkey"
+            foreignKeyName: "stock_balances_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_balances_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_balances_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      recomendacoes_preco: {
+      stock_returns: {
         Row: {
-          analise_completa: string
-          aplicado: boolean
           created_at: string
-          data_aplicacao: string | null
+          created_by: string
           id: string
-          impacto_demanda: string | null
-          lucro_potencial: number | null
+          kind: string
+          location_id: string | null
+          notes: string | null
           organization_id: string
-          preco_atual: number
-          preco_recomendado: number
-          produto_id: string | null
-          tipo: string
-          updated_at: string
-          user_id: string
+          original_movement_id: string
+          quantity: number
+          reason_code: string
+          return_movement_id: string | null
         }
         Insert: {
-          analise_completa: string
-          aplicado?: boolean
           created_at?: string
-          data_aplicacao?: string | null
+          created_by: string
           id?: string
-          impacto_demanda?: string | null
-          lucro_potencial?: number | null
+          kind: string
+          location_id?: string | null
+          notes?: string | null
           organization_id: string
-          preco_atual: number
-          preco_recomendado: number
-          produto_id?: string | null
-          tipo: string
-          updated_at?: string
-          user_id: string
+          original_movement_id: string
+          quantity: number
+          reason_code: string
+          return_movement_id?: string | null
         }
         Update: {
-          analise_completa?: string
-          aplicado?: boolean
           created_at?: string
-          data_aplicacao?: string | null
+          created_by?: string
           id?: string
-          impacto_demanda?: string | null
-          lucro_potencial?: number | null
+          kind?: string
+          location_id?: string | null
+          notes?: string | null
           organization_id?: string
-          preco_atual?: number
-          preco_recomendado?: number
-          produto_id?: string | null
-          tipo?: string
-          updated_at?: string
-          user_id?: string
+          original_movement_id?: string
+          quantity?: number
+          reason_code?: string
+          return_movement_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "stock_returns_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_returns_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_returns_original_movement_id_fkey"
+            columns: ["original_movement_id"]
+            isOneToOne: false
+            referencedRelation: "movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_returns_return_movement_id_fkey"
+            columns: ["return_movement_id"]
+            isOneToOne: false
+            referencedRelation: "movements"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      relatorio_configuracoes: {
+      stock_transfers: {
         Row: {
           created_at: string
-          horario_envio: string
+          created_by: string
+          from_location_id: string | null
           id: string
-          incluir_estoque_critico: boolean
-          incluir_financeiro: boolean
-          incluir_previsoes: boolean
-          incluir_valor_estoque: boolean
+          lost_quantity: number | null
+          notes: string | null
           organization_id: string
+          product_id: string
+          quantity: number
+          receipt_notes: string | null
+          received_at: string | null
+          received_by: string | null
+          received_quantity: number | null
+          reference: string | null
+          status: string
+          to_location_id: string | null
           updated_at: string
-          user_id: string
         }
         Insert: {
           created_at?: string
-          horario_envio?: string
+          created_by: string
+          from_location_id?: string | null
           id?: string
-          incluir_estoque_critico?: boolean
-          incluir_financeiro?: boolean
-          incluir_previsoes?: boolean
-          incluir_valor_estoque?: boolean
+          lost_quantity?: number | null
+          notes?: string | null
           organization_id: string
+          product_id: string
+          quantity: number
+          receipt_notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          received_quantity?: number | null
+          reference?: string | null
+          status?: string
+          to_location_id?: string | null
           updated_at?: string
-          user_id: string
         }
         Update: {
           created_at?: string
-          horario_envio?: string
+          created_by?: string
+          from_location_id?: string | null
           id?: string
-          incluir_estoque_critico?: boolean
-          incluir_financeiro?: boolean
-          incluir_previsoes?: boolean
-          incluir_valor_estoque?: boolean
+          lost_quantity?: number | null
+          notes?: string | null
           organization_id?: string
+          product_id?: string
+          quantity?: number
+          receipt_notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          received_quantity?: number | null
+          reference?: string | null
+          status?: string
+          to_location_id?: string | null
           updated_at?: string
-          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "relatorio_configuracoes_organization_id_fkey"
+            foreignKeyName: "stock_transfers_from_location_id_fkey"
+            columns: ["from_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_transfers_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_to_location_id_fkey"
+            columns: ["to_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
         ]
       }
       subscriptions: {
@@ -1047,6 +2566,7 @@ export type Database = {
           created_at: string
           email: string | null
           id: string
+          lead_time_days: number
           logo_url: string | null
           name: string
           organization_id: string
@@ -1060,6 +2580,7 @@ export type Database = {
           created_at?: string
           email?: string | null
           id?: string
+          lead_time_days?: number
           logo_url?: string | null
           name: string
           organization_id: string
@@ -1073,6 +2594,7 @@ export type Database = {
           created_at?: string
           email?: string | null
           id?: string
+          lead_time_days?: number
           logo_url?: string | null
           name?: string
           organization_id?: string
@@ -1115,6 +2637,43 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      adjust_stock_balance: {
+        Args: { _delta: number; _location_id: string; _product_id: string }
+        Returns: undefined
+      }
+      apply_movement_stock: {
+        Args: {
+          _from_location_id: string
+          _product_id: string
+          _quantity: number
+          _sign: number
+          _to_location_id: string
+          _type: Database["public"]["Enums"]["movement_type"]
+        }
+        Returns: undefined
+      }
+      classify_inventory: { Args: never; Returns: number }
+      dispatch_stock_transfer: {
+        Args: {
+          _entered_quantity?: number
+          _entered_unit?: string
+          _from_location_id?: string
+          _notes?: string
+          _product_id: string
+          _quantity: number
+          _reference?: string
+          _serial_ids?: Json
+          _to_location_id: string
+        }
+        Returns: string
+      }
+      expand_kit_components: {
+        Args: { _kit_id: string }
+        Returns: {
+          product_id: string
+          quantity: number
+        }[]
+      }
       get_critical_products: {
         Args: never
         Returns: {
@@ -1128,16 +2687,86 @@ export type Database = {
           id: string
           image_url: string
           location_id: string
+          location_max_quantity: number
+          location_min_quantity: number
           location_name: string
+          location_quantity: number
           min_quantity: number
           name: string
+          per_location: boolean
+          preco_venda: number
           quantity: number
           sku: string
           supplier_id: string
+          supplier_name: string
           unit: string
           updated_at: string
         }[]
       }
+      get_kit_extra_cost: { Args: { _kit_id: string }; Returns: number }
+      get_kit_unit_cost: { Args: { _kit_id: string }; Returns: number }
+      get_reserved_kit_quantities: {
+        Args: never
+        Returns: {
+          kit_id: string
+          location_id: string
+          reserved_quantity: number
+        }[]
+      }
+      get_reserved_quantities: {
+        Args: never
+        Returns: {
+          location_id: string
+          product_id: string
+          reserved_quantity: number
+        }[]
+      }
+      get_stock_aging: {
+        Args: never
+        Returns: {
+          days_without_out: number
+          last_out_at: string
+          location_id: string
+          product_id: string
+          quantity: number
+          unit_cost: number
+        }[]
+      }
+      get_stock_aging_for_organization: {
+        Args: { _organization_id: string }
+        Returns: {
+          days_without_out: number
+          last_out_at: string
+          location_id: string
+          product_id: string
+          quantity: number
+          unit_cost: number
+        }[]
+      }
+      get_stock_as_of: {
+        Args: { _as_of: string }
+        Returns: {
+          location_id: string
+          product_id: string
+          quantity: number
+          unit_cost: number
+        }[]
+      }
+      get_stock_shortages: {
+        Args: { _organization_id: string }
+        Returns: {
+          location_id: string
+          location_name: string
+          max_quantity: number
+          min_quantity: number
+          per_location: boolean
+          product_id: string
+          product_name: string
+          quantity: number
+          sku: string
+          unit: string
+        }[]
+      }
       get_user_organization_id: { Args: { _user_id: string }; Returns: string }
       has_role: {
         Args: {
@@ -1146,12 +2775,135 @@ export type Database = {
         }
         Returns: boolean
       }
+      invoice_sales_order: {
+        Args: {
+          _create_receivable?: boolean
+          _due_date?: string
+          _invoice_number?: string
+          _order_id: string
+        }
+        Returns: undefined
+      }
+      kit_bom_levels: {
+        Args: { _kit_id: string }
+        Returns: {
+          kit_id: string
+          multiplier: number
+        }[]
+      }
+      post_inventory_count: { Args: { _count_id: string }; Returns: number }
+      post_movement: {
+        Args: {
+          _assembled?: boolean
+          _correction_of_id?: string
+          _custos_adicionais?: Json
+          _entered_quantity?: number
+          _entered_unit?: string
+          _expiry_date?: string
+          _from_location_id?: string
+          _kit_id?: string
+          _lot_allocations?: Json
+          _lot_code?: string
+          _note?: string
+          _product_id?: string
+          _quantity: number
+          _reference?: string
+          _serial_ids?: Json
+          _serial_numbers?: Json
+          _to_location_id?: string
+          _type: Database["public"]["Enums"]["movement_type"]
+          _unit_cost?: number
+          _unit_price?: number
+        }
+        Returns: string
+      }
+      receive_purchase_order: {
+        Args: {
+          _create_payable?: boolean
+          _due_date?: string
+          _location_id?: string
+          _order_id: string
+          _receipts: Json
+        }
+        Returns: number
+      }
+      receive_stock_transfer: {
+        Args: {
+          _notes?: string
+          _received_quantity: number
+          _received_serial_ids?: Json
+          _transfer_id: string
+        }
+        Returns: undefined
+      }
+      refresh_serial_state: {
+        Args: { _serial_id: string }
+        Returns: undefined
+      }
+      register_kit_assembly: {
+        Args: {
+          _kind: string
+          _kit_id: string
+          _location_id: string
+          _notes?: string
+          _quantity: number
+        }
+        Returns: string
+      }
+      register_movement_document: {
+        Args: {
+          _document_date?: string
+          _from_location_id?: string
+          _lines: Json
+          _note?: string
+          _reference?: string
+          _to_location_id?: string
+          _type: Database["public"]["Enums"]["movement_type"]
+        }
+        Returns: string
+      }
+      register_return: {
+        Args: {
+          _location_id?: string
+          _movement_id: string
+          _notes?: string
+          _quantity: number
+          _reason_code: string
+          _serial_numbers?: Json
+        }
+        Returns: string
+      }
+      reserve_sales_order: {
+        Args: { _order_id: string }
+        Returns: undefined
+      }
+      reverse_movement: {
+        Args: { _movement_id: string; _reason?: string }
+        Returns: string
+      }
+      set_sales_order_status: {
+        Args: { _order_id: string; _status: string }
+        Returns: undefined
+      }
+      ship_sales_order: {
+        Args: { _order_id: string; _serials?: Json }
+        Returns: number
+      }
+      start_inventory_count: {
+        Args: {
+          _category_id?: string
+          _location_id?: string
+          _name: string
+          _notes?: string
+        }
+        Returns: string
+      }
       update_contas_status: { Args: never; Returns: undefined }
     }
     Enums: {
       app_role: "superadmin" | "admin" | "almoxarife" | "operador" | "auditor"
       invite_status: "pending" | "accepted" | "expired" | "cancelled"
-      movement_type: "IN" | "OUT" | "TRANSFER"
+      movement_type: "IN" | "OUT" | "TRANSFER" | "ADJUSTMENT"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1281,7 +3033,7 @@ export const Constants = {
     Enums: {
       app_role: ["superadmin", "admin", "almoxarife", "operador", "auditor"],
       invite_status: ["pending", "accepted", "expired", "cancelled"],
-      movement_type: ["IN", "OUT", "TRANSFER"],
+      movement_type: ["IN", "OUT", "TRANSFER", "ADJUSTMENT"],
     },
   },
 } as const
@@ -0,0 +1,151 @@
+export interface ScannableProduct {
+  id: string;
+  sku: string;
+  barcode: string | null;
+}
+
+export interface ScannableKit {
+  id: string;
+  sku: string;
+}
+
+export type ScanMatch = { kind: "product"; id: string } | { kind: "kit"; id: string };
+
+/**
+ * Product or kit a scanned code refers to: the product barcode first, then the
+ * product SKU and the kit SKU (SKUs ignore case)
+ */
+export const resolveScanCode = (
+  code: string,
+  products: ScannableProduct[] | null | undefined,
+  kits: ScannableKit[] | null | undefined
+): ScanMatch | null => {
+  const value = code.trim();
+  if (!value) return null;
+
+  const byBarcode = products?.find((p) => p.barcode === value);
+  if (byBarcode) return { kind: "product", id: byBarcode.id };
+
+  const sku = value.toLowerCase();
+  const bySku = products?.find((p) => p.sku.toLowerCase() === sku);
+  if (bySku) return { kind: "product", id: bySku.id };
+
+  const kit = kits?.find((k) => k.sku.toLowerCase() === sku);
+  if (kit) return { kind: "kit", id: kit.id };
+
+  return null;
+};
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Short beep after a scan: high and brief when it worked, low and longer when it didn't
+ */
+export const playScanFeedback = (success: boolean) => {
+  try {
+    audioContext = audioContext || new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+
+    oscillator.type = success ? "sine" : "square";
+    oscillator.frequency.value = success ? 1200 : 220;
+    gain.gain.value = 0.1;
+
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + (success ? 0.08 : 0.3));
+  } catch {
+    // Sem áudio disponível (navegador sem Web Audio): o retorno visual basta
+  }
+};
+
+// Larguras de barra/espaço dos símbolos Code 128 (valores 0–105; 106 é o stop)
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+
+const EAN_L = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+const EAN_G = ["0100111", "0110011", "0011011", "0100001", "0011101", "0111001", "0000101", "0010001", "0001001", "0010111"];
+const EAN_R = ["1110010", "1100110", "1101100", "1000010", "1011100", "1001110", "1010000", "1000100", "1001000", "1110100"];
+// Paridade dos seis dígitos da esquerda, definida pelo primeiro dígito
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+export type BarcodeSymbology = "EAN13" | "CODE128";
+
+export interface EncodedBarcode {
+  symbology: BarcodeSymbology;
+  /** One character per module: "1" is a bar, "0" a space */
+  modules: string;
+}
+
+const ean13CheckDigit = (digits: string) => {
+  const sum = digits
+    .slice(0, 12)
+    .split("")
+    .reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidEan13 = (value: string) =>
+  /^\d{13}$/.test(value) && ean13CheckDigit(value) === Number(value[12]);
+
+export const canEncodeCode128 = (value: string) => /^[\x20-\x7E]+$/.test(value);
+
+const encodeEan13 = (value: string) => {
+  const first = Number(value[0]);
+  const left = value
+    .slice(1, 7)
+    .split("")
+    .map((d, i) => (EAN_PARITY[first][i] === "L" ? EAN_L : EAN_G)[Number(d)])
+    .join("");
+  const right = value
+    .slice(7)
+    .split("")
+    .map((d) => EAN_R[Number(d)])
+    .join("");
+  return `101${left}01010${right}101`;
+};
+
+// Sequências só de dígitos (em número par) ficam mais curtas no conjunto C, dois dígitos por símbolo
+const encodeCode128 = (value: string) => {
+  const useSetC = /^\d+$/.test(value) && value.length >= 4 && value.length % 2 === 0;
+  const codes = useSetC
+    ? [CODE128_START_C, ...(value.match(/\d\d/g) || []).map(Number)]
+    : [CODE128_START_B, ...value.split("").map((c) => c.charCodeAt(0) - 32)];
+
+  const checksum = codes.reduce((acc, code, i) => acc + code * Math.max(i, 1), 0) % 103;
+
+  return [...codes, checksum, CODE128_STOP]
+    .map((code) =>
+      CODE128_PATTERNS[code]
+        .split("")
+        .map((width, i) => (i % 2 === 0 ? "1" : "0").repeat(Number(width)))
+        .join("")
+    )
+    .join("");
+};
+
+/**
+ * Barcode for a product code: EAN-13 when the code is a valid EAN-13, Code 128
+ * otherwise. Returns null for codes Code 128 cannot carry (accents, for instance)
+ */
+export const encodeBarcode = (value: string): EncodedBarcode | null => {
+  if (isValidEan13(value)) return { symbology: "EAN13", modules: encodeEan13(value) };
+  if (canEncodeCode128(value)) return { symbology: "CODE128", modules: encodeCode128(value) };
+  return null;
+};
@@ -0,0 +1,58 @@
+export type AbcClass = "A" | "B" | "C";
+export type XyzClass = "X" | "Y" | "Z";
+
+export const ABC_CLASSES: AbcClass[] = ["A", "B", "C"];
+export const XYZ_CLASSES: XyzClass[] = ["X", "Y", "Z"];
+
+export const ABC_DESCRIPTIONS: Record<AbcClass, string> = {
+  A: "Maior valor",
+  B: "Valor intermediário",
+  C: "Menor valor",
+};
+
+export const XYZ_DESCRIPTIONS: Record<XyzClass, string> = {
+  X: "Demanda estável",
+  Y: "Demanda variável",
+  Z: "Demanda irregular",
+};
+
+export interface ClassifiedProduct {
+  id: string;
+  abc_class: string | null;
+  xyz_class: string | null;
+  classification_value: number | null;
+}
+
+export interface ClassificationCell {
+  abc: AbcClass;
+  xyz: XyzClass;
+  count: number;
+  value: number;
+  // Participação do valor da célula no valor total (%)
+  share: number;
+}
+
+/**
+ * Counts and value per ABC × XYZ cell, in matrix order (A-X, A-Y, ... C-Z)
+ */
+export const buildClassificationMatrix = (products: ClassifiedProduct[]): ClassificationCell[] => {
+  const total = products.reduce((sum, p) => sum + Number(p.classification_value || 0), 0);
+
+  return ABC_CLASSES.flatMap((abc) =>
+    XYZ_CLASSES.map((xyz) => {
+      const inCell = products.filter((p) => p.abc_class === abc && p.xyz_class === xyz);
+      const value = inCell.reduce((sum, p) => sum + Number(p.classification_value || 0), 0);
+      return { abc, xyz, count: inCell.length, value, share: total > 0 ? (value / total) * 100 : 0 };
+    })
+  );
+};
+
+/**
+ * Whether a product matches a class filter: "A", "X" or a cell such as "AX"
+ */
+export const matchesClassFilter = (product: Pick<ClassifiedProduct, "abc_class" | "xyz_class">, filter: string) => {
+  if (filter === "all") return true;
+  const abc = filter.match(/[ABC]/)?.[0];
+  const xyz = filter.match(/[XYZ]/)?.[0];
+  return (!abc || product.abc_class === abc) && (!xyz || product.xyz_class === xyz);
+};
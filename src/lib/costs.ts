@@ -0,0 +1,65 @@
+import { endOfDay, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Moving weighted average after an inbound movement; mirrors apply_movement_cost
+ * in the database (stock at or below zero doesn't weigh in)
+ */
+export const getNewAverageCost = (
+  stock: number,
+  averageCost: number,
+  quantity: number,
+  unitCost: number
+): number => {
+  if (stock <= 0 || stock + quantity <= 0) return unitCost;
+  return (stock * averageCost + quantity * unitCost) / (stock + quantity);
+};
+
+/**
+ * Average cost of a product at the end of the given day (yyyy-MM-dd), taken from the
+ * last movement registered up to then. Null when the product has no cost history.
+ */
+export const getAverageCostAt = async (productId: string, date: string): Promise<number | null> => {
+  const { data, error } = await supabase
+    .from("movements")
+    .select("average_cost")
+    .eq("product_id", productId)
+    .not("average_cost", "is", null)
+    .lte("created_at", endOfDay(parseISO(date)).toISOString())
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.average_cost ?? null;
+};
+
+export interface CostLayer {
+  unit_cost: number;
+  remaining_quantity: number;
+}
+
+/**
+ * Cost of taking a quantity from the open layers, oldest first (layers must already be
+ * sorted by receipt). What the layers don't cover is costed at the fallback cost,
+ * as consume_cost_layers does in the database.
+ */
+export const estimateFifoCost = (layers: CostLayer[], quantity: number, fallbackCost: number): number => {
+  let pending = quantity;
+  let total = 0;
+
+  for (const layer of layers) {
+    if (pending <= 0) break;
+    const taken = Math.min(pending, Number(layer.remaining_quantity));
+    total += taken * Number(layer.unit_cost);
+    pending -= taken;
+  }
+
+  return pending > 0 ? total + pending * fallbackCost : total;
+};
+
+/**
+ * Total cost of the layer consumptions recorded for a movement (its FIFO COGS)
+ */
+export const getConsumedCost = (consumptions: { quantity: number; unit_cost: number }[]): number =>
+  consumptions.reduce((sum, c) => sum + Number(c.quantity) * Number(c.unit_cost), 0);
@@ -41,6 +41,8 @@ export const getMovementTypeBadge = (type: string) => {
       return <Badge className="bg-danger text-white">Saída</Badge>;
     case "TRANSFER":
       return <Badge className="bg-primary text-white">Transferência</Badge>;
+    case "ADJUSTMENT":
+      return <Badge className="bg-warning text-white">Ajuste</Badge>;
     default:
       return <Badge>{type}</Badge>;
   }
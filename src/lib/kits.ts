@@ -0,0 +1,105 @@
+export interface KitComponentStock {
+  quantity: number;
+  product: { quantity: number } | null;
+}
+
+/**
+ * Whole kits that can still be assembled from the components in stock
+ * (the scarcest component limits the result)
+ */
+export const getBuildableQuantity = (components: KitComponentStock[] | null | undefined): number => {
+  if (!components || components.length === 0) return 0;
+
+  return Math.max(
+    0,
+    Math.min(
+      ...components.map((c) =>
+        c.product && Number(c.quantity) > 0 ? Math.floor(Number(c.product.quantity) / Number(c.quantity)) : 0
+      )
+    )
+  );
+};
+
+/**
+ * Assembled units of a kit across all locations
+ */
+export const getAssembledQuantity = (balances: { quantity: number }[] | null | undefined): number => {
+  return (balances || []).reduce((sum, b) => sum + Number(b.quantity), 0);
+};
+
+/** One line of a kit's bill of materials: either a product or another kit */
+export interface BomItem {
+  kit_id: string;
+  product_id: string | null;
+  component_kit_id: string | null;
+  quantity: number;
+}
+
+/**
+ * Every kit in the tree of a kit (itself included) with how many units of it one unit
+ * of the top kit contains. A kit used in more than one branch appears once per branch.
+ * Branches that loop back are cut, so corrupted data can't recurse forever.
+ */
+export const getKitLevels = (
+  kitId: string,
+  items: BomItem[],
+  multiplier = 1,
+  path: string[] = []
+): { kit_id: string; multiplier: number }[] => {
+  if (path.includes(kitId)) return [];
+
+  return [
+    { kit_id: kitId, multiplier },
+    ...items
+      .filter((item) => item.kit_id === kitId && item.component_kit_id)
+      .flatMap((item) =>
+        getKitLevels(item.component_kit_id!, items, multiplier * Number(item.quantity), [...path, kitId])
+      ),
+  ];
+};
+
+/**
+ * Products consumed by one unit of a kit, through every level of sub-kits
+ */
+export const explodeKit = (kitId: string, items: BomItem[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+
+  for (const level of getKitLevels(kitId, items)) {
+    for (const item of items) {
+      if (item.kit_id !== level.kit_id || !item.product_id) continue;
+      totals.set(item.product_id, (totals.get(item.product_id) || 0) + level.multiplier * Number(item.quantity));
+    }
+  }
+
+  return totals;
+};
+
+/**
+ * Whether adding componentKitId to kitId would make a kit contain itself
+ */
+export const createsKitCycle = (kitId: string, componentKitId: string, items: BomItem[]): boolean => {
+  return getKitLevels(componentKitId, items).some((level) => level.kit_id === kitId);
+};
+
+/**
+ * Unit cost of a kit: its products at their unit cost plus the additional costs of the
+ * kit and of every sub-kit, each weighted by how many times it appears in the tree
+ */
+export const getKitUnitCost = (
+  kitId: string,
+  items: BomItem[],
+  productCosts: Record<string, number>,
+  kitExtraCosts: Record<string, number>
+): number => {
+  let cost = 0;
+
+  explodeKit(kitId, items).forEach((quantity, productId) => {
+    cost += (productCosts[productId] || 0) * quantity;
+  });
+
+  for (const level of getKitLevels(kitId, items)) {
+    cost += (kitExtraCosts[level.kit_id] || 0) * level.multiplier;
+  }
+
+  return cost;
+};
@@ -0,0 +1,199 @@
+import jsPDF from "jspdf";
+import QRCode from "qrcode";
+import { encodeBarcode } from "@/lib/barcode";
+import { formatCurrency } from "@/lib/formatters";
+
+export interface LabelFormat {
+  id: string;
+  label: string;
+  /** Label size in millimeters */
+  width: number;
+  height: number;
+  /** Sheet formats lay labels out in a grid; rolls print one label per page */
+  sheet: { columns: number; rows: number; gapX: number; gapY: number } | null;
+}
+
+export const LABEL_FORMATS: LabelFormat[] = [
+  { id: "a4-3x8", label: "Folha A4 — 3 × 8 (70 × 37 mm)", width: 70, height: 37, sheet: { columns: 3, rows: 8, gapX: 0, gapY: 0 } },
+  { id: "a4-3x11", label: "Folha A4 — 3 × 11 (63,5 × 25,4 mm)", width: 63.5, height: 25.4, sheet: { columns: 3, rows: 11, gapX: 2.5, gapY: 0 } },
+  { id: "a4-2x7", label: "Folha A4 — 2 × 7 (99 × 38 mm)", width: 99, height: 38, sheet: { columns: 2, rows: 7, gapX: 2.5, gapY: 0 } },
+  { id: "roll-50x30", label: "Rolo térmico — 50 × 30 mm", width: 50, height: 30, sheet: null },
+  { id: "roll-60x40", label: "Rolo térmico — 60 × 40 mm", width: 60, height: 40, sheet: null },
+  { id: "roll-100x50", label: "Rolo térmico — 100 × 50 mm", width: 100, height: 50, sheet: null },
+];
+
+export interface ProductLabelData {
+  name: string;
+  sku: string;
+  barcode: string | null;
+  price: number | null;
+  location: string | null;
+}
+
+export interface ProductLabelOptions {
+  copies: number;
+  showPrice: boolean;
+  showLocation: boolean;
+}
+
+export interface LocationLabelData {
+  code: string;
+  name: string;
+  region: string | null;
+}
+
+const A4_WIDTH = 210;
+const A4_HEIGHT = 297;
+// Respiro interno de cada etiqueta, para não imprimir rente ao corte
+const PADDING = 2;
+
+type DrawLabel<T> = (doc: jsPDF, item: T, x: number, y: number, format: LabelFormat) => void;
+
+const createDocument = (format: LabelFormat) =>
+  format.sheet
+    ? new jsPDF({ unit: "mm", format: "a4" })
+    : new jsPDF({
+        unit: "mm",
+        format: [format.width, format.height],
+        orientation: format.width > format.height ? "landscape" : "portrait",
+      });
+
+// Posições na folha centralizam a grade; rolos recebem uma etiqueta por página
+const renderLabels = <T>(items: T[], format: LabelFormat, draw: DrawLabel<T>) => {
+  const doc = createDocument(format);
+
+  items.forEach((item, index) => {
+    if (!format.sheet) {
+      if (index > 0) doc.addPage([format.width, format.height], format.width > format.height ? "landscape" : "portrait");
+      draw(doc, item, 0, 0, format);
+      return;
+    }
+
+    const { columns, rows, gapX, gapY } = format.sheet;
+    const perPage = columns * rows;
+    const slot = index % perPage;
+    if (index > 0 && slot === 0) doc.addPage();
+
+    const marginX = (A4_WIDTH - columns * format.width - (columns - 1) * gapX) / 2;
+    const marginY = (A4_HEIGHT - rows * format.height - (rows - 1) * gapY) / 2;
+    const column = slot % columns;
+    const row = Math.floor(slot / columns);
+    draw(doc, item, marginX + column * (format.width + gapX), marginY + row * (format.height + gapY), format);
+  });
+
+  return doc;
+};
+
+const fitText = (doc: jsPDF, text: string, maxWidth: number, maxLines: number) => {
+  const lines: string[] = doc.splitTextToSize(text, maxWidth);
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, -3)}...`;
+  return kept;
+};
+
+const drawBarcode = (doc: jsPDF, modules: string, x: number, y: number, width: number, height: number) => {
+  const moduleWidth = width / modules.length;
+  let start = -1;
+  for (let i = 0; i <= modules.length; i++) {
+    if (modules[i] === "1" && start < 0) start = i;
+    if (modules[i] !== "1" && start >= 0) {
+      doc.rect(x + start * moduleWidth, y, (i - start) * moduleWidth, height, "F");
+      start = -1;
+    }
+  }
+};
+
+const drawQRCode = (doc: jsPDF, text: string, x: number, y: number, size: number) => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: "M" });
+  const moduleSize = size / modules.size;
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        doc.rect(x + col * moduleSize, y + row * moduleSize, moduleSize, moduleSize, "F");
+      }
+    }
+  }
+};
+
+const drawProductLabel = (options: ProductLabelOptions): DrawLabel<ProductLabelData> => (doc, product, x, y, format) => {
+  const innerWidth = format.width - PADDING * 2;
+  const nameSize = Math.min(10, Math.max(6, format.height / 4));
+  const footerSize = nameSize - 1;
+  const lineHeight = nameSize * 0.4;
+  const showFooter = (options.showPrice && product.price !== null) || (options.showLocation && !!product.location);
+
+  doc.setTextColor(0, 0, 0);
+  doc.setFillColor(0, 0, 0);
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(nameSize);
+  const nameLines = fitText(doc, product.name, innerWidth, format.height >= 35 ? 2 : 1);
+  doc.text(nameLines, x + PADDING, y + PADDING + lineHeight);
+
+  const code = product.barcode || product.sku;
+  const encoded = encodeBarcode(code);
+  const barcodeTop = y + PADDING + nameLines.length * lineHeight + 1.5;
+  const barcodeBottom = y + format.height - PADDING - (showFooter ? footerSize * 0.45 + 1 : 0) - footerSize * 0.4 - 1;
+
+  if (encoded && barcodeBottom - barcodeTop > 4) {
+    // Módulos de pelo menos 0,25 mm, que leitores comuns ainda distinguem
+    const barcodeWidth = Math.min(innerWidth, Math.max(encoded.modules.length * 0.25, innerWidth * 0.8));
+    drawBarcode(doc, encoded.modules, x + (format.width - barcodeWidth) / 2, barcodeTop, barcodeWidth, barcodeBottom - barcodeTop);
+  }
+
+  doc.setFont("courier", "normal");
+  doc.setFontSize(footerSize);
+  doc.text(code, x + format.width / 2, barcodeBottom + footerSize * 0.4, { align: "center" });
+
+  if (showFooter) {
+    const footerY = y + format.height - PADDING;
+    if (options.showLocation && product.location) {
+      doc.setFont("helvetica", "normal");
+      doc.text(fitText(doc, product.location, innerWidth / 2, 1), x + PADDING, footerY);
+    }
+    if (options.showPrice && product.price !== null) {
+      doc.setFont("helvetica", "bold");
+      doc.text(formatCurrency(product.price), x + format.width - PADDING, footerY, { align: "right" });
+    }
+  }
+};
+
+const drawLocationLabel: DrawLabel<LocationLabelData> = (doc, location, x, y, format) => {
+  const qrSize = Math.min(format.height, format.width / 2) - PADDING * 2;
+  const textX = x + PADDING * 2 + qrSize;
+  const textWidth = format.width - qrSize - PADDING * 3;
+  const codeSize = Math.min(20, Math.max(9, format.height / 2.2));
+  const nameSize = Math.max(6, codeSize * 0.5);
+
+  doc.setTextColor(0, 0, 0);
+  doc.setFillColor(0, 0, 0);
+  drawQRCode(doc, location.code, x + PADDING, y + (format.height - qrSize) / 2, qrSize);
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(codeSize);
+  let textY = y + PADDING + codeSize * 0.4;
+  doc.text(fitText(doc, location.code, textWidth, 1), textX, textY);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(nameSize);
+  const nameLines = fitText(doc, location.name, textWidth, 2);
+  textY += nameSize * 0.5 + 1;
+  doc.text(nameLines, textX, textY);
+
+  if (location.region) {
+    doc.setTextColor(90, 90, 90);
+    doc.text(fitText(doc, location.region, textWidth, 1), textX, textY + nameLines.length * nameSize * 0.4 + 1);
+  }
+};
+
+export const generateProductLabelsPDF = (products: ProductLabelData[], format: LabelFormat, options: ProductLabelOptions) => {
+  const copies = products.flatMap((product) => Array.from({ length: Math.max(1, options.copies) }, () => product));
+  const doc = renderLabels(copies, format, drawProductLabel(options));
+  doc.save(`etiquetas-produtos-${new Date().toISOString().split("T")[0]}.pdf`);
+};
+
+export const generateLocationLabelsPDF = (locations: LocationLabelData[], format: LabelFormat) => {
+  const doc = renderLabels(locations, format, drawLocationLabel);
+  doc.save(`etiquetas-locais-${new Date().toISOString().split("T")[0]}.pdf`);
+};
@@ -0,0 +1,67 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { EXPIRY_WARNING_DAYS } from "@/constants";
+
+export interface ProductLot {
+  id: string;
+  lot_code: string;
+  expiry_date: string | null;
+  quantity: number;
+  created_at?: string;
+}
+
+export interface LotAllocation {
+  lot_id: string;
+  quantity: number;
+}
+
+/**
+ * Lots ordered first-expiring-first-out; lots without expiry go last, oldest first
+ */
+export const sortLotsFefo = <T extends ProductLot>(lots: T[] | null | undefined): T[] => {
+  return [...(lots || [])].sort((a, b) => {
+    if (a.expiry_date !== b.expiry_date) {
+      if (!a.expiry_date) return 1;
+      if (!b.expiry_date) return -1;
+      return a.expiry_date.localeCompare(b.expiry_date);
+    }
+    return (a.created_at || "").localeCompare(b.created_at || "");
+  });
+};
+
+/**
+ * Splits a quantity across the lots with stock, following FEFO order.
+ * Whatever the lots cannot cover is left out of the allocation.
+ */
+export const allocateFefo = (
+  lots: ProductLot[] | null | undefined,
+  quantity: number
+): LotAllocation[] => {
+  const allocations: LotAllocation[] = [];
+  let remaining = quantity;
+
+  for (const lot of sortLotsFefo(lots)) {
+    if (remaining <= 0) break;
+    const available = Number(lot.quantity);
+    if (available <= 0) continue;
+
+    const take = Math.min(available, remaining);
+    allocations.push({ lot_id: lot.id, quantity: take });
+    remaining -= take;
+  }
+
+  return allocations;
+};
+
+/**
+ * Days until the lot expires (negative when already expired)
+ */
+export const getDaysToExpiry = (expiryDate: string): number => {
+  return differenceInCalendarDays(parseISO(expiryDate), new Date());
+};
+
+/**
+ * Whether the lot is expired or expires within the warning window
+ */
+export const isExpiringSoon = (expiryDate: string | null, days = EXPIRY_WARNING_DAYS): boolean => {
+  return !!expiryDate && getDaysToExpiry(expiryDate) <= days;
+};
@@ -0,0 +1,320 @@
+import * as XLSX from "xlsx";
+import { PRODUCT_UNITS } from "@/constants";
+
+export type ImportField =
+  | "sku"
+  | "name"
+  | "barcode"
+  | "description"
+  | "category"
+  | "supplier"
+  | "location"
+  | "unit"
+  | "cost"
+  | "preco_venda"
+  | "min_quantity"
+  | "min_order_quantity"
+  | "initial_quantity"
+  | "active";
+
+export interface ImportFieldDefinition {
+  key: ImportField;
+  label: string;
+  required?: boolean;
+  /** Normalized spreadsheet headers recognized automatically, including the ones Products exports */
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { key: "sku", label: "SKU", required: true, aliases: ["sku", "codigo", "cod"] },
+  { key: "name", label: "Nome", required: true, aliases: ["nome", "name", "produto"] },
+  { key: "barcode", label: "Código de Barras", aliases: ["codigo de barras", "barcode", "ean", "gtin"] },
+  { key: "description", label: "Descrição", aliases: ["descricao", "description"] },
+  { key: "category", label: "Categoria", aliases: ["categoria", "category"] },
+  { key: "supplier", label: "Fornecedor", aliases: ["fornecedor", "supplier"] },
+  { key: "location", label: "Localização", aliases: ["localizacao", "local", "location"] },
+  { key: "unit", label: "Unidade", aliases: ["unidade", "unit", "un"] },
+  { key: "cost", label: "Custo", aliases: ["custo", "custo (r$)", "custo unitario", "cost"] },
+  { key: "preco_venda", label: "Preço de Venda", aliases: ["preco venda", "preco venda (r$)", "preco de venda", "preco", "price"] },
+  { key: "min_quantity", label: "Qtd. Mínima", aliases: ["qtd. minima", "qtd minima", "quantidade minima", "minimo", "min_quantity"] },
+  { key: "min_order_quantity", label: "Lote Mínimo de Compra", aliases: ["lote minimo", "lote minimo de compra", "min_order_quantity"] },
+  { key: "initial_quantity", label: "Estoque Inicial", aliases: ["estoque inicial", "quantidade", "qtd", "initial_quantity"] },
+  { key: "active", label: "Ativo", aliases: ["ativo", "active"] },
+];
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export type ImportMode = "create" | "upsert";
+
+export interface ImportLookups {
+  /** Existing products sharing a SKU or barcode with the file */
+  products: { id: string; sku: string; barcode: string | null }[];
+  categories: { id: string; name: string }[];
+  suppliers: { id: string; name: string; cnpj: string | null }[];
+  locations: { id: string; name: string; code: string }[];
+}
+
+export interface ImportRowResult {
+  /** Line number in the spreadsheet, counting the header as line 1 */
+  line: number;
+  sku: string;
+  name: string;
+  action: "create" | "update" | null;
+  /** Id of the product being updated */
+  productId: string | null;
+  values: {
+    name?: string;
+    barcode?: string | null;
+    description?: string | null;
+    category_id?: string | null;
+    supplier_id?: string | null;
+    location_id?: string | null;
+    unit?: string;
+    cost?: number;
+    preco_venda?: number | null;
+    min_quantity?: number;
+    min_order_quantity?: number;
+    active?: boolean;
+  };
+  initialQuantity: number;
+  errors: string[];
+  warnings: string[];
+}
+
+export const normalizeHeader = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * Reads the first sheet of a CSV or XLSX file as text cells keyed by header
+ */
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer, { type: "array", raw: file.name.toLowerCase().endsWith(".csv") });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+
+  // Valores crus: códigos numéricos longos (EAN) não viram notação científica
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: "", blankrows: false });
+  const [headerRow = [], ...body] = matrix;
+  const headers = headerRow.map((h) => String(h).trim()).filter(Boolean);
+
+  const rows = body
+    .map((cells) =>
+      Object.fromEntries(headerRow.map((h, i) => [String(h).trim(), String(cells[i] ?? "").trim()]))
+    )
+    .filter((row) => Object.values(row).some(Boolean));
+
+  return { headers, rows };
+};
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach((field) => {
+    const header = headers.find((h) => field.aliases.includes(normalizeHeader(h)));
+    if (header && !Object.values(mapping).includes(header)) mapping[field.key] = header;
+  });
+  return mapping;
+};
+
+/**
+ * Accepts both "1.234,56" and "1234.56"; returns null for blank cells and NaN for invalid ones
+ */
+export const parseImportNumber = (value: string): number | null => {
+  const text = value.replace(/[R$\s]/g, "");
+  if (!text) return null;
+  const normalized = text.includes(",") ? text.replace(/\./g, "").replace(",", ".") : text;
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : NaN;
+};
+
+const parseBoolean = (value: string) => {
+  const text = normalizeHeader(value);
+  if (["sim", "s", "yes", "y", "true", "1", "ativo"].includes(text)) return true;
+  if (["nao", "n", "no", "false", "0", "inativo"].includes(text)) return false;
+  return null;
+};
+
+/**
+ * Checks every row against the catalog the same way ProductDialog does (unique SKU
+ * and barcode per organization) and resolves category, supplier and location by
+ * name or code. Nothing is written here; the result drives the preview and the commit.
+ */
+export const validateImportRows = (
+  data: SpreadsheetData,
+  mapping: ColumnMapping,
+  lookups: ImportLookups,
+  mode: ImportMode
+): ImportRowResult[] => {
+  const productsBySku = new Map(lookups.products.map((p) => [p.sku, p]));
+  const productsByBarcode = new Map(
+    lookups.products.filter((p) => p.barcode).map((p) => [p.barcode as string, p])
+  );
+  const skusInFile = new Map<string, number>();
+  const barcodesInFile = new Map<string, number>();
+
+  return data.rows.map((row, index) => {
+    const line = index + 2;
+    const cell = (field: ImportField) => (mapping[field] ? row[mapping[field] as string] || "" : "");
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const values: ImportRowResult["values"] = {};
+
+    const sku = cell("sku");
+    const name = cell("name");
+    const existing = sku ? productsBySku.get(sku) : undefined;
+    let action: ImportRowResult["action"] = existing ? "update" : "create";
+
+    if (!sku) {
+      errors.push("SKU é obrigatório");
+    } else if (skusInFile.has(sku)) {
+      errors.push(`SKU repetido na linha ${skusInFile.get(sku)}`);
+    } else {
+      skusInFile.set(sku, line);
+    }
+
+    if (existing && mode === "create") {
+      errors.push("SKU já existe. Use o modo de atualização para alterá-lo");
+    }
+
+    if (name) values.name = name;
+    else if (!existing) errors.push("Nome é obrigatório");
+
+    const barcode = cell("barcode");
+    if (barcode) {
+      const owner = productsByBarcode.get(barcode);
+      if (owner && owner.id !== existing?.id) {
+        errors.push(`Código de barras já existe no produto ${owner.sku}`);
+      } else if (barcodesInFile.has(barcode)) {
+        errors.push(`Código de barras repetido na linha ${barcodesInFile.get(barcode)}`);
+      } else {
+        barcodesInFile.set(barcode, line);
+        values.barcode = barcode;
+      }
+    }
+
+    const description = cell("description");
+    if (description) values.description = description;
+
+    const category = cell("category");
+    if (category) {
+      const match = lookups.categories.find((c) => normalizeHeader(c.name) === normalizeHeader(category));
+      if (match) values.category_id = match.id;
+      else errors.push(`Categoria "${category}" não encontrada`);
+    }
+
+    const supplier = cell("supplier");
+    if (supplier) {
+      const digits = supplier.replace(/\D/g, "");
+      const match = lookups.suppliers.find(
+        (s) =>
+          normalizeHeader(s.name) === normalizeHeader(supplier) ||
+          (digits.length === 14 && s.cnpj?.replace(/\D/g, "") === digits)
+      );
+      if (match) values.supplier_id = match.id;
+      else errors.push(`Fornecedor "${supplier}" não encontrado`);
+    }
+
+    const location = cell("location");
+    if (location) {
+      const match = lookups.locations.find(
+        (l) =>
+          l.code.toLowerCase() === location.toLowerCase() ||
+          normalizeHeader(l.name) === normalizeHeader(location)
+      );
+      if (match) values.location_id = match.id;
+      else errors.push(`Local "${location}" não encontrado`);
+    }
+
+    // Aceita a sigla ou o nome da unidade (ex.: "KG" ou "Quilograma")
+    const unit = cell("unit");
+    if (unit) {
+      const match = PRODUCT_UNITS.find(
+        (u) => u.value === unit.toUpperCase() || normalizeHeader(u.label) === normalizeHeader(unit)
+      );
+      if (match) values.unit = match.value;
+      else errors.push(`Unidade "${unit}" inválida. Use ${PRODUCT_UNITS.map((u) => u.value).join(", ")}`);
+    } else if (!existing) values.unit = "UN";
+
+    const numberFields: [ImportField, string][] = [
+      ["cost", "Custo"],
+      ["preco_venda", "Preço de venda"],
+      ["min_quantity", "Quantidade mínima"],
+      ["min_order_quantity", "Lote mínimo de compra"],
+      ["initial_quantity", "Estoque inicial"],
+    ];
+    const numbers: Partial<Record<ImportField, number>> = {};
+    numberFields.forEach(([field, label]) => {
+      const parsed = parseImportNumber(cell(field));
+      if (parsed === null) return;
+      if (Number.isNaN(parsed) || parsed < 0) errors.push(`${label} inválido: "${cell(field)}"`);
+      else numbers[field] = parsed;
+    });
+
+    // O custo de produtos existentes é o custo médio, recalculado a cada entrada
+    if (numbers.cost !== undefined) {
+      if (existing) warnings.push("Custo ignorado: produtos existentes mantêm o custo médio");
+      else values.cost = numbers.cost;
+    }
+    if (numbers.preco_venda !== undefined) values.preco_venda = numbers.preco_venda;
+    if (numbers.min_quantity !== undefined) values.min_quantity = numbers.min_quantity;
+    if (numbers.min_order_quantity !== undefined) values.min_order_quantity = numbers.min_order_quantity;
+
+    let initialQuantity = 0;
+    if (numbers.initial_quantity) {
+      if (existing) warnings.push("Estoque inicial ignorado: use uma movimentação para alterar o saldo");
+      else initialQuantity = numbers.initial_quantity;
+    }
+
+    const active = cell("active");
+    if (active) {
+      const parsed = parseBoolean(active);
+      if (parsed === null) errors.push(`Valor de "Ativo" inválido: "${active}"`);
+      else values.active = parsed;
+    }
+
+    if (errors.length > 0) action = null;
+
+    return {
+      line,
+      sku,
+      name,
+      action,
+      productId: existing?.id || null,
+      values,
+      initialQuantity,
+      errors,
+      warnings,
+    };
+  });
+};
+
+/**
+ * Spreadsheet listing the rows that were not imported and why
+ */
+export const downloadImportErrorReport = (results: ImportRowResult[]) => {
+  const rows = results
+    .filter((r) => r.errors.length > 0 || r.warnings.length > 0)
+    .map((r) => ({
+      Linha: r.line,
+      SKU: r.sku,
+      Nome: r.name,
+      Situação: r.errors.length > 0 ? "Não importada" : "Importada com avisos",
+      Erros: r.errors.join("; "),
+      Avisos: r.warnings.join("; "),
+    }));
+
+  const ws = XLSX.utils.json_to_sheet(rows);
+  ws["!cols"] = [{ wch: 8 }, { wch: 18 }, { wch: 30 }, { wch: 22 }, { wch: 60 }, { wch: 60 }];
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, "Erros");
+  XLSX.writeFile(wb, `importacao-produtos-erros-${new Date().toISOString().split("T")[0]}.xlsx`);
+};
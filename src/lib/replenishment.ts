@@ -0,0 +1,85 @@
+export interface ReplenishmentInput {
+  product_id: string;
+  name: string;
+  sku: string;
+  unit: string;
+  quantity: number;
+  min_quantity: number;
+  min_order_quantity: number;
+  unit_cost: number;
+  // Média diária de saídas da última previsão calculada
+  daily_sales: number;
+  // Saldo ainda não recebido de pedidos de compra em aberto
+  on_order: number;
+  supplier_id: string | null;
+  supplier_name: string | null;
+  lead_time_days: number;
+}
+
+export interface ReplenishmentProposal extends ReplenishmentInput {
+  reorder_point: number;
+  target_quantity: number;
+  suggested_quantity: number;
+}
+
+export interface SupplierProposalGroup {
+  supplier_id: string | null;
+  supplier_name: string;
+  lead_time_days: number;
+  proposals: ReplenishmentProposal[];
+}
+
+/**
+ * Order quantity for one product, in base units.
+ * The product is reordered when the projected stock (on hand + on order) falls to the
+ * demand expected during the supplier lead time plus the minimum quantity; the order
+ * then covers the lead time and the review period, respecting the minimum order quantity.
+ */
+export const calculateReplenishment = (
+  input: ReplenishmentInput,
+  coverageDays: number
+): ReplenishmentProposal => {
+  const projected = input.quantity + input.on_order;
+  const reorderPoint = input.min_quantity + input.daily_sales * input.lead_time_days;
+  const targetQuantity = reorderPoint + input.daily_sales * coverageDays;
+
+  let suggested = 0;
+  if (projected <= reorderPoint && targetQuantity > projected) {
+    suggested = Math.ceil(Math.max(targetQuantity - projected, input.min_order_quantity));
+  }
+
+  return {
+    ...input,
+    reorder_point: reorderPoint,
+    target_quantity: targetQuantity,
+    suggested_quantity: suggested,
+  };
+};
+
+/**
+ * Proposals with a suggested quantity, grouped by supplier (products without a supplier last)
+ */
+export const groupProposalsBySupplier = (proposals: ReplenishmentProposal[]): SupplierProposalGroup[] => {
+  const groups = new Map<string, SupplierProposalGroup>();
+
+  proposals
+    .filter((proposal) => proposal.suggested_quantity > 0)
+    .forEach((proposal) => {
+      const key = proposal.supplier_id || "";
+      if (!groups.has(key)) {
+        groups.set(key, {
+          supplier_id: proposal.supplier_id,
+          supplier_name: proposal.supplier_name || "Sem fornecedor",
+          lead_time_days: proposal.lead_time_days,
+          proposals: [],
+        });
+      }
+      groups.get(key)!.proposals.push(proposal);
+    });
+
+  return Array.from(groups.values()).sort((a, b) => {
+    if (!a.supplier_id) return 1;
+    if (!b.supplier_id) return -1;
+    return a.supplier_name.localeCompare(b.supplier_name);
+  });
+};
@@ -1,8 +1,22 @@
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { addPDFHeader, addPDFFooter, addPDFSummary, getPDFTableStyles } from "./pdf-helpers";
 import { toast } from "sonner";
+import { fromBaseQuantity, getDisplayUnit, UnitMode } from "./units";
+import { formatVariantLabel, VariantValues } from "./variants";
+import { SupplierProposalGroup } from "./replenishment";
+import { exportToExcel } from "./export-utils";
+import { getKitUnitCost } from "./kits";
+import { getStockAsOf, StockAsOfLine, sumStockAsOfByProduct } from "./stock-as-of";
+import {
+  filterStockAging,
+  getStockAging,
+  StockAgingFilters,
+  StockAgingLine,
+  summarizeStockAging,
+} from "./stock-aging";
 
 export const exportFinancialReport = async (
   organizationId: string,
@@ -239,7 +253,10 @@ export const exportKitsReport = async (organizationId: string) => {
       .from("kits")
       .select(`
         *,
-        kit_items (
+        kit_items!kit_items_kit_id_fkey (
+          kit_id,
+          product_id,
+          component_kit_id,
           quantity,
           products (name, sku, cost)
         )
@@ -248,6 +265,10 @@ export const exportKitsReport = async (organizationId: string) => {
 
     if (kitsError) throw kitsError;
 
+    // Sub-kits are costed through their own composition
+    const bom = kits?.flatMap((kit) => kit.kit_items) || [];
+    const productCosts = Object.fromEntries(bom.map((item) => [item.product_id, Number(item.products?.cost || 0)]));
+
     const doc = new jsPDF("landscape");
     const startY = addPDFHeader({
       doc,
@@ -256,9 +277,7 @@ export const exportKitsReport = async (organizationId: string) => {
     });
 
     const kitsData = kits?.map((kit: any) => {
-      const totalCost = kit.kit_items?.reduce((acc: number, item: any) => 
-        acc + (Number(item.quantity) * Number(item.products?.cost || 0)), 0
-      ) || 0;
+      const totalCost = getKitUnitCost(kit.id, bom, productCosts, {});
       const margin = kit.preco_venda 
         ? ((Number(kit.preco_venda) - totalCost) / Number(kit.preco_venda) * 100).toFixed(1)
         : "0";
@@ -304,23 +323,23 @@ export const exportKitsReport = async (organizationId: string) => {
   }
 };
 
-export const exportCriticalStockReport = async (organizationId: string) => {
+export const exportCriticalStockReport = async (organizationId: string, unitMode: UnitMode = "base") => {
   try {
-    const { data: products, error } = await supabase
-      .from("products")
-      .select(`
-        *,
-        categories (name),
-        locations (name),
-        suppliers (name)
-      `)
-      .eq("organization_id", organizationId);
-
+    // Uma linha por local abaixo do seu mínimo (ou pelo total, quando o produto não tem níveis por local)
+    const { data: shortages, error } = await supabase.rpc("get_critical_products");
     if (error) throw error;
 
-    const criticalProducts = products?.filter(p => Number(p.quantity) <= Number(p.min_quantity)) || [];
-    const zeroStock = criticalProducts.filter(p => Number(p.quantity) === 0);
-    const lowStock = criticalProducts.filter(p => Number(p.quantity) > 0);
+    const { data: productUnits, error: unitsError } = await supabase
+      .from("products")
+      .select("id, unit, purchase_unit, product_unit_conversions (unit, factor)")
+      .eq("organization_id", organizationId)
+      .in("id", [...new Set((shortages || []).map((s) => s.id))]);
+    if (unitsError) throw unitsError;
+
+    const unitsById = new Map((productUnits || []).map((p) => [p.id, p]));
+    const criticalProducts = shortages || [];
+    const zeroStock = criticalProducts.filter(p => Number(p.location_quantity) === 0);
+    const lowStock = criticalProducts.filter(p => Number(p.location_quantity) > 0);
 
     const doc = new jsPDF("landscape");
     const startY = addPDFHeader({
@@ -334,17 +353,21 @@ export const exportCriticalStockReport = async (organizationId: string) => {
 
     autoTable(doc, {
       startY,
-      head: [["SKU", "Produto", "Categoria", "Qtd Atual", "Qtd Mínima", "Status", "Local", "Fornecedor"]],
-      body: criticalProducts.map((product: any) => [
-        product.sku,
-        product.name,
-        product.categories?.name || "-",
-        product.quantity,
-        product.min_quantity,
-        Number(product.quantity) === 0 ? "SEM ESTOQUE" : "CRÍTICO",
-        product.locations?.name || "-",
-        product.suppliers?.name || "-",
-      ]),
+      head: [["SKU", "Produto", "Categoria", "Qtd Atual", "Mín. / Máx.", "Status", "Local", "Fornecedor"]],
+      body: criticalProducts.map((product) => {
+        const { unit, factor } = getDisplayUnit(unitsById.get(product.id) || product, unitMode);
+        const maxQuantity = product.location_max_quantity;
+        return [
+          product.sku,
+          product.name,
+          product.category_name || "-",
+          `${fromBaseQuantity(product.location_quantity, factor)} ${unit}`,
+          `${fromBaseQuantity(product.location_min_quantity, factor)}${maxQuantity !== null ? ` / ${fromBaseQuantity(maxQuantity, factor)}` : ""} ${unit}`,
+          Number(product.location_quantity) === 0 ? "SEM ESTOQUE" : "CRÍTICO",
+          product.per_location ? product.location_name || "-" : "Estoque total",
+          product.supplier_name || "-",
+        ];
+      }),
       ...getPDFTableStyles(),
       columnStyles: {
         0: { cellWidth: 25 },
@@ -378,11 +401,11 @@ export const exportCriticalStockReport = async (organizationId: string) => {
 
     const finalY = (doc as any).lastAutoTable.finalY + 10;
     const estimatedLoss = criticalProducts.reduce((acc, p) => 
-      acc + (Number(p.preco_venda || 0) * Number(p.min_quantity)), 0
+      acc + (Number(p.preco_venda || 0) * Number(p.location_min_quantity)), 0
     );
 
     addPDFSummary(doc, finalY, "Resumo de Estoque Crítico", [
-      { label: "Produtos Críticos", value: criticalProducts.length },
+      { label: "Faltas por Local", value: criticalProducts.length },
       { label: "Produtos Zerados", value: zeroStock.length },
       { label: "Produtos em Nível Baixo", value: lowStock.length },
       { label: "Perda Potencial Estimada", value: `R$ ${estimatedLoss.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}` },
@@ -477,3 +500,538 @@ export const exportPerformanceReport = async (
     throw error;
   }
 };
+
+export const exportCostLayersReport = async (organizationId: string, unitMode: UnitMode = "base") => {
+  try {
+    const { data: layers, error } = await supabase
+      .from("cost_layers")
+      .select(`
+        received_at,
+        unit_cost,
+        original_quantity,
+        remaining_quantity,
+        products (name, sku, unit, custo_unitario, purchase_unit, product_unit_conversions (unit, factor))
+      `)
+      .eq("organization_id", organizationId)
+      .gt("remaining_quantity", 0)
+      .order("received_at", { ascending: true });
+
+    if (error) throw error;
+
+    // Camadas agrupadas por produto, da mais antiga para a mais nova
+    const sortedLayers = [...(layers || [])].sort((a, b) =>
+      (a.products?.name || "").localeCompare(b.products?.name || "")
+    );
+
+    const fifoValue = sortedLayers.reduce((acc, layer) =>
+      acc + Number(layer.remaining_quantity) * Number(layer.unit_cost), 0
+    );
+    const averageValue = sortedLayers.reduce((acc, layer) =>
+      acc + Number(layer.remaining_quantity) * Number(layer.products?.custo_unitario || 0), 0
+    );
+    const productCount = new Set(sortedLayers.map((layer) => layer.products?.sku)).size;
+    const formatBRL = (value: number) => `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}`;
+
+    const doc = new jsPDF("landscape");
+    const startY = addPDFHeader({
+      doc,
+      title: "Valorização de Estoque (PEPS)",
+      subtitle: "Camadas de custo em aberto por produto",
+      stats: [
+        { label: "Produtos", value: productCount },
+        { label: "Camadas", value: sortedLayers.length },
+        { label: "Valor PEPS", value: formatBRL(fifoValue) },
+      ]
+    });
+
+    autoTable(doc, {
+      startY,
+      head: [["SKU", "Produto", "Entrada", "Custo Unit.", "Qtd Original", "Qtd Restante", "Valor"]],
+      body: sortedLayers.map((layer) => {
+        const { unit, factor } = layer.products
+          ? getDisplayUnit(layer.products, unitMode)
+          : { unit: "", factor: 1 };
+        return [
+          layer.products?.sku || "-",
+          layer.products?.name || "-",
+          new Date(layer.received_at).toLocaleDateString("pt-BR"),
+          formatBRL(Number(layer.unit_cost) * factor),
+          `${fromBaseQuantity(Number(layer.original_quantity), factor)} ${unit}`.trim(),
+          `${fromBaseQuantity(Number(layer.remaining_quantity), factor)} ${unit}`.trim(),
+          formatBRL(Number(layer.remaining_quantity) * Number(layer.unit_cost)),
+        ];
+      }),
+      ...getPDFTableStyles(),
+      columnStyles: {
+        0: { cellWidth: 30 },
+        1: { cellWidth: 70 },
+        2: { halign: 'center', cellWidth: 28 },
+        3: { halign: 'right', cellWidth: 30 },
+        4: { halign: 'right', cellWidth: 32 },
+        5: { halign: 'right', cellWidth: 32 },
+        6: { halign: 'right', cellWidth: 35 },
+      },
+      didDrawPage: (data) => {
+        addPDFFooter(doc, data.pageNumber, doc.getNumberOfPages());
+      },
+    });
+
+    const finalY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+    addPDFSummary(doc, finalY, "Resumo da Valorização", [
+      { label: "Valor pelo PEPS", value: formatBRL(fifoValue) },
+      { label: "Valor pelo Custo Médio", value: formatBRL(averageValue) },
+      { label: "Diferença", value: formatBRL(fifoValue - averageValue) },
+    ]);
+
+    doc.save(`relatorio_valorizacao_peps_${new Date().toISOString().split("T")[0]}.pdf`);
+    toast.success("Relatório de Valorização exportado com sucesso");
+  } catch (error) {
+    toast.error(error instanceof Error ? error.message : "Erro ao exportar relatório");
+    throw error;
+  }
+};
+
+export const exportParentProductsReport = async (
+  organizationId: string,
+  dateFrom: Date | null,
+  dateTo: Date | null
+) => {
+  try {
+    let salesQuery = supabase
+      .from("financeiro")
+      .select("produto_id, quantidade, valor, lucro_liquido")
+      .eq("organization_id", organizationId)
+      .eq("tipo", "saida")
+      .not("produto_id", "is", null);
+
+    if (dateFrom && dateTo) {
+      salesQuery = salesQuery
+        .gte("data", dateFrom.toISOString().split("T")[0])
+        .lte("data", dateTo.toISOString().split("T")[0]);
+    }
+
+    const [parentsResult, variantsResult, salesResult] = await Promise.all([
+      supabase.from("parent_products").select("id, name, sku").eq("organization_id", organizationId).order("name"),
+      supabase
+        .from("products")
+        .select("id, sku, parent_product_id, variant_attributes, quantity, cost")
+        .eq("organization_id", organizationId)
+        .not("parent_product_id", "is", null),
+      salesQuery,
+    ]);
+
+    if (parentsResult.error) throw parentsResult.error;
+    if (variantsResult.error) throw variantsResult.error;
+    if (salesResult.error) throw salesResult.error;
+
+    const salesByProduct = new Map<string, { quantity: number; revenue: number; profit: number }>();
+    for (const sale of salesResult.data || []) {
+      const current = salesByProduct.get(sale.produto_id!) || { quantity: 0, revenue: 0, profit: 0 };
+      current.quantity += Number(sale.quantidade || 0);
+      current.revenue += Number(sale.valor || 0);
+      current.profit += Number(sale.lucro_liquido || 0);
+      salesByProduct.set(sale.produto_id!, current);
+    }
+
+    const formatBRL = (value: number) => `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}`;
+    const body: string[][] = [];
+    const parentRows = new Set<number>();
+    let totalStockValue = 0;
+    let totalRevenue = 0;
+
+    // Cada produto pai soma as variações; as linhas seguintes detalham cada variação
+    for (const parent of parentsResult.data || []) {
+      const variants = (variantsResult.data || []).filter((v) => v.parent_product_id === parent.id);
+      const lines = variants.map((variant) => {
+        const sales = salesByProduct.get(variant.id) || { quantity: 0, revenue: 0, profit: 0 };
+        return {
+          label: formatVariantLabel(variant.variant_attributes as VariantValues),
+          sku: variant.sku,
+          stock: Number(variant.quantity),
+          stockValue: Number(variant.quantity) * Number(variant.cost || 0),
+          ...sales,
+        };
+      });
+      const sum = (key: "stock" | "stockValue" | "quantity" | "revenue" | "profit") =>
+        lines.reduce((acc, line) => acc + line[key], 0);
+
+      totalStockValue += sum("stockValue");
+      totalRevenue += sum("revenue");
+
+      parentRows.add(body.length);
+      body.push([
+        parent.sku || "-",
+        parent.name,
+        String(sum("stock")),
+        formatBRL(sum("stockValue")),
+        String(sum("quantity")),
+        formatBRL(sum("revenue")),
+        formatBRL(sum("profit")),
+      ]);
+      for (const line of lines) {
+        body.push([
+          line.sku,
+          `   ${line.label}`,
+          String(line.stock),
+          formatBRL(line.stockValue),
+          String(line.quantity),
+          formatBRL(line.revenue),
+          formatBRL(line.profit),
+        ]);
+      }
+    }
+
+    const doc = new jsPDF("landscape");
+    const startY = addPDFHeader({
+      doc,
+      title: "Vendas e Estoque por Produto Pai",
+      subtitle: dateFrom && dateTo
+        ? `Período: ${dateFrom.toLocaleDateString("pt-BR")} - ${dateTo.toLocaleDateString("pt-BR")}`
+        : "Todos os períodos",
+      stats: [
+        { label: "Produtos Pai", value: parentsResult.data?.length || 0 },
+        { label: "Variações", value: variantsResult.data?.length || 0 },
+        { label: "Receita", value: formatBRL(totalRevenue) },
+      ]
+    });
+
+    autoTable(doc, {
+      startY,
+      head: [["SKU", "Produto / Variação", "Estoque", "Valor em Estoque", "Qtd Vendida", "Receita", "Lucro"]],
+      body,
+      ...getPDFTableStyles(),
+      columnStyles: {
+        0: { cellWidth: 40 },
+        1: { cellWidth: 70 },
+        2: { halign: 'right', cellWidth: 25 },
+        3: { halign: 'right', cellWidth: 35 },
+        4: { halign: 'right', cellWidth: 28 },
+        5: { halign: 'right', cellWidth: 35 },
+        6: { halign: 'right', cellWidth: 35 },
+      },
+      didParseCell: (data) => {
+        if (data.section === 'body' && parentRows.has(data.row.index)) {
+          data.cell.styles.fontStyle = 'bold';
+          data.cell.styles.fillColor = [241, 245, 249];
+        }
+      },
+      didDrawPage: (data) => {
+        addPDFFooter(doc, data.pageNumber, doc.getNumberOfPages());
+      },
+    });
+
+    const finalY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+    addPDFSummary(doc, finalY, "Resumo", [
+      { label: "Valor em Estoque", value: formatBRL(totalStockValue) },
+      { label: "Receita no Período", value: formatBRL(totalRevenue) },
+    ]);
+
+    doc.save(`relatorio_produtos_pai_${new Date().toISOString().split("T")[0]}.pdf`);
+    toast.success("Relatório por Produto Pai exportado com sucesso");
+  } catch (error) {
+    toast.error(error instanceof Error ? error.message : "Erro ao exportar relatório");
+    throw error;
+  }
+};
+
+// Estoque reconstruído em uma data, por produto ou por produto e local
+export const exportStockAsOfReportPDF = async (
+  organizationId: string,
+  asOf: Date,
+  byLocation: boolean,
+  unitMode: UnitMode = "base"
+) => {
+  try {
+    const lines = await getStockAsOf(organizationId, asOf);
+    const rows = byLocation ? lines : sumStockAsOfByProduct(lines);
+    const totalValue = rows.reduce((acc, row) => acc + row.value, 0);
+    const formatBRL = (value: number) => `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}`;
+
+    const doc = new jsPDF("landscape");
+    const startY = addPDFHeader({
+      doc,
+      title: "Estoque na Data",
+      subtitle: `Posição em ${asOf.toLocaleDateString("pt-BR")} ${byLocation ? "por local" : "por produto"}`,
+      stats: [
+        { label: "Produtos", value: new Set(rows.map((row) => row.product_id)).size },
+        { label: "Valor Total", value: formatBRL(totalValue) },
+      ]
+    });
+
+    autoTable(doc, {
+      startY,
+      head: [["SKU", "Produto", ...(byLocation ? ["Local"] : []), "Quantidade", "Custo Médio", "Valor"]],
+      body: rows.map((row) => {
+        const { unit, factor } = getDisplayUnit(row, unitMode);
+        return [
+          row.sku,
+          row.name,
+          ...(byLocation ? [row.location_name || "Sem local"] : []),
+          `${fromBaseQuantity(row.quantity, factor)} ${unit}`,
+          formatBRL(row.unit_cost * factor),
+          formatBRL(row.value),
+        ];
+      }),
+      ...getPDFTableStyles(),
+      didDrawPage: (data) => {
+        addPDFFooter(doc, data.pageNumber, doc.getNumberOfPages());
+      },
+    });
+
+    const finalY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+    addPDFSummary(doc, finalY, "Resumo do Estoque na Data", [
+      { label: "Data", value: asOf.toLocaleDateString("pt-BR") },
+      { label: "Linhas", value: rows.length },
+      { label: "Valor Total em Estoque", value: formatBRL(totalValue) },
+    ]);
+
+    doc.save(`estoque_em_${format(asOf, "yyyy-MM-dd")}.pdf`);
+    toast.success("Relatório de Estoque na Data exportado com sucesso");
+  } catch (error) {
+    toast.error(error instanceof Error ? error.message : "Erro ao exportar relatório");
+    throw error;
+  }
+};
+
+export const exportStockAsOfReportExcel = async (
+  organizationId: string,
+  asOf: Date,
+  byLocation: boolean,
+  unitMode: UnitMode = "base"
+) => {
+  try {
+    const lines = await getStockAsOf(organizationId, asOf);
+    const rows = byLocation ? lines : sumStockAsOfByProduct(lines);
+    const factorOf = (row: StockAsOfLine) => getDisplayUnit(row, unitMode).factor;
+
+    exportToExcel(
+      rows,
+      [
+        { header: "SKU", key: "sku" },
+        { header: "Produto", key: "name" },
+        ...(byLocation
+          ? [{ header: "Local", key: "location_name", transform: (value: string | null) => value || "Sem local" }]
+          : []),
+        { header: "Unidade", key: "unit", transform: (_value, row) => getDisplayUnit(row, unitMode).unit },
+        { header: "Quantidade", key: "quantity", transform: (value, row) => fromBaseQuantity(value, factorOf(row)) },
+        { header: "Custo Médio", key: "unit_cost", transform: (value, row) => Number(value) * factorOf(row) },
+        { header: "Valor", key: "value" },
+      ],
+      `estoque_em_${format(asOf, "yyyy-MM-dd")}`
+    );
+    toast.success("Relatório de Estoque na Data exportado com sucesso");
+  } catch (error) {
+    toast.error(error instanceof Error ? error.message : "Erro ao exportar relatório");
+    throw error;
+  }
+};
+
+// Filtros aplicados, pelos nomes que aparecem nas próprias linhas
+const describeStockAgingFilters = (lines: StockAgingLine[], filters: StockAgingFilters) => {
+  const parts: string[] = [];
+  if (filters.categoryId !== "all") {
+    parts.push(`Categoria: ${lines.find((l) => l.category_id === filters.categoryId)?.category_name || "-"}`);
+  }
+  if (filters.supplierId !== "all") {
+    parts.push(`Fornecedor: ${lines.find((l) => l.supplier_id === filters.supplierId)?.supplier_name || "-"}`);
+  }
+  if (filters.locationId !== "all") {
+    parts.push(
+      `Local: ${
+        filters.locationId === "none"
+          ? "Sem local"
+          : lines.find((l) => l.location_id === filters.locationId)?.location_name || "-"
+      }`
+    );
+  }
+  return parts.length > 0 ? parts.join(" • ") : "Todo o estoque";
+};
+
+export const exportStockAgingReportPDF = async (
+  organizationId: string,
+  filters: StockAgingFilters,
+  unitMode: UnitMode = "base"
+) => {
+  try {
+    const lines = await getStockAging(organizationId);
+    const rows = filterStockAging(lines, filters);
+    const summary = summarizeStockAging(rows);
+    const totalValue = rows.reduce((acc, row) => acc + row.value, 0);
+    const formatBRL = (value: number) => `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}`;
+
+    const doc = new jsPDF("landscape");
+    const startY = addPDFHeader({
+      doc,
+      title: "Envelhecimento do Estoque",
+      subtitle: `Dias desde a última saída • ${describeStockAgingFilters(lines, filters)}`,
+      stats: [
+        { label: "Produtos", value: new Set(rows.map((row) => row.product_id)).size },
+        { label: "Valor Total", value: formatBRL(totalValue) },
+        { label: "Parado 90+ dias", value: formatBRL(summary[summary.length - 1].value) },
+      ]
+    });
+
+    autoTable(doc, {
+      startY,
+      head: [["SKU", "Produto", "Categoria", "Fornecedor", "Local", "Quantidade", "Valor", "Última Saída", "Dias", "Faixa"]],
+      body: rows.map((row) => {
+        const { unit, factor } = getDisplayUnit(row, unitMode);
+        return [
+          row.sku,
+          row.name,
+          row.category_name || "-",
+          row.supplier_name || "-",
+          row.location_name || "Sem local",
+          `${fromBaseQuantity(row.quantity, factor)} ${unit}`,
+          formatBRL(row.value),
+          row.last_out_at ? new Date(row.last_out_at).toLocaleDateString("pt-BR") : "Nunca",
+          row.days_without_out,
+          row.bucket.label,
+        ];
+      }),
+      ...getPDFTableStyles(),
+      didDrawPage: (data) => {
+        addPDFFooter(doc, data.pageNumber, doc.getNumberOfPages());
+      },
+    });
+
+    const finalY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+    addPDFSummary(doc, finalY, "Valor por Faixa", [
+      ...summary.map((item) => ({
+        label: `${item.bucket.label} (${item.products} produto(s))`,
+        value: `${formatBRL(item.value)} • ${item.share.toFixed(1)}%`,
+      })),
+      { label: "Valor Total em Estoque", value: formatBRL(totalValue) },
+    ]);
+
+    doc.save(`envelhecimento_estoque_${format(new Date(), "yyyy-MM-dd")}.pdf`);
+    toast.success("Relatório de Envelhecimento do Estoque exportado com sucesso");
+  } catch (error) {
+    toast.error(error instanceof Error ? error.message : "Erro ao exportar relatório");
+    throw error;
+  }
+};
+
+export const exportStockAgingReportExcel = async (
+  organizationId: string,
+  filters: StockAgingFilters,
+  unitMode: UnitMode = "base"
+) => {
+  try {
+    const rows = filterStockAging(await getStockAging(organizationId), filters);
+    const factorOf = (row: StockAgingLine) => getDisplayUnit(row, unitMode).factor;
+
+    exportToExcel(
+      rows,
+      [
+        { header: "SKU", key: "sku" },
+        { header: "Produto", key: "name" },
+        { header: "Categoria", key: "category_name", transform: (value: string | null) => value || "" },
+        { header: "Fornecedor", key: "supplier_name", transform: (value: string | null) => value || "" },
+        { header: "Local", key: "location_name", transform: (value: string | null) => value || "Sem local" },
+        { header: "Unidade", key: "unit", transform: (_value, row) => getDisplayUnit(row, unitMode).unit },
+        { header: "Quantidade", key: "quantity", transform: (value, row) => fromBaseQuantity(value, factorOf(row)) },
+        { header: "Custo Médio", key: "unit_cost", transform: (value, row) => Number(value) * factorOf(row) },
+        { header: "Valor", key: "value" },
+        {
+          header: "Última Saída",
+          key: "last_out_at",
+          transform: (value: string | null) => (value ? new Date(value).toLocaleDateString("pt-BR") : "Nunca"),
+        },
+        { header: "Dias sem Saída", key: "days_without_out" },
+        { header: "Faixa", key: "bucket.label" },
+      ],
+      `envelhecimento_estoque_${format(new Date(), "yyyy-MM-dd")}`
+    );
+    toast.success("Relatório de Envelhecimento do Estoque exportado com sucesso");
+  } catch (error) {
+    toast.error(error instanceof Error ? error.message : "Erro ao exportar relatório");
+    throw error;
+  }
+};
+
+const toFileSlug = (value: string) =>
+  value.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-z0-9]+/g, "_");
+
+// Folha de pedido de um fornecedor com as quantidades já revisadas no planejador
+export const exportReplenishmentSheetPDF = (group: SupplierProposalGroup, coverageDays: number) => {
+  try {
+    const formatBRL = (value: number) => `R$ ${value.toLocaleString("pt-BR", { minimumFractionDigits: 2 })}`;
+    const total = group.proposals.reduce((acc, p) => acc + p.suggested_quantity * p.unit_cost, 0);
+
+    const doc = new jsPDF();
+    const startY = addPDFHeader({
+      doc,
+      title: "Folha de Pedido de Compra",
+      subtitle: `${group.supplier_name} • Prazo de entrega: ${group.lead_time_days} dia(s) • Cobertura: ${coverageDays} dia(s)`,
+      stats: [
+        { label: "Itens", value: group.proposals.length },
+      ]
+    });
+
+    autoTable(doc, {
+      startY,
+      head: [["SKU", "Produto", "Estoque", "Média/dia", "Quantidade", "Custo Unit.", "Total"]],
+      body: group.proposals.map((p) => [
+        p.sku,
+        p.name,
+        `${p.quantity} ${p.unit}`,
+        p.daily_sales.toFixed(2),
+        `${p.suggested_quantity} ${p.unit}`,
+        formatBRL(p.unit_cost),
+        formatBRL(p.suggested_quantity * p.unit_cost),
+      ]),
+      ...getPDFTableStyles(),
+      columnStyles: {
+        0: { cellWidth: 25 },
+        1: { cellWidth: 50 },
+        2: { halign: 'right', cellWidth: 20 },
+        3: { halign: 'right', cellWidth: 18 },
+        4: { halign: 'right', cellWidth: 22 },
+        5: { halign: 'right', cellWidth: 22 },
+        6: { halign: 'right', cellWidth: 25 },
+      },
+      didDrawPage: (data) => {
+        addPDFFooter(doc, data.pageNumber, doc.getNumberOfPages());
+      },
+    });
+
+    const finalY = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+    addPDFSummary(doc, finalY, "Resumo do Pedido", [
+      { label: "Fornecedor", value: group.supplier_name },
+      { label: "Itens", value: group.proposals.length },
+      { label: "Valor estimado", value: formatBRL(total) },
+    ]);
+
+    doc.save(`pedido_${toFileSlug(group.supplier_name)}_${new Date().toISOString().split("T")[0]}.pdf`);
+    toast.success("Folha de pedido exportada com sucesso");
+  } catch (error) {
+    toast.error(error instanceof Error ? error.message : "Erro ao exportar folha de pedido");
+  }
+};
+
+export const exportReplenishmentSheetExcel = (group: SupplierProposalGroup) => {
+  exportToExcel(
+    group.proposals,
+    [
+      { header: "SKU", key: "sku" },
+      { header: "Produto", key: "name" },
+      { header: "Unidade", key: "unit" },
+      { header: "Estoque Atual", key: "quantity" },
+      { header: "Em Pedido", key: "on_order" },
+      { header: "Média Vendas/Dia", key: "daily_sales", transform: (value) => Number(Number(value).toFixed(2)) },
+      { header: "Qtd. Mínima", key: "min_quantity" },
+      { header: "Lote Mínimo", key: "min_order_quantity" },
+      { header: "Quantidade", key: "suggested_quantity" },
+      { header: "Custo Unitário", key: "unit_cost" },
+      { header: "Total", key: "suggested_quantity", transform: (value, row) => Number(value) * Number(row.unit_cost) },
+    ],
+    `pedido_${toFileSlug(group.supplier_name)}`
+  );
+  toast.success("Folha de pedido exportada com sucesso");
+};
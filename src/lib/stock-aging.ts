@@ -0,0 +1,145 @@
+import { supabase } from "@/integrations/supabase/client";
+import { UnitConversion } from "./units";
+
+export interface AgingBucket {
+  key: string;
+  label: string;
+  minDays: number;
+  maxDays: number | null;
+}
+
+// Faixas de dias desde a última saída; a última é o estoque parado
+export const AGING_BUCKETS: AgingBucket[] = [
+  { key: "0-30", label: "0–30 dias", minDays: 0, maxDays: 30 },
+  { key: "31-60", label: "31–60 dias", minDays: 31, maxDays: 60 },
+  { key: "61-90", label: "61–90 dias", minDays: 61, maxDays: 90 },
+  { key: "90+", label: "Mais de 90 dias", minDays: 91, maxDays: null },
+];
+
+export const DEAD_STOCK_BUCKET = AGING_BUCKETS[AGING_BUCKETS.length - 1];
+
+export const getAgingBucket = (days: number): AgingBucket =>
+  AGING_BUCKETS.find((bucket) => bucket.maxDays === null || days <= bucket.maxDays) || DEAD_STOCK_BUCKET;
+
+export interface StockAgingLine {
+  product_id: string;
+  sku: string;
+  name: string;
+  unit: string;
+  purchase_unit: string | null;
+  product_unit_conversions: UnitConversion[];
+  category_id: string | null;
+  category_name: string | null;
+  supplier_id: string | null;
+  supplier_name: string | null;
+  location_id: string | null;
+  location_name: string | null;
+  quantity: number;
+  unit_cost: number;
+  value: number;
+  last_out_at: string | null;
+  days_without_out: number;
+  bucket: AgingBucket;
+}
+
+export interface StockAgingFilters {
+  categoryId: string;
+  supplierId: string;
+  // "none" seleciona o estoque sem local
+  locationId: string;
+}
+
+export const EMPTY_AGING_FILTERS: StockAgingFilters = { categoryId: "all", supplierId: "all", locationId: "all" };
+
+/**
+ * Stock per product and location with the days since its last OUT movement
+ * (or since the product was created, if it never left), sorted oldest first.
+ */
+export const getStockAging = async (organizationId: string): Promise<StockAgingLine[]> => {
+  const [agingResult, productsResult, locationsResult] = await Promise.all([
+    supabase.rpc("get_stock_aging"),
+    supabase
+      .from("products")
+      .select(`
+        id, sku, name, unit, purchase_unit, category_id, supplier_id,
+        product_unit_conversions (unit, factor),
+        categories (name),
+        suppliers (name)
+      `)
+      .eq("organization_id", organizationId),
+    supabase.from("locations").select("id, name").eq("organization_id", organizationId),
+  ]);
+
+  if (agingResult.error) throw agingResult.error;
+  if (productsResult.error) throw productsResult.error;
+  if (locationsResult.error) throw locationsResult.error;
+
+  const products = new Map(productsResult.data.map((p) => [p.id, p]));
+  const locations = new Map(locationsResult.data.map((l) => [l.id, l.name]));
+
+  return (agingResult.data || [])
+    .flatMap((row) => {
+      const product = products.get(row.product_id);
+      if (!product) return [];
+
+      const quantity = Number(row.quantity);
+      const unitCost = Number(row.unit_cost);
+      const days = Number(row.days_without_out);
+      return [{
+        product_id: row.product_id,
+        sku: product.sku,
+        name: product.name,
+        unit: product.unit,
+        purchase_unit: product.purchase_unit,
+        product_unit_conversions: product.product_unit_conversions || [],
+        category_id: product.category_id,
+        category_name: product.categories?.name || null,
+        supplier_id: product.supplier_id,
+        supplier_name: product.suppliers?.name || null,
+        location_id: row.location_id,
+        location_name: row.location_id ? locations.get(row.location_id) || null : null,
+        quantity,
+        unit_cost: unitCost,
+        value: quantity * unitCost,
+        last_out_at: row.last_out_at,
+        days_without_out: days,
+        bucket: getAgingBucket(days),
+      }];
+    })
+    .sort((a, b) => b.days_without_out - a.days_without_out || b.value - a.value);
+};
+
+export const filterStockAging = (lines: StockAgingLine[], filters: StockAgingFilters) =>
+  lines.filter(
+    (line) =>
+      (filters.categoryId === "all" || line.category_id === filters.categoryId) &&
+      (filters.supplierId === "all" || line.supplier_id === filters.supplierId) &&
+      (filters.locationId === "all" ||
+        (filters.locationId === "none" ? line.location_id === null : line.location_id === filters.locationId))
+  );
+
+export interface AgingBucketSummary {
+  bucket: AgingBucket;
+  products: number;
+  value: number;
+  // Participação do valor da faixa no valor total (%)
+  share: number;
+}
+
+/**
+ * Distinct products and stock value per aging bucket, in bucket order
+ */
+export const summarizeStockAging = (lines: StockAgingLine[]): AgingBucketSummary[] => {
+  const total = lines.reduce((sum, line) => sum + line.value, 0);
+
+  return AGING_BUCKETS.map((bucket) => {
+    const inBucket = lines.filter((line) => line.bucket.key === bucket.key);
+    const value = inBucket.reduce((sum, line) => sum + line.value, 0);
+    return {
+      bucket,
+      products: new Set(inBucket.map((line) => line.product_id)).size,
+      value,
+      share: total > 0 ? (value / total) * 100 : 0,
+    };
+  });
+};
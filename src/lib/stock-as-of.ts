@@ -0,0 +1,87 @@
+import { endOfDay } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { UnitConversion } from "./units";
+
+export interface StockAsOfLine {
+  product_id: string;
+  sku: string;
+  name: string;
+  unit: string;
+  purchase_unit: string | null;
+  product_unit_conversions: UnitConversion[];
+  location_id: string | null;
+  location_name: string | null;
+  quantity: number;
+  unit_cost: number;
+  value: number;
+}
+
+/**
+ * Stock of every product per location at the end of the given day, rebuilt by
+ * get_stock_as_of from the movements, with the average cost in force on that day.
+ * Sorted by product name, then location (stock without a location last).
+ */
+export const getStockAsOf = async (organizationId: string, asOf: Date): Promise<StockAsOfLine[]> => {
+  const [stockResult, productsResult, locationsResult] = await Promise.all([
+    supabase.rpc("get_stock_as_of", { _as_of: endOfDay(asOf).toISOString() }),
+    supabase
+      .from("products")
+      .select("id, sku, name, unit, purchase_unit, product_unit_conversions (unit, factor)")
+      .eq("organization_id", organizationId),
+    supabase.from("locations").select("id, name").eq("organization_id", organizationId),
+  ]);
+
+  if (stockResult.error) throw stockResult.error;
+  if (productsResult.error) throw productsResult.error;
+  if (locationsResult.error) throw locationsResult.error;
+
+  const products = new Map(productsResult.data.map((p) => [p.id, p]));
+  const locations = new Map(locationsResult.data.map((l) => [l.id, l.name]));
+
+  return (stockResult.data || [])
+    .flatMap((row) => {
+      const product = products.get(row.product_id);
+      if (!product) return [];
+
+      const quantity = Number(row.quantity);
+      const unitCost = Number(row.unit_cost);
+      return [{
+        product_id: row.product_id,
+        sku: product.sku,
+        name: product.name,
+        unit: product.unit,
+        purchase_unit: product.purchase_unit,
+        product_unit_conversions: product.product_unit_conversions || [],
+        location_id: row.location_id,
+        location_name: row.location_id ? locations.get(row.location_id) || null : null,
+        quantity,
+        unit_cost: unitCost,
+        value: quantity * unitCost,
+      }];
+    })
+    .sort(
+      (a, b) =>
+        a.name.localeCompare(b.name) ||
+        (a.location_name === null ? 1 : 0) - (b.location_name === null ? 1 : 0) ||
+        (a.location_name || "").localeCompare(b.location_name || "")
+    );
+};
+
+/**
+ * One line per product with the quantities and values of all its locations added up
+ */
+export const sumStockAsOfByProduct = (lines: StockAsOfLine[]): StockAsOfLine[] => {
+  const totals = new Map<string, StockAsOfLine>();
+
+  for (const line of lines) {
+    const total = totals.get(line.product_id);
+    if (total) {
+      total.quantity += line.quantity;
+      total.value += line.value;
+    } else {
+      totals.set(line.product_id, { ...line, location_id: null, location_name: null });
+    }
+  }
+
+  return Array.from(totals.values()).filter((line) => line.quantity !== 0);
+};
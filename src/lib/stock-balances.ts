@@ -0,0 +1,76 @@
+export interface StockBalance {
+  location_id: string;
+  quantity: number;
+  location?: { name: string; is_transit?: boolean } | null;
+}
+
+/**
+ * Quantity of a product held at a given location (0 when there is no balance)
+ */
+export const getLocationQuantity = (
+  balances: StockBalance[] | null | undefined,
+  locationId: string
+): number => {
+  const balance = balances?.find((b) => b.location_id === locationId);
+  return balance ? Number(balance.quantity) : 0;
+};
+
+/**
+ * Part of the product total that is not assigned to any location
+ */
+export const getUnallocatedQuantity = (
+  totalQuantity: number,
+  balances: StockBalance[] | null | undefined
+): number => {
+  const allocated = (balances || []).reduce((sum, b) => sum + Number(b.quantity), 0);
+  return Number(totalQuantity) - allocated;
+};
+
+/**
+ * Signed effect of a movement on the product total (transfers don't change it;
+ * adjustments are stored with their sign)
+ */
+export const getStockDelta = (type: string, quantity: number): number => {
+  if (type === "IN" || type === "ADJUSTMENT") return Number(quantity);
+  if (type === "OUT") return -Number(quantity);
+  return 0;
+};
+
+/**
+ * Non-zero balances sorted by location name, for display
+ */
+export const getVisibleBalances = (balances: StockBalance[] | null | undefined): StockBalance[] => {
+  return (balances || [])
+    .filter((b) => Number(b.quantity) !== 0)
+    .sort((a, b) => (a.location?.name || "").localeCompare(b.location?.name || ""));
+};
+
+export interface StockReservation {
+  product_id: string;
+  location_id: string | null;
+  reserved_quantity: number;
+}
+
+/**
+ * Quantity of a product held by sales order reservations at one location
+ * (null for the stock that has no location), or across all locations when omitted
+ */
+export const getReservedQuantity = (
+  reservations: StockReservation[] | null | undefined,
+  productId: string,
+  locationId?: string | null
+): number => {
+  return (reservations || [])
+    .filter((r) => r.product_id === productId && (locationId === undefined || r.location_id === locationId))
+    .reduce((sum, r) => sum + Number(r.reserved_quantity), 0);
+};
+
+/**
+ * Quantity that brings the stock back to its maximum level, or to the minimum when
+ * there is no maximum
+ */
+export const getRestockQuantity = (
+  quantity: number,
+  minQuantity: number,
+  maxQuantity: number | null | undefined
+): number => Math.max(0, Number(maxQuantity ?? minQuantity) - Number(quantity));
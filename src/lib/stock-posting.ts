@@ -0,0 +1,62 @@
+import { formatNumber } from "@/lib/formatters";
+
+// Codes post_movement sends in the error hint
+export type PostingErrorCode =
+  | "insufficient_stock"
+  | "insufficient_kits"
+  | "lot_required"
+  | "lot_unavailable"
+  | "serial_mismatch"
+  | "serial_unavailable"
+  | "invalid_movement"
+  | "not_allowed"
+  | "not_found";
+
+export interface StockShortage {
+  item_id: string;
+  item_name: string;
+  location_id: string | null;
+  available: number;
+  required: number;
+}
+
+export interface PostingError {
+  code: PostingErrorCode | null;
+  message: string;
+  shortages: StockShortage[];
+}
+
+/**
+ * Reads the code (hint) and JSON detail of an error raised by post_movement. Other
+ * errors come back with a null code and their own message
+ */
+export const parsePostingError = (error: unknown): PostingError => {
+  const { message, hint, details } = (error || {}) as { message?: string; hint?: string; details?: string };
+  let detail: unknown = null;
+  try {
+    detail = details ? JSON.parse(details) : null;
+  } catch {
+    // Detalhe em texto livre: não é um erro de regra do lançamento
+  }
+
+  const isShortage = hint === "insufficient_stock" || hint === "insufficient_kits";
+  return {
+    code: (hint as PostingErrorCode) || null,
+    message: message || "Erro ao registrar movimentação",
+    shortages: isShortage && Array.isArray(detail) ? (detail as StockShortage[]) : [],
+  };
+};
+
+/**
+ * One line per missing item, naming the location the stock was taken from
+ */
+export const describeShortages = (
+  shortages: StockShortage[],
+  getLocationName: (locationId: string | null) => string
+) =>
+  shortages
+    .map(
+      (s) =>
+        `${s.item_name} em ${getLocationName(s.location_id)}: disponível ${formatNumber(Number(s.available))}, necessário ${formatNumber(Number(s.required))}`
+    )
+    .join("; ");
@@ -0,0 +1,42 @@
+export interface UnitConversion {
+  unit: string;
+  factor: number;
+}
+
+// "base" shows quantities in the product's own unit; "purchase" in its purchase unit
+export type UnitMode = "base" | "purchase";
+
+export interface ProductUnits {
+  unit: string;
+  purchase_unit?: string | null;
+  product_unit_conversions?: UnitConversion[] | null;
+}
+
+/**
+ * How many base units fit in the given unit (1 for the base unit or an unknown unit)
+ */
+export const getUnitFactor = (
+  conversions: UnitConversion[] | null | undefined,
+  unit: string | null | undefined
+): number => {
+  const conversion = conversions?.find((c) => c.unit === unit);
+  return conversion ? Number(conversion.factor) : 1;
+};
+
+/**
+ * Unit and factor to present a product's quantities in. Products without a purchase
+ * unit (or without its conversion) always fall back to the base unit.
+ */
+export const getDisplayUnit = (product: ProductUnits, mode: UnitMode): UnitConversion => {
+  if (mode === "purchase" && product.purchase_unit) {
+    const conversion = product.product_unit_conversions?.find((c) => c.unit === product.purchase_unit);
+    if (conversion) return { unit: conversion.unit, factor: Number(conversion.factor) };
+  }
+  return { unit: product.unit, factor: 1 };
+};
+
+/**
+ * Base quantity expressed in a unit that holds `factor` base units, rounded for display
+ */
+export const fromBaseQuantity = (quantity: number, factor: number): number =>
+  Math.round((Number(quantity) / factor) * 1000) / 1000;
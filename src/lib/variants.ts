@@ -0,0 +1,62 @@
+export interface VariantAttribute {
+  name: string;
+  values: string[];
+}
+
+// Attribute name -> value, e.g. { Tamanho: "M", Cor: "Azul" }
+export type VariantValues = Record<string, string>;
+
+/**
+ * Every combination of the attribute values, in the order the attributes were declared.
+ * Attributes without values are ignored.
+ */
+export const buildVariantCombinations = (attributes: VariantAttribute[]): VariantValues[] => {
+  const filled = attributes.filter((a) => a.name.trim() && a.values.length > 0);
+  if (filled.length === 0) return [];
+
+  return filled.reduce<VariantValues[]>(
+    (combinations, attribute) =>
+      combinations.flatMap((combination) =>
+        attribute.values.map((value) => ({ ...combination, [attribute.name]: value }))
+      ),
+    [{}]
+  );
+};
+
+/**
+ * Key identifying a combination regardless of attribute order
+ */
+export const getVariantKey = (values: VariantValues): string =>
+  Object.keys(values)
+    .sort()
+    .map((name) => `${name}=${values[name]}`)
+    .join("|");
+
+/**
+ * Human-readable label of a combination, e.g. "M / Azul"
+ */
+export const formatVariantLabel = (values: VariantValues | null | undefined): string =>
+  Object.values(values || {}).join(" / ");
+
+/**
+ * Child SKU built from the parent SKU and the combination values, e.g. CAM-001-M-AZUL
+ */
+export const buildVariantSku = (parentSku: string, values: VariantValues): string => {
+  const suffix = Object.values(values)
+    .map((value) =>
+      value
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/[^a-zA-Z0-9]+/g, "")
+        .toUpperCase()
+    )
+    .filter(Boolean)
+    .join("-");
+  return [parentSku.trim(), suffix].filter(Boolean).join("-");
+};
+
+/**
+ * Comma-separated input into a clean list of distinct values
+ */
+export const parseVariantValues = (input: string): string[] =>
+  Array.from(new Set(input.split(",").map((value) => value.trim()).filter(Boolean)));
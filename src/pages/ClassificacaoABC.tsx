@@ -0,0 +1,301 @@
+import { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useOrganizationSettings } from "@/hooks/useOrganizationSettings";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ExternalLink, Grid3X3, Loader2, RefreshCw, SlidersHorizontal } from "lucide-react";
+import { SortableTableHead, useSorting } from "@/components/shared/SortableTableHead";
+import { ClassificationSettingsDialog } from "@/components/products/ClassificationSettingsDialog";
+import { cn } from "@/lib/utils";
+import { formatCurrency, formatNumber } from "@/lib/formatters";
+import {
+  ABC_CLASSES,
+  ABC_DESCRIPTIONS,
+  buildClassificationMatrix,
+  matchesClassFilter,
+  XYZ_CLASSES,
+  XYZ_DESCRIPTIONS,
+} from "@/lib/classification";
+
+// Células de maior valor e demanda mais previsível ficam mais destacadas
+const CELL_TONES: Record<string, string> = {
+  A: "bg-primary/15 border-primary/30",
+  B: "bg-primary/5 border-primary/20",
+  C: "bg-muted/30 border-border/50",
+};
+
+export default function ClassificacaoABC() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: organizationId } = useOrganization();
+  const { isAdmin } = useUserRole();
+  const { data: settings } = useOrganizationSettings();
+  const [selectedCell, setSelectedCell] = useState<string>("all");
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [isClassifying, setIsClassifying] = useState(false);
+
+  const { data: products, isLoading } = useQuery({
+    queryKey: ["product-classification", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, sku, name, unit, quantity, abc_class, xyz_class, classification_value, demand_variation, classified_at")
+        .eq("organization_id", organizationId)
+        .not("abc_class", "is", null)
+        .order("classification_value", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  const matrix = useMemo(() => buildClassificationMatrix(products || []), [products]);
+  const cellProducts = useMemo(
+    () => (products || []).filter((p) => matchesClassFilter(p, selectedCell)),
+    [products, selectedCell]
+  );
+  const { sortConfig, handleSort, sortedData: sortedProducts } = useSorting(cellProducts, "classification_value", "desc");
+
+  const classifiedAt = products?.find((p) => p.classified_at)?.classified_at;
+  const totalValue = matrix.reduce((sum, cell) => sum + cell.value, 0);
+
+  const handleClassify = async () => {
+    setIsClassifying(true);
+    try {
+      const { data, error } = await supabase.rpc("classify_inventory");
+      if (error) throw error;
+
+      toast.success(`${data} produto(s) reclassificado(s)`);
+      queryClient.invalidateQueries({ queryKey: ["product-classification"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao reclassificar o estoque");
+    } finally {
+      setIsClassifying(false);
+    }
+  };
+
+  const toggleCell = (cell: string) => setSelectedCell((current) => (current === cell ? "all" : cell));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
+      <div className="p-6 md:p-8 space-y-6 md:space-y-8 animate-fade-in">
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div className="flex items-center gap-3">
+            <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg shadow-primary/25">
+              <Grid3X3 className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-3xl md:text-4xl font-bold tracking-tight">Classificação ABC/XYZ</h1>
+              <p className="text-sm md:text-base text-muted-foreground">
+                {settings?.abc_basis === "consumption" ? "Valor de consumo" : "Faturamento"} e variabilidade da
+                demanda nos últimos {settings?.classification_period_days ?? 90} dias
+                {classifiedAt &&
+                  ` • Atualizada em ${format(new Date(classifiedAt), "dd/MM/yyyy HH:mm", { locale: ptBR })}`}
+              </p>
+            </div>
+          </div>
+          {isAdmin() && (
+            <div className="flex gap-2">
+              <Button variant="outline" className="gap-2" onClick={() => setSettingsOpen(true)}>
+                <SlidersHorizontal className="h-4 w-4" />
+                Limites
+              </Button>
+              <Button className="gap-2" onClick={handleClassify} disabled={isClassifying}>
+                {isClassifying ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                Reclassificar
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card">
+          <CardHeader>
+            <CardTitle className="text-lg font-semibold">Matriz ABC × XYZ</CardTitle>
+            <CardDescription>
+              Clique em uma célula para ver os produtos dela. Participação sobre {formatCurrency(totalValue)}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-64 w-full" />
+            ) : (
+              <div className="grid grid-cols-[auto_repeat(3,minmax(0,1fr))] gap-2">
+                <div />
+                {XYZ_CLASSES.map((xyz) => (
+                  <button
+                    key={xyz}
+                    type="button"
+                    onClick={() => toggleCell(xyz)}
+                    className={cn(
+                      "rounded-lg p-2 text-center transition-colors hover:bg-muted/50",
+                      selectedCell === xyz && "bg-muted"
+                    )}
+                  >
+                    <p className="text-lg font-bold">{xyz}</p>
+                    <p className="text-xs text-muted-foreground">{XYZ_DESCRIPTIONS[xyz]}</p>
+                  </button>
+                ))}
+
+                {ABC_CLASSES.map((abc) => (
+                  <div key={abc} className="contents">
+                    <button
+                      type="button"
+                      onClick={() => toggleCell(abc)}
+                      className={cn(
+                        "rounded-lg p-2 pr-4 text-left transition-colors hover:bg-muted/50",
+                        selectedCell === abc && "bg-muted"
+                      )}
+                    >
+                      <p className="text-lg font-bold">{abc}</p>
+                      <p className="text-xs text-muted-foreground">{ABC_DESCRIPTIONS[abc]}</p>
+                    </button>
+                    {matrix
+                      .filter((cell) => cell.abc === abc)
+                      .map((cell) => {
+                        const key = `${cell.abc}${cell.xyz}`;
+                        return (
+                          <button
+                            key={key}
+                            type="button"
+                            onClick={() => toggleCell(key)}
+                            className={cn(
+                              "rounded-xl border p-4 text-left transition-all hover:shadow-md",
+                              CELL_TONES[cell.abc],
+                              selectedCell === key && "ring-2 ring-primary"
+                            )}
+                          >
+                            <div className="flex items-baseline justify-between">
+                              <span className="text-sm font-semibold">{key}</span>
+                              <span className="text-xs text-muted-foreground">{formatNumber(cell.share)}%</span>
+                            </div>
+                            <p className="text-2xl font-bold mt-1">{cell.count}</p>
+                            <p className="text-xs text-muted-foreground">{formatCurrency(cell.value)}</p>
+                          </button>
+                        );
+                      })}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card overflow-hidden">
+          <CardHeader className="border-b border-border/50 bg-muted/30">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg font-semibold">
+                {selectedCell === "all" ? "Todos os produtos classificados" : `Produtos na classe ${selectedCell}`}
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">{cellProducts.length} produto(s)</Badge>
+                {selectedCell !== "all" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => navigate(`/products?classe=${selectedCell}`)}
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                    Ver em Produtos
+                  </Button>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <SortableTableHead currentSort={sortConfig} onSort={handleSort} sortKey="sku" className="font-semibold text-xs uppercase tracking-wider">
+                      SKU
+                    </SortableTableHead>
+                    <SortableTableHead currentSort={sortConfig} onSort={handleSort} sortKey="name" className="font-semibold text-xs uppercase tracking-wider">
+                      Produto
+                    </SortableTableHead>
+                    <TableHead className="font-semibold text-xs uppercase tracking-wider text-center">Classe</TableHead>
+                    <SortableTableHead currentSort={sortConfig} onSort={handleSort} sortKey="classification_value" className="font-semibold text-xs uppercase tracking-wider text-right">
+                      Valor
+                    </SortableTableHead>
+                    <SortableTableHead currentSort={sortConfig} onSort={handleSort} sortKey="demand_variation" className="font-semibold text-xs uppercase tracking-wider text-right">
+                      CV da demanda
+                    </SortableTableHead>
+                    <SortableTableHead currentSort={sortConfig} onSort={handleSort} sortKey="quantity" className="font-semibold text-xs uppercase tracking-wider text-right">
+                      Estoque
+                    </SortableTableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24">
+                        <div className="flex items-center justify-center">
+                          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : sortedProducts && sortedProducts.length > 0 ? (
+                    sortedProducts.map((product) => (
+                      <TableRow key={product.id} className="hover:bg-muted/20 transition-colors">
+                        <TableCell>
+                          <code className="text-xs bg-muted px-2 py-1 rounded font-mono">{product.sku}</code>
+                        </TableCell>
+                        <TableCell className="font-medium text-sm">{product.name}</TableCell>
+                        <TableCell className="text-center">
+                          <Badge variant="outline" className="font-mono">
+                            {product.abc_class}
+                            {product.xyz_class}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatCurrency(Number(product.classification_value || 0))}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums text-muted-foreground">
+                          {product.demand_variation === null ? "Sem saídas" : formatNumber(Number(product.demand_variation))}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatNumber(Number(product.quantity))} {product.unit}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                        {products && products.length === 0
+                          ? "Nenhum produto classificado ainda. Use Reclassificar para calcular as curvas."
+                          : "Nenhum produto nesta classe"}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <ClassificationSettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -15,8 +16,10 @@ import { SortableTableHead, useSorting } from "@/components/shared/SortableTable
 import { Badge } from "@/components/ui/badge";
 import { AlertTriangle, Package, Download, FileSpreadsheet, FileText, Loader2, PackageX, AlertCircle, RefreshCw } from "lucide-react";
 import { useOrganization } from "@/hooks/useOrganization";
-import { formatCurrency } from "@/lib/formatters";
+import { formatCurrency, formatNumber } from "@/lib/formatters";
+import { getRestockQuantity } from "@/lib/stock-balances";
 import { exportCriticalStockReport } from "@/lib/report-exports";
+import { ExpiringLots } from "@/components/products/ExpiringLots";
 import { exportToExcel, exportToCSV, ExportColumn } from "@/lib/export-utils";
 import { toast } from "sonner";
 import {
@@ -26,18 +29,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-interface CriticalProduct {
-  id: string;
-  sku: string;
-  name: string;
-  quantity: number;
-  min_quantity: number;
-  cost: number;
-  preco_venda: number | null;
-  categories: { name: string } | null;
-  locations: { name: string } | null;
-  suppliers: { name: string } | null;
-}
+type CriticalProduct = Database["public"]["Functions"]["get_critical_products"]["Returns"][number];
 
 export default function CriticalStockReport() {
   const { data: organizationId } = useOrganization();
@@ -48,41 +40,22 @@ export default function CriticalStockReport() {
     queryFn: async () => {
       if (!organizationId) return [];
 
-      const { data, error } = await supabase
-        .from("products")
-        .select(`
-          id,
-          sku,
-          name,
-          quantity,
-          min_quantity,
-          cost,
-          preco_venda,
-          categories (name),
-          locations (name),
-          suppliers (name)
-        `)
-        .eq("organization_id", organizationId)
-        .order("quantity", { ascending: true });
+      // Uma linha por local abaixo do seu mínimo (ou pelo total, quando o produto não tem níveis por local)
+      const { data, error } = await supabase.rpc("get_critical_products");
 
       if (error) throw error;
-
-      return (data?.filter((p) => Number(p.quantity) <= Number(p.min_quantity)) || []) as CriticalProduct[];
+      return (data || []) as CriticalProduct[];
     },
     enabled: !!organizationId,
   });
 
-  const { sortConfig, handleSort, sortedData: sortedProducts } = useSorting(criticalProducts, "quantity", "asc");
+  const { sortConfig, handleSort, sortedData: sortedProducts } = useSorting(criticalProducts, "location_quantity", "asc");
 
   // Statistics
-  const zeroStock = criticalProducts?.filter((p) => Number(p.quantity) === 0) || [];
-  const lowStock = criticalProducts?.filter((p) => Number(p.quantity) > 0) || [];
+  const zeroStock = criticalProducts?.filter((p) => Number(p.location_quantity) === 0) || [];
+  const lowStock = criticalProducts?.filter((p) => Number(p.location_quantity) > 0) || [];
   const totalPotentialLoss = criticalProducts?.reduce(
-    (acc, p) => acc + (Number(p.preco_venda || 0) * Number(p.min_quantity)),
-    0
-  ) || 0;
-  const totalStockValue = criticalProducts?.reduce(
-    (acc, p) => acc + (Number(p.cost) * Number(p.quantity)),
+    (acc, p) => acc + (Number(p.preco_venda || 0) * Number(p.location_min_quantity)),
     0
   ) || 0;
 
@@ -92,24 +65,34 @@ export default function CriticalStockReport() {
     { header: "Produto", key: "name" },
     {
       header: "Categoria",
-      key: "categories.name",
+      key: "category_name",
       transform: (value) => value || "-",
     },
-    { header: "Quantidade Atual", key: "quantity" },
-    { header: "Quantidade Mínima", key: "min_quantity" },
     {
-      header: "Status",
-      key: "quantity",
-      transform: (value) => (Number(value) === 0 ? "SEM ESTOQUE" : "CRÍTICO"),
+      header: "Local",
+      key: "location_name",
+      transform: (value, row) => (row.per_location ? value || "-" : "Estoque total"),
     },
+    { header: "Quantidade Atual", key: "location_quantity" },
+    { header: "Quantidade Mínima", key: "location_min_quantity" },
     {
-      header: "Local",
-      key: "locations.name",
-      transform: (value) => value || "-",
+      header: "Quantidade Máxima",
+      key: "location_max_quantity",
+      transform: (value) => (value ?? "-"),
+    },
+    {
+      header: "Repor",
+      key: "location_quantity",
+      transform: (value, row) => getRestockQuantity(value, row.location_min_quantity, row.location_max_quantity),
+    },
+    {
+      header: "Status",
+      key: "location_quantity",
+      transform: (value) => (Number(value) === 0 ? "SEM ESTOQUE" : "CRÍTICO"),
     },
     {
       header: "Fornecedor",
-      key: "suppliers.name",
+      key: "supplier_name",
       transform: (value) => value || "-",
     },
     {
@@ -166,7 +149,7 @@ export default function CriticalStockReport() {
                 Estoque Crítico
               </h1>
               <p className="text-sm md:text-base text-muted-foreground">
-                Produtos abaixo do nível mínimo
+                Produtos abaixo do nível mínimo em cada local
               </p>
             </div>
           </div>
@@ -228,7 +211,7 @@ export default function CriticalStockReport() {
               <div className="text-2xl md:text-4xl font-bold tracking-tight text-destructive">
                 {criticalProducts?.length || 0}
               </div>
-              <p className="text-xs text-muted-foreground">produtos</p>
+              <p className="text-xs text-muted-foreground">faltas por local</p>
             </CardContent>
           </Card>
 
@@ -321,24 +304,25 @@ export default function CriticalStockReport() {
                       Produto
                     </SortableTableHead>
                     <TableHead className="font-semibold text-xs uppercase tracking-wider">Categoria</TableHead>
+                    <TableHead className="font-semibold text-xs uppercase tracking-wider">Local</TableHead>
                     <SortableTableHead
                       currentSort={sortConfig}
                       onSort={handleSort}
-                      sortKey="quantity"
+                      sortKey="location_quantity"
                       className="font-semibold text-xs uppercase tracking-wider text-center"
                     >
                       Atual
                     </SortableTableHead>
-                    <TableHead className="font-semibold text-xs uppercase tracking-wider text-center">Mínimo</TableHead>
+                    <TableHead className="font-semibold text-xs uppercase tracking-wider text-center">Mín. / Máx.</TableHead>
+                    <TableHead className="font-semibold text-xs uppercase tracking-wider text-center">Repor</TableHead>
                     <TableHead className="font-semibold text-xs uppercase tracking-wider text-center">Status</TableHead>
-                    <TableHead className="font-semibold text-xs uppercase tracking-wider">Local</TableHead>
                     <TableHead className="font-semibold text-xs uppercase tracking-wider">Fornecedor</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {isLoading ? (
                     <TableRow>
-                      <TableCell colSpan={8} className="h-32">
+                      <TableCell colSpan={9} className="h-32">
                         <div className="flex flex-col items-center justify-center gap-2">
                           <Loader2 className="h-6 w-6 animate-spin text-primary" />
                           <span className="text-sm text-muted-foreground">Carregando...</span>
@@ -347,7 +331,7 @@ export default function CriticalStockReport() {
                     </TableRow>
                   ) : sortedProducts && sortedProducts.length > 0 ? (
                     sortedProducts.map((product) => (
-                      <TableRow key={product.id} className="hover:bg-muted/20 transition-colors">
+                      <TableRow key={`${product.id}-${product.location_id}`} className="hover:bg-muted/20 transition-colors">
                         <TableCell>
                           <code className="text-xs bg-muted px-2 py-1 rounded font-mono">
                             {product.sku}
@@ -363,24 +347,42 @@ export default function CriticalStockReport() {
                         </TableCell>
                         <TableCell>
                           <span className="text-sm text-muted-foreground">
-                            {product.categories?.name || "—"}
+                            {product.category_name || "—"}
                           </span>
                         </TableCell>
+                        <TableCell>
+                          {product.per_location ? (
+                            <span className="text-sm font-medium">{product.location_name || "—"}</span>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">Estoque total</span>
+                          )}
+                        </TableCell>
                         <TableCell className="text-center">
                           <Badge
-                            variant={Number(product.quantity) === 0 ? "destructive" : "secondary"}
+                            variant={Number(product.location_quantity) === 0 ? "destructive" : "secondary"}
                             className="font-semibold min-w-[40px] justify-center"
                           >
-                            {product.quantity}
+                            {formatNumber(Number(product.location_quantity))}
                           </Badge>
                         </TableCell>
                         <TableCell className="text-center">
                           <span className="text-sm font-medium text-muted-foreground">
-                            {product.min_quantity}
+                            {formatNumber(Number(product.location_min_quantity))}
+                            {product.location_max_quantity !== null &&
+                              ` / ${formatNumber(Number(product.location_max_quantity))}`}
                           </span>
                         </TableCell>
+                        <TableCell className="text-center text-sm font-medium tabular-nums">
+                          {formatNumber(
+                            getRestockQuantity(
+                              product.location_quantity,
+                              product.location_min_quantity,
+                              product.location_max_quantity
+                            )
+                          )}
+                        </TableCell>
                         <TableCell className="text-center">
-                          {Number(product.quantity) === 0 ? (
+                          {Number(product.location_quantity) === 0 ? (
                             <Badge variant="destructive" className="text-xs">
                               SEM ESTOQUE
                             </Badge>
@@ -392,19 +394,14 @@ export default function CriticalStockReport() {
                         </TableCell>
                         <TableCell>
                           <span className="text-sm text-muted-foreground">
-                            {product.locations?.name || "—"}
-                          </span>
-                        </TableCell>
-                        <TableCell>
-                          <span className="text-sm text-muted-foreground">
-                            {product.suppliers?.name || "—"}
+                            {product.supplier_name || "—"}
                           </span>
                         </TableCell>
                       </TableRow>
                     ))
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={8} className="h-32">
+                      <TableCell colSpan={9} className="h-32">
                         <div className="flex flex-col items-center justify-center gap-2 text-muted-foreground">
                           <div className="h-12 w-12 rounded-full bg-success/10 flex items-center justify-center">
                             <Package className="h-6 w-6 text-success" />
@@ -420,6 +417,8 @@ export default function CriticalStockReport() {
             </div>
           </CardContent>
         </Card>
+
+        <ExpiringLots />
       </div>
     </div>
   );
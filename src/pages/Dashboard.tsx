@@ -12,6 +12,7 @@ import { DateRangeFilter } from "@/components/shared/DateRangeFilter";
 import { Package, DollarSign, AlertTriangle, TrendingUp, TrendingDown, Clock, Brain, Sparkles } from "lucide-react";
 import { useOrganization } from "@/hooks/useOrganization";
 import { formatCurrency } from "@/lib/formatters";
+import { getStockDelta } from "@/lib/stock-balances";
 
 const Dashboard = () => {
   const queryClient = useQueryClient();
@@ -267,9 +268,8 @@ const Dashboard = () => {
           // Após a data final:
           // IN aumenta o estoque atual, então precisamos subtrair para voltar no tempo
           // OUT diminui o estoque atual, então somamos para voltar no tempo
-          let delta = 0;
-          if (m.type === "IN") delta = Number(m.quantity || 0);
-          if (m.type === "OUT") delta = -Number(m.quantity || 0);
+          // Ajustes de inventário são gravados com sinal e contam como entrada
+          const delta = getStockDelta(m.type, Number(m.quantity || 0));
 
           adjustments.set(m.product_id, current + delta);
         });
@@ -815,6 +815,11 @@ export default function Financeiro() {
                                 >
                                   {movement.tipo === "entrada" ? "Compra" : "Venda"}
                                 </Badge>
+                                {movement.return_id && (
+                                  <Badge variant="outline" className="ml-1 rounded-full text-destructive border-destructive/20">
+                                    Devolução
+                                  </Badge>
+                                )}
                               </TableCell>
                               <TableCell>
                                 <div>
@@ -0,0 +1,505 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, CheckCircle2, ClipboardList, RotateCcw, Save, Send, XCircle } from "lucide-react";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useUserRole } from "@/hooks/useUserRole";
+import { InventoryStatusBadge } from "@/components/inventory/InventoryStatusBadge";
+import { BarcodeScanInput, ScanResult } from "@/components/shared/BarcodeScanInput";
+import { formatCurrency, formatNumber } from "@/lib/formatters";
+import { resolveScanCode } from "@/lib/barcode";
+import { cn } from "@/lib/utils";
+
+type CountStatus = "counting" | "review" | "cancelled";
+
+export default function InventoryCountDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: organizationId } = useOrganization();
+  const { canManage, isAdmin } = useUserRole();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [lastScannedId, setLastScannedId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [postDialogOpen, setPostDialogOpen] = useState(false);
+
+  const { data: count, isLoading: isLoadingCount } = useQuery({
+    queryKey: ["inventory-count", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("inventory_counts")
+        .select(`
+          *,
+          location:locations(name),
+          category:categories(name)
+        `)
+        .eq("id", id!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: items, isLoading: isLoadingItems } = useQuery({
+    queryKey: ["inventory-count-items", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("inventory_count_items")
+        .select(`
+          *,
+          product:products(name, sku, unit, barcode),
+          inventory_count_entries(round, counted_quantity)
+        `)
+        .eq("count_id", id!);
+
+      if (error) throw error;
+      return (data || []).sort((a, b) =>
+        (a.product?.name || "").localeCompare(b.product?.name || "")
+      );
+    },
+    enabled: !!id,
+  });
+
+  const currentRound = count?.current_round ?? 1;
+  const isCounting = count?.status === "counting";
+  const showVariance = count?.status === "review" || count?.status === "posted";
+
+  // Pré-carrega os valores já salvos na rodada atual
+  useEffect(() => {
+    if (!items) return;
+    const initial: Record<string, string> = {};
+    items.forEach((item) => {
+      const entry = item.inventory_count_entries.find((e) => e.round === currentRound);
+      if (entry) initial[item.id] = String(entry.counted_quantity);
+    });
+    setDrafts(initial);
+  }, [items, currentRound]);
+
+  const rows = useMemo(() => {
+    return (items || []).map((item) => {
+      const entries = [...item.inventory_count_entries].sort((a, b) => a.round - b.round);
+      const latest = entries[entries.length - 1];
+      // Depois de lançado, a divergência é a do ajuste, contra o saldo da aprovação
+      const systemQuantity = Number(item.posted_system_quantity ?? item.system_quantity);
+      const variance = latest ? Number(latest.counted_quantity) - systemQuantity : null;
+      const valueImpact = variance !== null ? variance * Number(item.unit_cost || 0) : null;
+      return { item, entries, latest, systemQuantity, variance, valueImpact };
+    });
+  }, [items]);
+
+  const totals = useMemo(() => {
+    return rows.reduce(
+      (acc, row) => {
+        if (row.latest) acc.counted += 1;
+        if (row.variance) {
+          acc.divergent += 1;
+          acc.valueImpact += row.valueImpact || 0;
+        }
+        return acc;
+      },
+      { counted: 0, divergent: 0, valueImpact: 0 }
+    );
+  }, [rows]);
+
+  // Cada leitura soma uma unidade na rodada atual do item lido
+  const handleScan = (code: string): ScanResult => {
+    const scannable = (items || []).map((item) => ({
+      id: item.id,
+      sku: item.product?.sku || "",
+      barcode: item.product?.barcode ?? null,
+    }));
+    const match = resolveScanCode(code, scannable, []);
+    if (!match) {
+      return { ok: false, message: `Código ${code} não pertence a este inventário` };
+    }
+
+    const item = items?.find((i) => i.id === match.id);
+    const quantity = (Number(drafts[match.id]) || 0) + 1;
+    setDrafts((prev) => ({ ...prev, [match.id]: String((Number(prev[match.id]) || 0) + 1) }));
+    setLastScannedId(match.id);
+    return { ok: true, message: `${item?.product?.name} • ${formatNumber(quantity)} ${item?.product?.unit || ""}` };
+  };
+
+  const invalidateCount = () => {
+    queryClient.invalidateQueries({ queryKey: ["inventory-count", id] });
+    queryClient.invalidateQueries({ queryKey: ["inventory-count-items", id] });
+    queryClient.invalidateQueries({ queryKey: ["inventory-counts"] });
+  };
+
+  const handleSaveCounts = async () => {
+    if (!organizationId) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const entries = Object.entries(drafts)
+      .filter(([, value]) => value.trim() !== "")
+      .map(([itemId, value]) => ({
+        organization_id: organizationId,
+        item_id: itemId,
+        round: currentRound,
+        counted_quantity: Number(value),
+        counted_by: user.id,
+      }));
+
+    if (entries.some((entry) => isNaN(entry.counted_quantity) || entry.counted_quantity < 0)) {
+      toast.error("Informe quantidades válidas (maiores ou iguais a zero)");
+      return;
+    }
+
+    if (entries.length === 0) {
+      toast.error("Nenhuma quantidade informada");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("inventory_count_entries")
+        .upsert(entries, { onConflict: "item_id,round" });
+      if (error) throw error;
+
+      toast.success("Contagem salva");
+      invalidateCount();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao salvar contagem");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateCount = async (
+    changes: { status: CountStatus; current_round?: number },
+    successMessage: string
+  ) => {
+    setIsUpdating(true);
+    try {
+      const { error } = await supabase
+        .from("inventory_counts")
+        .update(changes)
+        .eq("id", id!);
+      if (error) throw error;
+
+      toast.success(successMessage);
+      invalidateCount();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao atualizar inventário");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handlePost = async () => {
+    setIsUpdating(true);
+    try {
+      const { data: adjusted, error } = await supabase.rpc("post_inventory_count", {
+        _count_id: id!,
+      });
+      if (error) throw error;
+
+      toast.success(
+        adjusted
+          ? `Inventário lançado com ${adjusted} ajuste(s) de estoque`
+          : "Inventário lançado sem divergências"
+      );
+      invalidateCount();
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-products"] });
+      queryClient.invalidateQueries({ queryKey: ["movements"] });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao lançar inventário");
+    } finally {
+      setIsUpdating(false);
+      setPostDialogOpen(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
+      <div className="p-6 md:p-8 space-y-6 md:space-y-8 animate-fade-in">
+        <Button variant="ghost" size="sm" className="gap-2" onClick={() => navigate("/inventory-counts")}>
+          <ArrowLeft className="h-4 w-4" />
+          Voltar
+        </Button>
+
+        {isLoadingCount ? (
+          <Skeleton className="h-24 w-full rounded-lg" />
+        ) : !count ? (
+          <p className="text-muted-foreground">Inventário não encontrado</p>
+        ) : (
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div className="flex items-center gap-3">
+              <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg shadow-primary/25">
+                <ClipboardList className="h-6 w-6 text-primary-foreground" />
+              </div>
+              <div className="space-y-1">
+                <div className="flex items-center gap-3">
+                  <h1 className="text-3xl md:text-4xl font-bold tracking-tight">{count.name}</h1>
+                  <InventoryStatusBadge status={count.status} />
+                </div>
+                <p className="text-sm md:text-base text-muted-foreground">
+                  {count.location?.name || "Estoque total"} • {count.category?.name || "Todas as categorias"} •
+                  {" "}Rodada {count.current_round} • Iniciado em{" "}
+                  {format(new Date(count.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                  {count.posted_at &&
+                    ` • Lançado em ${format(new Date(count.posted_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}`}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {isCounting && (
+                <Button onClick={handleSaveCounts} disabled={isSaving} className="gap-2">
+                  <Save className="h-4 w-4" />
+                  {isSaving ? "Salvando..." : "Salvar Contagem"}
+                </Button>
+              )}
+              {isCounting && canManage() && (
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  disabled={isUpdating}
+                  onClick={() => updateCount({ status: "review" }, "Inventário enviado para revisão")}
+                >
+                  <Send className="h-4 w-4" />
+                  Enviar para Revisão
+                </Button>
+              )}
+              {count.status === "review" && canManage() && (
+                <Button
+                  variant="outline"
+                  className="gap-2"
+                  disabled={isUpdating}
+                  onClick={() =>
+                    updateCount(
+                      { status: "counting", current_round: count.current_round + 1 },
+                      `Rodada ${count.current_round + 1} iniciada`
+                    )
+                  }
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  Nova Rodada
+                </Button>
+              )}
+              {count.status === "review" && isAdmin() && (
+                <Button className="gap-2" disabled={isUpdating} onClick={() => setPostDialogOpen(true)}>
+                  <CheckCircle2 className="h-4 w-4" />
+                  Aprovar e Lançar
+                </Button>
+              )}
+              {(isCounting || count.status === "review") && canManage() && (
+                <Button
+                  variant="ghost"
+                  className="gap-2 text-destructive hover:text-destructive"
+                  disabled={isUpdating}
+                  onClick={() => updateCount({ status: "cancelled" }, "Inventário cancelado")}
+                >
+                  <XCircle className="h-4 w-4" />
+                  Cancelar
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {count?.notes && (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{count.notes}</p>
+        )}
+
+        {showVariance && (
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card">
+              <CardContent className="p-6">
+                <p className="text-sm text-muted-foreground">Itens contados</p>
+                <p className="text-2xl font-bold tabular-nums">
+                  {totals.counted} / {rows.length}
+                </p>
+              </CardContent>
+            </Card>
+            <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card">
+              <CardContent className="p-6">
+                <p className="text-sm text-muted-foreground">Itens com divergência</p>
+                <p className="text-2xl font-bold tabular-nums">{totals.divergent}</p>
+              </CardContent>
+            </Card>
+            <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card">
+              <CardContent className="p-6">
+                <p className="text-sm text-muted-foreground">Impacto financeiro</p>
+                <p
+                  className={cn(
+                    "text-2xl font-bold tabular-nums",
+                    totals.valueImpact < 0 && "text-destructive",
+                    totals.valueImpact > 0 && "text-success"
+                  )}
+                >
+                  {formatCurrency(totals.valueImpact)}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card overflow-hidden">
+          <CardHeader className="border-b border-border/50 bg-muted/30">
+            <CardTitle className="text-lg font-semibold">Itens do Inventário</CardTitle>
+            {isCounting && (
+              <BarcodeScanInput
+                className="pt-2 max-w-md"
+                onScan={handleScan}
+                placeholder="Leia o código de barras ou SKU para somar uma unidade"
+              />
+            )}
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoadingItems ? (
+              <div className="p-6 space-y-3">
+                {[...Array(5)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full rounded-lg" />
+                ))}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableHead className="font-semibold">SKU</TableHead>
+                    <TableHead className="font-semibold">Produto</TableHead>
+                    {showVariance && <TableHead className="text-right font-semibold">Sistema</TableHead>}
+                    {Array.from({ length: isCounting ? currentRound - 1 : currentRound }, (_, i) => (
+                      <TableHead key={i} className="text-right font-semibold">
+                        Rodada {i + 1}
+                      </TableHead>
+                    ))}
+                    {isCounting && (
+                      <TableHead className="text-right font-semibold">Rodada {currentRound}</TableHead>
+                    )}
+                    {showVariance && (
+                      <>
+                        <TableHead className="text-right font-semibold">Divergência</TableHead>
+                        <TableHead className="text-right font-semibold">Impacto</TableHead>
+                      </>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.length > 0 ? (
+                    rows.map(({ item, entries, systemQuantity, variance, valueImpact }) => (
+                      <TableRow key={item.id} className={cn(isCounting && item.id === lastScannedId && "bg-primary/10")}>
+                        <TableCell className="font-mono text-sm">{item.product?.sku}</TableCell>
+                        <TableCell className="font-medium">{item.product?.name}</TableCell>
+                        {showVariance && (
+                          <TableCell className="text-right tabular-nums">
+                            {formatNumber(systemQuantity)} {item.product?.unit}
+                            {systemQuantity !== Number(item.system_quantity) && (
+                              <p className="text-xs text-muted-foreground">
+                                Início: {formatNumber(Number(item.system_quantity))}
+                              </p>
+                            )}
+                          </TableCell>
+                        )}
+                        {Array.from({ length: isCounting ? currentRound - 1 : currentRound }, (_, i) => {
+                          const entry = entries.find((e) => e.round === i + 1);
+                          return (
+                            <TableCell key={i} className="text-right tabular-nums text-muted-foreground">
+                              {entry ? formatNumber(Number(entry.counted_quantity)) : "-"}
+                            </TableCell>
+                          );
+                        })}
+                        {isCounting && (
+                          <TableCell className="text-right">
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              className="ml-auto w-28 text-right"
+                              value={drafts[item.id] ?? ""}
+                              onChange={(e) =>
+                                setDrafts((prev) => ({ ...prev, [item.id]: e.target.value }))
+                              }
+                            />
+                          </TableCell>
+                        )}
+                        {showVariance && (
+                          <>
+                            <TableCell
+                              className={cn(
+                                "text-right tabular-nums font-medium",
+                                variance !== null && variance < 0 && "text-destructive",
+                                variance !== null && variance > 0 && "text-success"
+                              )}
+                            >
+                              {variance === null
+                                ? "Não contado"
+                                : `${variance > 0 ? "+" : ""}${formatNumber(variance)}`}
+                            </TableCell>
+                            <TableCell className="text-right tabular-nums">
+                              {valueImpact === null ? "-" : formatCurrency(valueImpact)}
+                            </TableCell>
+                          </>
+                        )}
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={8} className="h-32 text-center text-muted-foreground">
+                        Nenhum produto no escopo deste inventário
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={postDialogOpen} onOpenChange={setPostDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Aprovar e lançar inventário?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Serão geradas movimentações de ajuste para os {totals.divergent} item(ns) com divergência,
+              com impacto de {formatCurrency(totals.valueImpact)}. Os ajustes são recalculados contra o saldo
+              atual, que já inclui as movimentações feitas durante a contagem. Itens não contados permanecem
+              inalterados. Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isUpdating}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePost} disabled={isUpdating}>
+              {isUpdating ? "Lançando..." : "Aprovar e Lançar"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
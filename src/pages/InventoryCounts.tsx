@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ClipboardList, Plus } from "lucide-react";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useUserRole } from "@/hooks/useUserRole";
+import { InventoryCountDialog } from "@/components/inventory/InventoryCountDialog";
+import { InventoryStatusBadge } from "@/components/inventory/InventoryStatusBadge";
+
+export default function InventoryCounts() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const navigate = useNavigate();
+  const { data: organizationId } = useOrganization();
+  const { canManage } = useUserRole();
+
+  const { data: counts, isLoading } = useQuery({
+    queryKey: ["inventory-counts", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const { data, error } = await supabase
+        .from("inventory_counts")
+        .select(`
+          *,
+          location:locations(name),
+          category:categories(name),
+          inventory_count_items(count)
+        `)
+        .eq("organization_id", organizationId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
+      <div className="p-6 md:p-8 space-y-6 md:space-y-8 animate-fade-in">
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div className="flex items-center gap-3">
+            <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg shadow-primary/25">
+              <ClipboardList className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-3xl md:text-4xl font-bold tracking-tight">Inventário</h1>
+              <p className="text-sm md:text-base text-muted-foreground">
+                Contagens físicas com revisão de divergências e ajuste de estoque
+              </p>
+            </div>
+          </div>
+          {canManage() && (
+            <Button onClick={() => setDialogOpen(true)} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Novo Inventário
+            </Button>
+          )}
+        </div>
+
+        <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card overflow-hidden">
+          <CardHeader className="border-b border-border/50 bg-muted/30">
+            <CardTitle className="text-lg font-semibold">Sessões de Contagem</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="p-6 space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full rounded-lg" />
+                ))}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableHead className="font-semibold">Data</TableHead>
+                    <TableHead className="font-semibold">Nome</TableHead>
+                    <TableHead className="font-semibold">Local</TableHead>
+                    <TableHead className="font-semibold">Categoria</TableHead>
+                    <TableHead className="text-center font-semibold">Itens</TableHead>
+                    <TableHead className="text-center font-semibold">Rodada</TableHead>
+                    <TableHead className="font-semibold">Situação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {counts && counts.length > 0 ? (
+                    counts.map((count) => (
+                      <TableRow
+                        key={count.id}
+                        className="cursor-pointer hover:bg-muted/20 transition-colors"
+                        onClick={() => navigate(`/inventory-counts/${count.id}`)}
+                      >
+                        <TableCell className="font-mono text-sm">
+                          {format(new Date(count.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                        </TableCell>
+                        <TableCell className="font-medium">{count.name}</TableCell>
+                        <TableCell className="text-muted-foreground">{count.location?.name || "Estoque total"}</TableCell>
+                        <TableCell className="text-muted-foreground">{count.category?.name || "Todas"}</TableCell>
+                        <TableCell className="text-center tabular-nums">
+                          {count.inventory_count_items?.[0]?.count ?? 0}
+                        </TableCell>
+                        <TableCell className="text-center tabular-nums">{count.current_round}</TableCell>
+                        <TableCell>
+                          <InventoryStatusBadge status={count.status} />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="h-32 text-center text-muted-foreground">
+                        Nenhum inventário registrado
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <InventoryCountDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onCreated={(countId) => navigate(`/inventory-counts/${countId}`)}
+      />
+    </div>
+  );
+}
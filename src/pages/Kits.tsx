@@ -14,11 +14,29 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Plus, Pencil, Trash2, Package, Search, Boxes, PackageCheck, PackageX, Sparkles } from "lucide-react";
+import {
+  Plus,
+  Pencil,
+  Trash2,
+  Package,
+  Search,
+  Boxes,
+  PackageCheck,
+  PackageX,
+  Sparkles,
+  Hammer,
+  PackageOpen,
+  ClipboardList,
+} from "lucide-react";
 import { toast } from "sonner";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
 import { KitDialog } from "@/components/kits/KitDialog";
+import { AssemblableKit, KitAssemblyDialog, KitAssemblyKind } from "@/components/kits/KitAssemblyDialog";
 import { useOrganization } from "@/hooks/useOrganization";
-import { formatCurrency } from "@/lib/formatters";
+import { useKitBom } from "@/hooks/useKitBom";
+import { formatCurrency, formatNumber } from "@/lib/formatters";
+import { explodeKit, getAssembledQuantity, getBuildableQuantity } from "@/lib/kits";
 
 export default function Kits() {
   const [searchTerm, setSearchTerm] = useState("");
@@ -26,6 +44,8 @@ export default function Kits() {
   const [selectedKit, setSelectedKit] = useState<any>(null);
   const [userRole, setUserRole] = useState<string | null>(null);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [assemblyKit, setAssemblyKit] = useState<AssemblableKit | null>(null);
+  const [assemblyKind, setAssemblyKind] = useState<KitAssemblyKind>("assembly");
   const queryClient = useQueryClient();
   const { data: organizationId } = useOrganization();
 
@@ -47,7 +67,7 @@ export default function Kits() {
     },
   });
 
-  // Fetch kits with items count
+  // Fetch kits with components and assembled stock
   const { data: kits, isLoading } = useQuery({
     queryKey: ["kits", searchTerm, organizationId],
     queryFn: async () => {
@@ -57,7 +77,8 @@ export default function Kits() {
         .from("kits")
         .select(`
           *,
-          kit_items(count)
+          components:kit_items!kit_items_kit_id_fkey (quantity),
+          kit_stock_balances (quantity)
         `)
         .eq("organization_id", organizationId)
         .order("name");
@@ -73,6 +94,52 @@ export default function Kits() {
     enabled: !!organizationId,
   });
 
+  const { data: bom = [] } = useKitBom();
+
+  // Products reached by the kits, sub-kits included, with their stock
+  const { data: componentProducts } = useQuery({
+    queryKey: ["products", "kit-components", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, name, unit, quantity")
+        .eq("organization_id", organizationId);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  // Products consumed by one kit, with sub-kits flattened down to their products
+  const getKitProducts = (kitId: string) =>
+    Array.from(explodeKit(kitId, bom), ([productId, quantity]) => {
+      const product = componentProducts?.find((p) => p.id === productId);
+      return { quantity, product: product ? { ...product, quantity: Number(product.quantity) } : null };
+    });
+
+  const { data: assemblyOrders } = useQuery({
+    queryKey: ["kit-assembly-orders", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const { data, error } = await supabase
+        .from("kit_assembly_orders")
+        .select(`
+          *,
+          kit:kits (name, sku),
+          location:locations (name)
+        `)
+        .eq("organization_id", organizationId)
+        .order("created_at", { ascending: false })
+        .limit(20);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       const { error } = await supabase.from("kits").delete().eq("id", id);
@@ -138,13 +205,18 @@ export default function Kits() {
     setIsDialogOpen(true);
   };
 
+  const handleAssembly = (kit: AssemblableKit, kind: KitAssemblyKind) => {
+    setAssemblyKind(kind);
+    setAssemblyKit(kit);
+  };
+
   const canManage = userRole === "admin" || userRole === "superadmin" || userRole === "almoxarife";
 
   // Calculate metrics
   const totalKits = kits?.length || 0;
   const activeKits = kits?.filter(k => k.active)?.length || 0;
   const inactiveKits = kits?.filter(k => !k.active)?.length || 0;
-  const totalItems = kits?.reduce((sum, kit) => sum + (kit.kit_items?.[0]?.count || 0), 0) || 0;
+  const totalItems = kits?.reduce((sum, kit) => sum + (kit.components?.length || 0), 0) || 0;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
@@ -297,6 +369,8 @@ export default function Kits() {
                     <TableHead className="font-semibold">Descrição</TableHead>
                     <TableHead className="font-semibold">Preço Venda</TableHead>
                     <TableHead className="font-semibold">Itens</TableHead>
+                    <TableHead className="font-semibold text-right">Montados</TableHead>
+                    <TableHead className="font-semibold text-right">Montáveis</TableHead>
                     <TableHead className="font-semibold">Status</TableHead>
                     {canManage && <TableHead className="text-right font-semibold">Ações</TableHead>}
                   </TableRow>
@@ -304,7 +378,7 @@ export default function Kits() {
                 <TableBody>
                   {isLoading ? (
                     <TableRow>
-                      <TableCell colSpan={canManage ? 8 : 7} className="h-32">
+                      <TableCell colSpan={canManage ? 10 : 9} className="h-32">
                         <div className="flex items-center justify-center gap-3">
                           <div className="h-8 w-8 rounded-full border-2 border-primary border-t-transparent animate-spin" />
                           <span className="text-muted-foreground">Carregando kits...</span>
@@ -341,9 +415,15 @@ export default function Kits() {
                             <div className="h-8 w-8 rounded-lg bg-primary/10 flex items-center justify-center">
                               <Package className="h-4 w-4 text-primary" />
                             </div>
-                            <span className="font-medium">{kit.kit_items?.[0]?.count || 0}</span>
+                            <span className="font-medium">{kit.components?.length || 0}</span>
                           </div>
                         </TableCell>
+                        <TableCell className="text-right font-semibold tabular-nums">
+                          {formatNumber(getAssembledQuantity(kit.kit_stock_balances))}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground tabular-nums">
+                          {formatNumber(getBuildableQuantity(getKitProducts(kit.id)))}
+                        </TableCell>
                         <TableCell>
                           <Badge 
                             variant={kit.active ? "default" : "secondary"}
@@ -355,6 +435,24 @@ export default function Kits() {
                         {canManage && (
                           <TableCell className="text-right">
                             <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-9 w-9 rounded-lg hover:bg-success/10 hover:text-success"
+                                title="Montar"
+                                onClick={() => handleAssembly({ ...kit, components: getKitProducts(kit.id) }, "assembly")}
+                              >
+                                <Hammer className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-9 w-9 rounded-lg hover:bg-warning/10 hover:text-warning"
+                                title="Desmontar"
+                                onClick={() => handleAssembly({ ...kit, components: getKitProducts(kit.id) }, "disassembly")}
+                              >
+                                <PackageOpen className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="icon"
@@ -378,7 +476,7 @@ export default function Kits() {
                     ))
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={canManage ? 8 : 7} className="h-32">
+                      <TableCell colSpan={canManage ? 10 : 9} className="h-32">
                         <div className="flex flex-col items-center justify-center gap-3 text-center">
                           <div className="h-16 w-16 rounded-2xl bg-muted/50 flex items-center justify-center">
                             <Boxes className="h-8 w-8 text-muted-foreground" />
@@ -403,11 +501,78 @@ export default function Kits() {
           </CardContent>
         </Card>
 
+        {/* Assembly orders */}
+        <Card className="border-0 shadow-card overflow-hidden bg-gradient-to-br from-card to-card/80">
+          <CardHeader className="border-b border-border/50 bg-muted/30">
+            <CardTitle className="text-lg font-semibold flex items-center gap-2">
+              <ClipboardList className="h-5 w-5 text-primary" />
+              Ordens de Montagem Recentes
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableHead className="font-semibold">Número</TableHead>
+                    <TableHead className="font-semibold">Data</TableHead>
+                    <TableHead className="font-semibold">Tipo</TableHead>
+                    <TableHead className="font-semibold">Kit</TableHead>
+                    <TableHead className="font-semibold text-right">Quantidade</TableHead>
+                    <TableHead className="font-semibold">Local</TableHead>
+                    <TableHead className="font-semibold">Observações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {assemblyOrders && assemblyOrders.length > 0 ? (
+                    assemblyOrders.map((order) => (
+                      <TableRow key={order.id}>
+                        <TableCell className="font-mono text-sm">{order.number}</TableCell>
+                        <TableCell className="text-sm">
+                          {format(new Date(order.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="outline"
+                            className={order.kind === "assembly" ? "text-success border-success/30" : "text-warning border-warning/30"}
+                          >
+                            {order.kind === "assembly" ? "Montagem" : "Desmontagem"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <span className="font-mono text-xs text-muted-foreground mr-2">{order.kit?.sku}</span>
+                          {order.kit?.name}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{formatNumber(Number(order.quantity))}</TableCell>
+                        <TableCell>{order.location?.name || "-"}</TableCell>
+                        <TableCell className="text-muted-foreground max-w-[200px] truncate">{order.notes || "-"}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="h-20 text-center text-muted-foreground">
+                        Nenhuma ordem de montagem registrada
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
         <KitDialog
           open={isDialogOpen}
           onOpenChange={setIsDialogOpen}
           kit={selectedKit}
         />
+
+        <KitAssemblyDialog
+          open={!!assemblyKit}
+          onOpenChange={(open) => !open && setAssemblyKit(null)}
+          kit={assemblyKit}
+          kind={assemblyKind}
+        />
       </div>
     </div>
   );
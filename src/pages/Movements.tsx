@@ -1,10 +1,12 @@
-import { useEffect, useState } from "react";
+import { Fragment, useEffect, useState } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
-import { Checkbox } from "@/components/ui/checkbox";
-import { Plus, ArrowDownCircle, ArrowUpCircle, ArrowRightLeft, Pencil, Trash2, Activity, TrendingUp, TrendingDown, Download, FileSpreadsheet } from "lucide-react";
+import { Plus, ArrowDownCircle, ArrowUpCircle, ArrowRightLeft, SlidersHorizontal, RotateCcw, Undo2, FileStack, ScanBarcode, Activity, TrendingUp, TrendingDown, Download, FileSpreadsheet } from "lucide-react";
 import { MovementDialog } from "@/components/movements/MovementDialog";
+import { ReturnDialog, ReturnableMovement } from "@/components/movements/ReturnDialog";
+import { ReverseMovementDialog, ReversibleMovement } from "@/components/movements/ReverseMovementDialog";
+import { MovementDocumentDialog } from "@/components/movements/MovementDocumentDialog";
 import { DateRangeFilter } from "@/components/shared/DateRangeFilter";
 import { toast } from "sonner";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -18,9 +20,12 @@ import {
 } from "@/components/ui/table";
 import { SortableTableHead, useSorting } from "@/components/shared/SortableTableHead";
 import { Badge } from "@/components/ui/badge";
-import { format } from "date-fns";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { format, subDays } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { useOrganization } from "@/hooks/useOrganization";
+import { useOrganizationSettings } from "@/hooks/useOrganizationSettings";
 import {
   Select,
   SelectContent,
@@ -35,18 +40,28 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { exportToExcel, exportToCSV, ExportColumn } from "@/lib/export-utils";
+import { formatCurrency } from "@/lib/formatters";
+import { cn } from "@/lib/utils";
+import { MOVEMENT_TYPES, RETURN_REASONS } from "@/constants";
+import type { Database } from "@/integrations/supabase/types";
 
 const Movements = () => {
   const [dialogOpen, setDialogOpen] = useState(false);
-  const [selectedMovement, setSelectedMovement] = useState<any>(null);
+  const [correctionOf, setCorrectionOf] = useState<any>(null);
+  const [returnMovement, setReturnMovement] = useState<ReturnableMovement | null>(null);
+  const [reverseMovement, setReverseMovement] = useState<ReversibleMovement | null>(null);
+  const [highlightedPair, setHighlightedPair] = useState<string | null>(null);
+  const [documentDialogOpen, setDocumentDialogOpen] = useState(false);
+  const [documentScanMode, setDocumentScanMode] = useState(false);
+  const [groupByDocument, setGroupByDocument] = useState(false);
   const [userRole, setUserRole] = useState<string | null>(null);
   const [dateFrom, setDateFrom] = useState<Date | null>(null);
   const [dateTo, setDateTo] = useState<Date | null>(null);
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [productFilter, setProductFilter] = useState<string>("all");
-  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const queryClient = useQueryClient();
   const { data: organizationId } = useOrganization();
+  const { data: orgSettings } = useOrganizationSettings();
 
   const handleDateChange = (from: Date | null, to: Date | null) => {
     setDateFrom(from);
@@ -146,10 +161,14 @@ const Movements = () => {
         .from("movements")
         .select(`
           *,
-          products (name, sku),
+          products (name, sku, serialized),
           kits (name, sku),
           from_location:locations!movements_from_location_id_fkey (name),
-          to_location:locations!movements_to_location_id_fkey (name)
+          to_location:locations!movements_to_location_id_fkey (name),
+          stock_return:stock_returns!stock_returns_return_movement_id_fkey (reason_code),
+          returns:stock_returns!stock_returns_original_movement_id_fkey (id),
+          count_item:inventory_count_items!inventory_count_items_adjustment_movement_id_fkey (id),
+          document:movement_documents (number, reference, document_date)
         `)
         .eq("organization_id", organizationId)
         .order("created_at", { ascending: false })
@@ -162,7 +181,7 @@ const Movements = () => {
       }
 
       if (typeFilter !== "all") {
-        query = query.eq("type", typeFilter as "IN" | "OUT" | "TRANSFER");
+        query = query.eq("type", typeFilter as Database["public"]["Enums"]["movement_type"]);
       }
 
       // Product/Kit filter
@@ -181,8 +200,82 @@ const Movements = () => {
     enabled: !!organizationId,
   });
 
+  // Reversals and corrections of the listed movements, and the originals of the listed reversals/corrections
+  const { data: movementLinks } = useQuery({
+    queryKey: ["movement-links", movementsData?.map((m) => m.id)],
+    queryFn: async () => {
+      const ids = movementsData!.map((m) => m.id);
+      const originalIds = movementsData!.flatMap((m) =>
+        [m.reversal_of_id, m.correction_of_id].filter((id): id is string => !!id)
+      );
+
+      const [linkedResult, originalsResult] = await Promise.all([
+        supabase
+          .from("movements")
+          .select("id, created_at, reversal_of_id, correction_of_id")
+          .or(`reversal_of_id.in.(${ids.join(",")}),correction_of_id.in.(${ids.join(",")})`),
+        originalIds.length > 0
+          ? supabase.from("movements").select("id, created_at").in("id", originalIds)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (linkedResult.error) throw linkedResult.error;
+      if (originalsResult.error) throw originalsResult.error;
+
+      const reversedAt: Record<string, string> = {};
+      const correctedAt: Record<string, string> = {};
+      for (const link of linkedResult.data) {
+        if (link.reversal_of_id) reversedAt[link.reversal_of_id] = link.created_at;
+        if (link.correction_of_id) correctedAt[link.correction_of_id] = link.created_at;
+      }
+
+      const createdAt: Record<string, string> = Object.fromEntries(
+        (originalsResult.data || []).map((m) => [m.id, m.created_at])
+      );
+
+      return { reversedAt, correctedAt, createdAt };
+    },
+    enabled: !!movementsData && movementsData.length > 0,
+  });
+
   const { sortConfig, handleSort, sortedData: movements } = useSorting(movementsData, "created_at", "desc");
 
+  type MovementRow = NonNullable<typeof movementsData>[number];
+
+  const isAdmin = userRole === "admin" || userRole === "superadmin";
+  const reversalWindowDays = orgSettings?.reversal_window_days ?? 30;
+
+  // Movements posted by orders, returns, assemblies, inventory counts or in-transit transfers are
+  // corrected in their source document
+  const isDocumentMovement = (movement: MovementRow) =>
+    !!movement.sales_order_line_id ||
+    !!movement.purchase_order_line_id ||
+    !!movement.kit_assembly_order_id ||
+    !!movement.transfer_id ||
+    movement.stock_return.length > 0 ||
+    movement.returns.length > 0 ||
+    movement.count_item.length > 0;
+
+  const isReversed = (movement: MovementRow) => !!movementLinks?.reversedAt[movement.id];
+
+  const canReverse = (movement: MovementRow) =>
+    isAdmin || new Date(movement.created_at) >= subDays(new Date(), reversalWindowDays);
+
+  // Lines of the same document stay together, where the document's first listed line would be
+  const displayedMovements = groupByDocument && movements
+    ? movements.flatMap((movement, index) => {
+        if (!movement.document_id) return [movement];
+        if (movements.findIndex((m) => m.document_id === movement.document_id) !== index) return [];
+        return movements.filter((m) => m.document_id === movement.document_id);
+      })
+    : movements;
+
+  const canAct = userRole === "superadmin" || userRole === "operador" || userRole === "almoxarife" || userRole === "admin";
+  const columnCount = canAct ? 9 : 8;
+
+  const formatLinkDate = (date: string | undefined) =>
+    date ? format(new Date(date), "dd/MM/yyyy HH:mm", { locale: ptBR }) : "";
+
   const getTypeIcon = (type: string) => {
     switch (type) {
       case "IN":
@@ -191,6 +284,8 @@ const Movements = () => {
         return <ArrowUpCircle className="h-4 w-4 text-danger" />;
       case "TRANSFER":
         return <ArrowRightLeft className="h-4 w-4 text-primary" />;
+      case "ADJUSTMENT":
+        return <SlidersHorizontal className="h-4 w-4 text-warning" />;
       default:
         return null;
     }
@@ -204,56 +299,13 @@ const Movements = () => {
         return <Badge className="bg-danger text-white">Saída</Badge>;
       case "TRANSFER":
         return <Badge className="bg-primary text-white">Transferência</Badge>;
+      case "ADJUSTMENT":
+        return <Badge className="bg-warning text-white">Ajuste</Badge>;
       default:
         return <Badge>{type}</Badge>;
     }
   };
 
-  const handleDelete = async (id: string) => {
-    if (!confirm("Tem certeza que deseja excluir esta movimentação?")) return;
-
-    try {
-      const { error } = await supabase.from("movements").delete().eq("id", id);
-      if (error) throw error;
-
-      toast.success("Movimentação excluída");
-      queryClient.invalidateQueries({ queryKey: ["movements"] });
-      queryClient.invalidateQueries({ queryKey: ["products"] });
-    } catch (error: any) {
-      toast.error(error.message || "Erro ao excluir movimentação");
-    }
-  };
-
-  const handleDeleteMultiple = async () => {
-    if (!confirm(`Tem certeza que deseja excluir ${selectedIds.length} movimentação(ões)?`)) return;
-
-    try {
-      const { error } = await supabase.from("movements").delete().in("id", selectedIds);
-      if (error) throw error;
-
-      toast.success("Movimentações excluídas com sucesso");
-      setSelectedIds([]);
-      queryClient.invalidateQueries({ queryKey: ["movements"] });
-      queryClient.invalidateQueries({ queryKey: ["products"] });
-    } catch (error: any) {
-      toast.error(error.message || "Erro ao excluir movimentações");
-    }
-  };
-
-  const handleSelectAll = () => {
-    if (selectedIds.length === movements?.length) {
-      setSelectedIds([]);
-    } else {
-      setSelectedIds(movements?.map(m => m.id) || []);
-    }
-  };
-
-  const handleSelectOne = (id: string) => {
-    setSelectedIds(prev =>
-      prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]
-    );
-  };
-
   useEffect(() => {
     if (!organizationId) return;
     const channel = supabase
@@ -264,6 +316,7 @@ const Movements = () => {
         () => {
           // Refresh movement list, stats and product quantities in cache
           queryClient.invalidateQueries({ queryKey: ["movements"] });
+          queryClient.invalidateQueries({ queryKey: ["movement-links"] });
           queryClient.invalidateQueries({ queryKey: ["movement-stats"] });
           queryClient.invalidateQueries({ queryKey: ["products"] });
         }
@@ -285,7 +338,7 @@ const Movements = () => {
     { 
       header: "Tipo", 
       key: "type",
-      transform: (value) => value === "IN" ? "Entrada" : value === "OUT" ? "Saída" : "Transferência"
+      transform: (value) => MOVEMENT_TYPES.find((t) => t.value === value)?.label || value
     },
     { 
       header: "Produto/Kit", 
@@ -298,6 +351,11 @@ const Movements = () => {
       transform: (value, row) => row.products?.sku || row.kits?.sku || "-"
     },
     { header: "Quantidade", key: "quantity" },
+    { 
+      header: "Custo Unitário", 
+      key: "unit_cost",
+      transform: (value) => value ?? "-"
+    },
     { 
       header: "Origem", 
       key: "from_location.name",
@@ -365,6 +423,7 @@ const Movements = () => {
                 <SelectItem value="IN">Entradas</SelectItem>
                 <SelectItem value="OUT">Saídas</SelectItem>
                 <SelectItem value="TRANSFER">Transferências</SelectItem>
+                <SelectItem value="ADJUSTMENT">Ajustes de inventário</SelectItem>
               </SelectContent>
             </Select>
             <Select value={productFilter} onValueChange={setProductFilter}>
@@ -399,12 +458,6 @@ const Movements = () => {
                 )}
               </SelectContent>
             </Select>
-            {selectedIds.length > 0 && userRole === "superadmin" && (
-              <Button onClick={handleDeleteMultiple} variant="destructive" className="gap-2 w-full sm:w-auto h-11 shadow-lg shadow-destructive/25">
-                <Trash2 className="h-4 w-4" />
-                Excluir ({selectedIds.length})
-              </Button>
-            )}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" className="gap-2 w-full sm:w-auto h-11 bg-card/80 backdrop-blur-sm border-border/50">
@@ -423,10 +476,36 @@ const Movements = () => {
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
+            <div className="flex items-center gap-2 h-11 px-3 rounded-md border border-border/50 bg-card/80 backdrop-blur-sm">
+              <Switch id="group-by-document" checked={groupByDocument} onCheckedChange={setGroupByDocument} />
+              <Label htmlFor="group-by-document" className="text-sm whitespace-nowrap">Agrupar por documento</Label>
+            </div>
+            <Button
+              variant="outline"
+              className="gap-2 w-full sm:w-auto h-11 bg-card/80 backdrop-blur-sm border-border/50"
+              onClick={() => {
+                setDocumentScanMode(true);
+                setDocumentDialogOpen(true);
+              }}
+            >
+              <ScanBarcode className="h-4 w-4" />
+              <span>Leitura</span>
+            </Button>
+            <Button
+              variant="outline"
+              className="gap-2 w-full sm:w-auto h-11 bg-card/80 backdrop-blur-sm border-border/50"
+              onClick={() => {
+                setDocumentScanMode(false);
+                setDocumentDialogOpen(true);
+              }}
+            >
+              <FileStack className="h-4 w-4" />
+              <span>Documento</span>
+            </Button>
             <Button
               className="gap-2 w-full sm:w-auto h-11 bg-gradient-to-r from-primary to-primary/90 shadow-lg shadow-primary/25 hover:shadow-xl hover:shadow-primary/30 transition-all"
               onClick={() => {
-                setSelectedMovement(null);
+                setCorrectionOf(null);
                 setDialogOpen(true);
               }}
             >
@@ -503,101 +582,167 @@ const Movements = () => {
           <Table>
           <TableHeader>
             <TableRow>
-              {userRole === "superadmin" && (
-                <TableHead className="w-12">
-                  <Checkbox
-                    checked={selectedIds.length === movements?.length && movements?.length > 0}
-                    onCheckedChange={handleSelectAll}
-                  />
-                </TableHead>
-              )}
               <SortableTableHead sortKey="created_at" currentSort={sortConfig} onSort={handleSort}>Data/Hora</SortableTableHead>
               <SortableTableHead sortKey="type" currentSort={sortConfig} onSort={handleSort}>Tipo</SortableTableHead>
               <SortableTableHead sortKey="products.name" currentSort={sortConfig} onSort={handleSort}>Produto</SortableTableHead>
               <SortableTableHead sortKey="quantity" currentSort={sortConfig} onSort={handleSort}>Quantidade</SortableTableHead>
+              <SortableTableHead sortKey="unit_cost" currentSort={sortConfig} onSort={handleSort}>Custo Unit.</SortableTableHead>
               <SortableTableHead sortKey="from_location.name" currentSort={sortConfig} onSort={handleSort}>Origem</SortableTableHead>
               <SortableTableHead sortKey="to_location.name" currentSort={sortConfig} onSort={handleSort}>Destino</SortableTableHead>
               <SortableTableHead sortKey="reference" currentSort={sortConfig} onSort={handleSort}>Referência</SortableTableHead>
-              {(userRole === "superadmin" || userRole === "operador" || userRole === "almoxarife" || userRole === "admin") && <TableHead className="w-[100px]">Ações</TableHead>}
+              {canAct && <TableHead className="w-[100px]">Ações</TableHead>}
             </TableRow>
           </TableHeader>
           <TableBody>
             {isLoading ? (
               <TableRow>
-                <TableCell colSpan={(userRole === "superadmin" || userRole === "operador" || userRole === "almoxarife" || userRole === "admin") ? 8 : 7} className="text-center">
+                <TableCell colSpan={columnCount} className="text-center">
                   Carregando...
                 </TableCell>
               </TableRow>
-            ) : movements && movements.length > 0 ? (
-              movements.map((movement: any) => (
-                <TableRow key={movement.id}>
-                  {userRole === "superadmin" && (
-                    <TableCell>
-                      <Checkbox
-                        checked={selectedIds.includes(movement.id)}
-                        onCheckedChange={() => handleSelectOne(movement.id)}
-                      />
-                    </TableCell>
-                  )}
-                  <TableCell className="font-mono text-sm">
-                    {format(new Date(movement.created_at), "dd/MM/yyyy HH:mm", {
-                      locale: ptBR,
-                    })}
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex items-center gap-2">
-                      {getTypeIcon(movement.type)}
-                      {getTypeBadge(movement.type)}
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <div>
-                      <div className="font-medium">
-                        {movement.products?.name || movement.kits?.name || "-"}
-                      </div>
-                      <div className="text-xs text-muted-foreground font-mono">
-                        {movement.products?.sku || movement.kits?.sku || "-"}
-                      </div>
-                    </div>
-                  </TableCell>
-                  <TableCell className="font-medium">
-                    {new Intl.NumberFormat("pt-BR").format(Number(movement.quantity))}
-                  </TableCell>
-                  <TableCell>{movement.from_location?.name || "-"}</TableCell>
-                  <TableCell>{movement.to_location?.name || "-"}</TableCell>
-                  <TableCell className="font-mono text-sm">
-                    {movement.reference || "-"}
-                  </TableCell>
-                  {(userRole === "superadmin" || userRole === "operador" || userRole === "almoxarife" || userRole === "admin") && (
-                    <TableCell>
-                      <div className="flex gap-2">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => {
-                            setSelectedMovement(movement);
-                            setDialogOpen(true);
-                          }}
-                        >
-                          <Pencil className="h-4 w-4" />
-                        </Button>
-                        {userRole === "superadmin" && (
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleDelete(movement.id)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+            ) : displayedMovements && displayedMovements.length > 0 ? (
+              displayedMovements.map((movement: any, index) => {
+                // A reversed movement and its reversal share the original's id as their pair key
+                const pairId = movement.reversal_of_id || (isReversed(movement) ? movement.id : null);
+                return (
+                  <Fragment key={movement.id}>
+                    {groupByDocument && movement.document && displayedMovements[index - 1]?.document_id !== movement.document_id && (
+                      <TableRow className="bg-muted/60 hover:bg-muted/60">
+                        <TableCell colSpan={columnCount} className="py-2">
+                          <div className="flex items-center gap-2 text-sm">
+                            <FileStack className="h-4 w-4 text-primary" />
+                            <span className="font-semibold">{movement.document.number}</span>
+                            {movement.document.reference && (
+                              <span className="font-mono text-muted-foreground">{movement.document.reference}</span>
+                            )}
+                            <span className="text-muted-foreground">
+                              • {format(new Date(`${movement.document.document_date}T00:00:00`), "dd/MM/yyyy", { locale: ptBR })} •{" "}
+                              {displayedMovements.filter((m) => m.document_id === movement.document_id).length} linha(s)
+                            </span>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    <TableRow
+                      className={cn(
+                        pairId && "bg-muted/40 border-l-2 border-l-warning",
+                        pairId && pairId === highlightedPair && "bg-warning/10"
+                      )}
+                      onMouseEnter={() => setHighlightedPair(pairId)}
+                      onMouseLeave={() => setHighlightedPair(null)}
+                    >
+                      <TableCell className="font-mono text-sm">
+                        {format(new Date(movement.created_at), "dd/MM/yyyy HH:mm", {
+                          locale: ptBR,
+                        })}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {getTypeIcon(movement.type)}
+                          {getTypeBadge(movement.type)}
+                          {movement.stock_return?.length > 0 && (
+                            <Badge variant="outline" className="text-xs">
+                              Devolução:{" "}
+                              {RETURN_REASONS.find((r) => r.value === movement.stock_return[0].reason_code)?.label}
+                            </Badge>
+                          )}
+                          {movement.kit_id && movement.assembled && (
+                            <Badge variant="outline" className="text-xs">
+                              Kit montado
+                            </Badge>
+                          )}
+                          {movement.document && !groupByDocument && (
+                          <Badge variant="outline" className="text-xs">
+                            {movement.document.number}
+                          </Badge>
                         )}
-                      </div>
-                    </TableCell>
-                  )}
-                </TableRow>
-              ))
+                        {isReversed(movement) && (
+                            <Badge variant="outline" className="text-xs border-warning text-warning">
+                              Estornada em {formatLinkDate(movementLinks?.reversedAt[movement.id])}
+                            </Badge>
+                          )}
+                          {movement.reversal_of_id && (
+                            <Badge variant="outline" className="text-xs border-warning text-warning">
+                              Estorno de {formatLinkDate(movementLinks?.createdAt[movement.reversal_of_id])}
+                            </Badge>
+                          )}
+                          {movement.correction_of_id && (
+                            <Badge variant="outline" className="text-xs">
+                              Correção de {formatLinkDate(movementLinks?.createdAt[movement.correction_of_id])}
+                            </Badge>
+                          )}
+                          {movementLinks?.correctedAt[movement.id] && (
+                            <Badge variant="outline" className="text-xs">
+                              Corrigida em {formatLinkDate(movementLinks.correctedAt[movement.id])}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div>
+                          <div className="font-medium">
+                            {movement.products?.name || movement.kits?.name || "-"}
+                          </div>
+                          <div className="text-xs text-muted-foreground font-mono">
+                            {movement.products?.sku || movement.kits?.sku || "-"}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {new Intl.NumberFormat("pt-BR").format(Number(movement.quantity))}
+                      </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {movement.unit_cost !== null ? formatCurrency(Number(movement.unit_cost)) : "-"}
+                      </TableCell>
+                      <TableCell>{movement.from_location?.name || "-"}</TableCell>
+                      <TableCell>{movement.to_location?.name || "-"}</TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {movement.reference || "-"}
+                      </TableCell>
+                      {canAct && (
+                        <TableCell>
+                          <div className="flex gap-2">
+                            {/* Returns are recorded against the original movement */}
+                            {(movement.type === "IN" || movement.type === "OUT") &&
+                              !movement.stock_return?.length &&
+                              !movement.reversal_of_id &&
+                              !isReversed(movement) &&
+                              userRole !== "operador" && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title={movement.type === "OUT" ? "Devolução de cliente" : "Devolução ao fornecedor"}
+                                  onClick={() => setReturnMovement(movement)}
+                                >
+                                  <Undo2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            {/* Movements are never edited or deleted: mistakes are reversed and, if needed, entered again */}
+                            {!movement.reversal_of_id && !isReversed(movement) && !isDocumentMovement(movement) && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={
+                                  canReverse(movement)
+                                    ? "Estornar"
+                                    : `Apenas administradores podem estornar movimentações com mais de ${reversalWindowDays} dias`
+                                }
+                                disabled={!canReverse(movement)}
+                                onClick={() => setReverseMovement(movement)}
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  </Fragment>
+                );
+              })
             ) : (
               <TableRow>
-                <TableCell colSpan={(userRole === "superadmin" || userRole === "operador" || userRole === "almoxarife" || userRole === "admin") ? 8 : 7} className="text-center text-muted-foreground">
+                <TableCell colSpan={columnCount} className="text-center text-muted-foreground">
                   Nenhuma movimentação encontrada
                 </TableCell>
               </TableRow>
@@ -611,7 +756,32 @@ const Movements = () => {
       <MovementDialog
         open={dialogOpen}
         onOpenChange={setDialogOpen}
-        movement={selectedMovement}
+        correctionOf={correctionOf}
+      />
+
+      <MovementDocumentDialog
+        open={documentDialogOpen}
+        onOpenChange={setDocumentDialogOpen}
+        scanMode={documentScanMode}
+      />
+
+      <ReverseMovementDialog
+        open={!!reverseMovement}
+        onOpenChange={(open) => !open && setReverseMovement(null)}
+        movement={reverseMovement}
+        onReversed={(correct) => {
+          if (correct) {
+            setCorrectionOf(reverseMovement);
+            setDialogOpen(true);
+          }
+          setReverseMovement(null);
+        }}
+      />
+
+      <ReturnDialog
+        open={!!returnMovement}
+        onOpenChange={(open) => !open && setReturnMovement(null)}
+        movement={returnMovement}
       />
       </div>
     </div>
@@ -3,6 +3,7 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useOrganization } from "@/hooks/useOrganization";
 import { useUserRole } from "@/hooks/useUserRole";
+import { EXPIRY_WARNING_DAYS } from "@/constants";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -121,7 +122,11 @@ export default function PrevisaoEstoque() {
     setIsSendingAlerts(true);
     try {
       const { data, error } = await supabase.functions.invoke("enviar-alertas-estoque", {
-        body: { organization_id: organizationId, limite_dias: 7 },
+        body: {
+          organization_id: organizationId,
+          limite_dias: 7,
+          limite_dias_validade: EXPIRY_WARNING_DAYS,
+        },
       });
 
       if (error) throw error;
@@ -129,7 +134,7 @@ export default function PrevisaoEstoque() {
       if (data.alertas_enviados > 0) {
         toast.success(`Alertas enviados para ${data.alertas_enviados} usuário(s)!`);
       } else {
-        toast.info("Nenhum produto em situação crítica para alertar.");
+        toast.info("Nenhum produto em situação crítica ou lote a vencer para alertar.");
       }
     } catch (error: any) {
       toast.error("Erro ao enviar alertas: " + error.message);
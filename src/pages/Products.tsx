@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -21,17 +22,24 @@ import {
 } from "@/components/ui/select";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Plus, Search, Pencil, Trash2, Package, TrendingDown, AlertCircle, DollarSign, ImageIcon, Filter, X, Download, FileSpreadsheet, FileText } from "lucide-react";
+import { Plus, Search, Pencil, Trash2, Package, ChevronDown, ChevronRight, Layers, TrendingDown, AlertCircle, DollarSign, ImageIcon, Filter, X, Download, FileSpreadsheet, FileText, Tag, Upload } from "lucide-react";
 import { ProductDialog } from "@/components/products/ProductDialog";
+import { ProductImportDialog } from "@/components/products/ProductImportDialog";
+import { LabelPrintDialog } from "@/components/shared/LabelPrintDialog";
 import { toast } from "sonner";
 import { useOrganization } from "@/hooks/useOrganization";
 import { formatNumber, formatCurrency } from "@/lib/formatters";
+import { fromBaseQuantity, getDisplayUnit, ProductUnits } from "@/lib/units";
+import { formatVariantLabel, VariantValues } from "@/lib/variants";
+import { ABC_CLASSES, matchesClassFilter, XYZ_CLASSES } from "@/lib/classification";
 import { SortableTableHead, useSorting } from "@/components/shared/SortableTableHead";
 import * as XLSX from "xlsx";
 
@@ -40,10 +48,18 @@ const Products = () => {
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
   const [locationFilter, setLocationFilter] = useState<string>("all");
   const [stockFilter, setStockFilter] = useState<string>("all");
+  const [searchParams] = useSearchParams();
+  // A matriz ABC/XYZ abre a lista já filtrada pela célula escolhida (ex.: ?classe=AX)
+  const [classFilter, setClassFilter] = useState<string>(searchParams.get("classe") || "all");
   const [dialogOpen, setDialogOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<any>(null);
+  const [selectedParent, setSelectedParent] = useState<any>(null);
+  const [expandedParents, setExpandedParents] = useState<string[]>([]);
   const [userRole, setUserRole] = useState<string | null>(null);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [labelDialogOpen, setLabelDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [exportInPurchaseUnit, setExportInPurchaseUnit] = useState(false);
   const queryClient = useQueryClient();
   const { data: organizationId } = useOrganization();
 
@@ -187,6 +203,7 @@ const Products = () => {
         .select("id, name")
         .eq("organization_id", organizationId)
         .eq("active", true)
+        .eq("is_transit", false)
         .order("name");
       if (error) throw error;
       return data;
@@ -205,7 +222,8 @@ const Products = () => {
           *,
           categories (name),
           locations (name),
-          suppliers (name)
+          suppliers (name),
+          product_unit_conversions (unit, factor)
         `)
         .eq("organization_id", organizationId)
         .order("name", { ascending: true });
@@ -231,8 +249,23 @@ const Products = () => {
     enabled: !!organizationId,
   });
 
-  // Apply stock filter client-side
+  const { data: parentProducts } = useQuery({
+    queryKey: ["parent-products", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+      const { data, error } = await supabase
+        .from("parent_products")
+        .select("*, categories (name)")
+        .eq("organization_id", organizationId);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  // Apply stock and classification filters client-side
   const products = productsData?.filter(p => {
+    if (!matchesClassFilter(p, classFilter)) return false;
     if (stockFilter === "all") return true;
     if (stockFilter === "critical") return p.quantity <= p.min_quantity && p.quantity > 0;
     if (stockFilter === "out") return p.quantity === 0;
@@ -243,12 +276,64 @@ const Products = () => {
   // Sorting hook
   const { sortConfig, handleSort, sortedData: sortedProducts } = useSorting(products, "name", "asc");
 
-  const hasActiveFilters = categoryFilter !== "all" || locationFilter !== "all" || stockFilter !== "all";
+  type ProductRow = NonNullable<typeof productsData>[number];
+  type ParentProduct = NonNullable<typeof parentProducts>[number];
+
+  // Variations are listed under their parent, at the position of the first one in the current order
+  const parentById = new Map((parentProducts || []).map((parent) => [parent.id, parent]));
+  const displayRows: ({ kind: "product"; product: ProductRow } | { kind: "parent"; parent: ParentProduct; variants: ProductRow[] })[] = [];
+  for (const product of sortedProducts || []) {
+    const parent = product.parent_product_id ? parentById.get(product.parent_product_id) : undefined;
+    if (!parent) {
+      displayRows.push({ kind: "product", product });
+    } else if (!displayRows.some((row) => row.kind === "parent" && row.parent.id === parent.id)) {
+      displayRows.push({
+        kind: "parent",
+        parent,
+        variants: (sortedProducts || []).filter((p) => p.parent_product_id === parent.id),
+      });
+    }
+  }
+
+  // Parent stock is the sum of all its variations, regardless of the stock filter
+  const getParentTotals = (parentId: string) => {
+    const variants = (productsData || []).filter((p) => p.parent_product_id === parentId);
+    return {
+      quantity: variants.reduce((sum, p) => sum + Number(p.quantity), 0),
+      minQuantity: variants.reduce((sum, p) => sum + Number(p.min_quantity), 0),
+      value: variants.reduce((sum, p) => sum + Number(p.cost) * Number(p.quantity), 0),
+      count: variants.length,
+    };
+  };
+
+  const toggleParent = (parentId: string) => {
+    setExpandedParents((current) =>
+      current.includes(parentId) ? current.filter((id) => id !== parentId) : [...current, parentId]
+    );
+  };
+
+  const handleDeleteParent = async (parent: ParentProduct) => {
+    if (!confirm(`Excluir o produto pai "${parent.name}"? As variações continuam cadastradas como produtos independentes.`)) return;
+
+    try {
+      const { error } = await supabase.from("parent_products").delete().eq("id", parent.id);
+      if (error) throw error;
+
+      toast.success("Produto pai excluído");
+      queryClient.invalidateQueries({ queryKey: ["parent-products"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao excluir produto pai");
+    }
+  };
+
+  const hasActiveFilters = categoryFilter !== "all" || locationFilter !== "all" || stockFilter !== "all" || classFilter !== "all";
 
   const clearFilters = () => {
     setCategoryFilter("all");
     setLocationFilter("all");
     setStockFilter("all");
+    setClassFilter("all");
   };
 
   const getStockBadge = (quantity: number, minQuantity: number) => {
@@ -267,28 +352,43 @@ const Products = () => {
     return "Normal";
   };
 
+  // Quantities and cost of a product in the unit chosen for the export
+  const getExportUnitValues = (p: ProductUnits & { quantity: number; min_quantity: number; cost: number | null }) => {
+    const { unit, factor } = getDisplayUnit(p, exportInPurchaseUnit ? "purchase" : "base");
+    return {
+      quantity: fromBaseQuantity(Number(p.quantity) || 0, factor),
+      minQuantity: fromBaseQuantity(Number(p.min_quantity) || 0, factor),
+      unit: unit || "",
+      cost: (Number(p.cost) || 0) * factor,
+    };
+  };
+
   const exportToExcel = () => {
     if (!sortedProducts || sortedProducts.length === 0) {
       toast.error("Não há produtos para exportar");
       return;
     }
 
-    const dataToExport = sortedProducts.map((p: any) => ({
-      SKU: p.sku || "",
-      Nome: p.name || "",
-      Descrição: p.description || "",
-      Categoria: p.categories?.name || "",
-      Quantidade: Number(p.quantity) || 0,
-      "Qtd. Mínima": Number(p.min_quantity) || 0,
-      Unidade: p.unit || "",
-      Localização: p.locations?.name || "",
-      Fornecedor: p.suppliers?.name || "",
-      "Custo (R$)": Number(p.cost) || 0,
-      "Preço Venda (R$)": Number(p.preco_venda) || 0,
-      "Código de Barras": p.barcode || "",
-      Status: getStatusText(Number(p.quantity), Number(p.min_quantity)),
-      Ativo: p.active ? "Sim" : "Não",
-    }));
+    const dataToExport = sortedProducts.map((p: any) => {
+      const units = getExportUnitValues(p);
+      return {
+        SKU: p.sku || "",
+        Nome: p.name || "",
+        "Produto Pai": parentById.get(p.parent_product_id)?.name || "",
+        Descrição: p.description || "",
+        Categoria: p.categories?.name || "",
+        Quantidade: units.quantity,
+        "Qtd. Mínima": units.minQuantity,
+        Unidade: units.unit,
+        Localização: p.locations?.name || "",
+        Fornecedor: p.suppliers?.name || "",
+        "Custo (R$)": units.cost,
+        "Preço Venda (R$)": Number(p.preco_venda) || 0,
+        "Código de Barras": p.barcode || "",
+        Status: getStatusText(Number(p.quantity), Number(p.min_quantity)),
+        Ativo: p.active ? "Sim" : "Não",
+      };
+    });
 
     const ws = XLSX.utils.json_to_sheet(dataToExport);
     const wb = XLSX.utils.book_new();
@@ -311,27 +411,31 @@ const Products = () => {
     }
 
     const headers = [
-      "SKU", "Nome", "Descrição", "Categoria", "Quantidade", "Qtd. Mínima",
+      "SKU", "Nome", "Produto Pai", "Descrição", "Categoria", "Quantidade", "Qtd. Mínima",
       "Unidade", "Localização", "Fornecedor", "Custo (R$)", "Preço Venda (R$)",
       "Código de Barras", "Status", "Ativo"
     ];
 
-    const rows = sortedProducts.map((p: any) => [
-      p.sku || "",
-      p.name || "",
-      (p.description || "").replace(/"/g, '""'),
-      p.categories?.name || "",
-      Number(p.quantity) || 0,
-      Number(p.min_quantity) || 0,
-      p.unit || "",
-      p.locations?.name || "",
-      p.suppliers?.name || "",
-      Number(p.cost) || 0,
-      Number(p.preco_venda) || 0,
-      p.barcode || "",
-      getStatusText(Number(p.quantity), Number(p.min_quantity)),
-      p.active ? "Sim" : "Não",
-    ]);
+    const rows = sortedProducts.map((p: any) => {
+      const units = getExportUnitValues(p);
+      return [
+        p.sku || "",
+        p.name || "",
+        parentById.get(p.parent_product_id)?.name || "",
+        (p.description || "").replace(/"/g, '""'),
+        p.categories?.name || "",
+        units.quantity,
+        units.minQuantity,
+        units.unit,
+        p.locations?.name || "",
+        p.suppliers?.name || "",
+        units.cost,
+        Number(p.preco_venda) || 0,
+        p.barcode || "",
+        getStatusText(Number(p.quantity), Number(p.min_quantity)),
+        p.active ? "Sim" : "Não",
+      ];
+    });
 
     const csvContent = [
       headers.join(";"),
@@ -396,6 +500,75 @@ const Products = () => {
   };
 
 
+  const renderProductRow = (product: ProductRow, isVariant = false) => (
+    <TableRow key={product.id} className={isVariant ? "bg-muted/20" : undefined}>
+      <TableCell>
+        <Checkbox
+          checked={selectedIds.includes(product.id)}
+          onCheckedChange={() => handleSelectOne(product.id)}
+        />
+      </TableCell>
+      <TableCell>
+        <div className="w-12 h-12 rounded-md overflow-hidden bg-muted flex items-center justify-center">
+          {product.image_url ? (
+            <img src={product.image_url} alt={product.name} className="w-full h-full object-cover" />
+          ) : (
+            <ImageIcon className="h-6 w-6 text-muted-foreground" />
+          )}
+        </div>
+      </TableCell>
+      <TableCell className={isVariant ? "font-mono text-xs pl-8" : "font-mono text-xs"}>{product.sku}</TableCell>
+      <TableCell>
+        <div>
+          <div className="font-medium text-sm">
+            {isVariant ? formatVariantLabel(product.variant_attributes as VariantValues) : product.name}
+          </div>
+          {product.barcode && (
+            <div className="text-xs text-muted-foreground font-mono">{product.barcode}</div>
+          )}
+          {product.abc_class && (
+            <Badge variant="outline" className="mt-1 font-mono text-[10px]">
+              {product.abc_class}
+              {product.xyz_class}
+            </Badge>
+          )}
+        </div>
+      </TableCell>
+      <TableCell className="text-sm">{product.categories?.name || "N/A"}</TableCell>
+      <TableCell className="font-medium text-sm">{formatNumber(Number(product.quantity))}</TableCell>
+      <TableCell className="text-sm">{formatNumber(Number(product.min_quantity))}</TableCell>
+      <TableCell className="text-sm">{product.locations?.name || "N/A"}</TableCell>
+      {userRole && userRole !== "operador" && (
+        <TableCell className="text-sm whitespace-nowrap">R$ {Number(product.cost).toFixed(2)}</TableCell>
+      )}
+      <TableCell>{getStockBadge(Number(product.quantity), Number(product.min_quantity))}</TableCell>
+      {userRole === "superadmin" && (
+        <TableCell>
+          <div className="flex gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => {
+                setSelectedProduct(product);
+                setSelectedParent(null);
+                setDialogOpen(true);
+              }}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleDelete(product.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </TableCell>
+      )}
+    </TableRow>
+  );
+
   if (isLoadingRole) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -423,6 +596,12 @@ const Products = () => {
             </div>
           </div>
           <div className="flex gap-3 flex-wrap">
+            {selectedIds.length > 0 && (
+              <Button onClick={() => setLabelDialogOpen(true)} variant="outline" className="h-11 gap-2">
+                <Tag className="h-4 w-4" />
+                Etiquetas ({selectedIds.length})
+              </Button>
+            )}
             {selectedIds.length > 0 && userRole === "superadmin" && (
               <Button onClick={handleDeleteMultiple} variant="destructive" className="h-11 gap-2 shadow-lg shadow-destructive/25">
                 <Trash2 className="h-4 w-4" />
@@ -446,13 +625,29 @@ const Products = () => {
                   <FileText className="h-4 w-4 text-primary" />
                   Exportar CSV (.csv)
                 </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem
+                  checked={exportInPurchaseUnit}
+                  onCheckedChange={(checked) => setExportInPurchaseUnit(checked === true)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  Quantidades na unidade de compra
+                </DropdownMenuCheckboxItem>
               </DropdownMenuContent>
             </DropdownMenu>
             
+            {userRole && userRole !== "operador" && (
+              <Button variant="outline" className="h-11 gap-2" onClick={() => setImportDialogOpen(true)}>
+                <Upload className="h-4 w-4" />
+                Importar
+              </Button>
+            )}
+
             <Button
               className="h-11 gap-2 bg-gradient-to-r from-primary to-primary/90 shadow-lg shadow-primary/25 hover:shadow-xl hover:shadow-primary/30 transition-all"
               onClick={() => {
                 setSelectedProduct(null);
+                setSelectedParent(null);
                 setDialogOpen(true);
               }}
             >
@@ -583,6 +778,23 @@ const Products = () => {
                   </SelectContent>
                 </Select>
 
+                <Select value={classFilter} onValueChange={setClassFilter}>
+                  <SelectTrigger className="w-[160px] h-10 bg-background/50 border-border/50">
+                    <SelectValue placeholder="Classe ABC/XYZ" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas as classes</SelectItem>
+                    {[...ABC_CLASSES, ...XYZ_CLASSES].map((cls) => (
+                      <SelectItem key={cls} value={cls}>Classe {cls}</SelectItem>
+                    ))}
+                    {ABC_CLASSES.flatMap((abc) =>
+                      XYZ_CLASSES.map((xyz) => (
+                        <SelectItem key={`${abc}${xyz}`} value={`${abc}${xyz}`}>Classe {abc}{xyz}</SelectItem>
+                      ))
+                    )}
+                  </SelectContent>
+                </Select>
+
                 {hasActiveFilters && (
                   <Button
                     variant="ghost"
@@ -612,14 +824,12 @@ const Products = () => {
             <Table>
               <TableHeader>
                 <TableRow>
-                  {userRole === "superadmin" && (
-                    <TableHead className="w-12">
-                      <Checkbox
-                        checked={selectedIds.length === sortedProducts?.length && sortedProducts?.length > 0}
-                        onCheckedChange={handleSelectAll}
-                      />
-                    </TableHead>
-                  )}
+                  <TableHead className="w-12">
+                    <Checkbox
+                      checked={selectedIds.length === sortedProducts?.length && sortedProducts?.length > 0}
+                      onCheckedChange={handleSelectAll}
+                    />
+                  </TableHead>
                   <TableHead className="min-w-[60px]">Imagem</TableHead>
                   <SortableTableHead sortKey="sku" currentSort={sortConfig} onSort={handleSort} className="min-w-[100px]">
                     SKU
@@ -656,67 +866,66 @@ const Products = () => {
                     </TableCell>
                   </TableRow>
                 ) : sortedProducts && sortedProducts.length > 0 ? (
-                  sortedProducts.map((product: any) => (
-                    <TableRow key={product.id}>
-                      {userRole === "superadmin" && (
-                        <TableCell>
-                          <Checkbox
-                            checked={selectedIds.includes(product.id)}
-                            onCheckedChange={() => handleSelectOne(product.id)}
-                          />
-                        </TableCell>
-                      )}
-                      <TableCell>
-                        <div className="w-12 h-12 rounded-md overflow-hidden bg-muted flex items-center justify-center">
-                          {product.image_url ? (
-                            <img src={product.image_url} alt={product.name} className="w-full h-full object-cover" />
-                          ) : (
-                            <ImageIcon className="h-6 w-6 text-muted-foreground" />
+                  displayRows.map((row) => {
+                    if (row.kind === "product") return renderProductRow(row.product);
+
+                    const { parent, variants } = row;
+                    const totals = getParentTotals(parent.id);
+                    const expanded = expandedParents.includes(parent.id);
+                    return (
+                      <Fragment key={parent.id}>
+                        <TableRow className="cursor-pointer" onClick={() => toggleParent(parent.id)}>
+                          <TableCell />
+                          <TableCell>
+                            <div className="w-12 h-12 rounded-md bg-primary/10 flex items-center justify-center">
+                              <Layers className="h-6 w-6 text-primary" />
+                            </div>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{parent.sku}</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                              <div>
+                                <div className="font-medium text-sm">{parent.name}</div>
+                                <div className="text-xs text-muted-foreground">{totals.count} variações</div>
+                              </div>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm">{parent.categories?.name || "N/A"}</TableCell>
+                          <TableCell className="font-medium text-sm">{formatNumber(totals.quantity)}</TableCell>
+                          <TableCell className="text-sm">{formatNumber(totals.minQuantity)}</TableCell>
+                          <TableCell className="text-sm">-</TableCell>
+                          {userRole && userRole !== "operador" && (
+                            <TableCell className="text-sm whitespace-nowrap">
+                              {totals.quantity > 0 ? `R$ ${(totals.value / totals.quantity).toFixed(2)}` : "-"}
+                            </TableCell>
                           )}
-                        </div>
-                      </TableCell>
-                      <TableCell className="font-mono text-xs">{product.sku}</TableCell>
-                      <TableCell>
-                        <div>
-                          <div className="font-medium text-sm">{product.name}</div>
-                          {product.barcode && (
-                            <div className="text-xs text-muted-foreground font-mono">{product.barcode}</div>
+                          <TableCell>{getStockBadge(totals.quantity, totals.minQuantity)}</TableCell>
+                          {userRole === "superadmin" && (
+                            <TableCell onClick={(e) => e.stopPropagation()}>
+                              <div className="flex gap-2">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => {
+                                    setSelectedProduct(null);
+                                    setSelectedParent(parent);
+                                    setDialogOpen(true);
+                                  }}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" onClick={() => handleDeleteParent(parent)}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
                           )}
-                        </div>
-                      </TableCell>
-                      <TableCell className="text-sm">{product.categories?.name || "N/A"}</TableCell>
-                      <TableCell className="font-medium text-sm">{formatNumber(Number(product.quantity))}</TableCell>
-                      <TableCell className="text-sm">{formatNumber(Number(product.min_quantity))}</TableCell>
-                      <TableCell className="text-sm">{product.locations?.name || "N/A"}</TableCell>
-                      {userRole && userRole !== "operador" && (
-                        <TableCell className="text-sm whitespace-nowrap">R$ {Number(product.cost).toFixed(2)}</TableCell>
-                      )}
-                      <TableCell>{getStockBadge(Number(product.quantity), Number(product.min_quantity))}</TableCell>
-                      {userRole === "superadmin" && (
-                        <TableCell>
-                          <div className="flex gap-2">
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => {
-                                setSelectedProduct(product);
-                                setDialogOpen(true);
-                              }}
-                            >
-                              <Pencil className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => handleDelete(product.id)}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </div>
-                        </TableCell>
-                      )}
-                    </TableRow>
-                  ))
+                        </TableRow>
+                        {expanded && variants.map((variant) => renderProductRow(variant, true))}
+                      </Fragment>
+                    );
+                  })
                 ) : (
                   <TableRow>
                     <TableCell colSpan={userRole === "superadmin" ? 11 : 10} className="text-center text-muted-foreground">
@@ -754,6 +963,11 @@ const Products = () => {
                     <div className="flex-1 min-w-0">
                       <div className="font-semibold text-base truncate">{product.name}</div>
                       <div className="text-xs text-muted-foreground font-mono mt-0.5">SKU: {product.sku}</div>
+                      {product.parent_product_id && (
+                        <div className="text-xs text-muted-foreground">
+                          Variação: {formatVariantLabel(product.variant_attributes as VariantValues)}
+                        </div>
+                      )}
                       {product.barcode && (
                         <div className="text-xs text-muted-foreground font-mono">Código: {product.barcode}</div>
                       )}
@@ -795,6 +1009,7 @@ const Products = () => {
                         className="flex-1 bg-card/50 hover:bg-primary hover:text-primary-foreground transition-all"
                         onClick={() => {
                           setSelectedProduct(product);
+                          setSelectedParent(null);
                           setDialogOpen(true);
                         }}
                       >
@@ -834,6 +1049,24 @@ const Products = () => {
         open={dialogOpen}
         onOpenChange={setDialogOpen}
         product={selectedProduct}
+        parentProduct={selectedParent}
+      />
+
+      <ProductImportDialog open={importDialogOpen} onOpenChange={setImportDialogOpen} />
+
+      <LabelPrintDialog
+        open={labelDialogOpen}
+        onOpenChange={setLabelDialogOpen}
+        kind="products"
+        items={(productsData || [])
+          .filter((p) => selectedIds.includes(p.id))
+          .map((p) => ({
+            name: p.name,
+            sku: p.sku,
+            barcode: p.barcode,
+            price: p.preco_venda !== null ? Number(p.preco_venda) : null,
+            location: p.locations?.name || null,
+          }))}
       />
     </div>
   );
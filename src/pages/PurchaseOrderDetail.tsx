@@ -0,0 +1,405 @@
+import { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, PackageCheck, Pencil, Send, ShoppingCart, XCircle } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { PurchaseOrderStatusBadge } from "@/components/purchasing/PurchaseOrderStatusBadge";
+import { PurchaseOrderDialog } from "@/components/purchasing/PurchaseOrderDialog";
+import { ReceivePurchaseOrderDialog } from "@/components/purchasing/ReceivePurchaseOrderDialog";
+import { formatCurrency, formatNumber } from "@/lib/formatters";
+import { cn } from "@/lib/utils";
+
+export default function PurchaseOrderDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { canManage } = useUserRole();
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [receiveDialogOpen, setReceiveDialogOpen] = useState(false);
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const { data: order, isLoading: isLoadingOrder } = useQuery({
+    queryKey: ["purchase-order", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("purchase_orders")
+        .select(`
+          *,
+          supplier:suppliers(name),
+          location:locations(name)
+        `)
+        .eq("id", id!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: lines, isLoading: isLoadingLines } = useQuery({
+    queryKey: ["purchase-order-lines", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("purchase_order_lines")
+        .select(`
+          *,
+          product:products(name, sku, unit, track_lots, serialized)
+        `)
+        .eq("order_id", id!)
+        .order("created_at");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: receipts } = useQuery({
+    queryKey: ["purchase-order-receipts", id, lines?.map((line) => line.id)],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("movements")
+        .select(`
+          id,
+          quantity,
+          unit_cost,
+          created_at,
+          product:products(name, sku, unit),
+          to_location:locations!movements_to_location_id_fkey(name)
+        `)
+        .in("purchase_order_line_id", lines!.map((line) => line.id))
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!lines && lines.length > 0,
+  });
+
+  const draftLines = useMemo(
+    () =>
+      (lines || []).map((line) => ({
+        product_id: line.product_id,
+        quantity: String(line.quantity),
+        unit_cost: String(line.unit_cost),
+      })),
+    [lines]
+  );
+
+  const totals = useMemo(() => {
+    return (lines || []).reduce(
+      (acc, line) => {
+        acc.ordered += Number(line.quantity) * Number(line.unit_cost);
+        acc.received += Number(line.received_quantity) * Number(line.unit_cost);
+        return acc;
+      },
+      { ordered: 0, received: 0 }
+    );
+  }, [lines]);
+
+  const isDraft = order?.status === "draft";
+  const canReceive = order?.status === "sent" || order?.status === "partial";
+  const canCancel = isDraft || order?.status === "sent" || order?.status === "partial";
+
+  const updateOrder = async (
+    changes: { status: "sent" | "cancelled"; sent_at?: string; cancelled_at?: string },
+    successMessage: string
+  ) => {
+    setIsUpdating(true);
+    try {
+      const { error } = await supabase.from("purchase_orders").update(changes).eq("id", id!);
+      if (error) throw error;
+
+      toast.success(successMessage);
+      queryClient.invalidateQueries({ queryKey: ["purchase-order", id] });
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao atualizar pedido");
+    } finally {
+      setIsUpdating(false);
+      setCancelDialogOpen(false);
+    }
+  };
+
+  const formatDateTime = (value: string) => format(new Date(value), "dd/MM/yyyy HH:mm", { locale: ptBR });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
+      <div className="p-6 md:p-8 space-y-6 md:space-y-8 animate-fade-in">
+        <Button variant="ghost" size="sm" className="gap-2" onClick={() => navigate("/purchase-orders")}>
+          <ArrowLeft className="h-4 w-4" />
+          Voltar
+        </Button>
+
+        {isLoadingOrder ? (
+          <Skeleton className="h-24 w-full rounded-lg" />
+        ) : !order ? (
+          <p className="text-muted-foreground">Pedido de compra não encontrado</p>
+        ) : (
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div className="flex items-center gap-3">
+              <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg shadow-primary/25">
+                <ShoppingCart className="h-6 w-6 text-primary-foreground" />
+              </div>
+              <div className="space-y-1">
+                <div className="flex items-center gap-3">
+                  <h1 className="text-3xl md:text-4xl font-bold tracking-tight">{order.number}</h1>
+                  <PurchaseOrderStatusBadge status={order.status} />
+                </div>
+                <p className="text-sm md:text-base text-muted-foreground">
+                  {order.supplier?.name} • {order.location?.name || "Local padrão"} • Criado em{" "}
+                  {formatDateTime(order.created_at)}
+                  {order.expected_date &&
+                    ` • Previsão ${format(new Date(`${order.expected_date}T00:00:00`), "dd/MM/yyyy", { locale: ptBR })}`}
+                  {order.sent_at && ` • Enviado em ${formatDateTime(order.sent_at)}`}
+                  {order.received_at && ` • Recebido em ${formatDateTime(order.received_at)}`}
+                  {order.cancelled_at && ` • Cancelado em ${formatDateTime(order.cancelled_at)}`}
+                </p>
+              </div>
+            </div>
+
+            {canManage() && (
+              <div className="flex flex-wrap gap-2">
+                {isDraft && (
+                  <Button variant="outline" className="gap-2" onClick={() => setEditDialogOpen(true)}>
+                    <Pencil className="h-4 w-4" />
+                    Editar
+                  </Button>
+                )}
+                {isDraft && (
+                  <Button
+                    className="gap-2"
+                    disabled={isUpdating || !lines || lines.length === 0}
+                    onClick={() =>
+                      updateOrder({ status: "sent", sent_at: new Date().toISOString() }, "Pedido enviado ao fornecedor")
+                    }
+                  >
+                    <Send className="h-4 w-4" />
+                    Enviar
+                  </Button>
+                )}
+                {canReceive && (
+                  <Button className="gap-2" onClick={() => setReceiveDialogOpen(true)}>
+                    <PackageCheck className="h-4 w-4" />
+                    Receber
+                  </Button>
+                )}
+                {canCancel && (
+                  <Button
+                    variant="ghost"
+                    className="gap-2 text-destructive hover:text-destructive"
+                    disabled={isUpdating}
+                    onClick={() => setCancelDialogOpen(true)}
+                  >
+                    <XCircle className="h-4 w-4" />
+                    Cancelar
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {order?.notes && (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{order.notes}</p>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card">
+            <CardContent className="p-6">
+              <p className="text-sm text-muted-foreground">Valor do pedido</p>
+              <p className="text-2xl font-bold tabular-nums">{formatCurrency(totals.ordered)}</p>
+            </CardContent>
+          </Card>
+          <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card">
+            <CardContent className="p-6">
+              <p className="text-sm text-muted-foreground">Valor recebido</p>
+              <p className="text-2xl font-bold tabular-nums">{formatCurrency(totals.received)}</p>
+            </CardContent>
+          </Card>
+          <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card">
+            <CardContent className="p-6">
+              <p className="text-sm text-muted-foreground">Valor pendente</p>
+              <p className="text-2xl font-bold tabular-nums">
+                {formatCurrency(order?.status === "cancelled" ? 0 : totals.ordered - totals.received)}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card overflow-hidden">
+          <CardHeader className="border-b border-border/50 bg-muted/30">
+            <CardTitle className="text-lg font-semibold">Itens do Pedido</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoadingLines ? (
+              <div className="p-6 space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full rounded-lg" />
+                ))}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableHead className="font-semibold">SKU</TableHead>
+                    <TableHead className="font-semibold">Produto</TableHead>
+                    <TableHead className="text-right font-semibold">Pedido</TableHead>
+                    <TableHead className="text-right font-semibold">Recebido</TableHead>
+                    <TableHead className="text-right font-semibold">Saldo</TableHead>
+                    <TableHead className="text-right font-semibold">Custo Unit.</TableHead>
+                    <TableHead className="text-right font-semibold">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines && lines.length > 0 ? (
+                    lines.map((line) => {
+                      const remaining = Number(line.quantity) - Number(line.received_quantity);
+                      return (
+                        <TableRow key={line.id}>
+                          <TableCell className="font-mono text-sm">{line.product?.sku}</TableCell>
+                          <TableCell className="font-medium">{line.product?.name}</TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatNumber(Number(line.quantity))} {line.product?.unit}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatNumber(Number(line.received_quantity))}
+                          </TableCell>
+                          <TableCell
+                            className={cn(
+                              "text-right tabular-nums font-medium",
+                              remaining > 0 ? "text-warning" : "text-success"
+                            )}
+                          >
+                            {formatNumber(remaining)}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatCurrency(Number(line.unit_cost))}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatCurrency(Number(line.quantity) * Number(line.unit_cost))}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="h-32 text-center text-muted-foreground">
+                        Nenhum item no pedido
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {receipts && receipts.length > 0 && (
+          <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card overflow-hidden">
+            <CardHeader className="border-b border-border/50 bg-muted/30">
+              <CardTitle className="text-lg font-semibold">Recebimentos</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableHead className="font-semibold">Data</TableHead>
+                    <TableHead className="font-semibold">Produto</TableHead>
+                    <TableHead className="font-semibold">Local</TableHead>
+                    <TableHead className="text-right font-semibold">Quantidade</TableHead>
+                    <TableHead className="text-right font-semibold">Valor</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receipts.map((movement) => (
+                    <TableRow key={movement.id}>
+                      <TableCell className="font-mono text-sm">{formatDateTime(movement.created_at)}</TableCell>
+                      <TableCell className="font-medium">{movement.product?.name}</TableCell>
+                      <TableCell className="text-muted-foreground">{movement.to_location?.name || "-"}</TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatNumber(Number(movement.quantity))} {movement.product?.unit}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatCurrency(Number(movement.quantity) * Number(movement.unit_cost || 0))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {order && (
+        <>
+          <PurchaseOrderDialog
+            open={editDialogOpen}
+            onOpenChange={setEditDialogOpen}
+            order={order}
+            lines={draftLines}
+          />
+          <ReceivePurchaseOrderDialog
+            open={receiveDialogOpen}
+            onOpenChange={setReceiveDialogOpen}
+            orderId={order.id}
+            orderNumber={order.number}
+            defaultLocationId={order.location_id}
+            lines={lines || []}
+          />
+        </>
+      )}
+
+      <AlertDialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar pedido de compra?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O saldo ainda não recebido deixa de ser esperado. As entradas já registradas permanecem no
+              estoque e no financeiro.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isUpdating}>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                updateOrder({ status: "cancelled", cancelled_at: new Date().toISOString() }, "Pedido cancelado")
+              }
+              disabled={isUpdating}
+            >
+              Cancelar Pedido
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
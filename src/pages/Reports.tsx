@@ -4,8 +4,12 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { DateRangeFilter } from "@/components/shared/DateRangeFilter";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { MovementsReportTable } from "@/components/reports/MovementsReportTable";
-import { Download, FileText, Package, TrendingUp, Activity, DollarSign, Users, Box, AlertTriangle, BarChart3, ShoppingCart } from "lucide-react";
+import { StockAsOfReportTable } from "@/components/reports/StockAsOfReportTable";
+import { StockAgingReportTable } from "@/components/reports/StockAgingReportTable";
+import { Download, FileText, Package, TrendingUp, Activity, DollarSign, Users, Box, AlertTriangle, BarChart3, ShoppingCart, Layers, Shirt } from "lucide-react";
 import { toast } from "sonner";
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
@@ -18,14 +22,20 @@ import {
   exportSuppliersReport,
   exportKitsReport,
   exportCriticalStockReport,
-  exportPerformanceReport
+  exportPerformanceReport,
+  exportCostLayersReport,
+  exportParentProductsReport
 } from "@/lib/report-exports";
 import { addPDFHeader, addPDFFooter, addPDFSummary, getPDFTableStyles } from "@/lib/pdf-helpers";
+import { getStockDelta } from "@/lib/stock-balances";
+import { fromBaseQuantity, getDisplayUnit, UnitMode } from "@/lib/units";
+import { MOVEMENT_TYPES } from "@/constants";
 
 const Reports = () => {
   const [isExporting, setIsExporting] = useState(false);
   const [dateFrom, setDateFrom] = useState<Date | null>(null);
   const [dateTo, setDateTo] = useState<Date | null>(null);
+  const [unitMode, setUnitMode] = useState<UnitMode>("base");
   const { data: organizationId } = useOrganization();
   const { isAdmin, isSuperAdmin, isLoading: isLoadingRole } = useUserRole();
 
@@ -116,9 +126,11 @@ const Reports = () => {
           min_quantity,
           cost,
           unit,
+          purchase_unit,
           categories (name),
           locations (name),
-          suppliers (name)
+          suppliers (name),
+          product_unit_conversions (unit, factor)
         `)
         .eq("organization_id", organizationId);
 
@@ -131,18 +143,21 @@ const Reports = () => {
         [`Gerado em: ${currentDate}`],
         [""],
         ["SKU", "Nome", "Código de Barras", "Quantidade", "Qtd. Mínima", "Custo", "Unidade", "Categoria", "Local", "Fornecedor"],
-        ...data.map((p: any) => [
-          p.sku,
-          p.name,
-          p.barcode || "",
-          p.quantity,
-          p.min_quantity,
-          p.cost,
-          p.unit,
-          p.categories?.name || "",
-          p.locations?.name || "",
-          p.suppliers?.name || "",
-        ]),
+        ...data.map((p: any) => {
+          const { unit, factor } = getDisplayUnit(p, unitMode);
+          return [
+            p.sku,
+            p.name,
+            p.barcode || "",
+            fromBaseQuantity(p.quantity, factor),
+            fromBaseQuantity(p.min_quantity, factor),
+            Number(p.cost) * factor,
+            unit,
+            p.categories?.name || "",
+            p.locations?.name || "",
+            p.suppliers?.name || "",
+          ];
+        }),
       ]
         .map((row) => row.join(","))
         .join("\n");
@@ -180,9 +195,11 @@ const Reports = () => {
           min_quantity,
           cost,
           unit,
+          purchase_unit,
           categories (name),
           locations (name),
-          suppliers (name)
+          suppliers (name),
+          product_unit_conversions (unit, factor)
         `)
         .eq("organization_id", organizationId);
 
@@ -203,18 +220,21 @@ const Reports = () => {
       autoTable(doc, {
         startY,
         head: [["SKU", "Nome", "Cód. Barras", "Qtd", "Qtd Min", "Custo", "Un", "Categoria", "Local", "Fornecedor"]],
-        body: data.map((p: any) => [
-          p.sku,
-          p.name,
-          p.barcode || "-",
-          p.quantity,
-          p.min_quantity,
-          `R$ ${Number(p.cost).toFixed(2)}`,
-          p.unit,
-          p.categories?.name || "-",
-          p.locations?.name || "-",
-          p.suppliers?.name || "-",
-        ]),
+        body: data.map((p: any) => {
+          const { unit, factor } = getDisplayUnit(p, unitMode);
+          return [
+            p.sku,
+            p.name,
+            p.barcode || "-",
+            fromBaseQuantity(p.quantity, factor),
+            fromBaseQuantity(p.min_quantity, factor),
+            `R$ ${(Number(p.cost) * factor).toFixed(2)}`,
+            unit,
+            p.categories?.name || "-",
+            p.locations?.name || "-",
+            p.suppliers?.name || "-",
+          ];
+        }),
         ...getPDFTableStyles(),
         columnStyles: {
           0: { cellWidth: 18 },
@@ -307,11 +327,7 @@ const Reports = () => {
             .gte("created_at", dateFrom.toISOString());
           
           futureMovements?.forEach((m: any) => {
-            if (m.type === "IN") {
-              currentStock -= Number(m.quantity);
-            } else if (m.type === "OUT") {
-              currentStock += Number(m.quantity);
-            }
+            currentStock -= getStockDelta(m.type, m.quantity);
           });
         }
         
@@ -330,11 +346,7 @@ const Reports = () => {
         for (let i = 0; i <= index; i++) {
           const mov = movements[i];
           if (mov.product_id === productId) {
-            if (mov.type === "IN") {
-              saldo += Number(mov.quantity);
-            } else if (mov.type === "OUT") {
-              saldo -= Number(mov.quantity);
-            }
+            saldo += getStockDelta(mov.type, mov.quantity);
           }
         }
         
@@ -363,7 +375,7 @@ const Reports = () => {
             hour: '2-digit', 
             minute: '2-digit' 
           }),
-          m.type === "IN" ? "Entrada" : m.type === "OUT" ? "Saída" : "Transferência",
+          MOVEMENT_TYPES.find((t) => t.value === m.type)?.label || m.type,
           m.products?.name || m.kits?.name || "-",
           m.quantity,
           m.from_location?.name || "-",
@@ -477,7 +489,7 @@ const Reports = () => {
         ["Data e Hora", "Tipo", "Produto", "Quantidade", "Origem", "Destino", "Referência", "Observação"],
         ...data.map((m: any) => [
           new Date(m.created_at).toLocaleString("pt-BR"),
-          m.type === "IN" ? "Entrada" : m.type === "OUT" ? "Saída" : "Transferência",
+          MOVEMENT_TYPES.find((t) => t.value === m.type)?.label || m.type,
           m.products?.name || m.kits?.name || "",
           m.quantity,
           m.from_location?.name || "",
@@ -511,7 +523,19 @@ const Reports = () => {
           <h1 className="text-3xl font-bold">Relatórios</h1>
           <p className="text-muted-foreground">Visualize e exporte relatórios do sistema</p>
         </div>
-        <DateRangeFilter onDateChange={handleDateChange} />
+        <div className="flex flex-col gap-4 md:flex-row md:items-center">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="purchase-unit"
+              checked={unitMode === "purchase"}
+              onCheckedChange={(checked) => setUnitMode(checked ? "purchase" : "base")}
+            />
+            <Label htmlFor="purchase-unit" className="text-sm">
+              Quantidades na unidade de compra
+            </Label>
+          </div>
+          <DateRangeFilter onDateChange={handleDateChange} />
+        </div>
       </div>
 
       {/* Opções de Exportação - Grid Completo */}
@@ -672,7 +696,7 @@ const Reports = () => {
           </CardHeader>
           <CardContent>
             <Button 
-              onClick={() => organizationId && exportCriticalStockReport(organizationId)} 
+              onClick={() => organizationId && exportCriticalStockReport(organizationId, unitMode)} 
               disabled={isExporting || !organizationId} 
               className="w-full h-9 text-xs"
               size="sm"
@@ -705,6 +729,50 @@ const Reports = () => {
             </Button>
           </CardContent>
         </Card>
+
+        <Card className="bg-gradient-to-br from-card to-card/50 border-border shadow-card hover:shadow-lg transition-shadow">
+          <CardHeader className="pb-3">
+            <div className="flex items-center gap-2">
+              <Layers className="h-5 w-5 text-primary" />
+              <CardTitle className="text-base">Valorização PEPS</CardTitle>
+            </div>
+            <CardDescription className="text-xs">Camadas de custo em estoque</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button 
+              onClick={() => organizationId && exportCostLayersReport(organizationId, unitMode)} 
+              disabled={isExporting || !organizationId} 
+              className="w-full h-9 text-xs"
+              size="sm"
+              variant="outline"
+            >
+              <FileText className="h-3.5 w-3.5 mr-1" />
+              Exportar PDF
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-to-br from-card to-card/50 border-border shadow-card hover:shadow-lg transition-shadow">
+          <CardHeader className="pb-3">
+            <div className="flex items-center gap-2">
+              <Shirt className="h-5 w-5 text-primary" />
+              <CardTitle className="text-base">Produtos com Variações</CardTitle>
+            </div>
+            <CardDescription className="text-xs">Vendas e estoque somados por produto pai</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button 
+              onClick={() => organizationId && exportParentProductsReport(organizationId, dateFrom, dateTo)} 
+              disabled={isExporting || !organizationId} 
+              className="w-full h-9 text-xs"
+              size="sm"
+              variant="outline"
+            >
+              <FileText className="h-3.5 w-3.5 mr-1" />
+              Exportar PDF
+            </Button>
+          </CardContent>
+        </Card>
       </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
@@ -751,6 +819,12 @@ const Reports = () => {
         </Card>
       </div>
 
+      {/* Estoque reconstruído em uma data (auditoria de fechamento) */}
+      <StockAsOfReportTable unitMode={unitMode} />
+
+      {/* Valor parado por dias desde a última saída */}
+      <StockAgingReportTable unitMode={unitMode} />
+
       {/* Visualização do Relatório de Movimentações */}
       <MovementsReportTable dateFrom={dateFrom} dateTo={dateTo} />
     </div>
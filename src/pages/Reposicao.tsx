@@ -0,0 +1,366 @@
+import { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useUserRole } from "@/hooks/useUserRole";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { FileSpreadsheet, FileText, PackagePlus, ShoppingCart, Truck } from "lucide-react";
+import { formatCurrency, formatNumber } from "@/lib/formatters";
+import {
+  calculateReplenishment,
+  groupProposalsBySupplier,
+  ReplenishmentInput,
+  SupplierProposalGroup,
+} from "@/lib/replenishment";
+import { exportReplenishmentSheetExcel, exportReplenishmentSheetPDF } from "@/lib/report-exports";
+
+const DEFAULT_COVERAGE_DAYS = 30;
+
+export default function Reposicao() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: organizationId } = useOrganization();
+  const { canManage } = useUserRole();
+  const [coverageDays, setCoverageDays] = useState(String(DEFAULT_COVERAGE_DAYS));
+  const [quantityOverrides, setQuantityOverrides] = useState<Record<string, string>>({});
+  const [creatingSupplierId, setCreatingSupplierId] = useState<string | null>(null);
+
+  const { data: inputs, isLoading } = useQuery({
+    queryKey: ["replenishment-inputs", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const [productsResult, previsoesResult, openLinesResult] = await Promise.all([
+        supabase
+          .from("products")
+          .select("id, name, sku, unit, quantity, min_quantity, min_order_quantity, custo_unitario, supplier_id, supplier:suppliers(name, lead_time_days)")
+          .eq("organization_id", organizationId)
+          .eq("active", true),
+        supabase
+          .from("previsoes_estoque")
+          .select("produto_id, media_vendas_diaria")
+          .eq("organization_id", organizationId),
+        supabase
+          .from("purchase_order_lines")
+          .select("product_id, quantity, received_quantity, purchase_orders!inner(status)")
+          .eq("organization_id", organizationId)
+          .in("purchase_orders.status", ["sent", "partial"]),
+      ]);
+
+      if (productsResult.error) throw productsResult.error;
+      if (previsoesResult.error) throw previsoesResult.error;
+      if (openLinesResult.error) throw openLinesResult.error;
+
+      const dailySales = new Map(
+        (previsoesResult.data || []).map((p) => [p.produto_id, Number(p.media_vendas_diaria)])
+      );
+
+      const onOrder = new Map<string, number>();
+      (openLinesResult.data || []).forEach((line) => {
+        const pending = Number(line.quantity) - Number(line.received_quantity);
+        onOrder.set(line.product_id, (onOrder.get(line.product_id) || 0) + pending);
+      });
+
+      return (productsResult.data || []).map<ReplenishmentInput>((product) => ({
+        product_id: product.id,
+        name: product.name,
+        sku: product.sku,
+        unit: product.unit,
+        quantity: Number(product.quantity),
+        min_quantity: Number(product.min_quantity),
+        min_order_quantity: Number(product.min_order_quantity),
+        unit_cost: Number(product.custo_unitario || 0),
+        daily_sales: dailySales.get(product.id) || 0,
+        on_order: onOrder.get(product.id) || 0,
+        supplier_id: product.supplier_id,
+        supplier_name: product.supplier?.name || null,
+        lead_time_days: product.supplier?.lead_time_days ?? 0,
+      }));
+    },
+    enabled: !!organizationId,
+  });
+
+  const coverage = Math.max(Number(coverageDays) || 0, 0);
+
+  const groups = useMemo(
+    () => groupProposalsBySupplier((inputs || []).map((input) => calculateReplenishment(input, coverage))),
+    [inputs, coverage]
+  );
+
+  // Quantidades revisadas pelo usuário substituem a sugestão
+  const getQuantity = (productId: string, suggested: number) => {
+    const override = quantityOverrides[productId];
+    if (override === undefined || override.trim() === "") return suggested;
+    return Math.max(Number(override) || 0, 0);
+  };
+
+  const withEditedQuantities = (group: SupplierProposalGroup): SupplierProposalGroup => ({
+    ...group,
+    proposals: group.proposals
+      .map((proposal) => ({
+        ...proposal,
+        suggested_quantity: getQuantity(proposal.product_id, proposal.suggested_quantity),
+      }))
+      .filter((proposal) => proposal.suggested_quantity > 0),
+  });
+
+  const getGroupTotal = (group: SupplierProposalGroup) =>
+    group.proposals.reduce(
+      (sum, proposal) => sum + getQuantity(proposal.product_id, proposal.suggested_quantity) * proposal.unit_cost,
+      0
+    );
+
+  const totalValue = groups.reduce((sum, group) => sum + getGroupTotal(group), 0);
+  const totalItems = groups.reduce((sum, group) => sum + group.proposals.length, 0);
+
+  const handleCreateOrder = async (group: SupplierProposalGroup) => {
+    if (!organizationId || !group.supplier_id) return;
+
+    const edited = withEditedQuantities(group);
+    if (edited.proposals.length === 0) {
+      toast.error("Nenhuma quantidade a pedir para este fornecedor");
+      return;
+    }
+
+    setCreatingSupplierId(group.supplier_id);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Usuário não autenticado");
+
+      const { data: order, error } = await supabase
+        .from("purchase_orders")
+        .insert({
+          organization_id: organizationId,
+          supplier_id: group.supplier_id,
+          created_by: user.id,
+          notes: `Gerado pelo planejamento de reposição (cobertura de ${coverage} dias)`,
+        })
+        .select("id, number")
+        .single();
+      if (error) throw error;
+
+      const { error: linesError } = await supabase.from("purchase_order_lines").insert(
+        edited.proposals.map((proposal) => ({
+          organization_id: organizationId,
+          order_id: order.id,
+          product_id: proposal.product_id,
+          quantity: proposal.suggested_quantity,
+          unit_cost: proposal.unit_cost,
+        }))
+      );
+      if (linesError) throw linesError;
+
+      toast.success(`Pedido ${order.number} criado como rascunho`);
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      navigate(`/purchase-orders/${order.id}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao criar pedido de compra");
+    } finally {
+      setCreatingSupplierId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
+      <div className="p-6 md:p-8 space-y-6 md:space-y-8 animate-fade-in">
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div className="flex items-center gap-3">
+            <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg shadow-primary/25">
+              <PackagePlus className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-3xl md:text-4xl font-bold tracking-tight">Reposição</h1>
+              <p className="text-sm md:text-base text-muted-foreground">
+                Sugestões de compra a partir das previsões de venda e dos prazos dos fornecedores
+              </p>
+            </div>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="coverage-days" className="text-xs text-muted-foreground">
+                Cobertura (dias)
+              </Label>
+              <Input
+                id="coverage-days"
+                type="number"
+                min="0"
+                step="1"
+                className="w-32"
+                value={coverageDays}
+                onChange={(e) => setCoverageDays(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card">
+            <CardContent className="p-6">
+              <p className="text-sm text-muted-foreground">Produtos a repor</p>
+              <p className="text-2xl font-bold tabular-nums">{totalItems}</p>
+            </CardContent>
+          </Card>
+          <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card">
+            <CardContent className="p-6">
+              <p className="text-sm text-muted-foreground">Fornecedores</p>
+              <p className="text-2xl font-bold tabular-nums">{groups.length}</p>
+            </CardContent>
+          </Card>
+          <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card">
+            <CardContent className="p-6">
+              <p className="text-sm text-muted-foreground">Valor estimado</p>
+              <p className="text-2xl font-bold tabular-nums">{formatCurrency(totalValue)}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Um produto é sugerido quando o estoque somado aos pedidos em aberto não cobre a quantidade mínima mais a
+          venda média durante o prazo de entrega. A quantidade cobre o prazo e o período de cobertura, respeitando o
+          lote mínimo de compra. Atualize as previsões em Previsão de Estoque para usar as vendas mais recentes.
+        </p>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-32 w-full rounded-lg" />
+            ))}
+          </div>
+        ) : groups.length === 0 ? (
+          <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card">
+            <CardContent className="h-32 flex items-center justify-center text-muted-foreground">
+              Nenhum produto precisa de reposição no momento
+            </CardContent>
+          </Card>
+        ) : (
+          groups.map((group) => (
+            <Card
+              key={group.supplier_id || "none"}
+              className="border-0 bg-card/80 backdrop-blur-sm shadow-card overflow-hidden"
+            >
+              <CardHeader className="border-b border-border/50 bg-muted/30">
+                <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+                  <div className="space-y-1">
+                    <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                      {group.supplier_name}
+                      {group.supplier_id && (
+                        <Badge variant="outline" className="gap-1 font-normal">
+                          <Truck className="h-3 w-3" />
+                          {group.lead_time_days} dia(s)
+                        </Badge>
+                      )}
+                    </CardTitle>
+                    <CardDescription>
+                      {group.proposals.length} item(ns) • {formatCurrency(getGroupTotal(group))}
+                    </CardDescription>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => exportReplenishmentSheetPDF(withEditedQuantities(group), coverage)}
+                    >
+                      <FileText className="h-4 w-4" />
+                      PDF
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => exportReplenishmentSheetExcel(withEditedQuantities(group))}
+                    >
+                      <FileSpreadsheet className="h-4 w-4" />
+                      Excel
+                    </Button>
+                    {group.supplier_id && canManage() && (
+                      <Button
+                        size="sm"
+                        className="gap-2"
+                        disabled={creatingSupplierId === group.supplier_id}
+                        onClick={() => handleCreateOrder(group)}
+                      >
+                        <ShoppingCart className="h-4 w-4" />
+                        {creatingSupplierId === group.supplier_id ? "Criando..." : "Gerar Pedido"}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/30 hover:bg-muted/30">
+                      <TableHead className="font-semibold">SKU</TableHead>
+                      <TableHead className="font-semibold">Produto</TableHead>
+                      <TableHead className="text-right font-semibold">Estoque</TableHead>
+                      <TableHead className="text-right font-semibold">Em pedido</TableHead>
+                      <TableHead className="text-right font-semibold">Média/dia</TableHead>
+                      <TableHead className="text-right font-semibold">Ponto de pedido</TableHead>
+                      <TableHead className="text-right font-semibold">Lote mín.</TableHead>
+                      <TableHead className="text-right font-semibold">Quantidade</TableHead>
+                      <TableHead className="text-right font-semibold">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.proposals.map((proposal) => (
+                      <TableRow key={proposal.product_id}>
+                        <TableCell className="font-mono text-sm">{proposal.sku}</TableCell>
+                        <TableCell className="font-medium">{proposal.name}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatNumber(proposal.quantity)} {proposal.unit}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums text-muted-foreground">
+                          {proposal.on_order > 0 ? formatNumber(proposal.on_order) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{proposal.daily_sales.toFixed(2)}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatNumber(Math.ceil(proposal.reorder_point))}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums text-muted-foreground">
+                          {proposal.min_order_quantity > 0 ? formatNumber(proposal.min_order_quantity) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Input
+                            type="number"
+                            min="0"
+                            step="1"
+                            className="ml-auto w-24 text-right"
+                            value={quantityOverrides[proposal.product_id] ?? String(proposal.suggested_quantity)}
+                            onChange={(e) =>
+                              setQuantityOverrides((prev) => ({ ...prev, [proposal.product_id]: e.target.value }))
+                            }
+                          />
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatCurrency(
+                            getQuantity(proposal.product_id, proposal.suggested_quantity) * proposal.unit_cost
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+import { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ArrowLeft,
+  ClipboardCheck,
+  Lock,
+  LockOpen,
+  Pencil,
+  ReceiptText,
+  ShoppingBag,
+  Truck,
+  XCircle,
+} from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { SalesOrderStatusBadge } from "@/components/sales/SalesOrderStatusBadge";
+import { SalesOrderDialog } from "@/components/sales/SalesOrderDialog";
+import { ShipSalesOrderDialog } from "@/components/sales/ShipSalesOrderDialog";
+import { InvoiceSalesOrderDialog } from "@/components/sales/InvoiceSalesOrderDialog";
+import { formatCurrency, formatNumber } from "@/lib/formatters";
+
+// Transições feitas por set_sales_order_status: liberar reserva, separar e cancelar
+type StatusChange = "open" | "picked" | "cancelled";
+
+export default function SalesOrderDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { canManage } = useUserRole();
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [shipDialogOpen, setShipDialogOpen] = useState(false);
+  const [invoiceDialogOpen, setInvoiceDialogOpen] = useState(false);
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const { data: order, isLoading: isLoadingOrder } = useQuery({
+    queryKey: ["sales-order", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sales_orders")
+        .select(`
+          *,
+          location:locations(name)
+        `)
+        .eq("id", id!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: lines, isLoading: isLoadingLines } = useQuery({
+    queryKey: ["sales-order-lines", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sales_order_lines")
+        .select(`
+          *,
+          product:products(name, sku, unit, serialized),
+          kit:kits(name, sku)
+        `)
+        .eq("order_id", id!)
+        .order("created_at");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const draftLines = useMemo(
+    () =>
+      (lines || []).map((line) => ({
+        item: line.kit_id ? `kit:${line.kit_id}` : `product:${line.product_id}`,
+        quantity: String(line.quantity),
+        unit_price: String(line.unit_price),
+      })),
+    [lines]
+  );
+
+  const orderTotal = useMemo(
+    () => (lines || []).reduce((sum, line) => sum + Number(line.quantity) * Number(line.unit_price), 0),
+    [lines]
+  );
+
+  const status = order?.status;
+  const hasLines = !!lines && lines.length > 0;
+
+  const refreshOrder = () => {
+    queryClient.invalidateQueries({ queryKey: ["sales-order", id] });
+    queryClient.invalidateQueries({ queryKey: ["sales-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["reserved-quantities"] });
+  };
+
+  const handleReserve = async () => {
+    setIsUpdating(true);
+    try {
+      const { error } = await supabase.rpc("reserve_sales_order", { _order_id: id! });
+      if (error) throw error;
+
+      toast.success("Estoque reservado para o pedido");
+      refreshOrder();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao reservar estoque");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const updateOrder = async (nextStatus: StatusChange, successMessage: string) => {
+    setIsUpdating(true);
+    try {
+      const { error } = await supabase.rpc("set_sales_order_status", { _order_id: id!, _status: nextStatus });
+      if (error) throw error;
+
+      toast.success(successMessage);
+      refreshOrder();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Erro ao atualizar pedido");
+    } finally {
+      setIsUpdating(false);
+      setCancelDialogOpen(false);
+    }
+  };
+
+  const formatDateTime = (value: string) => format(new Date(value), "dd/MM/yyyy HH:mm", { locale: ptBR });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
+      <div className="p-6 md:p-8 space-y-6 md:space-y-8 animate-fade-in">
+        <Button variant="ghost" size="sm" className="gap-2" onClick={() => navigate("/sales-orders")}>
+          <ArrowLeft className="h-4 w-4" />
+          Voltar
+        </Button>
+
+        {isLoadingOrder ? (
+          <Skeleton className="h-24 w-full rounded-lg" />
+        ) : !order ? (
+          <p className="text-muted-foreground">Pedido de venda não encontrado</p>
+        ) : (
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div className="flex items-center gap-3">
+              <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg shadow-primary/25">
+                <ShoppingBag className="h-6 w-6 text-primary-foreground" />
+              </div>
+              <div className="space-y-1">
+                <div className="flex items-center gap-3">
+                  <h1 className="text-3xl md:text-4xl font-bold tracking-tight">{order.number}</h1>
+                  <SalesOrderStatusBadge status={order.status} />
+                </div>
+                <p className="text-sm md:text-base text-muted-foreground">
+                  {order.customer_name}
+                  {order.customer_contact && ` (${order.customer_contact})`} • {order.location?.name || "Local padrão"} •
+                  Criado em {formatDateTime(order.created_at)}
+                  {order.delivery_date &&
+                    ` • Entrega ${format(new Date(`${order.delivery_date}T00:00:00`), "dd/MM/yyyy", { locale: ptBR })}`}
+                  {order.reserved_at && ` • Reservado em ${formatDateTime(order.reserved_at)}`}
+                  {order.picked_at && ` • Separado em ${formatDateTime(order.picked_at)}`}
+                  {order.shipped_at && ` • Expedido em ${formatDateTime(order.shipped_at)}`}
+                  {order.invoiced_at && ` • Faturado em ${formatDateTime(order.invoiced_at)}`}
+                  {order.invoice_number && ` • NF ${order.invoice_number}`}
+                  {order.cancelled_at && ` • Cancelado em ${formatDateTime(order.cancelled_at)}`}
+                </p>
+              </div>
+            </div>
+
+            {canManage() && (
+              <div className="flex flex-wrap gap-2">
+                {status === "open" && (
+                  <Button variant="outline" className="gap-2" onClick={() => setEditDialogOpen(true)}>
+                    <Pencil className="h-4 w-4" />
+                    Editar
+                  </Button>
+                )}
+                {status === "open" && (
+                  <Button className="gap-2" disabled={isUpdating || !hasLines} onClick={handleReserve}>
+                    <Lock className="h-4 w-4" />
+                    Reservar
+                  </Button>
+                )}
+                {status === "reserved" && (
+                  <Button
+                    variant="outline"
+                    className="gap-2"
+                    disabled={isUpdating}
+                    onClick={() => updateOrder("open", "Reserva liberada")}
+                  >
+                    <LockOpen className="h-4 w-4" />
+                    Liberar Reserva
+                  </Button>
+                )}
+                {status === "reserved" && (
+                  <Button
+                    className="gap-2"
+                    disabled={isUpdating}
+                    onClick={() => updateOrder("picked", "Pedido separado")}
+                  >
+                    <ClipboardCheck className="h-4 w-4" />
+                    Separar
+                  </Button>
+                )}
+                {status === "picked" && (
+                  <Button className="gap-2" onClick={() => setShipDialogOpen(true)}>
+                    <Truck className="h-4 w-4" />
+                    Expedir
+                  </Button>
+                )}
+                {status === "shipped" && (
+                  <Button className="gap-2" onClick={() => setInvoiceDialogOpen(true)}>
+                    <ReceiptText className="h-4 w-4" />
+                    Faturar
+                  </Button>
+                )}
+                {(status === "open" || status === "reserved" || status === "picked") && (
+                  <Button
+                    variant="ghost"
+                    className="gap-2 text-destructive hover:text-destructive"
+                    disabled={isUpdating}
+                    onClick={() => setCancelDialogOpen(true)}
+                  >
+                    <XCircle className="h-4 w-4" />
+                    Cancelar
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {order?.notes && (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{order.notes}</p>
+        )}
+
+        <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card overflow-hidden">
+          <CardHeader className="border-b border-border/50 bg-muted/30">
+            <CardTitle className="text-lg font-semibold">Itens do Pedido</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoadingLines ? (
+              <div className="p-6 space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full rounded-lg" />
+                ))}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableHead className="font-semibold">SKU</TableHead>
+                    <TableHead className="font-semibold">Item</TableHead>
+                    <TableHead className="text-right font-semibold">Quantidade</TableHead>
+                    <TableHead className="text-right font-semibold">Preço Unit.</TableHead>
+                    <TableHead className="text-right font-semibold">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines && lines.length > 0 ? (
+                    <>
+                      {lines.map((line) => (
+                        <TableRow key={line.id}>
+                          <TableCell className="font-mono text-sm">{line.product?.sku || line.kit?.sku}</TableCell>
+                          <TableCell className="font-medium">
+                            {line.product?.name || line.kit?.name}
+                            {line.kit && <span className="ml-2 text-xs text-muted-foreground">Kit</span>}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatNumber(Number(line.quantity))} {line.product?.unit}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatCurrency(Number(line.unit_price))}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatCurrency(Number(line.quantity) * Number(line.unit_price))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow className="hover:bg-transparent">
+                        <TableCell colSpan={4} className="text-right font-semibold">
+                          Total do pedido
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums font-semibold">
+                          {formatCurrency(orderTotal)}
+                        </TableCell>
+                      </TableRow>
+                    </>
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-32 text-center text-muted-foreground">
+                        Nenhum item no pedido
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {order && (
+        <>
+          <SalesOrderDialog
+            open={editDialogOpen}
+            onOpenChange={setEditDialogOpen}
+            order={order}
+            lines={draftLines}
+          />
+          <ShipSalesOrderDialog
+            open={shipDialogOpen}
+            onOpenChange={setShipDialogOpen}
+            orderId={order.id}
+            orderNumber={order.number}
+            lines={lines || []}
+          />
+          <InvoiceSalesOrderDialog
+            open={invoiceDialogOpen}
+            onOpenChange={setInvoiceDialogOpen}
+            orderId={order.id}
+            orderNumber={order.number}
+            orderTotal={orderTotal}
+          />
+        </>
+      )}
+
+      <AlertDialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar pedido de venda?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A reserva de estoque do pedido é liberada. Nenhuma movimentação foi registrada até a expedição.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isUpdating}>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => updateOrder("cancelled", "Pedido cancelado")}
+              disabled={isUpdating}
+            >
+              Cancelar Pedido
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, ShoppingBag } from "lucide-react";
+import { useOrganization } from "@/hooks/useOrganization";
+import { useUserRole } from "@/hooks/useUserRole";
+import { SalesOrderDialog } from "@/components/sales/SalesOrderDialog";
+import { SalesOrderStatusBadge } from "@/components/sales/SalesOrderStatusBadge";
+import { formatCurrency } from "@/lib/formatters";
+
+const ALL = "all";
+
+export default function SalesOrders() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const navigate = useNavigate();
+  const { data: organizationId } = useOrganization();
+  const { canManage } = useUserRole();
+
+  const { data: orders, isLoading } = useQuery({
+    queryKey: ["sales-orders", organizationId, statusFilter],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      let query = supabase
+        .from("sales_orders")
+        .select(`
+          *,
+          sales_order_lines(quantity, unit_price)
+        `)
+        .eq("organization_id", organizationId)
+        .order("created_at", { ascending: false });
+
+      if (statusFilter !== ALL) {
+        query = query.eq("status", statusFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
+      <div className="p-6 md:p-8 space-y-6 md:space-y-8 animate-fade-in">
+        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+          <div className="flex items-center gap-3">
+            <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg shadow-primary/25">
+              <ShoppingBag className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-3xl md:text-4xl font-bold tracking-tight">Vendas</h1>
+              <p className="text-sm md:text-base text-muted-foreground">
+                Pedidos de clientes com reserva de estoque, separação, expedição e faturamento
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas as situações</SelectItem>
+                <SelectItem value="open">Aberto</SelectItem>
+                <SelectItem value="reserved">Reservado</SelectItem>
+                <SelectItem value="picked">Separado</SelectItem>
+                <SelectItem value="shipped">Expedido</SelectItem>
+                <SelectItem value="invoiced">Faturado</SelectItem>
+                <SelectItem value="cancelled">Cancelado</SelectItem>
+              </SelectContent>
+            </Select>
+            {canManage() && (
+              <Button onClick={() => setDialogOpen(true)} className="gap-2">
+                <Plus className="h-4 w-4" />
+                Novo Pedido
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card overflow-hidden">
+          <CardHeader className="border-b border-border/50 bg-muted/30">
+            <CardTitle className="text-lg font-semibold">Pedidos de Venda</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="p-6 space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full rounded-lg" />
+                ))}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableHead className="font-semibold">Número</TableHead>
+                    <TableHead className="font-semibold">Data</TableHead>
+                    <TableHead className="font-semibold">Cliente</TableHead>
+                    <TableHead className="font-semibold">Entrega</TableHead>
+                    <TableHead className="text-center font-semibold">Itens</TableHead>
+                    <TableHead className="text-right font-semibold">Valor</TableHead>
+                    <TableHead className="font-semibold">Situação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orders && orders.length > 0 ? (
+                    orders.map((order) => {
+                      const total = order.sales_order_lines.reduce(
+                        (sum, line) => sum + Number(line.quantity) * Number(line.unit_price),
+                        0
+                      );
+
+                      return (
+                        <TableRow
+                          key={order.id}
+                          className="cursor-pointer hover:bg-muted/20 transition-colors"
+                          onClick={() => navigate(`/sales-orders/${order.id}`)}
+                        >
+                          <TableCell className="font-mono text-sm font-medium">{order.number}</TableCell>
+                          <TableCell className="font-mono text-sm">
+                            {format(new Date(order.created_at), "dd/MM/yyyy", { locale: ptBR })}
+                          </TableCell>
+                          <TableCell className="font-medium">{order.customer_name}</TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {order.delivery_date
+                              ? format(new Date(`${order.delivery_date}T00:00:00`), "dd/MM/yyyy", { locale: ptBR })
+                              : "-"}
+                          </TableCell>
+                          <TableCell className="text-center tabular-nums">
+                            {order.sales_order_lines.length}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{formatCurrency(total)}</TableCell>
+                          <TableCell>
+                            <SalesOrderStatusBadge status={order.status} />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="h-32 text-center text-muted-foreground">
+                        Nenhum pedido de venda registrado
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <SalesOrderDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={(orderId) => navigate(`/sales-orders/${orderId}`)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, ScanBarcode } from "lucide-react";
+import { SerialStatusBadge } from "@/components/products/SerialStatusBadge";
+import { getMovementTypeBadge } from "@/lib/formatters";
+
+export default function SerialHistory() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const { data: serial, isLoading: isLoadingSerial } = useQuery({
+    queryKey: ["product-serial", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("product_serials")
+        .select(`
+          *,
+          product:products(name, sku),
+          location:locations(name)
+        `)
+        .eq("id", id!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!id,
+  });
+
+  const { data: history, isLoading: isLoadingHistory } = useQuery({
+    queryKey: ["serial-history", id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("movement_serials")
+        .select(`
+          id,
+          movement:movements (
+            id,
+            type,
+            created_at,
+            reference,
+            note,
+            from_location:locations!movements_from_location_id_fkey (name),
+            to_location:locations!movements_to_location_id_fkey (name)
+          )
+        `)
+        .eq("serial_id", id!);
+
+      if (error) throw error;
+      return (data || [])
+        .filter((entry) => entry.movement)
+        .sort((a, b) => b.movement!.created_at.localeCompare(a.movement!.created_at));
+    },
+    enabled: !!id,
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
+      <div className="p-6 md:p-8 space-y-6 md:space-y-8 animate-fade-in">
+        <Button variant="ghost" size="sm" className="gap-2" onClick={() => navigate("/serials")}>
+          <ArrowLeft className="h-4 w-4" />
+          Voltar
+        </Button>
+
+        {isLoadingSerial ? (
+          <Skeleton className="h-24 w-full rounded-lg" />
+        ) : !serial ? (
+          <p className="text-muted-foreground">Número de série não encontrado</p>
+        ) : (
+          <div className="flex items-center gap-3">
+            <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg shadow-primary/25">
+              <ScanBarcode className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <div className="space-y-1">
+              <div className="flex items-center gap-3">
+                <h1 className="text-3xl md:text-4xl font-bold tracking-tight font-mono">{serial.serial_number}</h1>
+                <SerialStatusBadge status={serial.status} />
+              </div>
+              <p className="text-sm md:text-base text-muted-foreground">
+                {serial.product?.sku} - {serial.product?.name}
+                {serial.location?.name && ` • ${serial.location.name}`}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card overflow-hidden">
+          <CardHeader className="border-b border-border/50 bg-muted/30">
+            <CardTitle className="text-lg font-semibold">Histórico de Movimentações</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoadingHistory ? (
+              <div className="p-6 space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full rounded-lg" />
+                ))}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableHead className="font-semibold">Data</TableHead>
+                    <TableHead className="font-semibold">Tipo</TableHead>
+                    <TableHead className="font-semibold">Origem</TableHead>
+                    <TableHead className="font-semibold">Destino</TableHead>
+                    <TableHead className="font-semibold">Referência</TableHead>
+                    <TableHead className="font-semibold">Observações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history && history.length > 0 ? (
+                    history.map(({ id: entryId, movement }) => (
+                      <TableRow key={entryId}>
+                        <TableCell className="whitespace-nowrap">
+                          {format(new Date(movement!.created_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                        </TableCell>
+                        <TableCell>{getMovementTypeBadge(movement!.type)}</TableCell>
+                        <TableCell className="text-muted-foreground">{movement!.from_location?.name || "-"}</TableCell>
+                        <TableCell className="text-muted-foreground">{movement!.to_location?.name || "-"}</TableCell>
+                        <TableCell className="text-muted-foreground">{movement!.reference || "-"}</TableCell>
+                        <TableCell className="text-muted-foreground">{movement!.note || "-"}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-32 text-center text-muted-foreground">
+                        Nenhuma movimentação registrada para esta unidade
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ScanBarcode, Search } from "lucide-react";
+import { useOrganization } from "@/hooks/useOrganization";
+import { SerialStatusBadge } from "@/components/products/SerialStatusBadge";
+
+export default function Serials() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const navigate = useNavigate();
+  const { data: organizationId } = useOrganization();
+
+  const { data: serials, isLoading } = useQuery({
+    queryKey: ["product-serials", organizationId],
+    queryFn: async () => {
+      if (!organizationId) return [];
+
+      const { data, error } = await supabase
+        .from("product_serials")
+        .select(`
+          *,
+          product:products(name, sku),
+          location:locations(name)
+        `)
+        .eq("organization_id", organizationId)
+        .order("serial_number");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
+  const filteredSerials = serials?.filter((serial) => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch =
+      serial.serial_number.toLowerCase().includes(term) ||
+      serial.product?.name.toLowerCase().includes(term) ||
+      serial.product?.sku.toLowerCase().includes(term);
+    const matchesStatus = statusFilter === "all" || serial.status === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/30">
+      <div className="p-6 md:p-8 space-y-6 md:space-y-8 animate-fade-in">
+        <div className="flex items-center gap-3">
+          <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-primary to-primary/80 flex items-center justify-center shadow-lg shadow-primary/25">
+            <ScanBarcode className="h-6 w-6 text-primary-foreground" />
+          </div>
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold tracking-tight">Números de Série</h1>
+            <p className="text-sm md:text-base text-muted-foreground">
+              Rastreie cada unidade dos produtos serializados
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative w-full max-w-md">
+            <Search className="absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Buscar por número de série, produto ou SKU..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-11 h-11 bg-card/80 backdrop-blur-sm border-border/50"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-full sm:w-[200px] h-11 bg-card/80 backdrop-blur-sm border-border/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas as situações</SelectItem>
+              <SelectItem value="in_stock">Em estoque</SelectItem>
+              <SelectItem value="out">Baixado</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Card className="border-0 bg-card/80 backdrop-blur-sm shadow-card overflow-hidden">
+          <CardHeader className="border-b border-border/50 bg-muted/30">
+            <CardTitle className="text-lg font-semibold">Unidades Registradas</CardTitle>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="p-6 space-y-3">
+                {[...Array(5)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full rounded-lg" />
+                ))}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableHead className="font-semibold">Número de Série</TableHead>
+                    <TableHead className="font-semibold">Produto</TableHead>
+                    <TableHead className="font-semibold">SKU</TableHead>
+                    <TableHead className="font-semibold">Local Atual</TableHead>
+                    <TableHead className="font-semibold">Situação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredSerials && filteredSerials.length > 0 ? (
+                    filteredSerials.map((serial) => (
+                      <TableRow
+                        key={serial.id}
+                        className="cursor-pointer hover:bg-muted/20 transition-colors"
+                        onClick={() => navigate(`/serials/${serial.id}`)}
+                      >
+                        <TableCell className="font-mono font-medium">{serial.serial_number}</TableCell>
+                        <TableCell>{serial.product?.name}</TableCell>
+                        <TableCell className="font-mono text-sm text-muted-foreground">{serial.product?.sku}</TableCell>
+                        <TableCell className="text-muted-foreground">{serial.location?.name || "-"}</TableCell>
+                        <TableCell>
+                          <SerialStatusBadge status={serial.status} />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-32 text-center text-muted-foreground">
+                        Nenhum número de série encontrado
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -9,7 +9,8 @@ import { UsersSettings } from "@/components/settings/UsersSettings";
 import { InvitesSettings } from "@/components/settings/InvitesSettings";
 import { ProfileSettings } from "@/components/settings/ProfileSettings";
 import { ReportSettings } from "@/components/settings/ReportSettings";
-import { Users, UserPlus, User, FileText, Settings as SettingsIcon, FolderOpen, MapPin, Building2 } from "lucide-react";
+import { StockSettings } from "@/components/settings/StockSettings";
+import { Users, UserPlus, User, FileText, Settings as SettingsIcon, FolderOpen, MapPin, Building2, Warehouse } from "lucide-react";
 
 const Settings = () => {
   const [userRole, setUserRole] = useState<string | null>(null);
@@ -133,6 +134,15 @@ const Settings = () => {
                   </TabsTrigger>
                 </>
               )}
+              {(userRole === "admin" || userRole === "superadmin") && (
+                <TabsTrigger 
+                  value="stock" 
+                  className="inline-flex items-center gap-2 rounded-xl px-3 md:px-4 py-2.5 text-sm font-medium transition-all data-[state=active]:bg-gradient-to-r data-[state=active]:from-primary data-[state=active]:to-primary/90 data-[state=active]:text-primary-foreground data-[state=active]:shadow-lg data-[state=active]:shadow-primary/25"
+                >
+                  <Warehouse className="h-4 w-4" />
+                  <span>Estoque</span>
+                </TabsTrigger>
+              )}
             </TabsList>
           </div>
 
@@ -167,6 +177,12 @@ const Settings = () => {
               </TabsContent>
             </>
           )}
+
+          {(userRole === "admin" || userRole === "superadmin") && (
+            <TabsContent value="stock" className="mt-0">
+              <StockSettings />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
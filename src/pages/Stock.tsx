@@ -12,13 +12,29 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Search, Package, AlertTriangle, CheckCircle } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, Package, AlertTriangle, CheckCircle, Truck } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useOrganization } from "@/hooks/useOrganization";
 import { formatNumber } from "@/lib/formatters";
+import {
+  getLocationQuantity,
+  getReservedQuantity,
+  getUnallocatedQuantity,
+  getVisibleBalances,
+} from "@/lib/stock-balances";
+import { ExpiringLots } from "@/components/products/ExpiringLots";
+import { InTransitTransfers } from "@/components/movements/InTransitTransfers";
 
 export default function Stock() {
   const [searchTerm, setSearchTerm] = useState("");
+  const [locationFilter, setLocationFilter] = useState<string>("all");
   const [userRole, setUserRole] = useState<string | null>(null);
   const queryClient = useQueryClient();
   const { data: organizationId } = useOrganization();
@@ -90,7 +106,16 @@ export default function Stock() {
     };
   }, [queryClient]);
 
-  // Fetch products data
+  const { data: locations } = useQuery({
+    queryKey: ["locations"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("locations").select("*").eq("is_transit", false).order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Fetch products data with per-location balances
   const { data: products, isLoading } = useQuery({
     queryKey: ["stock-products", organizationId],
     queryFn: async () => {
@@ -102,7 +127,12 @@ export default function Stock() {
           *,
           category:categories(name),
           location:locations(name),
-          supplier:suppliers(name)
+          supplier:suppliers(name),
+          stock_balances (
+            location_id,
+            quantity,
+            location:locations(name, is_transit)
+          )
         `)
         .eq("active", true)
         .eq("organization_id", organizationId)
@@ -114,6 +144,17 @@ export default function Stock() {
     enabled: !!organizationId,
   });
 
+  // Reserved by sales orders that are reserved or picked, per product and location
+  const { data: reservations } = useQuery({
+    queryKey: ["reserved-quantities", organizationId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_reserved_quantities");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!organizationId,
+  });
+
   // Set up realtime subscription
   useEffect(() => {
     const channel = supabase
@@ -130,6 +171,51 @@ export default function Stock() {
           queryClient.invalidateQueries({ queryKey: ["stock-products"] });
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "stock_balances",
+        },
+        () => {
+          // Transfers only change balances, not products.quantity
+          queryClient.invalidateQueries({ queryKey: ["stock-products"] });
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "product_lots",
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["expiring-lots"] });
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "stock_transfers",
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["stock-transfers"] });
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "sales_orders",
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ["reserved-quantities"] });
+        }
+      )
       .subscribe();
 
     return () => {
@@ -137,8 +223,29 @@ export default function Stock() {
     };
   }, [queryClient]);
 
+  // When a location is selected, quantities refer to the balance held there
+  const stockProducts = products
+    ?.filter(
+      (product) =>
+        locationFilter === "all" ||
+        product.stock_balances?.some((b) => b.location_id === locationFilter)
+    )
+    .map((product) => {
+      const quantity =
+        locationFilter === "all"
+          ? Number(product.quantity)
+          : getLocationQuantity(product.stock_balances, locationFilter);
+      const reserved = getReservedQuantity(
+        reservations,
+        product.id,
+        locationFilter === "all" ? undefined : locationFilter
+      );
+
+      return { ...product, quantity, reserved, available: quantity - reserved };
+    });
+
   // Filter products based on search
-  const filteredProducts = products?.filter(
+  const filteredProducts = stockProducts?.filter(
     (product) =>
       product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       product.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -146,10 +253,43 @@ export default function Stock() {
   );
 
   // Calculate statistics
-  const totalProducts = products?.length || 0;
-  const criticalStock = products?.filter((p) => p.quantity <= p.min_quantity).length || 0;
-  const outOfStock = products?.filter((p) => p.quantity === 0).length || 0;
-  const totalValue = products?.reduce((sum, p) => sum + (Number(p.cost) * Number(p.quantity)), 0) || 0;
+  const totalProducts = stockProducts?.length || 0;
+  const criticalStock = stockProducts?.filter((p) => p.quantity <= p.min_quantity).length || 0;
+  const outOfStock = stockProducts?.filter((p) => p.quantity === 0).length || 0;
+  const totalValue = stockProducts?.reduce((sum, p) => sum + (Number(p.cost) * Number(p.quantity)), 0) || 0;
+
+  const renderLocations = (product: NonNullable<typeof stockProducts>[number]) => {
+    if (locationFilter !== "all") {
+      return locations?.find((l) => l.id === locationFilter)?.name || "-";
+    }
+
+    const balances = getVisibleBalances(product.stock_balances);
+    const unallocated = getUnallocatedQuantity(product.quantity, product.stock_balances);
+
+    if (balances.length === 0 && unallocated === 0) return "-";
+
+    return (
+      <div className="flex flex-wrap gap-1">
+        {balances.map((balance) =>
+          balance.location?.is_transit ? (
+            <Badge key={balance.location_id} variant="outline" className="font-normal gap-1 text-primary border-primary/30">
+              <Truck className="h-3 w-3" />
+              {balance.location.name}: {formatNumber(Number(balance.quantity))}
+            </Badge>
+          ) : (
+            <Badge key={balance.location_id} variant="outline" className="font-normal">
+              {balance.location?.name}: {formatNumber(Number(balance.quantity))}
+            </Badge>
+          )
+        )}
+        {unallocated !== 0 && (
+          <Badge variant="outline" className="font-normal text-muted-foreground">
+            Sem local: {formatNumber(unallocated)}
+          </Badge>
+        )}
+      </div>
+    );
+  };
 
   const getStockBadge = (quantity: number, minQuantity: number) => {
     if (quantity === 0) {
@@ -252,14 +392,29 @@ export default function Stock() {
         </div>
 
         {/* Search Premium */}
-        <div className="relative max-w-md">
-          <Search className="absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-          <Input
-            placeholder="Buscar por nome, SKU ou código de barras..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-11 h-11 bg-card/80 backdrop-blur-sm border-border/50 focus:border-primary/50 focus:ring-2 focus:ring-primary/20 transition-all"
-          />
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative w-full max-w-md">
+            <Search className="absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Buscar por nome, SKU ou código de barras..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-11 h-11 bg-card/80 backdrop-blur-sm border-border/50 focus:border-primary/50 focus:ring-2 focus:ring-primary/20 transition-all"
+            />
+          </div>
+          <Select value={locationFilter} onValueChange={setLocationFilter}>
+            <SelectTrigger className="w-full sm:w-[220px] h-11 bg-card/80 backdrop-blur-sm border-border/50">
+              <SelectValue placeholder="Local" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os locais</SelectItem>
+              {locations?.map((location) => (
+                <SelectItem key={location.id} value={location.id}>
+                  {location.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         {/* Products Table Premium */}
@@ -282,7 +437,9 @@ export default function Stock() {
                     <TableHead className="font-semibold">Produto</TableHead>
                     <TableHead className="font-semibold">Categoria</TableHead>
                     <TableHead className="font-semibold">Localização</TableHead>
-                    <TableHead className="text-center font-semibold">Quantidade</TableHead>
+                    <TableHead className="text-center font-semibold">Em Estoque</TableHead>
+                    <TableHead className="text-center font-semibold">Reservado</TableHead>
+                    <TableHead className="text-center font-semibold">Disponível</TableHead>
                     <TableHead className="text-center font-semibold">Qtd. Mínima</TableHead>
                     <TableHead className="font-semibold">Status</TableHead>
                     {userRole && userRole !== "operador" && (
@@ -300,10 +457,16 @@ export default function Stock() {
                         <TableCell className="font-mono text-sm">{product.sku}</TableCell>
                         <TableCell className="font-medium">{product.name}</TableCell>
                         <TableCell className="text-muted-foreground">{product.category?.name || "-"}</TableCell>
-                        <TableCell className="text-muted-foreground">{product.location?.name || "-"}</TableCell>
+                        <TableCell className="text-muted-foreground">{renderLocations(product)}</TableCell>
                         <TableCell className="text-center font-semibold tabular-nums">
                           {formatNumber(Number(product.quantity))} {product.unit}
                         </TableCell>
+                        <TableCell className="text-center text-muted-foreground tabular-nums">
+                          {product.reserved > 0 ? `${formatNumber(product.reserved)} ${product.unit}` : "-"}
+                        </TableCell>
+                        <TableCell className="text-center font-semibold tabular-nums">
+                          {formatNumber(product.available)} {product.unit}
+                        </TableCell>
                         <TableCell className="text-center text-muted-foreground tabular-nums">
                           {formatNumber(Number(product.min_quantity))} {product.unit}
                         </TableCell>
@@ -330,7 +493,7 @@ export default function Stock() {
                     ))
                   ) : (
                     <TableRow>
-                      <TableCell colSpan={userRole && userRole !== "operador" ? 9 : 7} className="h-32 text-center text-muted-foreground">
+                      <TableCell colSpan={userRole && userRole !== "operador" ? 11 : 9} className="h-32 text-center text-muted-foreground">
                         <div className="flex flex-col items-center gap-2">
                           <Package className="h-8 w-8 text-muted-foreground/50" />
                           <span>Nenhum produto encontrado</span>
@@ -343,6 +506,10 @@ export default function Stock() {
             )}
           </CardContent>
         </Card>
+
+        <InTransitTransfers canReceive={!!userRole && userRole !== "auditor"} />
+
+        <ExpiringLots />
       </div>
     </div>
   );
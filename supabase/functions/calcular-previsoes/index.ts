@@ -37,6 +37,77 @@ serve(async (req) => {
 
     console.log(`Encontrados ${produtos?.length || 0} produtos`);
 
+    // Movimentações que não são demanda: saídas estornadas depois e devoluções a fornecedor.
+    // Os próprios estornos ficam de fora pelo filtro reversal_of_id nas consultas de saídas.
+    const { data: estornos, error: estornosError } = await supabaseClient
+      .from("movements")
+      .select("reversal_of_id")
+      .eq("organization_id", organization_id)
+      .not("reversal_of_id", "is", null);
+
+    if (estornosError) throw estornosError;
+
+    const { data: devolucoesFornecedor, error: devolucoesError } = await supabaseClient
+      .from("stock_returns")
+      .select("return_movement_id")
+      .eq("organization_id", organization_id)
+      .eq("kind", "supplier")
+      .not("return_movement_id", "is", null);
+
+    if (devolucoesError) throw devolucoesError;
+
+    const movimentosIgnorados = new Set<string>([
+      ...(estornos || []).map((m) => m.reversal_of_id),
+      ...(devolucoesFornecedor || []).map((d) => d.return_movement_id),
+    ]);
+    const ehDemanda = (mov: { id: string }) => !movimentosIgnorados.has(mov.id);
+
+    // Saídas de kits da organização. Kits já montados ficam de fora: seus componentes
+    // saíram do estoque na ordem de montagem e já contam como saídas diretas.
+    const { data: movimentosKits, error: kitsError } = await supabaseClient
+      .from("movements")
+      .select("id, quantity, created_at, kit_id")
+      .eq("organization_id", organization_id)
+      .eq("type", "OUT")
+      .eq("assembled", false)
+      .is("reversal_of_id", null)
+      .not("kit_id", "is", null);
+
+    if (kitsError) {
+      console.error(`Erro ao buscar movimentos de kits:`, kitsError);
+    }
+
+    // Composição de todos os kits da organização (um item pode ser produto ou outro kit)
+    const { data: kitItems, error: kitItemsError } = await supabaseClient
+      .from("kit_items")
+      .select("kit_id, product_id, component_kit_id, quantity, kits!kit_items_kit_id_fkey!inner(organization_id)")
+      .eq("kits.organization_id", organization_id);
+
+    if (kitItemsError) {
+      console.error(`Erro ao buscar kit_items:`, kitItemsError);
+    }
+
+    // Quantidade de cada produto em uma unidade do kit, descendo pelos sub-kits
+    const explodirKit = (kitId: string, multiplicador = 1, caminho: string[] = [], totais = new Map<string, number>()) => {
+      if (caminho.includes(kitId)) return totais;
+      for (const item of (kitItems || []).filter((ki) => ki.kit_id === kitId)) {
+        const quantidade = multiplicador * Number(item.quantity);
+        if (item.product_id) {
+          totais.set(item.product_id, (totais.get(item.product_id) || 0) + quantidade);
+        } else if (item.component_kit_id) {
+          explodirKit(item.component_kit_id, quantidade, [...caminho, kitId], totais);
+        }
+      }
+      return totais;
+    };
+
+    const composicaoKits = new Map<string, Map<string, number>>();
+    for (const movKit of movimentosKits || []) {
+      if (!composicaoKits.has(movKit.kit_id)) {
+        composicaoKits.set(movKit.kit_id, explodirKit(movKit.kit_id));
+      }
+    }
+
     const previsoes = [];
     const dataHoje = new Date();
     const data30DiasAtras = new Date(dataHoje);
@@ -44,11 +115,13 @@ serve(async (req) => {
 
     for (const produto of produtos || []) {
       // Buscar movimentações DIRETAS de saída do produto
+      // (ajustes de inventário usam o tipo ADJUSTMENT e não entram na média de vendas)
       const { data: movimentosDiretos, error: movimentosError } = await supabaseClient
         .from("movements")
-        .select("quantity, created_at")
+        .select("id, quantity, created_at")
         .eq("product_id", produto.id)
         .eq("type", "OUT")
+        .is("reversal_of_id", null)
         .order("created_at", { ascending: true });
 
       if (movimentosError) {
@@ -56,46 +129,18 @@ serve(async (req) => {
         continue;
       }
 
-      // Buscar movimentações INDIRETAS via kits
-      const { data: movimentosKits, error: kitsError } = await supabaseClient
-        .from("movements")
-        .select(`
-          quantity,
-          created_at,
-          kit_id,
-          kits!inner(id)
-        `)
-        .eq("type", "OUT")
-        .not("kit_id", "is", null);
-
-      if (kitsError) {
-        console.error(`Erro ao buscar movimentos de kits:`, kitsError);
-      }
-
-      // Buscar itens do kit que contém este produto
-      const { data: kitItems, error: kitItemsError } = await supabaseClient
-        .from("kit_items")
-        .select("kit_id, quantity")
-        .eq("product_id", produto.id);
-
-      if (kitItemsError) {
-        console.error(`Erro ao buscar kit_items do produto ${produto.id}:`, kitItemsError);
-      }
-
       // Combinar movimentos diretos e indiretos
-      const movimentos = [...(movimentosDiretos || [])];
-
-      // Adicionar movimentos indiretos (via kits)
-      if (movimentosKits && kitItems) {
-        for (const movKit of movimentosKits) {
-          const kitItem = kitItems.find(ki => ki.kit_id === movKit.kit_id);
-          if (kitItem) {
-            // Multiplicar a quantidade do movimento pela quantidade do produto no kit
-            movimentos.push({
-              quantity: Number(movKit.quantity) * Number(kitItem.quantity),
-              created_at: movKit.created_at
-            });
-          }
+      const movimentos: { quantity: number; created_at: string }[] = (movimentosDiretos || []).filter(ehDemanda);
+
+      // Adicionar movimentos indiretos (via kits, em qualquer nível da composição)
+      for (const movKit of (movimentosKits || []).filter(ehDemanda)) {
+        const quantidadeNoKit = composicaoKits.get(movKit.kit_id)?.get(produto.id);
+        if (quantidadeNoKit) {
+          // Multiplicar a quantidade do movimento pela quantidade do produto no kit
+          movimentos.push({
+            quantity: Number(movKit.quantity) * quantidadeNoKit,
+            created_at: movKit.created_at
+          });
         }
       }
 
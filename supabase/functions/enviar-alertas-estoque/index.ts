@@ -17,7 +17,7 @@ serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    const { organization_id, limite_dias = 7 } = await req.json();
+    const { organization_id, limite_dias = 7, limite_dias_validade = 30 } = await req.json();
 
     console.log("Verificando alertas de estoque para organização:", organization_id);
 
@@ -35,7 +35,37 @@ serve(async (req) => {
 
     if (previsoesError) throw previsoesError;
 
-    if (!previsoesAlerta || previsoesAlerta.length === 0) {
+    // Buscar lotes com saldo que vencem dentro do limite (inclui vencidos)
+    const dataLimiteValidade = new Date();
+    dataLimiteValidade.setDate(dataLimiteValidade.getDate() + limite_dias_validade);
+
+    const { data: lotesVencendo, error: lotesError } = await supabaseClient
+      .from("product_lots")
+      .select(`
+        lot_code,
+        expiry_date,
+        quantity,
+        products:product_id (name, sku, unit)
+      `)
+      .eq("organization_id", organization_id)
+      .gt("quantity", 0)
+      .not("expiry_date", "is", null)
+      .lte("expiry_date", dataLimiteValidade.toISOString().split("T")[0])
+      .order("expiry_date", { ascending: true });
+
+    if (lotesError) throw lotesError;
+
+    // Buscar locais no mínimo ou abaixo dele (produtos sem níveis por local são avaliados pelo total)
+    const { data: faltasPorLocal, error: faltasError } = await supabaseClient
+      .rpc("get_stock_shortages", { _organization_id: organization_id });
+
+    if (faltasError) throw faltasError;
+
+    const totalPrevisoes = previsoesAlerta?.length || 0;
+    const totalLotes = lotesVencendo?.length || 0;
+    const totalFaltas = faltasPorLocal?.length || 0;
+
+    if (totalPrevisoes === 0 && totalLotes === 0 && totalFaltas === 0) {
       console.log("Nenhum produto em alerta");
       return new Response(
         JSON.stringify({ success: true, alertas_enviados: 0 }),
@@ -89,7 +119,7 @@ serve(async (req) => {
     }
 
     // Preparar HTML do email com recomendações da IA
-    const produtosHtml = previsoesAlerta
+    const produtosHtml = (previsoesAlerta || [])
       .map(
         (p) => `
       <tr style="border-bottom: 1px solid #e5e7eb;">
@@ -123,33 +153,54 @@ serve(async (req) => {
       )
       .join("");
 
-    const emailHtml = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="UTF-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    </head>
-    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f9fafb; margin: 0; padding: 20px;">
-      <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
-        
-        <!-- Header -->
-        <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 30px; text-align: center;">
-          <h1 style="color: #ffffff; margin: 0; font-size: 24px; font-weight: 600;">
-            ⚠️ Alerta de Estoque Crítico
-          </h1>
-          <p style="color: #d1fae5; margin: 10px 0 0 0; font-size: 14px;">
-            StockMaster CMS - Previsão Inteligente
-          </p>
-        </div>
+    const hoje = new Date(new Date().toISOString().split("T")[0]);
+    const lotesHtml = (lotesVencendo || [])
+      .map((l) => {
+        const diasParaVencer = Math.round(
+          (new Date(l.expiry_date).getTime() - hoje.getTime()) / (1000 * 60 * 60 * 24)
+        );
+        return `
+      <tr style="border-bottom: 1px solid #e5e7eb;">
+        <td style="padding: 16px; text-align: left;">
+          <div style="font-weight: 600; color: #111827; font-size: 15px; margin-bottom: 4px;">
+            ${l.products?.name || "N/A"}
+          </div>
+          <div style="color: #6b7280; font-size: 13px;">SKU: ${l.products?.sku || "-"}</div>
+        </td>
+        <td style="padding: 16px; text-align: center;">${l.lot_code}</td>
+        <td style="padding: 16px; text-align: center;">${Number(l.quantity).toLocaleString('pt-BR', { maximumFractionDigits: 2 })} ${l.products?.unit || ""}</td>
+        <td style="padding: 16px; text-align: center;">${new Date(l.expiry_date + "T00:00:00").toLocaleDateString('pt-BR')}</td>
+        <td style="padding: 16px; text-align: center; color: ${diasParaVencer <= 7 ? "#ef4444" : "#f59e0b"}; font-weight: bold;">
+          ${diasParaVencer < 0 ? "Vencido" : `${diasParaVencer} dias`}
+        </td>
+      </tr>
+    `;
+      })
+      .join("");
 
-        <!-- Content -->
-        <div style="padding: 30px;">
-          <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
-            Olá! 👋
-          </p>
+    const faltasHtml = (faltasPorLocal || [])
+      .map((f) => {
+        const repor = Math.max(0, Number(f.max_quantity ?? f.min_quantity) - Number(f.quantity));
+        return `
+      <tr style="border-bottom: 1px solid #e5e7eb;">
+        <td style="padding: 16px; text-align: left;">
+          <div style="font-weight: 600; color: #111827; font-size: 15px; margin-bottom: 4px;">
+            ${f.product_name || "N/A"}
+          </div>
+          <div style="color: #6b7280; font-size: 13px;">SKU: ${f.sku || "-"}</div>
+        </td>
+        <td style="padding: 16px; text-align: center; font-weight: 600;">${f.per_location ? f.location_name || "-" : "Estoque total"}</td>
+        <td style="padding: 16px; text-align: center; color: ${Number(f.quantity) <= 0 ? "#ef4444" : "#f59e0b"}; font-weight: bold;">${Number(f.quantity).toLocaleString('pt-BR', { maximumFractionDigits: 2 })} ${f.unit || ""}</td>
+        <td style="padding: 16px; text-align: center;">${Number(f.min_quantity).toLocaleString('pt-BR', { maximumFractionDigits: 2 })}${f.max_quantity !== null ? ` / ${Number(f.max_quantity).toLocaleString('pt-BR', { maximumFractionDigits: 2 })}` : ""}</td>
+        <td style="padding: 16px; text-align: center;">${repor.toLocaleString('pt-BR', { maximumFractionDigits: 2 })} ${f.unit || ""}</td>
+      </tr>
+    `;
+      })
+      .join("");
+
+    const previsoesSecaoHtml = totalPrevisoes > 0 ? `
           <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
-            O sistema de IA detectou <strong style="color: #dc2626;">${previsoesAlerta.length} produto(s)</strong> com estoque crítico (menos de ${limite_dias} dias restantes).
+            O sistema de IA detectou <strong style="color: #dc2626;">${totalPrevisoes} produto(s)</strong> com estoque crítico (menos de ${limite_dias} dias restantes).
           </p>
           
           <p style="color: #374151; font-size: 15px; line-height: 1.6; margin: 0 0 24px 0;">
@@ -177,6 +228,86 @@ serve(async (req) => {
               <strong>💡 Ação Recomendada:</strong> As sugestões acima foram geradas por nossa Inteligência Artificial com base no histórico real de vendas. Providencie o reabastecimento o quanto antes para evitar rupturas e perdas financeiras.
             </p>
           </div>
+    ` : "";
+
+    const faltasSecaoHtml = totalFaltas > 0 ? `
+          <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 24px 0 20px 0;">
+            Há <strong style="color: #dc2626;">${totalFaltas} item(ns)</strong> no estoque mínimo ou abaixo dele. Confira em qual local falta cada produto:
+          </p>
+
+          <!-- Tabela de Faltas por Local -->
+          <table style="width: 100%; border-collapse: collapse; margin: 20px 0; background-color: #f9fafb; border-radius: 8px; overflow: hidden;">
+            <thead>
+              <tr style="background-color: #dc2626;">
+                <th style="padding: 12px; text-align: left; color: #ffffff; font-weight: 600; font-size: 14px;">Produto</th>
+                <th style="padding: 12px; text-align: center; color: #ffffff; font-weight: 600; font-size: 14px;">Local</th>
+                <th style="padding: 12px; text-align: center; color: #ffffff; font-weight: 600; font-size: 14px;">Saldo</th>
+                <th style="padding: 12px; text-align: center; color: #ffffff; font-weight: 600; font-size: 14px;">Mín. / Máx.</th>
+                <th style="padding: 12px; text-align: center; color: #ffffff; font-weight: 600; font-size: 14px;">Repor</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${faltasHtml}
+            </tbody>
+          </table>
+    ` : "";
+
+    const lotesSecaoHtml = totalLotes > 0 ? `
+          <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 24px 0 20px 0;">
+            Há <strong style="color: #dc2626;">${totalLotes} lote(s)</strong> vencidos ou com vencimento nos próximos ${limite_dias_validade} dias:
+          </p>
+
+          <!-- Tabela de Lotes -->
+          <table style="width: 100%; border-collapse: collapse; margin: 20px 0; background-color: #f9fafb; border-radius: 8px; overflow: hidden;">
+            <thead>
+              <tr style="background-color: #f59e0b;">
+                <th style="padding: 12px; text-align: left; color: #ffffff; font-weight: 600; font-size: 14px;">Produto</th>
+                <th style="padding: 12px; text-align: center; color: #ffffff; font-weight: 600; font-size: 14px;">Lote</th>
+                <th style="padding: 12px; text-align: center; color: #ffffff; font-weight: 600; font-size: 14px;">Saldo</th>
+                <th style="padding: 12px; text-align: center; color: #ffffff; font-weight: 600; font-size: 14px;">Validade</th>
+                <th style="padding: 12px; text-align: center; color: #ffffff; font-weight: 600; font-size: 14px;">Vence em</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${lotesHtml}
+            </tbody>
+          </table>
+
+          <div style="background-color: #fef3c7; border-left: 4px solid #f59e0b; padding: 16px; margin: 24px 0; border-radius: 6px;">
+            <p style="color: #92400e; margin: 0; font-size: 14px; line-height: 1.7;">
+              <strong>💡 Ação Recomendada:</strong> Priorize a saída desses lotes. As saídas registradas no StockMaster CMS já sugerem os lotes pela ordem de vencimento (FEFO).
+            </p>
+          </div>
+    ` : "";
+
+    const emailHtml = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f9fafb; margin: 0; padding: 20px;">
+      <div style="max-width: 600px; margin: 0 auto; background-color: #ffffff; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
+        
+        <!-- Header -->
+        <div style="background: linear-gradient(135deg, #10b981 0%, #059669 100%); padding: 30px; text-align: center;">
+          <h1 style="color: #ffffff; margin: 0; font-size: 24px; font-weight: 600;">
+            ⚠️ Alerta de Estoque Crítico
+          </h1>
+          <p style="color: #d1fae5; margin: 10px 0 0 0; font-size: 14px;">
+            StockMaster CMS - Previsão Inteligente
+          </p>
+        </div>
+
+        <!-- Content -->
+        <div style="padding: 30px;">
+          <p style="color: #374151; font-size: 16px; line-height: 1.6; margin: 0 0 20px 0;">
+            Olá! 👋
+          </p>
+          ${previsoesSecaoHtml}
+          ${faltasSecaoHtml}
+          ${lotesSecaoHtml}
 
           <p style="color: #6b7280; font-size: 14px; line-height: 1.6; margin: 20px 0 0 0;">
             Acesse o painel de <strong>Previsão de Estoque com IA</strong> no StockMaster CMS para visualizar análises detalhadas e gráficos preditivos.
@@ -213,7 +344,11 @@ serve(async (req) => {
           body: JSON.stringify({
             from: "StockMaster CMS <onboarding@resend.dev>",
             to: [email],
-            subject: `🚨 Alerta StockMaster: ${previsoesAlerta.length} produto(s) em estoque crítico com recomendações da IA`,
+            subject: totalPrevisoes > 0
+              ? `🚨 Alerta StockMaster: ${totalPrevisoes} produto(s) em estoque crítico com recomendações da IA${totalLotes > 0 ? ` e ${totalLotes} lote(s) a vencer` : ""}`
+              : totalFaltas > 0
+              ? `🚨 Alerta StockMaster: ${totalFaltas} item(ns) abaixo do mínimo${totalFaltas === 1 && faltasPorLocal?.[0]?.per_location ? ` em ${faltasPorLocal[0].location_name}` : " por local"}${totalLotes > 0 ? ` e ${totalLotes} lote(s) a vencer` : ""}`
+              : `🚨 Alerta StockMaster: ${totalLotes} lote(s) vencidos ou a vencer`,
             html: emailHtml,
           }),
         });
@@ -234,7 +369,9 @@ serve(async (req) => {
       JSON.stringify({
         success: true,
         alertas_enviados: emailsEnviados.length,
-        produtos_em_alerta: previsoesAlerta.length,
+        produtos_em_alerta: totalPrevisoes,
+        faltas_por_local: totalFaltas,
+        lotes_a_vencer: totalLotes,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -8,8 +8,82 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Faixas de dias desde a última saída (mesmas do relatório de envelhecimento)
+const AGING_BUCKETS = [
+  { label: "0–30 dias", maxDays: 30 },
+  { label: "31–60 dias", maxDays: 60 },
+  { label: "61–90 dias", maxDays: 90 },
+  { label: "Mais de 90 dias", maxDays: Infinity },
+];
+
+interface AgingBucketValue {
+  label: string;
+  value: number;
+}
+
+interface DeadStockItem {
+  name: string;
+  unit: string;
+  quantity: number;
+  value: number;
+  days: number;
+}
+
+interface AgingRow {
+  product_id: string;
+  quantity: number;
+  unit_cost: number;
+  days_without_out: number;
+}
+
+// Valor parado por faixa e os produtos parados há mais de 90 dias de maior valor
+async function getStockAgingSummary(supabase: ReturnType<typeof createClient>, organizationId: string) {
+  const { data: aging, error } = await supabase.rpc("get_stock_aging_for_organization", {
+    _organization_id: organizationId,
+  });
+  if (error) throw error;
+
+  const { data: products } = await supabase
+    .from("products")
+    .select("id, name, unit")
+    .eq("organization_id", organizationId);
+  const productsById = new Map(
+    ((products || []) as { id: string; name: string; unit: string }[]).map((p) => [p.id, p])
+  );
+
+  const buckets: AgingBucketValue[] = AGING_BUCKETS.map((bucket) => ({ label: bucket.label, value: 0 }));
+  const deadStock = new Map<string, DeadStockItem>();
+
+  for (const row of (aging || []) as AgingRow[]) {
+    const value = Number(row.quantity) * Number(row.unit_cost);
+    const index = AGING_BUCKETS.findIndex((bucket) => row.days_without_out <= bucket.maxDays);
+    buckets[index].value += value;
+
+    if (index === AGING_BUCKETS.length - 1) {
+      const product = productsById.get(row.product_id);
+      const item = deadStock.get(row.product_id) || {
+        name: product?.name || "N/A",
+        unit: product?.unit || "",
+        quantity: 0,
+        value: 0,
+        days: row.days_without_out,
+      };
+      item.quantity += Number(row.quantity);
+      item.value += value;
+      deadStock.set(row.product_id, item);
+    }
+  }
+
+  return {
+    buckets,
+    total: buckets.reduce((sum, bucket) => sum + bucket.value, 0),
+    deadStockCount: deadStock.size,
+    topDeadStock: Array.from(deadStock.values()).sort((a, b) => b.value - a.value).slice(0, 10),
+  };
+}
+
 // Função auxiliar para gerar HTML personalizado
-function generateCustomEmailHTML({ org, userConfig, criticalProducts, previsoes, compras, vendas, saldo, valorEstoque, formatCurrency }: any) {
+function generateCustomEmailHTML({ org, userConfig, criticalProducts, previsoes, compras, vendas, saldo, valorEstoque, estoqueParado, formatCurrency }: any) {
   const sections: string[] = [];
 
   // Cabeçalho sempre presente
@@ -146,6 +220,57 @@ function generateCustomEmailHTML({ org, userConfig, criticalProducts, previsoes,
     `);
   }
 
+  // Estoque parado (mensal)
+  if (userConfig.incluir_estoque_parado && estoqueParado) {
+    sections.push(`
+      <div class="section">
+        <h2>⏳ Estoque Parado</h2>
+        <p>Valor em estoque por dias desde a última saída:</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Faixa</th>
+              <th>Valor</th>
+              <th>Participação</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${estoqueParado.buckets.map((b: AgingBucketValue) => `
+              <tr>
+                <td>${b.label}</td>
+                <td>${formatCurrency(b.value)}</td>
+                <td>${estoqueParado.total > 0 ? ((b.value / estoqueParado.total) * 100).toFixed(1) : '0.0'}%</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        ${estoqueParado.topDeadStock.length > 0 ? `
+          <p>${estoqueParado.deadStockCount} produto(s) sem saída há mais de 90 dias. Maiores valores parados:</p>
+          <table>
+            <thead>
+              <tr>
+                <th>Produto</th>
+                <th>Quantidade</th>
+                <th>Dias sem Saída</th>
+                <th>Valor</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${estoqueParado.topDeadStock.map((p: DeadStockItem) => `
+                <tr>
+                  <td>${p.name}</td>
+                  <td>${p.quantity} ${p.unit}</td>
+                  <td class="warning">${p.days}</td>
+                  <td>${formatCurrency(p.value)}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+        ` : ''}
+      </div>
+    `);
+  }
+
   const footer = `
         <div class="footer">
           <p>Este é um relatório automático gerado pelo sistema StockMaster.</p>
@@ -232,6 +357,7 @@ serve(async (req) => {
           incluir_estoque_critico: true,
           incluir_previsoes: true,
           incluir_valor_estoque: true,
+          incluir_estoque_parado: false,
         });
       }
 
@@ -306,6 +432,17 @@ serve(async (req) => {
       const valorEstoque = allProducts?.reduce((sum, p) => 
         sum + Number(p.quantity) * Number(p.cost), 0) || 0;
 
+      // 5. ESTOQUE PARADO (só no primeiro dia do mês, para quem pediu)
+      let estoqueParado = null;
+      const wantsAging = Array.from(userConfigs.values()).some((c) => c.incluir_estoque_parado);
+      if (new Date().getDate() === 1 && wantsAging) {
+        try {
+          estoqueParado = await getStockAgingSummary(supabase, org.id);
+        } catch (error) {
+          console.error(`Erro ao calcular estoque parado da organização ${org.name}:`, error);
+        }
+      }
+
       // Gerar HTML do email
       const formatCurrency = (value: number) => {
         return new Intl.NumberFormat('pt-BR', {
@@ -445,6 +582,7 @@ serve(async (req) => {
           vendas,
           saldo,
           valorEstoque,
+          estoqueParado,
           formatCurrency,
         });
 
@@ -5,11 +5,6 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-interface CustoAdicional {
-  descricao: string;
-  valor: number;
-}
-
 Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -110,15 +105,7 @@ Deno.serve(async (req) => {
         } else if (movement.kit_id) {
           const { data: kit } = await supabaseClient
             .from("kits")
-            .select(`
-              name,
-              preco_venda,
-              custos_adicionais,
-              kit_items (
-                quantity,
-                products (custo_unitario)
-              )
-            `)
+            .select("name, preco_venda")
             .eq("id", movement.kit_id)
             .single();
           
@@ -127,23 +114,9 @@ Deno.serve(async (req) => {
             itemName = kit.name;
             precoVenda = Number(kit.preco_venda) || 0;
 
-            // Calculate kit cost from components
-            let kitCost = 0;
-            if (kit.kit_items) {
-              for (const item of kit.kit_items as any[]) {
-                const productCost = Number(item.products?.custo_unitario) || 0;
-                kitCost += productCost * Number(item.quantity);
-              }
-            }
-
-            // Add additional costs
-            if (kit.custos_adicionais && Array.isArray(kit.custos_adicionais)) {
-              for (const custo of kit.custos_adicionais as unknown as CustoAdicional[]) {
-                kitCost += Number(custo.valor) || 0;
-              }
-            }
-
-            custoUnitario = kitCost;
+            // Kit cost rolled up through every level of sub-kits, additional costs included
+            const { data: kitCost } = await supabaseClient.rpc('get_kit_unit_cost', { _kit_id: movement.kit_id });
+            custoUnitario = Number(kitCost) || 0;
           }
         }
 
@@ -0,0 +1,237 @@
+-- Saldos de estoque por local
+-- products.quantity continua sendo o saldo total do produto; stock_balances guarda
+-- quanto desse total está em cada local. Estoque sem local definido é a diferença.
+CREATE TABLE public.stock_balances (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id),
+  quantity NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (product_id, location_id)
+);
+
+CREATE INDEX idx_stock_balances_organization ON public.stock_balances(organization_id);
+CREATE INDEX idx_stock_balances_location ON public.stock_balances(location_id);
+
+ALTER TABLE public.stock_balances ENABLE ROW LEVEL SECURITY;
+
+-- Saldos são mantidos apenas pelos triggers de movimentação
+CREATE POLICY "Users can view stock balances from their organization"
+ON public.stock_balances FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE TRIGGER update_stock_balances_updated_at
+BEFORE UPDATE ON public.stock_balances
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.stock_balances;
+
+-- Ajusta o saldo de um produto em um local (cria o registro se necessário)
+CREATE OR REPLACE FUNCTION public.adjust_stock_balance(_product_id UUID, _location_id UUID, _delta NUMERIC)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _product_id IS NULL OR _location_id IS NULL OR _delta = 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.stock_balances (organization_id, product_id, location_id, quantity)
+  SELECT p.organization_id, p.id, _location_id, _delta
+  FROM public.products p
+  WHERE p.id = _product_id
+  ON CONFLICT (product_id, location_id)
+  DO UPDATE SET quantity = public.stock_balances.quantity + EXCLUDED.quantity;
+END;
+$$;
+
+-- Aplica (_sign = 1) ou reverte (_sign = -1) o efeito de uma movimentação sobre um produto.
+-- IN e OUT alteram o total e o saldo do local; TRANSFER só move saldo entre locais.
+-- Quando o local não é informado, usa o local padrão do produto.
+CREATE OR REPLACE FUNCTION public.apply_movement_stock(
+  _product_id UUID,
+  _type movement_type,
+  _quantity NUMERIC,
+  _from_location_id UUID,
+  _to_location_id UUID,
+  _sign INTEGER
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  default_location_id UUID;
+BEGIN
+  IF _product_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT location_id INTO default_location_id
+  FROM public.products
+  WHERE id = _product_id;
+
+  IF _type = 'IN' THEN
+    UPDATE public.products
+    SET quantity = quantity + (_sign * _quantity)
+    WHERE id = _product_id;
+    PERFORM public.adjust_stock_balance(_product_id, COALESCE(_to_location_id, default_location_id), _sign * _quantity);
+  ELSIF _type = 'OUT' THEN
+    UPDATE public.products
+    SET quantity = quantity - (_sign * _quantity)
+    WHERE id = _product_id;
+    PERFORM public.adjust_stock_balance(_product_id, COALESCE(_from_location_id, default_location_id), -(_sign * _quantity));
+  ELSIF _type = 'TRANSFER' THEN
+    PERFORM public.adjust_stock_balance(_product_id, COALESCE(_from_location_id, default_location_id), -(_sign * _quantity));
+    PERFORM public.adjust_stock_balance(_product_id, _to_location_id, _sign * _quantity);
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_stock_balance(UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_movement_stock(UUID, movement_type, NUMERIC, UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Movimentações de produtos passam a atualizar o saldo por local.
+-- TRANSFER não reescreve mais products.location_id.
+CREATE OR REPLACE FUNCTION public.update_product_quantity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Reverse the old movement on UPDATE/DELETE
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.product_id IS NOT NULL AND OLD.kit_id IS NULL THEN
+    PERFORM public.apply_movement_stock(OLD.product_id, OLD.type, OLD.quantity, OLD.from_location_id, OLD.to_location_id, -1);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF NEW.product_id IS NOT NULL AND NEW.kit_id IS NULL THEN
+    -- Grava o local padrão do produto para que a reversão use o mesmo local
+    IF NEW.type = 'IN' AND NEW.to_location_id IS NULL THEN
+      SELECT location_id INTO NEW.to_location_id FROM public.products WHERE id = NEW.product_id;
+    ELSIF NEW.type IN ('OUT', 'TRANSFER') AND NEW.from_location_id IS NULL THEN
+      SELECT location_id INTO NEW.from_location_id FROM public.products WHERE id = NEW.product_id;
+    END IF;
+
+    PERFORM public.apply_movement_stock(NEW.product_id, NEW.type, NEW.quantity, NEW.from_location_id, NEW.to_location_id, 1);
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Kits movimentam cada componente no local da movimentação (inclusive transferências)
+CREATE OR REPLACE FUNCTION public.process_kit_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  item RECORD;
+BEGIN
+  -- Reverse the old kit movement on UPDATE/DELETE
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.kit_id IS NOT NULL THEN
+    FOR item IN
+      SELECT product_id, quantity
+      FROM public.kit_items
+      WHERE kit_id = OLD.kit_id
+    LOOP
+      PERFORM public.apply_movement_stock(item.product_id, OLD.type, item.quantity * OLD.quantity, OLD.from_location_id, OLD.to_location_id, -1);
+    END LOOP;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF NEW.kit_id IS NOT NULL THEN
+    FOR item IN
+      SELECT product_id, quantity
+      FROM public.kit_items
+      WHERE kit_id = NEW.kit_id
+    LOOP
+      PERFORM public.apply_movement_stock(item.product_id, NEW.type, item.quantity * NEW.quantity, NEW.from_location_id, NEW.to_location_id, 1);
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Saldo inicial: o estoque atual de cada produto fica no seu local padrão
+INSERT INTO public.stock_balances (organization_id, product_id, location_id, quantity)
+SELECT organization_id, id, location_id, quantity
+FROM public.products
+WHERE location_id IS NOT NULL
+  AND quantity <> 0;
+
+-- Produtos críticos passam a retornar uma linha por local com saldo,
+-- restritos à organização do usuário
+DROP FUNCTION IF EXISTS public.get_critical_products();
+
+CREATE FUNCTION public.get_critical_products()
+RETURNS TABLE (
+  id UUID,
+  sku TEXT,
+  barcode TEXT,
+  name TEXT,
+  description TEXT,
+  category_id UUID,
+  unit TEXT,
+  cost DECIMAL,
+  quantity DECIMAL,
+  min_quantity DECIMAL,
+  location_id UUID,
+  supplier_id UUID,
+  image_url TEXT,
+  active BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  category_name TEXT,
+  location_name TEXT,
+  location_quantity DECIMAL
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.sku,
+    p.barcode,
+    p.name,
+    p.description,
+    p.category_id,
+    p.unit,
+    p.cost,
+    p.quantity,
+    p.min_quantity,
+    COALESCE(sb.location_id, p.location_id) AS location_id,
+    p.supplier_id,
+    p.image_url,
+    p.active,
+    p.created_at,
+    p.updated_at,
+    c.name AS category_name,
+    l.name AS location_name,
+    COALESCE(sb.quantity, p.quantity) AS location_quantity
+  FROM public.products p
+  LEFT JOIN public.categories c ON p.category_id = c.id
+  LEFT JOIN public.stock_balances sb ON sb.product_id = p.id AND sb.quantity <> 0
+  LEFT JOIN public.locations l ON l.id = COALESCE(sb.location_id, p.location_id)
+  WHERE p.organization_id = public.get_user_organization_id(auth.uid())
+    AND p.quantity <= p.min_quantity
+  ORDER BY p.quantity ASC, location_quantity ASC
+$$;
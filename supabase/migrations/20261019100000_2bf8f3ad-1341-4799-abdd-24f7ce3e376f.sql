@@ -0,0 +1,104 @@
+-- Controle de lotes e validade
+-- O produto passa a ter controle opcional por lote. Entradas registram o lote e a validade;
+-- saídas consomem lotes na ordem de vencimento (FEFO) através de movement_lots.
+ALTER TABLE public.products
+ADD COLUMN track_lots BOOLEAN NOT NULL DEFAULT false;
+
+-- Lotes são do produto, não do local: o saldo do lote é a soma em todos os locais e
+-- transferências não movimentam lotes
+CREATE TABLE public.product_lots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  lot_code TEXT NOT NULL,
+  expiry_date DATE,
+  quantity NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (product_id, lot_code)
+);
+
+CREATE INDEX idx_product_lots_organization ON public.product_lots(organization_id);
+CREATE INDEX idx_product_lots_expiry ON public.product_lots(expiry_date) WHERE quantity > 0;
+
+-- Quantidade de cada lote consumida (negativa) ou recebida (positiva) por movimentação
+CREATE TABLE public.movement_lots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  movement_id UUID NOT NULL REFERENCES public.movements(id) ON DELETE CASCADE,
+  lot_id UUID NOT NULL REFERENCES public.product_lots(id) ON DELETE CASCADE,
+  quantity NUMERIC NOT NULL CHECK (quantity <> 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_movement_lots_movement ON public.movement_lots(movement_id);
+CREATE INDEX idx_movement_lots_lot ON public.movement_lots(lot_id);
+
+ALTER TABLE public.product_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.movement_lots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view product lots from their organization"
+ON public.product_lots FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Operadores and above can create product lots in their organization"
+ON public.product_lots FOR INSERT
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'operador'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role) OR
+   has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role))
+);
+
+CREATE POLICY "Admins can update product lots in their organization"
+ON public.product_lots FOR UPDATE
+USING (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role))
+);
+
+CREATE POLICY "Users can view movement lots from their organization"
+ON public.movement_lots FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Operadores and above can create movement lots in their organization"
+ON public.movement_lots FOR INSERT
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'operador'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role) OR
+   has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role))
+);
+
+CREATE TRIGGER update_product_lots_updated_at
+BEFORE UPDATE ON public.product_lots
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Mantém o saldo do lote a partir das quantidades vinculadas às movimentações.
+-- Excluir a movimentação remove os vínculos em cascata e devolve o saldo ao lote.
+CREATE OR REPLACE FUNCTION public.update_lot_quantity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.product_lots
+    SET quantity = quantity + NEW.quantity
+    WHERE id = NEW.lot_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.product_lots
+  SET quantity = quantity - OLD.quantity
+  WHERE id = OLD.lot_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER update_lot_quantity_trigger
+AFTER INSERT OR DELETE ON public.movement_lots
+FOR EACH ROW
+EXECUTE FUNCTION public.update_lot_quantity();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.product_lots;
@@ -0,0 +1,136 @@
+-- Controle por número de série
+-- Produtos serializados têm cada unidade identificada. Entradas registram os números de série
+-- e saídas/transferências indicam exatamente quais unidades foram movimentadas.
+ALTER TABLE public.products
+ADD COLUMN serialized BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.product_serials (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  serial_number TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_stock' CHECK (status IN ('in_stock', 'out')),
+  location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (product_id, serial_number)
+);
+
+CREATE INDEX idx_product_serials_organization ON public.product_serials(organization_id);
+CREATE INDEX idx_product_serials_serial_number ON public.product_serials(serial_number);
+
+CREATE TABLE public.movement_serials (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  movement_id UUID NOT NULL REFERENCES public.movements(id) ON DELETE CASCADE,
+  serial_id UUID NOT NULL REFERENCES public.product_serials(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (movement_id, serial_id)
+);
+
+CREATE INDEX idx_movement_serials_serial ON public.movement_serials(serial_id);
+
+ALTER TABLE public.product_serials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.movement_serials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view product serials from their organization"
+ON public.product_serials FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Operadores and above can create product serials in their organization"
+ON public.product_serials FOR INSERT
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'operador'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role) OR
+   has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role))
+);
+
+CREATE POLICY "Users can view movement serials from their organization"
+ON public.movement_serials FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Operadores and above can create movement serials in their organization"
+ON public.movement_serials FOR INSERT
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'operador'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role) OR
+   has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role))
+);
+
+CREATE TRIGGER update_product_serials_updated_at
+BEFORE UPDATE ON public.product_serials
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Recalcula situação e local de um número de série a partir da sua última movimentação.
+-- Sem movimentações (ex.: a entrada foi excluída) a unidade deixa de constar em estoque.
+CREATE OR REPLACE FUNCTION public.refresh_serial_state(_serial_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  last_movement RECORD;
+BEGIN
+  SELECT m.type, m.to_location_id INTO last_movement
+  FROM public.movement_serials ms
+  JOIN public.movements m ON m.id = ms.movement_id
+  WHERE ms.serial_id = _serial_id
+  ORDER BY m.created_at DESC, ms.created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND OR last_movement.type = 'OUT' THEN
+    UPDATE public.product_serials
+    SET status = 'out', location_id = NULL
+    WHERE id = _serial_id;
+  ELSE
+    UPDATE public.product_serials
+    SET status = 'in_stock', location_id = last_movement.to_location_id
+    WHERE id = _serial_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_serial_state(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.update_serial_from_movement_serial()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_serial_state(COALESCE(NEW.serial_id, OLD.serial_id));
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER update_serial_state_trigger
+AFTER INSERT OR DELETE ON public.movement_serials
+FOR EACH ROW
+EXECUTE FUNCTION public.update_serial_from_movement_serial();
+
+-- Editar uma movimentação (tipo ou locais) atualiza os números de série vinculados
+CREATE OR REPLACE FUNCTION public.update_serials_from_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  linked RECORD;
+BEGIN
+  FOR linked IN
+    SELECT serial_id FROM public.movement_serials WHERE movement_id = NEW.id
+  LOOP
+    PERFORM public.refresh_serial_state(linked.serial_id);
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_serials_on_movement_update
+AFTER UPDATE ON public.movements
+FOR EACH ROW
+EXECUTE FUNCTION public.update_serials_from_movement();
@@ -0,0 +1,3 @@
+-- Tipo de movimentação exclusivo para ajustes de inventário.
+-- Fica em migração separada porque o novo valor do enum só pode ser usado após o commit.
+ALTER TYPE public.movement_type ADD VALUE IF NOT EXISTS 'ADJUSTMENT';
@@ -0,0 +1,350 @@
+-- Inventário físico: sessões de contagem por local e/ou categoria, com várias rodadas,
+-- revisão de divergências e lançamento de ajustes (movimentações do tipo ADJUSTMENT).
+-- Ajustes usam quantidade com sinal: positiva acrescenta, negativa retira estoque.
+
+-- Ajustes alteram o total e o saldo do local contado
+CREATE OR REPLACE FUNCTION public.apply_movement_stock(
+  _product_id UUID,
+  _type movement_type,
+  _quantity NUMERIC,
+  _from_location_id UUID,
+  _to_location_id UUID,
+  _sign INTEGER
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  default_location_id UUID;
+BEGIN
+  IF _product_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT location_id INTO default_location_id
+  FROM public.products
+  WHERE id = _product_id;
+
+  IF _type IN ('IN', 'ADJUSTMENT') THEN
+    UPDATE public.products
+    SET quantity = quantity + (_sign * _quantity)
+    WHERE id = _product_id;
+    PERFORM public.adjust_stock_balance(_product_id, COALESCE(_to_location_id, default_location_id), _sign * _quantity);
+  ELSIF _type = 'OUT' THEN
+    UPDATE public.products
+    SET quantity = quantity - (_sign * _quantity)
+    WHERE id = _product_id;
+    PERFORM public.adjust_stock_balance(_product_id, COALESCE(_from_location_id, default_location_id), -(_sign * _quantity));
+  ELSIF _type = 'TRANSFER' THEN
+    PERFORM public.adjust_stock_balance(_product_id, COALESCE(_from_location_id, default_location_id), -(_sign * _quantity));
+    PERFORM public.adjust_stock_balance(_product_id, _to_location_id, _sign * _quantity);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_product_quantity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Reverse the old movement on UPDATE/DELETE
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.product_id IS NOT NULL AND OLD.kit_id IS NULL THEN
+    PERFORM public.apply_movement_stock(OLD.product_id, OLD.type, OLD.quantity, OLD.from_location_id, OLD.to_location_id, -1);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF NEW.product_id IS NOT NULL AND NEW.kit_id IS NULL THEN
+    -- Grava o local padrão do produto para que a reversão use o mesmo local
+    IF NEW.type IN ('IN', 'ADJUSTMENT') AND NEW.to_location_id IS NULL THEN
+      SELECT location_id INTO NEW.to_location_id FROM public.products WHERE id = NEW.product_id;
+    ELSIF NEW.type IN ('OUT', 'TRANSFER') AND NEW.from_location_id IS NULL THEN
+      SELECT location_id INTO NEW.from_location_id FROM public.products WHERE id = NEW.product_id;
+    END IF;
+
+    PERFORM public.apply_movement_stock(NEW.product_id, NEW.type, NEW.quantity, NEW.from_location_id, NEW.to_location_id, 1);
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TABLE public.inventory_counts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'review', 'posted', 'cancelled')),
+  current_round INTEGER NOT NULL DEFAULT 1,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  approved_by UUID REFERENCES auth.users(id),
+  posted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Quantidade e custo do sistema são registrados no início da sessão
+CREATE TABLE public.inventory_count_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  count_id UUID NOT NULL REFERENCES public.inventory_counts(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  system_quantity NUMERIC NOT NULL DEFAULT 0,
+  -- Saldo contra o qual o ajuste foi lançado na aprovação; nulo até lá
+  posted_system_quantity NUMERIC,
+  unit_cost NUMERIC NOT NULL DEFAULT 0,
+  adjustment_movement_id UUID REFERENCES public.movements(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (count_id, product_id)
+);
+
+-- Quantidade contada por rodada; vale a contagem da rodada mais recente
+CREATE TABLE public.inventory_count_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_count_items(id) ON DELETE CASCADE,
+  round INTEGER NOT NULL,
+  counted_quantity NUMERIC NOT NULL CHECK (counted_quantity >= 0),
+  counted_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (item_id, round)
+);
+
+CREATE INDEX idx_inventory_counts_organization ON public.inventory_counts(organization_id);
+CREATE INDEX idx_inventory_count_items_count ON public.inventory_count_items(count_id);
+CREATE INDEX idx_inventory_count_entries_item ON public.inventory_count_entries(item_id);
+
+ALTER TABLE public.inventory_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_count_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_count_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view inventory counts from their organization"
+ON public.inventory_counts FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Almoxarifes and above can update inventory counts in their organization"
+ON public.inventory_counts FOR UPDATE
+USING (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+   has_role(auth.uid(), 'superadmin'::app_role))
+);
+
+CREATE POLICY "Users can view inventory count items from their organization"
+ON public.inventory_count_items FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can view inventory count entries from their organization"
+ON public.inventory_count_entries FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Operadores and above can create inventory count entries in their organization"
+ON public.inventory_count_entries FOR INSERT
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'operador'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role) OR
+   has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role)) AND
+  -- Só na rodada atual de uma sessão em contagem, com item da mesma organização
+  EXISTS (
+    SELECT 1
+    FROM public.inventory_count_items i
+    JOIN public.inventory_counts c ON c.id = i.count_id
+    WHERE i.id = inventory_count_entries.item_id
+      AND i.organization_id = public.get_user_organization_id(auth.uid())
+      AND c.status = 'counting'
+      AND c.current_round = inventory_count_entries.round
+  )
+);
+
+CREATE POLICY "Operadores and above can update inventory count entries in their organization"
+ON public.inventory_count_entries FOR UPDATE
+USING (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'operador'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role) OR
+   has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role)) AND
+  -- Só na rodada atual de uma sessão em contagem, com item da mesma organização
+  EXISTS (
+    SELECT 1
+    FROM public.inventory_count_items i
+    JOIN public.inventory_counts c ON c.id = i.count_id
+    WHERE i.id = inventory_count_entries.item_id
+      AND i.organization_id = public.get_user_organization_id(auth.uid())
+      AND c.status = 'counting'
+      AND c.current_round = inventory_count_entries.round
+  )
+)
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'operador'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role) OR
+   has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role)) AND
+  -- Só na rodada atual de uma sessão em contagem, com item da mesma organização
+  EXISTS (
+    SELECT 1
+    FROM public.inventory_count_items i
+    JOIN public.inventory_counts c ON c.id = i.count_id
+    WHERE i.id = inventory_count_entries.item_id
+      AND i.organization_id = public.get_user_organization_id(auth.uid())
+      AND c.status = 'counting'
+      AND c.current_round = inventory_count_entries.round
+  )
+);
+
+CREATE TRIGGER update_inventory_counts_updated_at
+BEFORE UPDATE ON public.inventory_counts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_inventory_count_entries_updated_at
+BEFORE UPDATE ON public.inventory_count_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Abre uma sessão de contagem com os produtos ativos do escopo
+CREATE OR REPLACE FUNCTION public.start_inventory_count(
+  _name TEXT,
+  _location_id UUID DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  org_id UUID;
+  new_count_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para iniciar inventário';
+  END IF;
+
+  org_id := public.get_user_organization_id(auth.uid());
+
+  INSERT INTO public.inventory_counts (organization_id, name, location_id, category_id, notes, created_by)
+  VALUES (org_id, _name, _location_id, _category_id, _notes, auth.uid())
+  RETURNING id INTO new_count_id;
+
+  INSERT INTO public.inventory_count_items (organization_id, count_id, product_id, system_quantity, unit_cost)
+  SELECT
+    org_id,
+    new_count_id,
+    p.id,
+    CASE
+      WHEN _location_id IS NULL THEN p.quantity
+      ELSE COALESCE(sb.quantity, 0)
+    END,
+    COALESCE(p.cost, 0)
+  FROM public.products p
+  LEFT JOIN public.stock_balances sb ON sb.product_id = p.id AND sb.location_id = _location_id
+  WHERE p.organization_id = org_id
+    AND p.active = true
+    AND (_category_id IS NULL OR p.category_id = _category_id);
+
+  RETURN new_count_id;
+END;
+$$;
+
+-- Aprova a sessão em revisão e lança um ajuste para cada divergência.
+-- A divergência é calculada contra o saldo no momento da aprovação, não contra o
+-- retrato do início da sessão: movimentações lançadas com a contagem aberta já
+-- estão no saldo e não podem ser aplicadas de novo. Itens sem contagem não são ajustados.
+CREATE OR REPLACE FUNCTION public.post_inventory_count(_count_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  count_row public.inventory_counts%ROWTYPE;
+  item RECORD;
+  current_quantity NUMERIC;
+  new_movement_id UUID;
+  adjustments INTEGER := 0;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Apenas administradores podem aprovar inventários';
+  END IF;
+
+  SELECT * INTO count_row
+  FROM public.inventory_counts
+  WHERE id = _count_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventário não encontrado';
+  END IF;
+
+  IF count_row.status <> 'review' THEN
+    RAISE EXCEPTION 'O inventário precisa estar em revisão para ser aprovado';
+  END IF;
+
+  FOR item IN
+    SELECT i.id, i.product_id, latest.counted_quantity
+    FROM public.inventory_count_items i
+    JOIN LATERAL (
+      SELECT e.counted_quantity
+      FROM public.inventory_count_entries e
+      WHERE e.item_id = i.id
+      ORDER BY e.round DESC
+      LIMIT 1
+    ) latest ON true
+    WHERE i.count_id = _count_id
+    ORDER BY i.product_id
+  LOOP
+    -- Trava o produto para que nenhuma movimentação altere o saldo até o ajuste
+    SELECT quantity INTO current_quantity FROM public.products WHERE id = item.product_id FOR UPDATE;
+
+    IF count_row.location_id IS NOT NULL THEN
+      SELECT COALESCE(SUM(quantity), 0) INTO current_quantity
+      FROM public.stock_balances
+      WHERE product_id = item.product_id AND location_id = count_row.location_id;
+    END IF;
+
+    -- Registra o saldo usado ao lado do retrato do início, para exibir a divergência lançada
+    UPDATE public.inventory_count_items
+    SET posted_system_quantity = current_quantity
+    WHERE id = item.id;
+
+    CONTINUE WHEN item.counted_quantity = current_quantity;
+
+    INSERT INTO public.movements (
+      organization_id, type, product_id, quantity, to_location_id, reference, note, created_by
+    )
+    VALUES (
+      count_row.organization_id,
+      'ADJUSTMENT',
+      item.product_id,
+      item.counted_quantity - current_quantity,
+      count_row.location_id,
+      count_row.name,
+      'Ajuste de inventário',
+      auth.uid()
+    )
+    RETURNING id INTO new_movement_id;
+
+    UPDATE public.inventory_count_items
+    SET adjustment_movement_id = new_movement_id
+    WHERE id = item.id;
+
+    adjustments := adjustments + 1;
+  END LOOP;
+
+  UPDATE public.inventory_counts
+  SET status = 'posted', approved_by = auth.uid(), posted_at = now()
+  WHERE id = _count_id;
+
+  RETURN adjustments;
+END;
+$$;
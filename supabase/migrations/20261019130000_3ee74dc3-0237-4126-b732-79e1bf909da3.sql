@@ -0,0 +1,91 @@
+-- Custo médio ponderado: cada entrada recalcula o custo unitário do produto e cada
+-- movimentação guarda o custo vigente no momento em que foi registrada.
+
+-- unit_cost: custo de compra nas entradas; custo médio vigente nas demais movimentações
+-- average_cost: custo médio do produto após a movimentação
+ALTER TABLE public.movements
+ADD COLUMN IF NOT EXISTS unit_cost NUMERIC,
+ADD COLUMN IF NOT EXISTS average_cost NUMERIC;
+
+CREATE OR REPLACE FUNCTION public.apply_movement_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_quantity NUMERIC;
+  current_cost NUMERIC;
+  new_cost NUMERIC;
+BEGIN
+  IF NEW.kit_id IS NOT NULL THEN
+    -- Kits não têm custo próprio: soma dos componentes mais os custos adicionais do cadastro
+    SELECT
+      COALESCE((
+        SELECT SUM(COALESCE(p.custo_unitario, 0) * ki.quantity)
+        FROM public.kit_items ki
+        JOIN public.products p ON p.id = ki.product_id
+        WHERE ki.kit_id = k.id
+      ), 0)
+      + COALESCE((
+        SELECT SUM(COALESCE((c->>'valor')::NUMERIC, 0))
+        FROM jsonb_array_elements(
+          CASE WHEN jsonb_typeof(k.custos_adicionais) = 'array' THEN k.custos_adicionais ELSE '[]'::jsonb END
+        ) c
+      ), 0)
+    INTO NEW.unit_cost
+    FROM public.kits k
+    WHERE k.id = NEW.kit_id;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.product_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT quantity, COALESCE(custo_unitario, 0)
+  INTO current_quantity, current_cost
+  FROM public.products
+  WHERE id = NEW.product_id
+  FOR UPDATE;
+
+  IF NEW.type = 'IN' THEN
+    NEW.unit_cost := COALESCE(NEW.unit_cost, current_cost);
+
+    -- Sem saldo positivo o estoque anterior não pesa na média
+    IF current_quantity <= 0 THEN
+      new_cost := NEW.unit_cost;
+    ELSE
+      new_cost := ROUND(
+        (current_quantity * current_cost + NEW.quantity * NEW.unit_cost) / (current_quantity + NEW.quantity),
+        4
+      );
+    END IF;
+
+    UPDATE public.products
+    SET custo_unitario = new_cost,
+        cost = new_cost
+    WHERE id = NEW.product_id;
+
+    NEW.average_cost := new_cost;
+  ELSE
+    -- Saídas, transferências e ajustes saem pelo custo médio vigente
+    NEW.unit_cost := current_cost;
+    NEW.average_cost := current_cost;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_movement_cost() FROM PUBLIC, anon, authenticated;
+
+-- Roda antes de update_product_quantity_trigger (ordem alfabética) para ler o saldo anterior à entrada.
+-- Edições e exclusões não recalculam a média: o custo registrado em cada movimentação é mantido.
+DROP TRIGGER IF EXISTS apply_movement_cost_trigger ON public.movements;
+
+CREATE TRIGGER apply_movement_cost_trigger
+  BEFORE INSERT ON public.movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_movement_cost();
@@ -0,0 +1,203 @@
+-- Custeio PEPS (FIFO): cada entrada cria uma camada de custo e cada saída consome as
+-- camadas mais antigas primeiro. As camadas são mantidas para todas as organizações;
+-- o método de custeio configurado define qual custo vai para o financeiro.
+
+CREATE TABLE public.organization_settings (
+  organization_id UUID NOT NULL PRIMARY KEY REFERENCES public.organizations(id) ON DELETE CASCADE,
+  costing_method TEXT NOT NULL DEFAULT 'average' CHECK (costing_method IN ('average', 'fifo')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.cost_layers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  -- Nulo nas camadas de abertura criadas a partir do estoque existente
+  movement_id UUID REFERENCES public.movements(id) ON DELETE CASCADE,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  unit_cost NUMERIC NOT NULL DEFAULT 0,
+  original_quantity NUMERIC NOT NULL CHECK (original_quantity > 0),
+  remaining_quantity NUMERIC NOT NULL CHECK (remaining_quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.cost_layer_consumptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  movement_id UUID NOT NULL REFERENCES public.movements(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  -- Nulo quando não havia camada suficiente: a diferença sai pelo custo médio
+  layer_id UUID REFERENCES public.cost_layers(id) ON DELETE CASCADE,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  unit_cost NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_cost_layers_product_open ON public.cost_layers(product_id, received_at) WHERE remaining_quantity > 0;
+CREATE INDEX idx_cost_layer_consumptions_movement ON public.cost_layer_consumptions(movement_id);
+
+ALTER TABLE public.organization_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cost_layers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cost_layer_consumptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view settings from their organization"
+ON public.organization_settings FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Admins can create settings in their organization"
+ON public.organization_settings FOR INSERT
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role))
+);
+
+CREATE POLICY "Admins can update settings in their organization"
+ON public.organization_settings FOR UPDATE
+USING (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role))
+);
+
+-- Camadas e consumos são gravados apenas pelos triggers
+CREATE POLICY "Users can view cost layers from their organization"
+ON public.cost_layers FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can view cost layer consumptions from their organization"
+ON public.cost_layer_consumptions FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE TRIGGER update_organization_settings_updated_at
+BEFORE UPDATE ON public.organization_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Consome as camadas mais antigas do produto e registra o custo de cada parcela
+CREATE OR REPLACE FUNCTION public.consume_cost_layers(
+  _movement_id UUID,
+  _organization_id UUID,
+  _product_id UUID,
+  _quantity NUMERIC
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  layer RECORD;
+  pending NUMERIC := _quantity;
+  taken NUMERIC;
+BEGIN
+  IF _quantity <= 0 THEN
+    RETURN;
+  END IF;
+
+  FOR layer IN
+    SELECT id, unit_cost, remaining_quantity
+    FROM public.cost_layers
+    WHERE product_id = _product_id
+      AND remaining_quantity > 0
+    ORDER BY received_at, created_at
+    FOR UPDATE
+  LOOP
+    taken := LEAST(pending, layer.remaining_quantity);
+
+    UPDATE public.cost_layers
+    SET remaining_quantity = remaining_quantity - taken
+    WHERE id = layer.id;
+
+    INSERT INTO public.cost_layer_consumptions (organization_id, movement_id, product_id, layer_id, quantity, unit_cost)
+    VALUES (_organization_id, _movement_id, _product_id, layer.id, taken, layer.unit_cost);
+
+    pending := pending - taken;
+    EXIT WHEN pending <= 0;
+  END LOOP;
+
+  IF pending > 0 THEN
+    INSERT INTO public.cost_layer_consumptions (organization_id, movement_id, product_id, layer_id, quantity, unit_cost)
+    SELECT _organization_id, _movement_id, _product_id, NULL, pending, COALESCE(custo_unitario, 0)
+    FROM public.products
+    WHERE id = _product_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_cost_layers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item RECORD;
+BEGIN
+  IF NEW.product_id IS NOT NULL AND NEW.kit_id IS NULL THEN
+    IF NEW.type = 'IN' OR (NEW.type = 'ADJUSTMENT' AND NEW.quantity > 0) THEN
+      INSERT INTO public.cost_layers (organization_id, product_id, movement_id, received_at, unit_cost, original_quantity, remaining_quantity)
+      VALUES (NEW.organization_id, NEW.product_id, NEW.id, NEW.created_at, COALESCE(NEW.unit_cost, 0), NEW.quantity, NEW.quantity);
+    ELSIF NEW.type = 'OUT' THEN
+      PERFORM public.consume_cost_layers(NEW.id, NEW.organization_id, NEW.product_id, NEW.quantity);
+    ELSIF NEW.type = 'ADJUSTMENT' AND NEW.quantity < 0 THEN
+      PERFORM public.consume_cost_layers(NEW.id, NEW.organization_id, NEW.product_id, -NEW.quantity);
+    END IF;
+  ELSIF NEW.kit_id IS NOT NULL THEN
+    -- Kits movimentam os componentes: cada componente tem suas próprias camadas
+    FOR item IN
+      SELECT ki.product_id, ki.quantity, COALESCE(p.custo_unitario, 0) AS custo_unitario
+      FROM public.kit_items ki
+      JOIN public.products p ON p.id = ki.product_id
+      WHERE ki.kit_id = NEW.kit_id
+    LOOP
+      IF NEW.type = 'IN' THEN
+        INSERT INTO public.cost_layers (organization_id, product_id, movement_id, received_at, unit_cost, original_quantity, remaining_quantity)
+        VALUES (NEW.organization_id, item.product_id, NEW.id, NEW.created_at, item.custo_unitario,
+                item.quantity * NEW.quantity, item.quantity * NEW.quantity);
+      ELSIF NEW.type = 'OUT' THEN
+        PERFORM public.consume_cost_layers(NEW.id, NEW.organization_id, item.product_id, item.quantity * NEW.quantity);
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Excluir uma saída devolve as quantidades às camadas consumidas
+CREATE OR REPLACE FUNCTION public.restore_cost_layer()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.layer_id IS NOT NULL THEN
+    UPDATE public.cost_layers
+    SET remaining_quantity = remaining_quantity + OLD.quantity
+    WHERE id = OLD.layer_id;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_cost_layers(UUID, UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_cost_layers() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.restore_cost_layer() FROM PUBLIC, anon, authenticated;
+
+-- Edições de movimentações não recalculam as camadas, assim como o custo médio
+CREATE TRIGGER record_cost_layers_trigger
+AFTER INSERT ON public.movements
+FOR EACH ROW
+EXECUTE FUNCTION public.record_cost_layers();
+
+CREATE TRIGGER restore_cost_layer_trigger
+AFTER DELETE ON public.cost_layer_consumptions
+FOR EACH ROW
+EXECUTE FUNCTION public.restore_cost_layer();
+
+-- Camadas de abertura: o estoque atual entra pelo custo médio vigente
+INSERT INTO public.cost_layers (organization_id, product_id, received_at, unit_cost, original_quantity, remaining_quantity)
+SELECT organization_id, id, now(), COALESCE(custo_unitario, 0), quantity, quantity
+FROM public.products
+WHERE quantity > 0;
@@ -0,0 +1,41 @@
+-- Conversões de unidade por produto: a unidade do produto é a unidade base e cada
+-- conversão informa quantas unidades base cabem em outra unidade (ex.: CX = 12 UN).
+-- As movimentações continuam gravando a quantidade na unidade base.
+
+CREATE TABLE public.product_unit_conversions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  unit TEXT NOT NULL,
+  factor NUMERIC NOT NULL CHECK (factor > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (product_id, unit)
+);
+
+CREATE INDEX idx_product_unit_conversions_product ON public.product_unit_conversions(product_id);
+
+-- Unidade sugerida nas entradas e usada como unidade alternativa nas exportações
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS purchase_unit TEXT;
+
+-- Unidade e quantidade digitadas na movimentação, antes da conversão para a unidade base
+ALTER TABLE public.movements
+ADD COLUMN IF NOT EXISTS entered_unit TEXT,
+ADD COLUMN IF NOT EXISTS entered_quantity NUMERIC;
+
+ALTER TABLE public.product_unit_conversions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view unit conversions from their organization"
+ON public.product_unit_conversions FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Almoxarifes and admins can manage unit conversions in their organization"
+ON public.product_unit_conversions FOR ALL
+USING (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role))
+)
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role))
+);
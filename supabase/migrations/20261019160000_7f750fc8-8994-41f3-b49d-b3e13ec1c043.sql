@@ -0,0 +1,45 @@
+-- Grades de variações: o produto pai agrupa as variações (ex.: tamanho e cor) e não tem
+-- estoque próprio. Cada variação é um produto comum, com SKU e estoque próprios.
+
+CREATE TABLE public.parent_products (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  sku TEXT,
+  description TEXT,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  -- Atributos da grade: [{ "name": "Tamanho", "values": ["P", "M", "G"] }, ...]
+  attributes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, sku)
+);
+
+-- Excluir o produto pai mantém as variações como produtos independentes
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS parent_product_id UUID REFERENCES public.parent_products(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS variant_attributes JSONB;
+
+CREATE INDEX idx_products_parent_product ON public.products(parent_product_id) WHERE parent_product_id IS NOT NULL;
+
+ALTER TABLE public.parent_products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view parent products from their organization"
+ON public.parent_products FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Almoxarifes and admins can manage parent products in their organization"
+ON public.parent_products FOR ALL
+USING (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role))
+)
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role))
+);
+
+CREATE TRIGGER update_parent_products_updated_at
+BEFORE UPDATE ON public.parent_products
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,309 @@
+-- Pedidos de compra: rascunho → enviado → parcialmente recebido → recebido/cancelado.
+-- O recebimento gera as entradas no estoque (com o custo negociado), os lançamentos no
+-- financeiro e, opcionalmente, a conta a pagar ao fornecedor.
+
+CREATE TABLE public.purchase_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  number TEXT NOT NULL,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partial', 'received', 'cancelled')),
+  expected_date DATE,
+  -- Local de destino sugerido no recebimento
+  location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, number)
+);
+
+-- Quantidades na unidade base do produto; unit_cost é o custo negociado por unidade base
+CREATE TABLE public.purchase_order_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  unit_cost NUMERIC NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  received_quantity NUMERIC NOT NULL DEFAULT 0 CHECK (received_quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Entradas geradas pelo recebimento de um pedido
+ALTER TABLE public.movements
+ADD COLUMN IF NOT EXISTS purchase_order_line_id UUID REFERENCES public.purchase_order_lines(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_purchase_orders_organization ON public.purchase_orders(organization_id, status);
+CREATE INDEX idx_purchase_orders_supplier ON public.purchase_orders(supplier_id);
+CREATE INDEX idx_purchase_order_lines_order ON public.purchase_order_lines(order_id);
+CREATE INDEX idx_movements_purchase_order_line ON public.movements(purchase_order_line_id) WHERE purchase_order_line_id IS NOT NULL;
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view purchase orders from their organization"
+ON public.purchase_orders FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Almoxarifes and admins can manage purchase orders in their organization"
+ON public.purchase_orders FOR ALL
+USING (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role))
+)
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role))
+);
+
+CREATE POLICY "Users can view purchase order lines from their organization"
+ON public.purchase_order_lines FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Almoxarifes and admins can manage purchase order lines in their organization"
+ON public.purchase_order_lines FOR ALL
+USING (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role))
+)
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role))
+);
+
+CREATE TRIGGER update_purchase_orders_updated_at
+BEFORE UPDATE ON public.purchase_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Numeração sequencial por organização: PC-00001, PC-00002, ...
+CREATE OR REPLACE FUNCTION public.set_purchase_order_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.number IS NULL OR NEW.number = '' THEN
+    PERFORM pg_advisory_xact_lock(hashtext('purchase_orders:' || NEW.organization_id::TEXT));
+
+    SELECT 'PC-' || LPAD((COUNT(*) + 1)::TEXT, 5, '0')
+    INTO NEW.number
+    FROM public.purchase_orders
+    WHERE organization_id = NEW.organization_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_purchase_order_number() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER set_purchase_order_number_trigger
+BEFORE INSERT ON public.purchase_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.set_purchase_order_number();
+
+-- Recebe (total ou parcialmente) um pedido enviado.
+-- _receipts: [{ "line_id": uuid, "quantity": n, "lot_code": "...", "expiry_date": "yyyy-mm-dd", "serial_numbers": ["..."] }]
+-- Retorna o valor total recebido.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  _order_id UUID,
+  _receipts JSONB,
+  _location_id UUID DEFAULT NULL,
+  _create_payable BOOLEAN DEFAULT false,
+  _due_date DATE DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.purchase_orders%ROWTYPE;
+  supplier_name TEXT;
+  receipt JSONB;
+  line RECORD;
+  received NUMERIC;
+  lot_code_value TEXT;
+  lot_id_value UUID;
+  serial_number_value TEXT;
+  serial_id_value UUID;
+  new_movement_id UUID;
+  line_total NUMERIC;
+  receipt_total NUMERIC := 0;
+  received_lines INTEGER := 0;
+  has_pending BOOLEAN;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para receber pedidos de compra';
+  END IF;
+
+  SELECT * INTO order_row
+  FROM public.purchase_orders
+  WHERE id = _order_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de compra não encontrado';
+  END IF;
+
+  IF order_row.status NOT IN ('sent', 'partial') THEN
+    RAISE EXCEPTION 'Apenas pedidos enviados podem ser recebidos';
+  END IF;
+
+  IF _create_payable AND _due_date IS NULL THEN
+    RAISE EXCEPTION 'Informe o vencimento da conta a pagar';
+  END IF;
+
+  SELECT name INTO supplier_name FROM public.suppliers WHERE id = order_row.supplier_id;
+
+  FOR receipt IN SELECT * FROM jsonb_array_elements(COALESCE(_receipts, '[]'::jsonb))
+  LOOP
+    received := COALESCE((receipt->>'quantity')::NUMERIC, 0);
+    CONTINUE WHEN received <= 0;
+
+    SELECT l.*, p.name AS product_name, p.track_lots, p.serialized, p.preco_venda
+    INTO line
+    FROM public.purchase_order_lines l
+    JOIN public.products p ON p.id = l.product_id
+    WHERE l.id = (receipt->>'line_id')::UUID
+      AND l.order_id = _order_id
+    FOR UPDATE OF l;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item não pertence ao pedido';
+    END IF;
+
+    IF received > line.quantity - line.received_quantity THEN
+      RAISE EXCEPTION 'Quantidade recebida de % maior que o saldo do pedido', line.product_name;
+    END IF;
+
+    lot_code_value := NULLIF(TRIM(receipt->>'lot_code'), '');
+    IF line.track_lots AND lot_code_value IS NULL THEN
+      RAISE EXCEPTION 'Informe o lote de %', line.product_name;
+    END IF;
+
+    IF line.serialized AND jsonb_array_length(COALESCE(receipt->'serial_numbers', '[]'::jsonb)) <> received THEN
+      RAISE EXCEPTION 'Informe um número de série por unidade de %', line.product_name;
+    END IF;
+
+    INSERT INTO public.movements (
+      organization_id, type, product_id, quantity, unit_cost, to_location_id,
+      reference, note, created_by, purchase_order_line_id
+    )
+    VALUES (
+      order_row.organization_id,
+      'IN',
+      line.product_id,
+      received,
+      line.unit_cost,
+      COALESCE(_location_id, order_row.location_id),
+      order_row.number,
+      'Recebimento do pedido de compra ' || order_row.number,
+      auth.uid(),
+      line.id
+    )
+    RETURNING id INTO new_movement_id;
+
+    IF line.track_lots THEN
+      SELECT id INTO lot_id_value
+      FROM public.product_lots
+      WHERE product_id = line.product_id AND lot_code = lot_code_value;
+
+      IF NOT FOUND THEN
+        INSERT INTO public.product_lots (organization_id, product_id, lot_code, expiry_date)
+        VALUES (order_row.organization_id, line.product_id, lot_code_value, NULLIF(receipt->>'expiry_date', '')::DATE)
+        RETURNING id INTO lot_id_value;
+      END IF;
+
+      INSERT INTO public.movement_lots (organization_id, movement_id, lot_id, quantity)
+      VALUES (order_row.organization_id, new_movement_id, lot_id_value, received);
+    END IF;
+
+    IF line.serialized THEN
+      FOR serial_number_value IN SELECT TRIM(value) FROM jsonb_array_elements_text(receipt->'serial_numbers')
+      LOOP
+        IF EXISTS (
+          SELECT 1 FROM public.product_serials
+          WHERE product_id = line.product_id AND serial_number = serial_number_value AND status = 'in_stock'
+        ) THEN
+          RAISE EXCEPTION 'Número de série % já está em estoque', serial_number_value;
+        END IF;
+
+        INSERT INTO public.product_serials (organization_id, product_id, serial_number)
+        VALUES (order_row.organization_id, line.product_id, serial_number_value)
+        ON CONFLICT (product_id, serial_number) DO UPDATE SET updated_at = now()
+        RETURNING id INTO serial_id_value;
+
+        INSERT INTO public.movement_serials (organization_id, movement_id, serial_id)
+        VALUES (order_row.organization_id, new_movement_id, serial_id_value);
+      END LOOP;
+    END IF;
+
+    line_total := received * line.unit_cost;
+    receipt_total := receipt_total + line_total;
+    received_lines := received_lines + 1;
+
+    -- Mesmo formato das entradas registradas pela tela de movimentações
+    INSERT INTO public.financeiro (
+      organization_id, user_id, tipo, data, descricao, produto_id, quantidade,
+      custo_total, preco_venda, valor, lucro_liquido, margem_percentual, custos_adicionais
+    )
+    VALUES (
+      order_row.organization_id,
+      auth.uid(),
+      'entrada',
+      CURRENT_DATE,
+      'Entrada - ' || line.product_name || ' (' || order_row.number || ')',
+      line.product_id,
+      received,
+      line_total,
+      COALESCE(line.preco_venda, 0),
+      line_total,
+      0,
+      0,
+      '[]'::jsonb
+    );
+
+    UPDATE public.purchase_order_lines
+    SET received_quantity = received_quantity + received
+    WHERE id = line.id;
+  END LOOP;
+
+  IF received_lines = 0 THEN
+    RAISE EXCEPTION 'Informe ao menos uma quantidade recebida';
+  END IF;
+
+  IF _create_payable AND receipt_total > 0 THEN
+    INSERT INTO public.contas (organization_id, user_id, tipo, descricao, categoria, valor, data_vencimento, status)
+    VALUES (
+      order_row.organization_id,
+      auth.uid(),
+      'Pagar',
+      'Pedido de compra ' || order_row.number || ' - ' || COALESCE(supplier_name, 'Fornecedor'),
+      'Fornecedor',
+      receipt_total,
+      _due_date,
+      'Pendente'
+    );
+  END IF;
+
+  has_pending := EXISTS (
+    SELECT 1 FROM public.purchase_order_lines
+    WHERE order_id = _order_id AND received_quantity < quantity
+  );
+
+  UPDATE public.purchase_orders
+  SET status = CASE WHEN has_pending THEN 'partial' ELSE 'received' END,
+      received_at = CASE WHEN has_pending THEN NULL ELSE now() END
+  WHERE id = _order_id;
+
+  RETURN receipt_total;
+END;
+$$;
@@ -0,0 +1,9 @@
+-- Planejamento de reposição: prazo de entrega por fornecedor e lote mínimo de compra por
+-- produto, combinados com a média de vendas das previsões e a quantidade mínima.
+
+ALTER TABLE public.suppliers
+ADD COLUMN IF NOT EXISTS lead_time_days INTEGER NOT NULL DEFAULT 7 CHECK (lead_time_days >= 0);
+
+-- Quantidade mínima por pedido, na unidade base do produto (0 = sem mínimo)
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS min_order_quantity NUMERIC NOT NULL DEFAULT 0 CHECK (min_order_quantity >= 0);
@@ -0,0 +1,592 @@
+-- Pedidos de venda: aberto → reservado → separado → expedido → faturado (ou cancelado).
+-- Pedidos reservados e separados retêm estoque sem alterar products.quantity: o disponível
+-- é o saldo do local menos as reservas. A expedição gera as saídas e as vendas no financeiro.
+
+CREATE TABLE public.sales_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  number TEXT NOT NULL,
+  customer_name TEXT NOT NULL,
+  customer_contact TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reserved', 'picked', 'shipped', 'invoiced', 'cancelled')),
+  delivery_date DATE,
+  -- Local de onde o pedido sai; sem local, cada produto sai do seu local padrão
+  location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  notes TEXT,
+  invoice_number TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  reserved_at TIMESTAMP WITH TIME ZONE,
+  picked_at TIMESTAMP WITH TIME ZONE,
+  shipped_at TIMESTAMP WITH TIME ZONE,
+  invoiced_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, number)
+);
+
+-- Cada linha é um produto ou um kit, com quantidade na unidade base e preço unitário de venda
+CREATE TABLE public.sales_order_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.sales_orders(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE,
+  kit_id UUID REFERENCES public.kits(id) ON DELETE CASCADE,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  unit_price NUMERIC NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((product_id IS NULL) <> (kit_id IS NULL))
+);
+
+-- Saídas geradas pela expedição de um pedido
+ALTER TABLE public.movements
+ADD COLUMN IF NOT EXISTS sales_order_line_id UUID REFERENCES public.sales_order_lines(id) ON DELETE SET NULL;
+
+-- produto_id do financeiro guarda o produto ou o kit vendido (como na tela de movimentações),
+-- então não pode exigir um produto
+ALTER TABLE public.financeiro DROP CONSTRAINT IF EXISTS fk_produto;
+
+CREATE INDEX idx_sales_orders_organization ON public.sales_orders(organization_id, status);
+CREATE INDEX idx_sales_order_lines_order ON public.sales_order_lines(order_id);
+CREATE INDEX idx_movements_sales_order_line ON public.movements(sales_order_line_id) WHERE sales_order_line_id IS NOT NULL;
+
+ALTER TABLE public.sales_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view sales orders from their organization"
+ON public.sales_orders FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- Mudanças de status passam pelas funções do fluxo (reserve_sales_order, set_sales_order_status,
+-- ship_sales_order e invoice_sales_order); o cliente só cria pedidos abertos e edita o cabeçalho enquanto o pedido está aberto
+CREATE POLICY "Almoxarifes and admins can create sales orders in their organization"
+ON public.sales_orders FOR INSERT
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role)) AND
+  status = 'open'
+);
+
+CREATE POLICY "Almoxarifes and admins can update open sales orders in their organization"
+ON public.sales_orders FOR UPDATE
+USING (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role)) AND
+  status = 'open'
+)
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role)) AND
+  status = 'open'
+);
+
+CREATE POLICY "Almoxarifes and admins can delete open sales orders in their organization"
+ON public.sales_orders FOR DELETE
+USING (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role)) AND
+  status = 'open'
+);
+
+-- Status e datas do fluxo não são editáveis diretamente
+REVOKE UPDATE ON public.sales_orders FROM anon, authenticated;
+GRANT UPDATE (customer_name, customer_contact, delivery_date, location_id, notes) ON public.sales_orders TO authenticated;
+
+CREATE POLICY "Users can view sales order lines from their organization"
+ON public.sales_order_lines FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- Itens só mudam enquanto o pedido está aberto: depois da reserva, reservas e expedição
+-- dependem deles
+CREATE POLICY "Almoxarifes and admins can manage lines of open sales orders in their organization"
+ON public.sales_order_lines FOR ALL
+USING (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role)) AND
+  EXISTS (
+    SELECT 1 FROM public.sales_orders so
+    WHERE so.id = sales_order_lines.order_id
+      AND so.organization_id = sales_order_lines.organization_id
+      AND so.status = 'open'
+  )
+)
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role)) AND
+  EXISTS (
+    SELECT 1 FROM public.sales_orders so
+    WHERE so.id = sales_order_lines.order_id
+      AND so.organization_id = sales_order_lines.organization_id
+      AND so.status = 'open'
+  )
+);
+
+CREATE TRIGGER update_sales_orders_updated_at
+BEFORE UPDATE ON public.sales_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Numeração sequencial por organização: PV-00001, PV-00002, ...
+CREATE OR REPLACE FUNCTION public.set_sales_order_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.number IS NULL OR NEW.number = '' THEN
+    PERFORM pg_advisory_xact_lock(hashtext('sales_orders:' || NEW.organization_id::TEXT));
+
+    SELECT 'PV-' || LPAD((COUNT(*) + 1)::TEXT, 5, '0')
+    INTO NEW.number
+    FROM public.sales_orders
+    WHERE organization_id = NEW.organization_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_sales_order_number() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER set_sales_order_number_trigger
+BEFORE INSERT ON public.sales_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.set_sales_order_number();
+
+-- Quantidades reservadas por produto e local (kits reservam os componentes).
+-- O local é o do pedido ou, na falta dele, o local padrão do produto — o mesmo usado na expedição.
+CREATE OR REPLACE FUNCTION public.get_reserved_quantities()
+RETURNS TABLE (product_id UUID, location_id UUID, reserved_quantity NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, COALESCE(so.location_id, p.location_id), SUM(demand.quantity)
+  FROM public.sales_orders so
+  JOIN public.sales_order_lines l ON l.order_id = so.id
+  JOIN LATERAL (
+    SELECT l.product_id, l.quantity
+    WHERE l.product_id IS NOT NULL
+    UNION ALL
+    SELECT ki.product_id, ki.quantity * l.quantity
+    FROM public.kit_items ki
+    WHERE ki.kit_id = l.kit_id
+  ) demand ON true
+  JOIN public.products p ON p.id = demand.product_id
+  WHERE so.organization_id = public.get_user_organization_id(auth.uid())
+    AND so.status IN ('reserved', 'picked')
+  GROUP BY p.id, COALESCE(so.location_id, p.location_id);
+$$;
+
+-- Reserva o estoque de um pedido aberto, verificando o disponível de cada produto no local de saída
+CREATE OR REPLACE FUNCTION public.reserve_sales_order(_order_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.sales_orders%ROWTYPE;
+  item RECORD;
+  on_hand NUMERIC;
+  reserved NUMERIC;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para reservar pedidos';
+  END IF;
+
+  SELECT * INTO order_row
+  FROM public.sales_orders
+  WHERE id = _order_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de venda não encontrado';
+  END IF;
+
+  IF order_row.status <> 'open' THEN
+    RAISE EXCEPTION 'Apenas pedidos abertos podem ser reservados';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.sales_order_lines WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'O pedido não possui itens';
+  END IF;
+
+  -- Serializa reservas concorrentes dos mesmos produtos
+  FOR item IN
+    SELECT p.id, p.name, p.quantity AS total_quantity,
+           COALESCE(order_row.location_id, p.location_id) AS location_id,
+           SUM(demand.quantity) AS required
+    FROM public.sales_order_lines l
+    JOIN LATERAL (
+      SELECT l.product_id, l.quantity
+      WHERE l.product_id IS NOT NULL
+      UNION ALL
+      SELECT ki.product_id, ki.quantity * l.quantity
+      FROM public.kit_items ki
+      WHERE ki.kit_id = l.kit_id
+    ) demand ON true
+    JOIN public.products p ON p.id = demand.product_id
+    WHERE l.order_id = _order_id
+    GROUP BY p.id, p.name, p.quantity, COALESCE(order_row.location_id, p.location_id)
+    ORDER BY p.id
+  LOOP
+    PERFORM 1 FROM public.products WHERE id = item.id FOR UPDATE;
+
+    IF item.location_id IS NULL THEN
+      SELECT item.total_quantity - COALESCE(SUM(quantity), 0) INTO on_hand
+      FROM public.stock_balances
+      WHERE product_id = item.id;
+    ELSE
+      SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+      FROM public.stock_balances
+      WHERE product_id = item.id AND location_id = item.location_id;
+    END IF;
+
+    SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+    FROM public.get_reserved_quantities() r
+    WHERE r.product_id = item.id
+      AND r.location_id IS NOT DISTINCT FROM item.location_id;
+
+    IF on_hand - reserved < item.required THEN
+      RAISE EXCEPTION 'Estoque disponível insuficiente para % (disponível: %, necessário: %)',
+        item.name, on_hand - reserved, item.required;
+    END IF;
+  END LOOP;
+
+  UPDATE public.sales_orders
+  SET status = 'reserved', reserved_at = now()
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Transições simples do fluxo, sem movimentação de estoque. Cada uma confere o status
+-- de origem com o pedido travado.
+CREATE OR REPLACE FUNCTION public.set_sales_order_status(_order_id UUID, _status TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.sales_orders%ROWTYPE;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para alterar pedidos';
+  END IF;
+
+  SELECT * INTO order_row
+  FROM public.sales_orders
+  WHERE id = _order_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de venda não encontrado';
+  END IF;
+
+  -- Liberar a reserva (reservado → aberto), separar (reservado → separado) ou cancelar
+  -- (aberto, reservado ou separado → cancelado)
+  IF _status = 'open' AND order_row.status = 'reserved' THEN
+    UPDATE public.sales_orders SET status = 'open', reserved_at = NULL WHERE id = _order_id;
+  ELSIF _status = 'picked' AND order_row.status = 'reserved' THEN
+    UPDATE public.sales_orders SET status = 'picked', picked_at = now() WHERE id = _order_id;
+  ELSIF _status = 'cancelled' AND order_row.status IN ('open', 'reserved', 'picked') THEN
+    UPDATE public.sales_orders SET status = 'cancelled', cancelled_at = now() WHERE id = _order_id;
+  ELSE
+    RAISE EXCEPTION 'Não é possível passar o pedido de % para %', order_row.status, _status;
+  END IF;
+END;
+$$;
+
+-- Consome os lotes de um produto na ordem de vencimento (FEFO) para uma saída.
+-- Os lotes não são por local, então o FEFO considera todos os lotes do produto. Se a soma
+-- dos lotes não cobre a saída, falha em vez de deixar parte da saída sem lote.
+CREATE OR REPLACE FUNCTION public.consume_lots_fefo(
+  _movement_id UUID,
+  _organization_id UUID,
+  _product_id UUID,
+  _quantity NUMERIC
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lot RECORD;
+  pending NUMERIC := _quantity;
+  taken NUMERIC;
+BEGIN
+  FOR lot IN
+    SELECT id, quantity
+    FROM public.product_lots
+    WHERE product_id = _product_id
+      AND quantity > 0
+    ORDER BY expiry_date NULLS LAST, created_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN pending <= 0;
+    taken := LEAST(pending, lot.quantity);
+
+    INSERT INTO public.movement_lots (organization_id, movement_id, lot_id, quantity)
+    VALUES (_organization_id, _movement_id, lot.id, -taken);
+
+    pending := pending - taken;
+  END LOOP;
+
+  IF pending > 0 THEN
+    RAISE EXCEPTION USING
+      MESSAGE = format('Saldo em lotes insuficiente para %s: faltam %s',
+                       (SELECT name FROM public.products WHERE id = _product_id), pending),
+      HINT = 'lot_unavailable',
+      DETAIL = jsonb_build_object('product_id', _product_id, 'available', _quantity - pending, 'required', _quantity)::text;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_lots_fefo(UUID, UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Expede um pedido separado: uma saída por linha (no local do pedido), lotes por FEFO,
+-- números de série informados para produtos serializados e a venda no financeiro.
+-- _serials: [{ "line_id": uuid, "serial_numbers": ["..."] }]
+-- Retorna o valor total vendido.
+CREATE OR REPLACE FUNCTION public.ship_sales_order(_order_id UUID, _serials JSONB DEFAULT '[]'::jsonb)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.sales_orders%ROWTYPE;
+  line RECORD;
+  component RECORD;
+  serial_numbers JSONB;
+  serial_number_value TEXT;
+  serial_id_value UUID;
+  new_movement_id UUID;
+  movement_cost NUMERIC;
+  kit_extra_cost NUMERIC;
+  goods_cost NUMERIC;
+  consumed_cost NUMERIC;
+  sale_value NUMERIC;
+  costing TEXT;
+  order_total NUMERIC := 0;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para expedir pedidos';
+  END IF;
+
+  SELECT * INTO order_row
+  FROM public.sales_orders
+  WHERE id = _order_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de venda não encontrado';
+  END IF;
+
+  IF order_row.status <> 'picked' THEN
+    RAISE EXCEPTION 'Apenas pedidos separados podem ser expedidos';
+  END IF;
+
+  SELECT COALESCE(
+    (SELECT costing_method FROM public.organization_settings WHERE organization_id = order_row.organization_id),
+    'average'
+  ) INTO costing;
+
+  -- A reserva é liberada antes das saídas para que o disponível não conte o próprio pedido
+  UPDATE public.sales_orders
+  SET status = 'shipped', shipped_at = now()
+  WHERE id = _order_id;
+
+  FOR line IN
+    SELECT l.*,
+           COALESCE(p.name, k.name) AS item_name,
+           COALESCE(p.track_lots, false) AS track_lots,
+           COALESCE(p.serialized, false) AS serialized,
+           k.custos_adicionais
+    FROM public.sales_order_lines l
+    LEFT JOIN public.products p ON p.id = l.product_id
+    LEFT JOIN public.kits k ON k.id = l.kit_id
+    WHERE l.order_id = _order_id
+    ORDER BY l.created_at
+  LOOP
+    IF line.serialized THEN
+      serial_numbers := NULL;
+      SELECT s->'serial_numbers' INTO serial_numbers
+      FROM jsonb_array_elements(COALESCE(_serials, '[]'::jsonb)) s
+      WHERE (s->>'line_id')::UUID = line.id;
+
+      IF jsonb_array_length(COALESCE(serial_numbers, '[]'::jsonb)) <> line.quantity THEN
+        RAISE EXCEPTION 'Informe um número de série por unidade de %', line.item_name;
+      END IF;
+    END IF;
+
+    INSERT INTO public.movements (
+      organization_id, type, product_id, kit_id, quantity, from_location_id,
+      reference, note, created_by, preco_venda_usado, sales_order_line_id
+    )
+    VALUES (
+      order_row.organization_id,
+      'OUT',
+      line.product_id,
+      line.kit_id,
+      line.quantity,
+      order_row.location_id,
+      order_row.number,
+      'Expedição do pedido de venda ' || order_row.number || ' - ' || order_row.customer_name,
+      auth.uid(),
+      line.unit_price,
+      line.id
+    )
+    RETURNING id, COALESCE(unit_cost, 0) INTO new_movement_id, movement_cost;
+
+    IF line.product_id IS NOT NULL AND line.track_lots THEN
+      PERFORM public.consume_lots_fefo(new_movement_id, order_row.organization_id, line.product_id, line.quantity);
+    ELSIF line.kit_id IS NOT NULL THEN
+      FOR component IN
+        SELECT ki.product_id, ki.quantity
+        FROM public.kit_items ki
+        JOIN public.products p ON p.id = ki.product_id
+        WHERE ki.kit_id = line.kit_id AND p.track_lots
+      LOOP
+        PERFORM public.consume_lots_fefo(new_movement_id, order_row.organization_id, component.product_id, component.quantity * line.quantity);
+      END LOOP;
+    END IF;
+
+    IF line.serialized THEN
+      FOR serial_number_value IN SELECT TRIM(value) FROM jsonb_array_elements_text(serial_numbers)
+      LOOP
+        SELECT id INTO serial_id_value
+        FROM public.product_serials
+        WHERE product_id = line.product_id AND serial_number = serial_number_value AND status = 'in_stock';
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Número de série % não está em estoque', serial_number_value;
+        END IF;
+
+        INSERT INTO public.movement_serials (organization_id, movement_id, serial_id)
+        VALUES (order_row.organization_id, new_movement_id, serial_id_value);
+      END LOOP;
+    END IF;
+
+    -- Custos adicionais do cadastro do kit entram no custo da venda
+    kit_extra_cost := 0;
+    IF line.kit_id IS NOT NULL AND jsonb_typeof(line.custos_adicionais) = 'array' THEN
+      SELECT COALESCE(SUM(COALESCE((c->>'valor')::NUMERIC, 0)), 0) INTO kit_extra_cost
+      FROM jsonb_array_elements(line.custos_adicionais) c;
+    END IF;
+
+    goods_cost := movement_cost * line.quantity;
+
+    -- No PEPS o custo da venda é o das camadas consumidas pela saída
+    IF costing = 'fifo' THEN
+      SELECT SUM(quantity * unit_cost) INTO consumed_cost
+      FROM public.cost_layer_consumptions
+      WHERE movement_id = new_movement_id;
+
+      IF consumed_cost IS NOT NULL THEN
+        goods_cost := consumed_cost + kit_extra_cost * line.quantity;
+      END IF;
+    END IF;
+
+    sale_value := line.unit_price * line.quantity;
+    order_total := order_total + sale_value;
+
+    -- Mesmo formato das saídas registradas pela tela de movimentações
+    INSERT INTO public.financeiro (
+      organization_id, user_id, tipo, data, descricao, produto_id, quantidade,
+      custo_total, preco_venda, valor, lucro_liquido, margem_percentual, custos_adicionais
+    )
+    VALUES (
+      order_row.organization_id,
+      auth.uid(),
+      'saida',
+      CURRENT_DATE,
+      'Saída - ' || line.item_name || ' (' || order_row.number || ')',
+      COALESCE(line.product_id, line.kit_id),
+      line.quantity,
+      goods_cost,
+      line.unit_price,
+      sale_value,
+      sale_value - goods_cost,
+      CASE WHEN sale_value > 0 THEN ((sale_value - goods_cost) / sale_value) * 100 ELSE 0 END,
+      '[]'::jsonb
+    );
+  END LOOP;
+
+  RETURN order_total;
+END;
+$$;
+
+-- Fatura um pedido expedido e, opcionalmente, lança a conta a receber do cliente
+CREATE OR REPLACE FUNCTION public.invoice_sales_order(
+  _order_id UUID,
+  _invoice_number TEXT DEFAULT NULL,
+  _create_receivable BOOLEAN DEFAULT false,
+  _due_date DATE DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.sales_orders%ROWTYPE;
+  order_total NUMERIC;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para faturar pedidos';
+  END IF;
+
+  SELECT * INTO order_row
+  FROM public.sales_orders
+  WHERE id = _order_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de venda não encontrado';
+  END IF;
+
+  IF order_row.status <> 'shipped' THEN
+    RAISE EXCEPTION 'Apenas pedidos expedidos podem ser faturados';
+  END IF;
+
+  IF _create_receivable AND _due_date IS NULL THEN
+    RAISE EXCEPTION 'Informe o vencimento da conta a receber';
+  END IF;
+
+  IF _create_receivable THEN
+    SELECT COALESCE(SUM(quantity * unit_price), 0) INTO order_total
+    FROM public.sales_order_lines
+    WHERE order_id = _order_id;
+
+    INSERT INTO public.contas (organization_id, user_id, tipo, descricao, categoria, valor, data_vencimento, status)
+    VALUES (
+      order_row.organization_id,
+      auth.uid(),
+      'Receber',
+      'Pedido de venda ' || order_row.number || ' - ' || order_row.customer_name,
+      'Venda',
+      order_total,
+      _due_date,
+      'Pendente'
+    );
+  END IF;
+
+  UPDATE public.sales_orders
+  SET status = 'invoiced',
+      invoiced_at = now(),
+      invoice_number = NULLIF(TRIM(_invoice_number), '')
+  WHERE id = _order_id;
+END;
+$$;
@@ -0,0 +1,311 @@
+-- Devoluções de clientes e a fornecedores, vinculadas à movimentação original.
+-- A devolução gera uma nova movimentação (entrada para cliente, saída para fornecedor)
+-- e um lançamento de estorno no financeiro, sem alterar o histórico já registrado.
+
+-- Locais de quarentena recebem devoluções de clientes que ainda precisam ser inspecionadas
+ALTER TABLE public.locations
+ADD COLUMN IF NOT EXISTS is_quarantine BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.stock_returns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  -- customer: devolução de uma saída; supplier: devolução de uma entrada
+  kind TEXT NOT NULL CHECK (kind IN ('customer', 'supplier')),
+  -- A movimentação devolvida não pode ser excluída enquanto tiver devoluções
+  original_movement_id UUID NOT NULL REFERENCES public.movements(id) ON DELETE RESTRICT,
+  return_movement_id UUID REFERENCES public.movements(id) ON DELETE CASCADE,
+  reason_code TEXT NOT NULL CHECK (reason_code IN ('defective', 'damaged', 'wrong_item', 'expired', 'not_as_described', 'customer_regret', 'other')),
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_returns_organization ON public.stock_returns(organization_id, created_at);
+CREATE INDEX idx_stock_returns_original_movement ON public.stock_returns(original_movement_id);
+CREATE INDEX idx_stock_returns_return_movement ON public.stock_returns(return_movement_id);
+
+ALTER TABLE public.stock_returns ENABLE ROW LEVEL SECURITY;
+
+-- Devoluções são registradas apenas por register_return
+CREATE POLICY "Users can view stock returns from their organization"
+ON public.stock_returns FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- Estornos de devolução no financeiro: mesmos tipos da venda/compra original, com valores negativos
+ALTER TABLE public.financeiro
+ADD COLUMN IF NOT EXISTS return_id UUID REFERENCES public.stock_returns(id) ON DELETE CASCADE;
+
+ALTER TABLE public.financeiro DROP CONSTRAINT IF EXISTS financeiro_valor_check;
+ALTER TABLE public.financeiro ADD CONSTRAINT financeiro_valor_check CHECK (valor <> 0);
+
+CREATE INDEX idx_financeiro_return ON public.financeiro(return_id) WHERE return_id IS NOT NULL;
+
+-- Registra a devolução de parte ou de toda uma movimentação.
+-- Lotes voltam (ou saem) na proporção da movimentação original; produtos serializados
+-- exigem os números de série devolvidos, que precisam constar da movimentação original.
+-- Retorna o id da devolução.
+CREATE OR REPLACE FUNCTION public.register_return(
+  _movement_id UUID,
+  _quantity NUMERIC,
+  _reason_code TEXT,
+  _location_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _serial_numbers JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original public.movements%ROWTYPE;
+  return_kind TEXT;
+  item_name TEXT;
+  is_serialized BOOLEAN := false;
+  already_returned NUMERIC;
+  ratio NUMERIC;
+  return_location UUID;
+  on_hand NUMERIC;
+  total_quantity NUMERIC;
+  new_return_id UUID;
+  new_movement_id UUID;
+  lot RECORD;
+  serial_number_value TEXT;
+  serial_id_value UUID;
+  goods_cost NUMERIC;
+  consumed_cost NUMERIC;
+  kit_extra_cost NUMERIC := 0;
+  sale_price NUMERIC;
+  sale_value NUMERIC;
+  reversed_value NUMERIC;
+  costing TEXT;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para registrar devoluções';
+  END IF;
+
+  SELECT * INTO original
+  FROM public.movements
+  WHERE id = _movement_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Movimentação não encontrada';
+  END IF;
+
+  IF original.type = 'OUT' THEN
+    return_kind := 'customer';
+  ELSIF original.type = 'IN' THEN
+    return_kind := 'supplier';
+  ELSE
+    RAISE EXCEPTION 'Apenas entradas e saídas podem ser devolvidas';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.stock_returns WHERE return_movement_id = _movement_id) THEN
+    RAISE EXCEPTION 'Uma devolução não pode ser devolvida';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Informe uma quantidade maior que zero';
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO already_returned
+  FROM public.stock_returns
+  WHERE original_movement_id = _movement_id;
+
+  IF already_returned + _quantity > original.quantity THEN
+    RAISE EXCEPTION 'Quantidade maior que o saldo a devolver (%)', original.quantity - already_returned;
+  END IF;
+
+  ratio := _quantity / original.quantity;
+
+  IF original.product_id IS NOT NULL THEN
+    SELECT name, serialized INTO item_name, is_serialized
+    FROM public.products WHERE id = original.product_id;
+  ELSE
+    SELECT name INTO item_name FROM public.kits WHERE id = original.kit_id;
+  END IF;
+
+  IF is_serialized AND jsonb_array_length(COALESCE(_serial_numbers, '[]'::jsonb)) <> _quantity THEN
+    RAISE EXCEPTION 'Informe um número de série por unidade devolvida';
+  END IF;
+
+  -- Cliente devolve para o local de onde saiu (ou para a quarentena escolhida);
+  -- ao fornecedor devolve-se do local onde a mercadoria entrou
+  IF return_kind = 'customer' THEN
+    return_location := COALESCE(_location_id, original.from_location_id);
+  ELSE
+    return_location := COALESCE(_location_id, original.to_location_id);
+
+    IF original.product_id IS NOT NULL THEN
+      SELECT quantity INTO total_quantity FROM public.products WHERE id = original.product_id FOR UPDATE;
+      return_location := COALESCE(return_location, (SELECT location_id FROM public.products WHERE id = original.product_id));
+
+      IF return_location IS NULL THEN
+        SELECT total_quantity - COALESCE(SUM(quantity), 0) INTO on_hand
+        FROM public.stock_balances
+        WHERE product_id = original.product_id;
+      ELSE
+        SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+        FROM public.stock_balances
+        WHERE product_id = original.product_id AND location_id = return_location;
+      END IF;
+
+      IF on_hand < _quantity THEN
+        RAISE EXCEPTION 'Estoque insuficiente para devolver % (disponível: %)', item_name, on_hand;
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO public.stock_returns (
+    organization_id, kind, original_movement_id, reason_code, quantity, location_id, notes, created_by
+  )
+  VALUES (
+    original.organization_id, return_kind, _movement_id, _reason_code, _quantity, return_location,
+    NULLIF(TRIM(_notes), ''), auth.uid()
+  )
+  RETURNING id INTO new_return_id;
+
+  -- A devolução do cliente volta pelo custo com que a mercadoria saiu
+  INSERT INTO public.movements (
+    organization_id, type, product_id, kit_id, quantity, from_location_id, to_location_id,
+    reference, note, created_by, unit_cost
+  )
+  VALUES (
+    original.organization_id,
+    CASE WHEN return_kind = 'customer' THEN 'IN'::movement_type ELSE 'OUT'::movement_type END,
+    original.product_id,
+    original.kit_id,
+    _quantity,
+    CASE WHEN return_kind = 'supplier' THEN return_location END,
+    CASE WHEN return_kind = 'customer' THEN return_location END,
+    original.reference,
+    CASE WHEN return_kind = 'customer' THEN 'Devolução de cliente' ELSE 'Devolução ao fornecedor' END
+      || COALESCE(' - ' || NULLIF(TRIM(_notes), ''), ''),
+    auth.uid(),
+    CASE WHEN return_kind = 'customer' THEN original.unit_cost END
+  )
+  RETURNING id INTO new_movement_id;
+
+  UPDATE public.stock_returns SET return_movement_id = new_movement_id WHERE id = new_return_id;
+
+  -- Lotes: a devolução desfaz, na mesma proporção, o que a movimentação original fez em cada lote
+  FOR lot IN
+    SELECT lot_id, quantity
+    FROM public.movement_lots
+    WHERE movement_id = _movement_id AND ROUND(quantity * ratio, 4) <> 0
+  LOOP
+    INSERT INTO public.movement_lots (organization_id, movement_id, lot_id, quantity)
+    VALUES (original.organization_id, new_movement_id, lot.lot_id, -ROUND(lot.quantity * ratio, 4));
+  END LOOP;
+
+  IF is_serialized THEN
+    FOR serial_number_value IN SELECT TRIM(value) FROM jsonb_array_elements_text(_serial_numbers)
+    LOOP
+      SELECT s.id INTO serial_id_value
+      FROM public.product_serials s
+      JOIN public.movement_serials ms ON ms.serial_id = s.id AND ms.movement_id = _movement_id
+      WHERE s.product_id = original.product_id
+        AND s.serial_number = serial_number_value
+        AND s.status = CASE WHEN return_kind = 'customer' THEN 'out' ELSE 'in_stock' END;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Número de série % não pertence à movimentação ou já foi devolvido', serial_number_value;
+      END IF;
+
+      INSERT INTO public.movement_serials (organization_id, movement_id, serial_id)
+      VALUES (original.organization_id, new_movement_id, serial_id_value);
+    END LOOP;
+  END IF;
+
+  -- Estorno no financeiro
+  IF return_kind = 'customer' THEN
+    IF original.kit_id IS NOT NULL THEN
+      SELECT COALESCE(SUM(COALESCE((c->>'valor')::NUMERIC, 0)), 0) INTO kit_extra_cost
+      FROM public.kits k,
+           jsonb_array_elements(CASE WHEN jsonb_typeof(k.custos_adicionais) = 'array' THEN k.custos_adicionais ELSE '[]'::jsonb END) c
+      WHERE k.id = original.kit_id;
+    END IF;
+
+    goods_cost := COALESCE(original.unit_cost, 0) * _quantity;
+
+    SELECT COALESCE(
+      (SELECT costing_method FROM public.organization_settings WHERE organization_id = original.organization_id),
+      'average'
+    ) INTO costing;
+
+    -- Saídas no PEPS custaram o que consumiram das camadas
+    IF costing = 'fifo' THEN
+      SELECT SUM(quantity * unit_cost) INTO consumed_cost
+      FROM public.cost_layer_consumptions
+      WHERE movement_id = _movement_id;
+
+      IF consumed_cost IS NOT NULL THEN
+        goods_cost := consumed_cost * ratio + kit_extra_cost * _quantity;
+      END IF;
+    END IF;
+
+    sale_price := COALESCE(
+      original.preco_venda_usado,
+      (SELECT preco_venda FROM public.products WHERE id = original.product_id),
+      (SELECT preco_venda FROM public.kits WHERE id = original.kit_id),
+      0
+    );
+    sale_value := sale_price * _quantity;
+
+    IF sale_value > 0 THEN
+      INSERT INTO public.financeiro (
+        organization_id, user_id, tipo, data, descricao, produto_id, quantidade,
+        custo_total, preco_venda, valor, lucro_liquido, margem_percentual, custos_adicionais, return_id
+      )
+      VALUES (
+        original.organization_id,
+        auth.uid(),
+        'saida',
+        CURRENT_DATE,
+        'Devolução - ' || item_name || COALESCE(' (' || original.reference || ')', ''),
+        COALESCE(original.product_id, original.kit_id),
+        -_quantity,
+        -goods_cost,
+        sale_price,
+        -sale_value,
+        -(sale_value - goods_cost),
+        ((sale_value - goods_cost) / sale_value) * 100,
+        '[]'::jsonb,
+        new_return_id
+      );
+    END IF;
+  ELSE
+    reversed_value := COALESCE(original.unit_cost, 0) * _quantity;
+
+    IF reversed_value > 0 THEN
+      INSERT INTO public.financeiro (
+        organization_id, user_id, tipo, data, descricao, produto_id, quantidade,
+        custo_total, preco_venda, valor, lucro_liquido, margem_percentual, custos_adicionais, return_id
+      )
+      VALUES (
+        original.organization_id,
+        auth.uid(),
+        'entrada',
+        CURRENT_DATE,
+        'Devolução ao fornecedor - ' || item_name || COALESCE(' (' || original.reference || ')', ''),
+        COALESCE(original.product_id, original.kit_id),
+        -_quantity,
+        -reversed_value,
+        0,
+        -reversed_value,
+        0,
+        0,
+        '[]'::jsonb,
+        new_return_id
+      );
+    END IF;
+  END IF;
+
+  RETURN new_return_id;
+END;
+$$;
@@ -0,0 +1,725 @@
+-- Montagem e desmontagem de kits: kits passam a ter estoque próprio por local.
+-- A montagem consome os componentes (kit_items) e dá entrada nas unidades montadas;
+-- a desmontagem faz o inverso. Movimentações de kit marcadas como "assembled" movem as
+-- unidades montadas; as demais continuam movimentando diretamente os componentes.
+
+CREATE TABLE public.kit_stock_balances (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  kit_id UUID NOT NULL REFERENCES public.kits(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id),
+  quantity NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (kit_id, location_id)
+);
+
+CREATE TABLE public.kit_assembly_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  number TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('assembly', 'disassembly')),
+  kit_id UUID NOT NULL REFERENCES public.kits(id) ON DELETE CASCADE,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  location_id UUID NOT NULL REFERENCES public.locations(id),
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, number)
+);
+
+ALTER TABLE public.movements
+ADD COLUMN IF NOT EXISTS assembled BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS kit_assembly_order_id UUID REFERENCES public.kit_assembly_orders(id) ON DELETE SET NULL;
+
+-- Linhas de kit reservadas a partir das unidades montadas (e não dos componentes)
+ALTER TABLE public.sales_order_lines
+ADD COLUMN IF NOT EXISTS reserved_assembled BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_kit_stock_balances_organization ON public.kit_stock_balances(organization_id);
+CREATE INDEX idx_kit_assembly_orders_organization ON public.kit_assembly_orders(organization_id, created_at DESC);
+CREATE INDEX idx_movements_kit_assembly_order ON public.movements(kit_assembly_order_id) WHERE kit_assembly_order_id IS NOT NULL;
+
+ALTER TABLE public.kit_stock_balances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.kit_assembly_orders ENABLE ROW LEVEL SECURITY;
+
+-- Saldos e ordens são gravados apenas pelos triggers e por register_kit_assembly
+CREATE POLICY "Users can view kit stock balances from their organization"
+ON public.kit_stock_balances FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Users can view kit assembly orders from their organization"
+ON public.kit_assembly_orders FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE TRIGGER update_kit_stock_balances_updated_at
+BEFORE UPDATE ON public.kit_stock_balances
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_kit_assembly_orders_updated_at
+BEFORE UPDATE ON public.kit_assembly_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Numeração sequencial por organização: OM-00001, OM-00002, ...
+CREATE OR REPLACE FUNCTION public.set_kit_assembly_order_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.number IS NULL OR NEW.number = '' THEN
+    PERFORM pg_advisory_xact_lock(hashtext('kit_assembly_orders:' || NEW.organization_id::TEXT));
+
+    SELECT 'OM-' || LPAD((COUNT(*) + 1)::TEXT, 5, '0')
+    INTO NEW.number
+    FROM public.kit_assembly_orders
+    WHERE organization_id = NEW.organization_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_kit_assembly_order_number() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER set_kit_assembly_order_number_trigger
+BEFORE INSERT ON public.kit_assembly_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.set_kit_assembly_order_number();
+
+-- Ajusta o saldo de kits montados em um local (cria o registro se necessário)
+CREATE OR REPLACE FUNCTION public.adjust_kit_stock_balance(_kit_id UUID, _location_id UUID, _delta NUMERIC)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _kit_id IS NULL OR _location_id IS NULL OR _delta = 0 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.kit_stock_balances (organization_id, kit_id, location_id, quantity)
+  SELECT k.organization_id, k.id, _location_id, _delta
+  FROM public.kits k
+  WHERE k.id = _kit_id
+  ON CONFLICT (kit_id, location_id)
+  DO UPDATE SET quantity = public.kit_stock_balances.quantity + EXCLUDED.quantity;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.adjust_kit_stock_balance(UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Kits montados movimentam o próprio saldo; os demais movimentam cada componente
+-- no local da movimentação (inclusive transferências)
+CREATE OR REPLACE FUNCTION public.process_kit_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  item RECORD;
+BEGIN
+  -- Reverse the old kit movement on UPDATE/DELETE
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.kit_id IS NOT NULL THEN
+    IF OLD.assembled THEN
+      IF OLD.type IN ('OUT', 'TRANSFER') THEN
+        PERFORM public.adjust_kit_stock_balance(OLD.kit_id, OLD.from_location_id, OLD.quantity);
+      END IF;
+      IF OLD.type IN ('IN', 'TRANSFER') THEN
+        PERFORM public.adjust_kit_stock_balance(OLD.kit_id, OLD.to_location_id, -OLD.quantity);
+      END IF;
+    ELSE
+      FOR item IN
+        SELECT product_id, quantity
+        FROM public.kit_items
+        WHERE kit_id = OLD.kit_id
+      LOOP
+        PERFORM public.apply_movement_stock(item.product_id, OLD.type, item.quantity * OLD.quantity, OLD.from_location_id, OLD.to_location_id, -1);
+      END LOOP;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF NEW.kit_id IS NOT NULL AND NEW.assembled THEN
+    -- Kits montados não têm local padrão: o saldo precisa de um local explícito
+    IF (NEW.type IN ('OUT', 'TRANSFER') AND NEW.from_location_id IS NULL) OR
+       (NEW.type IN ('IN', 'TRANSFER') AND NEW.to_location_id IS NULL) THEN
+      RAISE EXCEPTION 'Informe o local dos kits montados';
+    END IF;
+
+    IF NEW.type IN ('OUT', 'TRANSFER') THEN
+      PERFORM public.adjust_kit_stock_balance(NEW.kit_id, NEW.from_location_id, -NEW.quantity);
+    END IF;
+    IF NEW.type IN ('IN', 'TRANSFER') THEN
+      PERFORM public.adjust_kit_stock_balance(NEW.kit_id, NEW.to_location_id, NEW.quantity);
+    END IF;
+  ELSIF NEW.kit_id IS NOT NULL THEN
+    FOR item IN
+      SELECT product_id, quantity
+      FROM public.kit_items
+      WHERE kit_id = NEW.kit_id
+    LOOP
+      PERFORM public.apply_movement_stock(item.product_id, NEW.type, item.quantity * NEW.quantity, NEW.from_location_id, NEW.to_location_id, 1);
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.record_cost_layers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item RECORD;
+BEGIN
+  IF NEW.product_id IS NOT NULL AND NEW.kit_id IS NULL THEN
+    IF NEW.type = 'IN' OR (NEW.type = 'ADJUSTMENT' AND NEW.quantity > 0) THEN
+      INSERT INTO public.cost_layers (organization_id, product_id, movement_id, received_at, unit_cost, original_quantity, remaining_quantity)
+      VALUES (NEW.organization_id, NEW.product_id, NEW.id, NEW.created_at, COALESCE(NEW.unit_cost, 0), NEW.quantity, NEW.quantity);
+    ELSIF NEW.type = 'OUT' THEN
+      PERFORM public.consume_cost_layers(NEW.id, NEW.organization_id, NEW.product_id, NEW.quantity);
+    ELSIF NEW.type = 'ADJUSTMENT' AND NEW.quantity < 0 THEN
+      PERFORM public.consume_cost_layers(NEW.id, NEW.organization_id, NEW.product_id, -NEW.quantity);
+    END IF;
+  ELSIF NEW.kit_id IS NOT NULL AND NOT NEW.assembled THEN
+    -- Kits movimentam os componentes: cada componente tem suas próprias camadas.
+    -- Kits montados não mexem nas camadas: os componentes já saíram na montagem.
+    FOR item IN
+      SELECT ki.product_id, ki.quantity, COALESCE(p.custo_unitario, 0) AS custo_unitario
+      FROM public.kit_items ki
+      JOIN public.products p ON p.id = ki.product_id
+      WHERE ki.kit_id = NEW.kit_id
+    LOOP
+      IF NEW.type = 'IN' THEN
+        INSERT INTO public.cost_layers (organization_id, product_id, movement_id, received_at, unit_cost, original_quantity, remaining_quantity)
+        VALUES (NEW.organization_id, item.product_id, NEW.id, NEW.created_at, item.custo_unitario,
+                item.quantity * NEW.quantity, item.quantity * NEW.quantity);
+      ELSIF NEW.type = 'OUT' THEN
+        PERFORM public.consume_cost_layers(NEW.id, NEW.organization_id, item.product_id, item.quantity * NEW.quantity);
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Reservas de componentes ignoram as linhas de kit reservadas a partir de kits montados
+CREATE OR REPLACE FUNCTION public.get_reserved_quantities()
+RETURNS TABLE (product_id UUID, location_id UUID, reserved_quantity NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, COALESCE(so.location_id, p.location_id), SUM(demand.quantity)
+  FROM public.sales_orders so
+  JOIN public.sales_order_lines l ON l.order_id = so.id
+  JOIN LATERAL (
+    SELECT l.product_id, l.quantity
+    WHERE l.product_id IS NOT NULL
+    UNION ALL
+    SELECT ki.product_id, ki.quantity * l.quantity
+    FROM public.kit_items ki
+    WHERE ki.kit_id = l.kit_id
+      AND NOT l.reserved_assembled
+  ) demand ON true
+  JOIN public.products p ON p.id = demand.product_id
+  WHERE so.organization_id = public.get_user_organization_id(auth.uid())
+    AND so.status IN ('reserved', 'picked')
+  GROUP BY p.id, COALESCE(so.location_id, p.location_id);
+$$;
+
+-- Kits montados reservados por local
+CREATE OR REPLACE FUNCTION public.get_reserved_kit_quantities()
+RETURNS TABLE (kit_id UUID, location_id UUID, reserved_quantity NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.kit_id, so.location_id, SUM(l.quantity)
+  FROM public.sales_orders so
+  JOIN public.sales_order_lines l ON l.order_id = so.id
+  WHERE so.organization_id = public.get_user_organization_id(auth.uid())
+    AND so.status IN ('reserved', 'picked')
+    AND l.reserved_assembled
+  GROUP BY l.kit_id, so.location_id;
+$$;
+
+-- Reserva o estoque de um pedido aberto. Linhas de kit usam as unidades montadas
+-- quando o local do pedido tem o suficiente; caso contrário reservam os componentes.
+CREATE OR REPLACE FUNCTION public.reserve_sales_order(_order_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.sales_orders%ROWTYPE;
+  item RECORD;
+  kit_line RECORD;
+  on_hand NUMERIC;
+  reserved NUMERIC;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para reservar pedidos';
+  END IF;
+
+  SELECT * INTO order_row
+  FROM public.sales_orders
+  WHERE id = _order_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de venda não encontrado';
+  END IF;
+
+  IF order_row.status <> 'open' THEN
+    RAISE EXCEPTION 'Apenas pedidos abertos podem ser reservados';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.sales_order_lines WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'O pedido não possui itens';
+  END IF;
+
+  UPDATE public.sales_order_lines
+  SET reserved_assembled = false
+  WHERE order_id = _order_id;
+
+  -- Kits montados só existem em locais definidos
+  IF order_row.location_id IS NOT NULL THEN
+    FOR kit_line IN
+      SELECT l.id, l.kit_id, l.quantity
+      FROM public.sales_order_lines l
+      WHERE l.order_id = _order_id AND l.kit_id IS NOT NULL
+      ORDER BY l.kit_id, l.created_at
+    LOOP
+      PERFORM 1 FROM public.kits WHERE id = kit_line.kit_id FOR UPDATE;
+
+      SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+      FROM public.kit_stock_balances
+      WHERE kit_id = kit_line.kit_id AND location_id = order_row.location_id;
+
+      -- Outros pedidos e as linhas deste pedido já atendidas por kits montados
+      SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+      FROM public.get_reserved_kit_quantities() r
+      WHERE r.kit_id = kit_line.kit_id AND r.location_id = order_row.location_id;
+
+      reserved := reserved + COALESCE((
+        SELECT SUM(quantity)
+        FROM public.sales_order_lines
+        WHERE order_id = _order_id AND kit_id = kit_line.kit_id AND reserved_assembled
+      ), 0);
+
+      IF on_hand - reserved >= kit_line.quantity THEN
+        UPDATE public.sales_order_lines SET reserved_assembled = true WHERE id = kit_line.id;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Serializa reservas concorrentes dos mesmos produtos
+  FOR item IN
+    SELECT p.id, p.name, p.quantity AS total_quantity,
+           COALESCE(order_row.location_id, p.location_id) AS location_id,
+           SUM(demand.quantity) AS required
+    FROM public.sales_order_lines l
+    JOIN LATERAL (
+      SELECT l.product_id, l.quantity
+      WHERE l.product_id IS NOT NULL
+      UNION ALL
+      SELECT ki.product_id, ki.quantity * l.quantity
+      FROM public.kit_items ki
+      WHERE ki.kit_id = l.kit_id
+        AND NOT l.reserved_assembled
+    ) demand ON true
+    JOIN public.products p ON p.id = demand.product_id
+    WHERE l.order_id = _order_id
+    GROUP BY p.id, p.name, p.quantity, COALESCE(order_row.location_id, p.location_id)
+    ORDER BY p.id
+  LOOP
+    PERFORM 1 FROM public.products WHERE id = item.id FOR UPDATE;
+
+    IF item.location_id IS NULL THEN
+      SELECT item.total_quantity - COALESCE(SUM(quantity), 0) INTO on_hand
+      FROM public.stock_balances
+      WHERE product_id = item.id;
+    ELSE
+      SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+      FROM public.stock_balances
+      WHERE product_id = item.id AND location_id = item.location_id;
+    END IF;
+
+    SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+    FROM public.get_reserved_quantities() r
+    WHERE r.product_id = item.id
+      AND r.location_id IS NOT DISTINCT FROM item.location_id;
+
+    IF on_hand - reserved < item.required THEN
+      RAISE EXCEPTION 'Estoque disponível insuficiente para % (disponível: %, necessário: %)',
+        item.name, on_hand - reserved, item.required;
+    END IF;
+  END LOOP;
+
+  UPDATE public.sales_orders
+  SET status = 'reserved', reserved_at = now()
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Expede um pedido separado: uma saída por linha (no local do pedido), lotes por FEFO,
+-- números de série informados para produtos serializados e a venda no financeiro.
+-- Linhas de kit reservadas a partir de kits montados saem do saldo montado.
+-- _serials: [{ "line_id": uuid, "serial_numbers": ["..."] }]
+-- Retorna o valor total vendido.
+CREATE OR REPLACE FUNCTION public.ship_sales_order(_order_id UUID, _serials JSONB DEFAULT '[]'::jsonb)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.sales_orders%ROWTYPE;
+  line RECORD;
+  component RECORD;
+  serial_numbers JSONB;
+  serial_number_value TEXT;
+  serial_id_value UUID;
+  new_movement_id UUID;
+  movement_cost NUMERIC;
+  kit_extra_cost NUMERIC;
+  goods_cost NUMERIC;
+  consumed_cost NUMERIC;
+  sale_value NUMERIC;
+  costing TEXT;
+  order_total NUMERIC := 0;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para expedir pedidos';
+  END IF;
+
+  SELECT * INTO order_row
+  FROM public.sales_orders
+  WHERE id = _order_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de venda não encontrado';
+  END IF;
+
+  IF order_row.status <> 'picked' THEN
+    RAISE EXCEPTION 'Apenas pedidos separados podem ser expedidos';
+  END IF;
+
+  SELECT COALESCE(
+    (SELECT costing_method FROM public.organization_settings WHERE organization_id = order_row.organization_id),
+    'average'
+  ) INTO costing;
+
+  -- A reserva é liberada antes das saídas para que o disponível não conte o próprio pedido
+  UPDATE public.sales_orders
+  SET status = 'shipped', shipped_at = now()
+  WHERE id = _order_id;
+
+  FOR line IN
+    SELECT l.*,
+           COALESCE(p.name, k.name) AS item_name,
+           COALESCE(p.track_lots, false) AS track_lots,
+           COALESCE(p.serialized, false) AS serialized,
+           k.custos_adicionais
+    FROM public.sales_order_lines l
+    LEFT JOIN public.products p ON p.id = l.product_id
+    LEFT JOIN public.kits k ON k.id = l.kit_id
+    WHERE l.order_id = _order_id
+    ORDER BY l.created_at
+  LOOP
+    IF line.serialized THEN
+      serial_numbers := NULL;
+      SELECT s->'serial_numbers' INTO serial_numbers
+      FROM jsonb_array_elements(COALESCE(_serials, '[]'::jsonb)) s
+      WHERE (s->>'line_id')::UUID = line.id;
+
+      IF jsonb_array_length(COALESCE(serial_numbers, '[]'::jsonb)) <> line.quantity THEN
+        RAISE EXCEPTION 'Informe um número de série por unidade de %', line.item_name;
+      END IF;
+    END IF;
+
+    INSERT INTO public.movements (
+      organization_id, type, product_id, kit_id, quantity, from_location_id,
+      reference, note, created_by, preco_venda_usado, sales_order_line_id, assembled
+    )
+    VALUES (
+      order_row.organization_id,
+      'OUT',
+      line.product_id,
+      line.kit_id,
+      line.quantity,
+      order_row.location_id,
+      order_row.number,
+      'Expedição do pedido de venda ' || order_row.number || ' - ' || order_row.customer_name,
+      auth.uid(),
+      line.unit_price,
+      line.id,
+      line.kit_id IS NOT NULL AND line.reserved_assembled
+    )
+    RETURNING id, COALESCE(unit_cost, 0) INTO new_movement_id, movement_cost;
+
+    IF line.product_id IS NOT NULL AND line.track_lots THEN
+      PERFORM public.consume_lots_fefo(new_movement_id, order_row.organization_id, line.product_id, line.quantity);
+    ELSIF line.kit_id IS NOT NULL AND NOT line.reserved_assembled THEN
+      FOR component IN
+        SELECT ki.product_id, ki.quantity
+        FROM public.kit_items ki
+        JOIN public.products p ON p.id = ki.product_id
+        WHERE ki.kit_id = line.kit_id AND p.track_lots
+      LOOP
+        PERFORM public.consume_lots_fefo(new_movement_id, order_row.organization_id, component.product_id, component.quantity * line.quantity);
+      END LOOP;
+    END IF;
+
+    IF line.serialized THEN
+      FOR serial_number_value IN SELECT TRIM(value) FROM jsonb_array_elements_text(serial_numbers)
+      LOOP
+        SELECT id INTO serial_id_value
+        FROM public.product_serials
+        WHERE product_id = line.product_id AND serial_number = serial_number_value AND status = 'in_stock';
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Número de série % não está em estoque', serial_number_value;
+        END IF;
+
+        INSERT INTO public.movement_serials (organization_id, movement_id, serial_id)
+        VALUES (order_row.organization_id, new_movement_id, serial_id_value);
+      END LOOP;
+    END IF;
+
+    -- Custos adicionais do cadastro do kit entram no custo da venda
+    kit_extra_cost := 0;
+    IF line.kit_id IS NOT NULL AND jsonb_typeof(line.custos_adicionais) = 'array' THEN
+      SELECT COALESCE(SUM(COALESCE((c->>'valor')::NUMERIC, 0)), 0) INTO kit_extra_cost
+      FROM jsonb_array_elements(line.custos_adicionais) c;
+    END IF;
+
+    goods_cost := movement_cost * line.quantity;
+
+    -- No PEPS o custo da venda é o das camadas consumidas pela saída
+    IF costing = 'fifo' THEN
+      SELECT SUM(quantity * unit_cost) INTO consumed_cost
+      FROM public.cost_layer_consumptions
+      WHERE movement_id = new_movement_id;
+
+      IF consumed_cost IS NOT NULL THEN
+        goods_cost := consumed_cost + kit_extra_cost * line.quantity;
+      END IF;
+    END IF;
+
+    sale_value := line.unit_price * line.quantity;
+    order_total := order_total + sale_value;
+
+    -- Mesmo formato das saídas registradas pela tela de movimentações
+    INSERT INTO public.financeiro (
+      organization_id, user_id, tipo, data, descricao, produto_id, quantidade,
+      custo_total, preco_venda, valor, lucro_liquido, margem_percentual, custos_adicionais
+    )
+    VALUES (
+      order_row.organization_id,
+      auth.uid(),
+      'saida',
+      CURRENT_DATE,
+      'Saída - ' || line.item_name || ' (' || order_row.number || ')',
+      COALESCE(line.product_id, line.kit_id),
+      line.quantity,
+      goods_cost,
+      line.unit_price,
+      sale_value,
+      sale_value - goods_cost,
+      CASE WHEN sale_value > 0 THEN ((sale_value - goods_cost) / sale_value) * 100 ELSE 0 END,
+      '[]'::jsonb
+    );
+  END LOOP;
+
+  RETURN order_total;
+END;
+$$;
+
+-- Registra uma ordem de montagem (componentes saem, kits montados entram) ou de
+-- desmontagem (kits montados saem, componentes voltam) em um local.
+-- Componentes com controle de lote saem por FEFO; componentes serializados não são suportados.
+-- Retorna o id da ordem.
+CREATE OR REPLACE FUNCTION public.register_kit_assembly(
+  _kit_id UUID,
+  _kind TEXT,
+  _quantity NUMERIC,
+  _location_id UUID,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kit_row public.kits%ROWTYPE;
+  component RECORD;
+  on_hand NUMERIC;
+  reserved NUMERIC;
+  new_order_id UUID;
+  order_number TEXT;
+  order_note TEXT;
+  new_movement_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para montar kits';
+  END IF;
+
+  SELECT * INTO kit_row
+  FROM public.kits
+  WHERE id = _kit_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Kit não encontrado';
+  END IF;
+
+  IF _kind NOT IN ('assembly', 'disassembly') THEN
+    RAISE EXCEPTION 'Tipo de ordem inválido';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Informe uma quantidade maior que zero';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.locations
+    WHERE id = _location_id AND organization_id = kit_row.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Selecione o local da montagem';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.kit_items WHERE kit_id = _kit_id) THEN
+    RAISE EXCEPTION 'O kit não possui componentes';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.kit_items ki
+    JOIN public.products p ON p.id = ki.product_id
+    WHERE ki.kit_id = _kit_id AND p.serialized
+  ) THEN
+    RAISE EXCEPTION 'Kits com componentes serializados não podem ser montados em estoque';
+  END IF;
+
+  IF _kind = 'assembly' THEN
+    FOR component IN
+      SELECT p.id, p.name, ki.quantity * _quantity AS required
+      FROM public.kit_items ki
+      JOIN public.products p ON p.id = ki.product_id
+      WHERE ki.kit_id = _kit_id
+      ORDER BY p.id
+    LOOP
+      PERFORM 1 FROM public.products WHERE id = component.id FOR UPDATE;
+
+      SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+      FROM public.stock_balances
+      WHERE product_id = component.id AND location_id = _location_id;
+
+      SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+      FROM public.get_reserved_quantities() r
+      WHERE r.product_id = component.id AND r.location_id = _location_id;
+
+      IF on_hand - reserved < component.required THEN
+        RAISE EXCEPTION 'Estoque disponível insuficiente de % para montar (disponível: %, necessário: %)',
+          component.name, on_hand - reserved, component.required;
+      END IF;
+    END LOOP;
+  ELSE
+    SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+    FROM public.kit_stock_balances
+    WHERE kit_id = _kit_id AND location_id = _location_id;
+
+    SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+    FROM public.get_reserved_kit_quantities() r
+    WHERE r.kit_id = _kit_id AND r.location_id = _location_id;
+
+    IF on_hand - reserved < _quantity THEN
+      RAISE EXCEPTION 'Kits montados insuficientes para desmontar (disponível: %)', on_hand - reserved;
+    END IF;
+  END IF;
+
+  INSERT INTO public.kit_assembly_orders (organization_id, kind, kit_id, quantity, location_id, notes, created_by)
+  VALUES (kit_row.organization_id, _kind, _kit_id, _quantity, _location_id, NULLIF(TRIM(_notes), ''), auth.uid())
+  RETURNING id, number INTO new_order_id, order_number;
+
+  order_note := CASE WHEN _kind = 'assembly' THEN 'Montagem de kit ' ELSE 'Desmontagem de kit ' END
+    || order_number || ' - ' || kit_row.name;
+
+  -- Componentes: saem na montagem (lotes por FEFO) e voltam pelo custo médio na desmontagem
+  FOR component IN
+    SELECT p.id, p.track_lots, ki.quantity * _quantity AS quantity
+    FROM public.kit_items ki
+    JOIN public.products p ON p.id = ki.product_id
+    WHERE ki.kit_id = _kit_id
+    ORDER BY p.id
+  LOOP
+    INSERT INTO public.movements (
+      organization_id, type, product_id, quantity, from_location_id, to_location_id,
+      reference, note, created_by, kit_assembly_order_id
+    )
+    VALUES (
+      kit_row.organization_id,
+      CASE WHEN _kind = 'assembly' THEN 'OUT'::movement_type ELSE 'IN'::movement_type END,
+      component.id,
+      component.quantity,
+      CASE WHEN _kind = 'assembly' THEN _location_id END,
+      CASE WHEN _kind = 'disassembly' THEN _location_id END,
+      order_number,
+      order_note,
+      auth.uid(),
+      new_order_id
+    )
+    RETURNING id INTO new_movement_id;
+
+    IF _kind = 'assembly' AND component.track_lots THEN
+      PERFORM public.consume_lots_fefo(new_movement_id, kit_row.organization_id, component.id, component.quantity);
+    END IF;
+  END LOOP;
+
+  -- Kits montados
+  INSERT INTO public.movements (
+    organization_id, type, kit_id, quantity, from_location_id, to_location_id,
+    reference, note, created_by, kit_assembly_order_id, assembled
+  )
+  VALUES (
+    kit_row.organization_id,
+    CASE WHEN _kind = 'assembly' THEN 'IN'::movement_type ELSE 'OUT'::movement_type END,
+    _kit_id,
+    _quantity,
+    CASE WHEN _kind = 'disassembly' THEN _location_id END,
+    CASE WHEN _kind = 'assembly' THEN _location_id END,
+    order_number,
+    order_note,
+    auth.uid(),
+    new_order_id,
+    true
+  );
+
+  RETURN new_order_id;
+END;
+$$;
@@ -0,0 +1,1031 @@
+-- Composição em vários níveis: um item de kit pode ser um produto ou outro kit.
+-- Custos, baixas de estoque, camadas PEPS e reservas passam a descer por todos os
+-- níveis da composição até os produtos.
+
+ALTER TABLE public.kit_items
+ADD COLUMN IF NOT EXISTS component_kit_id UUID REFERENCES public.kits(id) ON DELETE RESTRICT;
+
+ALTER TABLE public.kit_items ALTER COLUMN product_id DROP NOT NULL;
+
+ALTER TABLE public.kit_items
+ADD CONSTRAINT kit_items_component_check CHECK ((product_id IS NULL) <> (component_kit_id IS NULL)),
+ADD CONSTRAINT kit_items_not_self_check CHECK (component_kit_id IS DISTINCT FROM kit_id),
+ADD CONSTRAINT kit_items_kit_id_component_kit_id_key UNIQUE (kit_id, component_kit_id);
+
+CREATE INDEX IF NOT EXISTS idx_kit_items_component_kit_id ON public.kit_items(component_kit_id) WHERE component_kit_id IS NOT NULL;
+
+-- Todos os kits da árvore de um kit (ele incluído) e quantas unidades de cada um
+-- cabem em uma unidade do kit. Um kit usado em mais de um ramo aparece uma vez por ramo.
+CREATE OR REPLACE FUNCTION public.kit_bom_levels(_kit_id UUID)
+RETURNS TABLE (kit_id UUID, multiplier NUMERIC)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE tree AS (
+    SELECT _kit_id AS kit_id, 1::NUMERIC AS multiplier, ARRAY[_kit_id] AS path
+    UNION ALL
+    SELECT ki.component_kit_id, tree.multiplier * ki.quantity, tree.path || ki.component_kit_id
+    FROM tree
+    JOIN public.kit_items ki ON ki.kit_id = tree.kit_id
+    WHERE ki.component_kit_id IS NOT NULL
+      AND NOT ki.component_kit_id = ANY (tree.path)
+  )
+  SELECT kit_id, multiplier FROM tree;
+$$;
+
+-- Produtos consumidos por uma unidade do kit, somando todos os níveis
+CREATE OR REPLACE FUNCTION public.expand_kit_components(_kit_id UUID)
+RETURNS TABLE (product_id UUID, quantity NUMERIC)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ki.product_id, SUM(levels.multiplier * ki.quantity)
+  FROM public.kit_bom_levels(_kit_id) levels
+  JOIN public.kit_items ki ON ki.kit_id = levels.kit_id
+  WHERE ki.product_id IS NOT NULL
+  GROUP BY ki.product_id;
+$$;
+
+-- Custos adicionais do kit e de todos os sub-kits, cada um pelo número de vezes que aparece
+CREATE OR REPLACE FUNCTION public.get_kit_extra_cost(_kit_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(levels.multiplier * COALESCE((c->>'valor')::NUMERIC, 0)), 0)
+  FROM public.kit_bom_levels(_kit_id) levels
+  JOIN public.kits k ON k.id = levels.kit_id
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(k.custos_adicionais) = 'array' THEN k.custos_adicionais ELSE '[]'::jsonb END
+  ) c;
+$$;
+
+-- Custo unitário do kit: produtos de todos os níveis pelo custo vigente mais os custos adicionais
+CREATE OR REPLACE FUNCTION public.get_kit_unit_cost(_kit_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT SUM(COALESCE(p.custo_unitario, 0) * components.quantity)
+    FROM public.expand_kit_components(_kit_id) components
+    JOIN public.products p ON p.id = components.product_id
+  ), 0) + public.get_kit_extra_cost(_kit_id);
+$$;
+
+-- Impede que um kit contenha a si mesmo, direta ou indiretamente, e que use kits de outra organização
+CREATE OR REPLACE FUNCTION public.prevent_kit_cycle()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  parent_kit public.kits%ROWTYPE;
+  component_name TEXT;
+BEGIN
+  IF NEW.component_kit_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent_kit FROM public.kits WHERE id = NEW.kit_id;
+
+  SELECT name INTO component_name
+  FROM public.kits
+  WHERE id = NEW.component_kit_id AND organization_id = parent_kit.organization_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Kit componente não encontrado';
+  END IF;
+
+  -- Serializa alterações de composição da organização para que duas inclusões simultâneas não fechem um ciclo
+  PERFORM pg_advisory_xact_lock(hashtext('kit_items:' || parent_kit.organization_id::TEXT));
+
+  IF EXISTS (SELECT 1 FROM public.kit_bom_levels(NEW.component_kit_id) levels WHERE levels.kit_id = NEW.kit_id) THEN
+    RAISE EXCEPTION 'O kit % não pode conter % porque já faz parte da composição dele', parent_kit.name, component_name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prevent_kit_cycle() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER prevent_kit_cycle_trigger
+BEFORE INSERT OR UPDATE ON public.kit_items
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_kit_cycle();
+
+CREATE OR REPLACE FUNCTION public.apply_movement_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_quantity NUMERIC;
+  current_cost NUMERIC;
+  new_cost NUMERIC;
+BEGIN
+  IF NEW.kit_id IS NOT NULL THEN
+    -- Kits não têm custo próprio: produtos de todos os níveis mais os custos adicionais dos cadastros
+    NEW.unit_cost := public.get_kit_unit_cost(NEW.kit_id);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.product_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT quantity, COALESCE(custo_unitario, 0)
+  INTO current_quantity, current_cost
+  FROM public.products
+  WHERE id = NEW.product_id
+  FOR UPDATE;
+
+  IF NEW.type = 'IN' THEN
+    NEW.unit_cost := COALESCE(NEW.unit_cost, current_cost);
+
+    -- Sem saldo positivo o estoque anterior não pesa na média
+    IF current_quantity <= 0 THEN
+      new_cost := NEW.unit_cost;
+    ELSE
+      new_cost := ROUND(
+        (current_quantity * current_cost + NEW.quantity * NEW.unit_cost) / (current_quantity + NEW.quantity),
+        4
+      );
+    END IF;
+
+    UPDATE public.products
+    SET custo_unitario = new_cost,
+        cost = new_cost
+    WHERE id = NEW.product_id;
+
+    NEW.average_cost := new_cost;
+  ELSE
+    -- Saídas, transferências e ajustes saem pelo custo médio vigente
+    NEW.unit_cost := current_cost;
+    NEW.average_cost := current_cost;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Kits montados movimentam o próprio saldo; os demais movimentam os produtos de todos os
+-- níveis da composição no local da movimentação (inclusive transferências)
+CREATE OR REPLACE FUNCTION public.process_kit_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  item RECORD;
+BEGIN
+  -- Reverse the old kit movement on UPDATE/DELETE
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.kit_id IS NOT NULL THEN
+    IF OLD.assembled THEN
+      IF OLD.type IN ('OUT', 'TRANSFER') THEN
+        PERFORM public.adjust_kit_stock_balance(OLD.kit_id, OLD.from_location_id, OLD.quantity);
+      END IF;
+      IF OLD.type IN ('IN', 'TRANSFER') THEN
+        PERFORM public.adjust_kit_stock_balance(OLD.kit_id, OLD.to_location_id, -OLD.quantity);
+      END IF;
+    ELSE
+      FOR item IN
+        SELECT product_id, quantity
+        FROM public.expand_kit_components(OLD.kit_id)
+      LOOP
+        PERFORM public.apply_movement_stock(item.product_id, OLD.type, item.quantity * OLD.quantity, OLD.from_location_id, OLD.to_location_id, -1);
+      END LOOP;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+
+  IF NEW.kit_id IS NOT NULL AND NEW.assembled THEN
+    -- Kits montados não têm local padrão: o saldo precisa de um local explícito
+    IF (NEW.type IN ('OUT', 'TRANSFER') AND NEW.from_location_id IS NULL) OR
+       (NEW.type IN ('IN', 'TRANSFER') AND NEW.to_location_id IS NULL) THEN
+      RAISE EXCEPTION 'Informe o local dos kits montados';
+    END IF;
+
+    IF NEW.type IN ('OUT', 'TRANSFER') THEN
+      PERFORM public.adjust_kit_stock_balance(NEW.kit_id, NEW.from_location_id, -NEW.quantity);
+    END IF;
+    IF NEW.type IN ('IN', 'TRANSFER') THEN
+      PERFORM public.adjust_kit_stock_balance(NEW.kit_id, NEW.to_location_id, NEW.quantity);
+    END IF;
+  ELSIF NEW.kit_id IS NOT NULL THEN
+    FOR item IN
+      SELECT product_id, quantity
+      FROM public.expand_kit_components(NEW.kit_id)
+    LOOP
+      PERFORM public.apply_movement_stock(item.product_id, NEW.type, item.quantity * NEW.quantity, NEW.from_location_id, NEW.to_location_id, 1);
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.record_cost_layers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item RECORD;
+BEGIN
+  IF NEW.product_id IS NOT NULL AND NEW.kit_id IS NULL THEN
+    IF NEW.type = 'IN' OR (NEW.type = 'ADJUSTMENT' AND NEW.quantity > 0) THEN
+      INSERT INTO public.cost_layers (organization_id, product_id, movement_id, received_at, unit_cost, original_quantity, remaining_quantity)
+      VALUES (NEW.organization_id, NEW.product_id, NEW.id, NEW.created_at, COALESCE(NEW.unit_cost, 0), NEW.quantity, NEW.quantity);
+    ELSIF NEW.type = 'OUT' THEN
+      PERFORM public.consume_cost_layers(NEW.id, NEW.organization_id, NEW.product_id, NEW.quantity);
+    ELSIF NEW.type = 'ADJUSTMENT' AND NEW.quantity < 0 THEN
+      PERFORM public.consume_cost_layers(NEW.id, NEW.organization_id, NEW.product_id, -NEW.quantity);
+    END IF;
+  ELSIF NEW.kit_id IS NOT NULL AND NOT NEW.assembled THEN
+    -- Kits movimentam os componentes: cada componente tem suas próprias camadas.
+    -- Kits montados não mexem nas camadas: os componentes já saíram na montagem.
+    FOR item IN
+      SELECT ki.product_id, ki.quantity, COALESCE(p.custo_unitario, 0) AS custo_unitario
+      FROM public.expand_kit_components(NEW.kit_id) ki
+      JOIN public.products p ON p.id = ki.product_id
+    LOOP
+      IF NEW.type = 'IN' THEN
+        INSERT INTO public.cost_layers (organization_id, product_id, movement_id, received_at, unit_cost, original_quantity, remaining_quantity)
+        VALUES (NEW.organization_id, item.product_id, NEW.id, NEW.created_at, item.custo_unitario,
+                item.quantity * NEW.quantity, item.quantity * NEW.quantity);
+      ELSIF NEW.type = 'OUT' THEN
+        PERFORM public.consume_cost_layers(NEW.id, NEW.organization_id, item.product_id, item.quantity * NEW.quantity);
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Linhas de kit reservam os produtos de todos os níveis da composição, exceto quando
+-- reservadas a partir de kits montados
+CREATE OR REPLACE FUNCTION public.get_reserved_quantities()
+RETURNS TABLE (product_id UUID, location_id UUID, reserved_quantity NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id, COALESCE(so.location_id, p.location_id), SUM(demand.quantity)
+  FROM public.sales_orders so
+  JOIN public.sales_order_lines l ON l.order_id = so.id
+  JOIN LATERAL (
+    SELECT l.product_id, l.quantity
+    WHERE l.product_id IS NOT NULL
+    UNION ALL
+    SELECT ki.product_id, ki.quantity * l.quantity
+    FROM public.expand_kit_components(l.kit_id) ki
+    WHERE l.kit_id IS NOT NULL
+      AND NOT l.reserved_assembled
+  ) demand ON true
+  JOIN public.products p ON p.id = demand.product_id
+  WHERE so.organization_id = public.get_user_organization_id(auth.uid())
+    AND so.status IN ('reserved', 'picked')
+  GROUP BY p.id, COALESCE(so.location_id, p.location_id);
+$$;
+
+-- Reserva o estoque de um pedido aberto. Linhas de kit usam as unidades montadas
+-- quando o local do pedido tem o suficiente; caso contrário reservam os componentes.
+CREATE OR REPLACE FUNCTION public.reserve_sales_order(_order_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.sales_orders%ROWTYPE;
+  item RECORD;
+  kit_line RECORD;
+  on_hand NUMERIC;
+  reserved NUMERIC;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para reservar pedidos';
+  END IF;
+
+  SELECT * INTO order_row
+  FROM public.sales_orders
+  WHERE id = _order_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de venda não encontrado';
+  END IF;
+
+  IF order_row.status <> 'open' THEN
+    RAISE EXCEPTION 'Apenas pedidos abertos podem ser reservados';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.sales_order_lines WHERE order_id = _order_id) THEN
+    RAISE EXCEPTION 'O pedido não possui itens';
+  END IF;
+
+  UPDATE public.sales_order_lines
+  SET reserved_assembled = false
+  WHERE order_id = _order_id;
+
+  -- Kits montados só existem em locais definidos
+  IF order_row.location_id IS NOT NULL THEN
+    FOR kit_line IN
+      SELECT l.id, l.kit_id, l.quantity
+      FROM public.sales_order_lines l
+      WHERE l.order_id = _order_id AND l.kit_id IS NOT NULL
+      ORDER BY l.kit_id, l.created_at
+    LOOP
+      PERFORM 1 FROM public.kits WHERE id = kit_line.kit_id FOR UPDATE;
+
+      SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+      FROM public.kit_stock_balances
+      WHERE kit_id = kit_line.kit_id AND location_id = order_row.location_id;
+
+      -- Outros pedidos e as linhas deste pedido já atendidas por kits montados
+      SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+      FROM public.get_reserved_kit_quantities() r
+      WHERE r.kit_id = kit_line.kit_id AND r.location_id = order_row.location_id;
+
+      reserved := reserved + COALESCE((
+        SELECT SUM(quantity)
+        FROM public.sales_order_lines
+        WHERE order_id = _order_id AND kit_id = kit_line.kit_id AND reserved_assembled
+      ), 0);
+
+      IF on_hand - reserved >= kit_line.quantity THEN
+        UPDATE public.sales_order_lines SET reserved_assembled = true WHERE id = kit_line.id;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Serializa reservas concorrentes dos mesmos produtos
+  FOR item IN
+    SELECT p.id, p.name, p.quantity AS total_quantity,
+           COALESCE(order_row.location_id, p.location_id) AS location_id,
+           SUM(demand.quantity) AS required
+    FROM public.sales_order_lines l
+    JOIN LATERAL (
+      SELECT l.product_id, l.quantity
+      WHERE l.product_id IS NOT NULL
+      UNION ALL
+      SELECT ki.product_id, ki.quantity * l.quantity
+      FROM public.expand_kit_components(l.kit_id) ki
+      WHERE l.kit_id IS NOT NULL
+        AND NOT l.reserved_assembled
+    ) demand ON true
+    JOIN public.products p ON p.id = demand.product_id
+    WHERE l.order_id = _order_id
+    GROUP BY p.id, p.name, p.quantity, COALESCE(order_row.location_id, p.location_id)
+    ORDER BY p.id
+  LOOP
+    PERFORM 1 FROM public.products WHERE id = item.id FOR UPDATE;
+
+    IF item.location_id IS NULL THEN
+      SELECT item.total_quantity - COALESCE(SUM(quantity), 0) INTO on_hand
+      FROM public.stock_balances
+      WHERE product_id = item.id;
+    ELSE
+      SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+      FROM public.stock_balances
+      WHERE product_id = item.id AND location_id = item.location_id;
+    END IF;
+
+    SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+    FROM public.get_reserved_quantities() r
+    WHERE r.product_id = item.id
+      AND r.location_id IS NOT DISTINCT FROM item.location_id;
+
+    IF on_hand - reserved < item.required THEN
+      RAISE EXCEPTION 'Estoque disponível insuficiente para % (disponível: %, necessário: %)',
+        item.name, on_hand - reserved, item.required;
+    END IF;
+  END LOOP;
+
+  UPDATE public.sales_orders
+  SET status = 'reserved', reserved_at = now()
+  WHERE id = _order_id;
+END;
+$$;
+
+-- Expede um pedido separado: uma saída por linha (no local do pedido), lotes por FEFO,
+-- números de série informados para produtos serializados e a venda no financeiro.
+-- Linhas de kit reservadas a partir de kits montados saem do saldo montado.
+-- _serials: [{ "line_id": uuid, "serial_numbers": ["..."] }]
+-- Retorna o valor total vendido.
+CREATE OR REPLACE FUNCTION public.ship_sales_order(_order_id UUID, _serials JSONB DEFAULT '[]'::jsonb)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.sales_orders%ROWTYPE;
+  line RECORD;
+  component RECORD;
+  serial_numbers JSONB;
+  serial_number_value TEXT;
+  serial_id_value UUID;
+  new_movement_id UUID;
+  movement_cost NUMERIC;
+  kit_extra_cost NUMERIC;
+  goods_cost NUMERIC;
+  consumed_cost NUMERIC;
+  sale_value NUMERIC;
+  costing TEXT;
+  order_total NUMERIC := 0;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para expedir pedidos';
+  END IF;
+
+  SELECT * INTO order_row
+  FROM public.sales_orders
+  WHERE id = _order_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido de venda não encontrado';
+  END IF;
+
+  IF order_row.status <> 'picked' THEN
+    RAISE EXCEPTION 'Apenas pedidos separados podem ser expedidos';
+  END IF;
+
+  SELECT COALESCE(
+    (SELECT costing_method FROM public.organization_settings WHERE organization_id = order_row.organization_id),
+    'average'
+  ) INTO costing;
+
+  -- A reserva é liberada antes das saídas para que o disponível não conte o próprio pedido
+  UPDATE public.sales_orders
+  SET status = 'shipped', shipped_at = now()
+  WHERE id = _order_id;
+
+  FOR line IN
+    SELECT l.*,
+           COALESCE(p.name, k.name) AS item_name,
+           COALESCE(p.track_lots, false) AS track_lots,
+           COALESCE(p.serialized, false) AS serialized
+    FROM public.sales_order_lines l
+    LEFT JOIN public.products p ON p.id = l.product_id
+    LEFT JOIN public.kits k ON k.id = l.kit_id
+    WHERE l.order_id = _order_id
+    ORDER BY l.created_at
+  LOOP
+    IF line.serialized THEN
+      serial_numbers := NULL;
+      SELECT s->'serial_numbers' INTO serial_numbers
+      FROM jsonb_array_elements(COALESCE(_serials, '[]'::jsonb)) s
+      WHERE (s->>'line_id')::UUID = line.id;
+
+      IF jsonb_array_length(COALESCE(serial_numbers, '[]'::jsonb)) <> line.quantity THEN
+        RAISE EXCEPTION 'Informe um número de série por unidade de %', line.item_name;
+      END IF;
+    END IF;
+
+    INSERT INTO public.movements (
+      organization_id, type, product_id, kit_id, quantity, from_location_id,
+      reference, note, created_by, preco_venda_usado, sales_order_line_id, assembled
+    )
+    VALUES (
+      order_row.organization_id,
+      'OUT',
+      line.product_id,
+      line.kit_id,
+      line.quantity,
+      order_row.location_id,
+      order_row.number,
+      'Expedição do pedido de venda ' || order_row.number || ' - ' || order_row.customer_name,
+      auth.uid(),
+      line.unit_price,
+      line.id,
+      line.kit_id IS NOT NULL AND line.reserved_assembled
+    )
+    RETURNING id, COALESCE(unit_cost, 0) INTO new_movement_id, movement_cost;
+
+    IF line.product_id IS NOT NULL AND line.track_lots THEN
+      PERFORM public.consume_lots_fefo(new_movement_id, order_row.organization_id, line.product_id, line.quantity);
+    ELSIF line.kit_id IS NOT NULL AND NOT line.reserved_assembled THEN
+      FOR component IN
+        SELECT ki.product_id, ki.quantity
+        FROM public.expand_kit_components(line.kit_id) ki
+        JOIN public.products p ON p.id = ki.product_id
+        WHERE p.track_lots
+      LOOP
+        PERFORM public.consume_lots_fefo(new_movement_id, order_row.organization_id, component.product_id, component.quantity * line.quantity);
+      END LOOP;
+    END IF;
+
+    IF line.serialized THEN
+      FOR serial_number_value IN SELECT TRIM(value) FROM jsonb_array_elements_text(serial_numbers)
+      LOOP
+        SELECT id INTO serial_id_value
+        FROM public.product_serials
+        WHERE product_id = line.product_id AND serial_number = serial_number_value AND status = 'in_stock';
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Número de série % não está em estoque', serial_number_value;
+        END IF;
+
+        INSERT INTO public.movement_serials (organization_id, movement_id, serial_id)
+        VALUES (order_row.organization_id, new_movement_id, serial_id_value);
+      END LOOP;
+    END IF;
+
+    -- Custos adicionais do kit e dos sub-kits entram no custo da venda
+    kit_extra_cost := 0;
+    IF line.kit_id IS NOT NULL THEN
+      kit_extra_cost := public.get_kit_extra_cost(line.kit_id);
+    END IF;
+
+    goods_cost := movement_cost * line.quantity;
+
+    -- No PEPS o custo da venda é o das camadas consumidas pela saída
+    IF costing = 'fifo' THEN
+      SELECT SUM(quantity * unit_cost) INTO consumed_cost
+      FROM public.cost_layer_consumptions
+      WHERE movement_id = new_movement_id;
+
+      IF consumed_cost IS NOT NULL THEN
+        goods_cost := consumed_cost + kit_extra_cost * line.quantity;
+      END IF;
+    END IF;
+
+    sale_value := line.unit_price * line.quantity;
+    order_total := order_total + sale_value;
+
+    -- Mesmo formato das saídas registradas pela tela de movimentações
+    INSERT INTO public.financeiro (
+      organization_id, user_id, tipo, data, descricao, produto_id, quantidade,
+      custo_total, preco_venda, valor, lucro_liquido, margem_percentual, custos_adicionais
+    )
+    VALUES (
+      order_row.organization_id,
+      auth.uid(),
+      'saida',
+      CURRENT_DATE,
+      'Saída - ' || line.item_name || ' (' || order_row.number || ')',
+      COALESCE(line.product_id, line.kit_id),
+      line.quantity,
+      goods_cost,
+      line.unit_price,
+      sale_value,
+      sale_value - goods_cost,
+      CASE WHEN sale_value > 0 THEN ((sale_value - goods_cost) / sale_value) * 100 ELSE 0 END,
+      '[]'::jsonb
+    );
+  END LOOP;
+
+  RETURN order_total;
+END;
+$$;
+
+-- Registra a devolução de parte ou de toda uma movimentação.
+-- Lotes voltam (ou saem) na proporção da movimentação original; produtos serializados
+-- exigem os números de série devolvidos, que precisam constar da movimentação original.
+-- Retorna o id da devolução.
+CREATE OR REPLACE FUNCTION public.register_return(
+  _movement_id UUID,
+  _quantity NUMERIC,
+  _reason_code TEXT,
+  _location_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _serial_numbers JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original public.movements%ROWTYPE;
+  return_kind TEXT;
+  item_name TEXT;
+  is_serialized BOOLEAN := false;
+  already_returned NUMERIC;
+  ratio NUMERIC;
+  return_location UUID;
+  on_hand NUMERIC;
+  total_quantity NUMERIC;
+  new_return_id UUID;
+  new_movement_id UUID;
+  lot RECORD;
+  serial_number_value TEXT;
+  serial_id_value UUID;
+  goods_cost NUMERIC;
+  consumed_cost NUMERIC;
+  kit_extra_cost NUMERIC := 0;
+  sale_price NUMERIC;
+  sale_value NUMERIC;
+  reversed_value NUMERIC;
+  costing TEXT;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para registrar devoluções';
+  END IF;
+
+  SELECT * INTO original
+  FROM public.movements
+  WHERE id = _movement_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Movimentação não encontrada';
+  END IF;
+
+  IF original.type = 'OUT' THEN
+    return_kind := 'customer';
+  ELSIF original.type = 'IN' THEN
+    return_kind := 'supplier';
+  ELSE
+    RAISE EXCEPTION 'Apenas entradas e saídas podem ser devolvidas';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.stock_returns WHERE return_movement_id = _movement_id) THEN
+    RAISE EXCEPTION 'Uma devolução não pode ser devolvida';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Informe uma quantidade maior que zero';
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO already_returned
+  FROM public.stock_returns
+  WHERE original_movement_id = _movement_id;
+
+  IF already_returned + _quantity > original.quantity THEN
+    RAISE EXCEPTION 'Quantidade maior que o saldo a devolver (%)', original.quantity - already_returned;
+  END IF;
+
+  ratio := _quantity / original.quantity;
+
+  IF original.product_id IS NOT NULL THEN
+    SELECT name, serialized INTO item_name, is_serialized
+    FROM public.products WHERE id = original.product_id;
+  ELSE
+    SELECT name INTO item_name FROM public.kits WHERE id = original.kit_id;
+  END IF;
+
+  IF is_serialized AND jsonb_array_length(COALESCE(_serial_numbers, '[]'::jsonb)) <> _quantity THEN
+    RAISE EXCEPTION 'Informe um número de série por unidade devolvida';
+  END IF;
+
+  -- Cliente devolve para o local de onde saiu (ou para a quarentena escolhida);
+  -- ao fornecedor devolve-se do local onde a mercadoria entrou
+  IF return_kind = 'customer' THEN
+    return_location := COALESCE(_location_id, original.from_location_id);
+  ELSE
+    return_location := COALESCE(_location_id, original.to_location_id);
+
+    IF original.product_id IS NOT NULL THEN
+      SELECT quantity INTO total_quantity FROM public.products WHERE id = original.product_id FOR UPDATE;
+      return_location := COALESCE(return_location, (SELECT location_id FROM public.products WHERE id = original.product_id));
+
+      IF return_location IS NULL THEN
+        SELECT total_quantity - COALESCE(SUM(quantity), 0) INTO on_hand
+        FROM public.stock_balances
+        WHERE product_id = original.product_id;
+      ELSE
+        SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+        FROM public.stock_balances
+        WHERE product_id = original.product_id AND location_id = return_location;
+      END IF;
+
+      IF on_hand < _quantity THEN
+        RAISE EXCEPTION 'Estoque insuficiente para devolver % (disponível: %)', item_name, on_hand;
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO public.stock_returns (
+    organization_id, kind, original_movement_id, reason_code, quantity, location_id, notes, created_by
+  )
+  VALUES (
+    original.organization_id, return_kind, _movement_id, _reason_code, _quantity, return_location,
+    NULLIF(TRIM(_notes), ''), auth.uid()
+  )
+  RETURNING id INTO new_return_id;
+
+  -- A devolução do cliente volta pelo custo com que a mercadoria saiu
+  INSERT INTO public.movements (
+    organization_id, type, product_id, kit_id, quantity, from_location_id, to_location_id,
+    reference, note, created_by, unit_cost
+  )
+  VALUES (
+    original.organization_id,
+    CASE WHEN return_kind = 'customer' THEN 'IN'::movement_type ELSE 'OUT'::movement_type END,
+    original.product_id,
+    original.kit_id,
+    _quantity,
+    CASE WHEN return_kind = 'supplier' THEN return_location END,
+    CASE WHEN return_kind = 'customer' THEN return_location END,
+    original.reference,
+    CASE WHEN return_kind = 'customer' THEN 'Devolução de cliente' ELSE 'Devolução ao fornecedor' END
+      || COALESCE(' - ' || NULLIF(TRIM(_notes), ''), ''),
+    auth.uid(),
+    CASE WHEN return_kind = 'customer' THEN original.unit_cost END
+  )
+  RETURNING id INTO new_movement_id;
+
+  UPDATE public.stock_returns SET return_movement_id = new_movement_id WHERE id = new_return_id;
+
+  -- Lotes: a devolução desfaz, na mesma proporção, o que a movimentação original fez em cada lote
+  FOR lot IN
+    SELECT lot_id, quantity
+    FROM public.movement_lots
+    WHERE movement_id = _movement_id AND ROUND(quantity * ratio, 4) <> 0
+  LOOP
+    INSERT INTO public.movement_lots (organization_id, movement_id, lot_id, quantity)
+    VALUES (original.organization_id, new_movement_id, lot.lot_id, -ROUND(lot.quantity * ratio, 4));
+  END LOOP;
+
+  IF is_serialized THEN
+    FOR serial_number_value IN SELECT TRIM(value) FROM jsonb_array_elements_text(_serial_numbers)
+    LOOP
+      SELECT s.id INTO serial_id_value
+      FROM public.product_serials s
+      JOIN public.movement_serials ms ON ms.serial_id = s.id AND ms.movement_id = _movement_id
+      WHERE s.product_id = original.product_id
+        AND s.serial_number = serial_number_value
+        AND s.status = CASE WHEN return_kind = 'customer' THEN 'out' ELSE 'in_stock' END;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Número de série % não pertence à movimentação ou já foi devolvido', serial_number_value;
+      END IF;
+
+      INSERT INTO public.movement_serials (organization_id, movement_id, serial_id)
+      VALUES (original.organization_id, new_movement_id, serial_id_value);
+    END LOOP;
+  END IF;
+
+  -- Estorno no financeiro
+  IF return_kind = 'customer' THEN
+    IF original.kit_id IS NOT NULL THEN
+      kit_extra_cost := public.get_kit_extra_cost(original.kit_id);
+    END IF;
+
+    goods_cost := COALESCE(original.unit_cost, 0) * _quantity;
+
+    SELECT COALESCE(
+      (SELECT costing_method FROM public.organization_settings WHERE organization_id = original.organization_id),
+      'average'
+    ) INTO costing;
+
+    -- Saídas no PEPS custaram o que consumiram das camadas
+    IF costing = 'fifo' THEN
+      SELECT SUM(quantity * unit_cost) INTO consumed_cost
+      FROM public.cost_layer_consumptions
+      WHERE movement_id = _movement_id;
+
+      IF consumed_cost IS NOT NULL THEN
+        goods_cost := consumed_cost * ratio + kit_extra_cost * _quantity;
+      END IF;
+    END IF;
+
+    sale_price := COALESCE(
+      original.preco_venda_usado,
+      (SELECT preco_venda FROM public.products WHERE id = original.product_id),
+      (SELECT preco_venda FROM public.kits WHERE id = original.kit_id),
+      0
+    );
+    sale_value := sale_price * _quantity;
+
+    IF sale_value > 0 THEN
+      INSERT INTO public.financeiro (
+        organization_id, user_id, tipo, data, descricao, produto_id, quantidade,
+        custo_total, preco_venda, valor, lucro_liquido, margem_percentual, custos_adicionais, return_id
+      )
+      VALUES (
+        original.organization_id,
+        auth.uid(),
+        'saida',
+        CURRENT_DATE,
+        'Devolução - ' || item_name || COALESCE(' (' || original.reference || ')', ''),
+        COALESCE(original.product_id, original.kit_id),
+        -_quantity,
+        -goods_cost,
+        sale_price,
+        -sale_value,
+        -(sale_value - goods_cost),
+        ((sale_value - goods_cost) / sale_value) * 100,
+        '[]'::jsonb,
+        new_return_id
+      );
+    END IF;
+  ELSE
+    reversed_value := COALESCE(original.unit_cost, 0) * _quantity;
+
+    IF reversed_value > 0 THEN
+      INSERT INTO public.financeiro (
+        organization_id, user_id, tipo, data, descricao, produto_id, quantidade,
+        custo_total, preco_venda, valor, lucro_liquido, margem_percentual, custos_adicionais, return_id
+      )
+      VALUES (
+        original.organization_id,
+        auth.uid(),
+        'entrada',
+        CURRENT_DATE,
+        'Devolução ao fornecedor - ' || item_name || COALESCE(' (' || original.reference || ')', ''),
+        COALESCE(original.product_id, original.kit_id),
+        -_quantity,
+        -reversed_value,
+        0,
+        -reversed_value,
+        0,
+        0,
+        '[]'::jsonb,
+        new_return_id
+      );
+    END IF;
+  END IF;
+
+  RETURN new_return_id;
+END;
+$$;
+
+-- Registra uma ordem de montagem (componentes saem, kits montados entram) ou de
+-- desmontagem (kits montados saem, componentes voltam) em um local.
+-- Sub-kits são desmembrados até os produtos. Produtos com controle de lote saem por FEFO;
+-- produtos serializados não são suportados.
+-- Retorna o id da ordem.
+CREATE OR REPLACE FUNCTION public.register_kit_assembly(
+  _kit_id UUID,
+  _kind TEXT,
+  _quantity NUMERIC,
+  _location_id UUID,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kit_row public.kits%ROWTYPE;
+  component RECORD;
+  on_hand NUMERIC;
+  reserved NUMERIC;
+  new_order_id UUID;
+  order_number TEXT;
+  order_note TEXT;
+  new_movement_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'almoxarife'::app_role) OR has_role(auth.uid(), 'admin'::app_role) OR
+          has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para montar kits';
+  END IF;
+
+  SELECT * INTO kit_row
+  FROM public.kits
+  WHERE id = _kit_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Kit não encontrado';
+  END IF;
+
+  IF _kind NOT IN ('assembly', 'disassembly') THEN
+    RAISE EXCEPTION 'Tipo de ordem inválido';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Informe uma quantidade maior que zero';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.locations
+    WHERE id = _location_id AND organization_id = kit_row.organization_id
+  ) THEN
+    RAISE EXCEPTION 'Selecione o local da montagem';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.kit_items WHERE kit_id = _kit_id) THEN
+    RAISE EXCEPTION 'O kit não possui componentes';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.expand_kit_components(_kit_id) ki
+    JOIN public.products p ON p.id = ki.product_id
+    WHERE p.serialized
+  ) THEN
+    RAISE EXCEPTION 'Kits com componentes serializados não podem ser montados em estoque';
+  END IF;
+
+  IF _kind = 'assembly' THEN
+    FOR component IN
+      SELECT p.id, p.name, ki.quantity * _quantity AS required
+      FROM public.expand_kit_components(_kit_id) ki
+      JOIN public.products p ON p.id = ki.product_id
+      ORDER BY p.id
+    LOOP
+      PERFORM 1 FROM public.products WHERE id = component.id FOR UPDATE;
+
+      SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+      FROM public.stock_balances
+      WHERE product_id = component.id AND location_id = _location_id;
+
+      SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+      FROM public.get_reserved_quantities() r
+      WHERE r.product_id = component.id AND r.location_id = _location_id;
+
+      IF on_hand - reserved < component.required THEN
+        RAISE EXCEPTION 'Estoque disponível insuficiente de % para montar (disponível: %, necessário: %)',
+          component.name, on_hand - reserved, component.required;
+      END IF;
+    END LOOP;
+  ELSE
+    SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+    FROM public.kit_stock_balances
+    WHERE kit_id = _kit_id AND location_id = _location_id;
+
+    SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+    FROM public.get_reserved_kit_quantities() r
+    WHERE r.kit_id = _kit_id AND r.location_id = _location_id;
+
+    IF on_hand - reserved < _quantity THEN
+      RAISE EXCEPTION 'Kits montados insuficientes para desmontar (disponível: %)', on_hand - reserved;
+    END IF;
+  END IF;
+
+  INSERT INTO public.kit_assembly_orders (organization_id, kind, kit_id, quantity, location_id, notes, created_by)
+  VALUES (kit_row.organization_id, _kind, _kit_id, _quantity, _location_id, NULLIF(TRIM(_notes), ''), auth.uid())
+  RETURNING id, number INTO new_order_id, order_number;
+
+  order_note := CASE WHEN _kind = 'assembly' THEN 'Montagem de kit ' ELSE 'Desmontagem de kit ' END
+    || order_number || ' - ' || kit_row.name;
+
+  -- Componentes: saem na montagem (lotes por FEFO) e voltam pelo custo médio na desmontagem
+  FOR component IN
+    SELECT p.id, p.track_lots, ki.quantity * _quantity AS quantity
+    FROM public.expand_kit_components(_kit_id) ki
+    JOIN public.products p ON p.id = ki.product_id
+    ORDER BY p.id
+  LOOP
+    INSERT INTO public.movements (
+      organization_id, type, product_id, quantity, from_location_id, to_location_id,
+      reference, note, created_by, kit_assembly_order_id
+    )
+    VALUES (
+      kit_row.organization_id,
+      CASE WHEN _kind = 'assembly' THEN 'OUT'::movement_type ELSE 'IN'::movement_type END,
+      component.id,
+      component.quantity,
+      CASE WHEN _kind = 'assembly' THEN _location_id END,
+      CASE WHEN _kind = 'disassembly' THEN _location_id END,
+      order_number,
+      order_note,
+      auth.uid(),
+      new_order_id
+    )
+    RETURNING id INTO new_movement_id;
+
+    IF _kind = 'assembly' AND component.track_lots THEN
+      PERFORM public.consume_lots_fefo(new_movement_id, kit_row.organization_id, component.id, component.quantity);
+    END IF;
+  END LOOP;
+
+  -- Kits montados
+  INSERT INTO public.movements (
+    organization_id, type, kit_id, quantity, from_location_id, to_location_id,
+    reference, note, created_by, kit_assembly_order_id, assembled
+  )
+  VALUES (
+    kit_row.organization_id,
+    CASE WHEN _kind = 'assembly' THEN 'IN'::movement_type ELSE 'OUT'::movement_type END,
+    _kit_id,
+    _quantity,
+    CASE WHEN _kind = 'disassembly' THEN _location_id END,
+    CASE WHEN _kind = 'assembly' THEN _location_id END,
+    order_number,
+    order_note,
+    auth.uid(),
+    new_order_id,
+    true
+  );
+
+  RETURN new_order_id;
+END;
+$$;
@@ -0,0 +1,87 @@
+-- Estoque em uma data: parte dos saldos atuais por local e desfaz as movimentações
+-- registradas depois da data. O resultado é o mesmo de reproduzir as movimentações até
+-- a data, mas também cobre as quantidades iniciais digitadas no cadastro do produto.
+-- Kits não montados descem para os produtos pela composição atual; kits montados não
+-- movimentaram produtos e ficam de fora. O custo é o custo médio vigente na data.
+CREATE OR REPLACE FUNCTION public.get_stock_as_of(_as_of TIMESTAMPTZ)
+RETURNS TABLE (product_id UUID, location_id UUID, quantity NUMERIC, unit_cost NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH org_products AS (
+    SELECT p.id, p.location_id, p.quantity, p.custo_unitario
+    FROM public.products p
+    WHERE p.organization_id = public.get_user_organization_id(auth.uid())
+      AND p.created_at <= _as_of
+  ),
+  current_stock AS (
+    SELECT sb.product_id, sb.location_id, sb.quantity
+    FROM public.stock_balances sb
+    JOIN org_products p ON p.id = sb.product_id
+    UNION ALL
+    -- Parte do total que não está em nenhum local
+    SELECT p.id, NULL::UUID, p.quantity - COALESCE((
+      SELECT SUM(sb.quantity) FROM public.stock_balances sb WHERE sb.product_id = p.id
+    ), 0)
+    FROM org_products p
+  ),
+  later_movements AS (
+    SELECT m.product_id, m.type, m.quantity, m.from_location_id, m.to_location_id
+    FROM public.movements m
+    JOIN org_products p ON p.id = m.product_id
+    WHERE m.kit_id IS NULL
+      AND m.created_at > _as_of
+    UNION ALL
+    SELECT ki.product_id, m.type, ki.quantity * m.quantity, m.from_location_id, m.to_location_id
+    FROM public.movements m
+    CROSS JOIN LATERAL public.expand_kit_components(m.kit_id) ki
+    WHERE m.organization_id = public.get_user_organization_id(auth.uid())
+      AND m.kit_id IS NOT NULL
+      AND NOT m.assembled
+      AND m.created_at > _as_of
+  ),
+  -- Mesmo efeito de apply_movement_stock: sem local informado vale o local padrão do produto
+  later_effects AS (
+    SELECT lm.product_id, COALESCE(lm.to_location_id, p.location_id) AS location_id, lm.quantity AS delta
+    FROM later_movements lm
+    JOIN org_products p ON p.id = lm.product_id
+    WHERE lm.type IN ('IN', 'ADJUSTMENT')
+    UNION ALL
+    SELECT lm.product_id, COALESCE(lm.from_location_id, p.location_id), -lm.quantity
+    FROM later_movements lm
+    JOIN org_products p ON p.id = lm.product_id
+    WHERE lm.type IN ('OUT', 'TRANSFER')
+    UNION ALL
+    SELECT lm.product_id, lm.to_location_id, lm.quantity
+    FROM later_movements lm
+    WHERE lm.type = 'TRANSFER'
+  ),
+  stock AS (
+    SELECT s.product_id, s.location_id, SUM(s.quantity) AS quantity
+    FROM (
+      SELECT cs.product_id, cs.location_id, cs.quantity FROM current_stock cs
+      UNION ALL
+      SELECT le.product_id, le.location_id, -le.delta FROM later_effects le
+    ) s
+    GROUP BY s.product_id, s.location_id
+  )
+  SELECT s.product_id, s.location_id, s.quantity,
+    COALESCE((
+      SELECT m.average_cost
+      FROM public.movements m
+      WHERE m.product_id = s.product_id
+        AND m.kit_id IS NULL
+        AND m.average_cost IS NOT NULL
+        AND m.created_at <= _as_of
+      ORDER BY m.created_at DESC
+      LIMIT 1
+    ), p.custo_unitario, 0)
+  FROM stock s
+  JOIN org_products p ON p.id = s.product_id
+  WHERE s.quantity <> 0;
+$$;
+
+-- Busca do custo médio vigente na data
+CREATE INDEX IF NOT EXISTS idx_movements_product_created_at ON public.movements(product_id, created_at);
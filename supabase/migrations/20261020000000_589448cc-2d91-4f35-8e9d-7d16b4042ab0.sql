@@ -0,0 +1,471 @@
+-- Movimentações passam a ser um livro imutável: não podem mais ser editadas nem excluídas.
+-- Um lançamento errado é desfeito por um estorno (movimentação com o efeito oposto, ligada
+-- à original) e, se preciso, lançado de novo como correção ligada à original.
+
+ALTER TABLE public.organization_settings
+ADD COLUMN IF NOT EXISTS reversal_window_days INTEGER NOT NULL DEFAULT 30 CHECK (reversal_window_days >= 0);
+
+ALTER TABLE public.movements
+ADD COLUMN IF NOT EXISTS reversal_of_id UUID REFERENCES public.movements(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS correction_of_id UUID REFERENCES public.movements(id) ON DELETE SET NULL;
+
+-- Cada movimentação pode ser estornada uma única vez
+CREATE UNIQUE INDEX IF NOT EXISTS idx_movements_reversal_of_id ON public.movements(reversal_of_id) WHERE reversal_of_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_movements_correction_of_id ON public.movements(correction_of_id) WHERE correction_of_id IS NOT NULL;
+
+DROP POLICY IF EXISTS "Operadores and above can update movements in their organization" ON public.movements;
+DROP POLICY IF EXISTS "Superadmins can delete movements in their organization" ON public.movements;
+
+-- Bloqueia alterações e exclusões diretas. Ações em cascata (ex.: exclusão do produto ou
+-- do kit) rodam dentro de outro trigger e continuam permitidas.
+CREATE OR REPLACE FUNCTION public.prevent_movement_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  RAISE EXCEPTION 'Movimentações não podem ser alteradas nem excluídas. Use o estorno.';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prevent_movement_changes() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER prevent_movement_changes_trigger
+BEFORE UPDATE OR DELETE ON public.movements
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_movement_changes();
+
+-- O estorno de uma entrada sai pelo custo com que ela entrou e tira esse valor do custo médio
+CREATE OR REPLACE FUNCTION public.apply_movement_cost()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_quantity NUMERIC;
+  current_cost NUMERIC;
+  new_cost NUMERIC;
+  original_type movement_type;
+  original_unit_cost NUMERIC;
+BEGIN
+  IF NEW.kit_id IS NOT NULL THEN
+    -- Kits não têm custo próprio: produtos de todos os níveis mais os custos adicionais dos cadastros
+    NEW.unit_cost := public.get_kit_unit_cost(NEW.kit_id);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.product_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT quantity, COALESCE(custo_unitario, 0)
+  INTO current_quantity, current_cost
+  FROM public.products
+  WHERE id = NEW.product_id
+  FOR UPDATE;
+
+  IF NEW.reversal_of_id IS NOT NULL THEN
+    SELECT type, unit_cost INTO original_type, original_unit_cost
+    FROM public.movements
+    WHERE id = NEW.reversal_of_id;
+  END IF;
+
+  IF NEW.type = 'IN' THEN
+    NEW.unit_cost := COALESCE(NEW.unit_cost, current_cost);
+
+    -- Sem saldo positivo o estoque anterior não pesa na média
+    IF current_quantity <= 0 THEN
+      new_cost := NEW.unit_cost;
+    ELSE
+      new_cost := ROUND(
+        (current_quantity * current_cost + NEW.quantity * NEW.unit_cost) / (current_quantity + NEW.quantity),
+        4
+      );
+    END IF;
+
+    UPDATE public.products
+    SET custo_unitario = new_cost,
+        cost = new_cost
+    WHERE id = NEW.product_id;
+
+    NEW.average_cost := new_cost;
+  ELSIF NEW.type = 'OUT' AND original_type = 'IN' THEN
+    NEW.unit_cost := COALESCE(original_unit_cost, current_cost);
+
+    -- Desfaz a ponderação da entrada; sem saldo restante a média fica como está
+    IF current_quantity - NEW.quantity > 0 THEN
+      new_cost := GREATEST(ROUND(
+        (current_quantity * current_cost - NEW.quantity * NEW.unit_cost) / (current_quantity - NEW.quantity),
+        4
+      ), 0);
+    ELSE
+      new_cost := current_cost;
+    END IF;
+
+    UPDATE public.products
+    SET custo_unitario = new_cost,
+        cost = new_cost
+    WHERE id = NEW.product_id;
+
+    NEW.average_cost := new_cost;
+  ELSE
+    -- Saídas, transferências e ajustes saem pelo custo médio vigente
+    NEW.unit_cost := current_cost;
+    NEW.average_cost := current_cost;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Estornos desfazem nas camadas PEPS exatamente o que a movimentação original fez:
+-- o que ela consumiu volta às mesmas camadas e o que ela criou sai da própria camada
+-- (o que já tiver sido consumido dali sai das camadas mais antigas)
+CREATE OR REPLACE FUNCTION public.reverse_cost_layers(_movement_id UUID, _original_id UUID, _organization_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  consumption RECORD;
+  layer RECORD;
+  taken NUMERIC;
+BEGIN
+  FOR consumption IN
+    SELECT product_id, layer_id, quantity, unit_cost
+    FROM public.cost_layer_consumptions
+    WHERE movement_id = _original_id
+  LOOP
+    IF consumption.layer_id IS NOT NULL THEN
+      UPDATE public.cost_layers
+      SET remaining_quantity = remaining_quantity + consumption.quantity
+      WHERE id = consumption.layer_id;
+    ELSE
+      INSERT INTO public.cost_layers (organization_id, product_id, movement_id, received_at, unit_cost, original_quantity, remaining_quantity)
+      VALUES (_organization_id, consumption.product_id, _movement_id, now(), consumption.unit_cost, consumption.quantity, consumption.quantity);
+    END IF;
+  END LOOP;
+
+  FOR layer IN
+    SELECT id, product_id, unit_cost, original_quantity, remaining_quantity
+    FROM public.cost_layers
+    WHERE movement_id = _original_id
+    FOR UPDATE
+  LOOP
+    taken := LEAST(layer.original_quantity, layer.remaining_quantity);
+
+    IF taken > 0 THEN
+      UPDATE public.cost_layers
+      SET remaining_quantity = remaining_quantity - taken
+      WHERE id = layer.id;
+
+      INSERT INTO public.cost_layer_consumptions (organization_id, movement_id, product_id, layer_id, quantity, unit_cost)
+      VALUES (_organization_id, _movement_id, layer.product_id, layer.id, taken, layer.unit_cost);
+    END IF;
+
+    PERFORM public.consume_cost_layers(_movement_id, _organization_id, layer.product_id, layer.original_quantity - taken);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_cost_layers(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_cost_layers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item RECORD;
+BEGIN
+  IF NEW.reversal_of_id IS NOT NULL THEN
+    PERFORM public.reverse_cost_layers(NEW.id, NEW.reversal_of_id, NEW.organization_id);
+  ELSIF NEW.product_id IS NOT NULL AND NEW.kit_id IS NULL THEN
+    IF NEW.type = 'IN' OR (NEW.type = 'ADJUSTMENT' AND NEW.quantity > 0) THEN
+      INSERT INTO public.cost_layers (organization_id, product_id, movement_id, received_at, unit_cost, original_quantity, remaining_quantity)
+      VALUES (NEW.organization_id, NEW.product_id, NEW.id, NEW.created_at, COALESCE(NEW.unit_cost, 0), NEW.quantity, NEW.quantity);
+    ELSIF NEW.type = 'OUT' THEN
+      PERFORM public.consume_cost_layers(NEW.id, NEW.organization_id, NEW.product_id, NEW.quantity);
+    ELSIF NEW.type = 'ADJUSTMENT' AND NEW.quantity < 0 THEN
+      PERFORM public.consume_cost_layers(NEW.id, NEW.organization_id, NEW.product_id, -NEW.quantity);
+    END IF;
+  ELSIF NEW.kit_id IS NOT NULL AND NOT NEW.assembled THEN
+    -- Kits movimentam os componentes: cada componente tem suas próprias camadas.
+    -- Kits montados não mexem nas camadas: os componentes já saíram na montagem.
+    FOR item IN
+      SELECT ki.product_id, ki.quantity, COALESCE(p.custo_unitario, 0) AS custo_unitario
+      FROM public.expand_kit_components(NEW.kit_id) ki
+      JOIN public.products p ON p.id = ki.product_id
+    LOOP
+      IF NEW.type = 'IN' THEN
+        INSERT INTO public.cost_layers (organization_id, product_id, movement_id, received_at, unit_cost, original_quantity, remaining_quantity)
+        VALUES (NEW.organization_id, item.product_id, NEW.id, NEW.created_at, item.custo_unitario,
+                item.quantity * NEW.quantity, item.quantity * NEW.quantity);
+      ELSIF NEW.type = 'OUT' THEN
+        PERFORM public.consume_cost_layers(NEW.id, NEW.organization_id, item.product_id, item.quantity * NEW.quantity);
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Estorna uma movimentação lançada manualmente: grava a movimentação oposta ligada à
+-- original, desfaz lotes, números de série e camadas de custo e lança o estorno no financeiro.
+-- Movimentações geradas por pedidos, devoluções, montagens ou inventários são corrigidas
+-- no documento de origem. Fora do prazo configurado apenas administradores podem estornar.
+-- Retorna o id do estorno.
+CREATE OR REPLACE FUNCTION public.reverse_movement(_movement_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original public.movements%ROWTYPE;
+  is_admin BOOLEAN;
+  window_days INTEGER;
+  item_name TEXT;
+  reversal_type movement_type;
+  reversal_quantity NUMERIC;
+  reversal_from UUID;
+  reversal_to UUID;
+  source_location UUID;
+  total_quantity NUMERIC;
+  on_hand NUMERIC;
+  new_movement_id UUID;
+  goods_cost NUMERIC;
+  consumed_cost NUMERIC;
+  extra_cost NUMERIC;
+  kit_extra_cost NUMERIC := 0;
+  sale_value NUMERIC;
+  reversed_value NUMERIC;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'operador'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role) OR
+          has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para estornar movimentações';
+  END IF;
+
+  is_admin := has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role);
+
+  SELECT * INTO original
+  FROM public.movements
+  WHERE id = _movement_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Movimentação não encontrada';
+  END IF;
+
+  IF original.reversal_of_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Um estorno não pode ser estornado';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.movements WHERE reversal_of_id = _movement_id) THEN
+    RAISE EXCEPTION 'Esta movimentação já foi estornada';
+  END IF;
+
+  IF original.sales_order_line_id IS NOT NULL OR original.purchase_order_line_id IS NOT NULL OR
+     original.kit_assembly_order_id IS NOT NULL OR
+     EXISTS (SELECT 1 FROM public.stock_returns
+             WHERE original_movement_id = _movement_id OR return_movement_id = _movement_id) OR
+     EXISTS (SELECT 1 FROM public.inventory_count_items WHERE adjustment_movement_id = _movement_id) THEN
+    RAISE EXCEPTION 'Movimentações geradas por pedidos, devoluções, montagens ou inventários devem ser corrigidas no documento de origem';
+  END IF;
+
+  SELECT COALESCE((SELECT reversal_window_days FROM public.organization_settings WHERE organization_id = original.organization_id), 30)
+  INTO window_days;
+
+  IF NOT is_admin AND original.created_at < now() - make_interval(days => window_days) THEN
+    RAISE EXCEPTION 'Apenas administradores podem estornar movimentações com mais de % dias', window_days;
+  END IF;
+
+  IF original.product_id IS NOT NULL THEN
+    SELECT name INTO item_name FROM public.products WHERE id = original.product_id;
+  ELSE
+    SELECT name INTO item_name FROM public.kits WHERE id = original.kit_id;
+  END IF;
+
+  -- O estorno tem o efeito oposto, nos mesmos locais
+  reversal_quantity := original.quantity;
+  IF original.type = 'IN' THEN
+    reversal_type := 'OUT';
+    reversal_from := original.to_location_id;
+  ELSIF original.type = 'OUT' THEN
+    reversal_type := 'IN';
+    reversal_to := original.from_location_id;
+  ELSIF original.type = 'TRANSFER' THEN
+    reversal_type := 'TRANSFER';
+    reversal_from := original.to_location_id;
+    reversal_to := original.from_location_id;
+  ELSE
+    reversal_type := 'ADJUSTMENT';
+    reversal_quantity := -original.quantity;
+    reversal_to := original.to_location_id;
+  END IF;
+
+  -- O que o estorno tira do estoque precisa estar lá
+  IF original.product_id IS NOT NULL AND
+     (reversal_type IN ('OUT', 'TRANSFER') OR (reversal_type = 'ADJUSTMENT' AND reversal_quantity < 0)) THEN
+    SELECT quantity, location_id INTO total_quantity, source_location
+    FROM public.products WHERE id = original.product_id FOR UPDATE;
+    source_location := COALESCE(CASE WHEN reversal_type = 'ADJUSTMENT' THEN reversal_to ELSE reversal_from END, source_location);
+
+    IF source_location IS NULL THEN
+      SELECT total_quantity - COALESCE(SUM(quantity), 0) INTO on_hand
+      FROM public.stock_balances
+      WHERE product_id = original.product_id;
+    ELSE
+      SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+      FROM public.stock_balances
+      WHERE product_id = original.product_id AND location_id = source_location;
+    END IF;
+
+    IF on_hand < ABS(reversal_quantity) THEN
+      RAISE EXCEPTION 'Estoque insuficiente para estornar % (disponível: %)', item_name, on_hand;
+    END IF;
+  END IF;
+
+  -- A saída estornada volta pelo custo com que saiu
+  INSERT INTO public.movements (
+    organization_id, type, product_id, kit_id, assembled, quantity, from_location_id, to_location_id,
+    reference, note, created_by, unit_cost, reversal_of_id
+  )
+  VALUES (
+    original.organization_id,
+    reversal_type,
+    original.product_id,
+    original.kit_id,
+    original.assembled,
+    reversal_quantity,
+    reversal_from,
+    reversal_to,
+    original.reference,
+    'Estorno' || COALESCE(' - ' || NULLIF(TRIM(_reason), ''), ''),
+    auth.uid(),
+    CASE WHEN original.type = 'OUT' THEN original.unit_cost END,
+    _movement_id
+  )
+  RETURNING id INTO new_movement_id;
+
+  -- Lotes e números de série fazem o caminho de volta
+  INSERT INTO public.movement_lots (organization_id, movement_id, lot_id, quantity)
+  SELECT original.organization_id, new_movement_id, lot_id, -quantity
+  FROM public.movement_lots
+  WHERE movement_id = _movement_id;
+
+  INSERT INTO public.movement_serials (organization_id, movement_id, serial_id)
+  SELECT original.organization_id, new_movement_id, serial_id
+  FROM public.movement_serials
+  WHERE movement_id = _movement_id;
+
+  -- Estorno no financeiro, espelhando o lançamento feito no registro da movimentação
+  IF original.type = 'OUT' THEN
+    IF original.kit_id IS NOT NULL THEN
+      kit_extra_cost := public.get_kit_extra_cost(original.kit_id);
+    END IF;
+
+    goods_cost := COALESCE(original.unit_cost, 0) * original.quantity;
+
+    SELECT SUM(quantity * unit_cost) INTO consumed_cost
+    FROM public.cost_layer_consumptions
+    WHERE movement_id = _movement_id;
+
+    IF consumed_cost IS NOT NULL AND
+       (SELECT costing_method FROM public.organization_settings WHERE organization_id = original.organization_id) = 'fifo' THEN
+      goods_cost := consumed_cost + kit_extra_cost * original.quantity;
+    END IF;
+
+    SELECT COALESCE(SUM(COALESCE((c->>'valor')::NUMERIC, 0)), 0) INTO extra_cost
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(original.custos_adicionais) = 'array' THEN original.custos_adicionais ELSE '[]'::jsonb END
+    ) c;
+
+    goods_cost := goods_cost + extra_cost;
+    sale_value := COALESCE(original.preco_venda_usado, 0) * original.quantity;
+
+    IF sale_value > 0 OR goods_cost > 0 THEN
+      INSERT INTO public.financeiro (
+        organization_id, user_id, tipo, data, descricao, produto_id, quantidade,
+        custo_total, preco_venda, valor, lucro_liquido, margem_percentual, custos_adicionais
+      )
+      VALUES (
+        original.organization_id,
+        auth.uid(),
+        'saida',
+        CURRENT_DATE,
+        'Estorno - ' || item_name || COALESCE(' (' || original.reference || ')', ''),
+        COALESCE(original.product_id, original.kit_id),
+        -original.quantity,
+        -goods_cost,
+        COALESCE(original.preco_venda_usado, 0),
+        -sale_value,
+        -(sale_value - goods_cost),
+        CASE WHEN sale_value > 0 THEN ((sale_value - goods_cost) / sale_value) * 100 ELSE 0 END,
+        '[]'::jsonb
+      );
+    END IF;
+  ELSIF original.type = 'IN' THEN
+    reversed_value := COALESCE(original.unit_cost, 0) * original.quantity;
+
+    IF reversed_value > 0 THEN
+      INSERT INTO public.financeiro (
+        organization_id, user_id, tipo, data, descricao, produto_id, quantidade,
+        custo_total, preco_venda, valor, lucro_liquido, margem_percentual, custos_adicionais
+      )
+      VALUES (
+        original.organization_id,
+        auth.uid(),
+        'entrada',
+        CURRENT_DATE,
+        'Estorno - ' || item_name || COALESCE(' (' || original.reference || ')', ''),
+        COALESCE(original.product_id, original.kit_id),
+        -original.quantity,
+        -reversed_value,
+        0,
+        -reversed_value,
+        0,
+        0,
+        '[]'::jsonb
+      );
+    END IF;
+  END IF;
+
+  RETURN new_movement_id;
+END;
+$$;
+
+-- Estornos e movimentações estornadas não recebem devoluções
+CREATE OR REPLACE FUNCTION public.prevent_return_of_reversed_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.movements
+    WHERE (id = NEW.original_movement_id AND reversal_of_id IS NOT NULL)
+       OR reversal_of_id = NEW.original_movement_id
+  ) THEN
+    RAISE EXCEPTION 'Movimentações estornadas não podem receber devoluções';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prevent_return_of_reversed_movement() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER prevent_return_of_reversed_movement_trigger
+BEFORE INSERT ON public.stock_returns
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_return_of_reversed_movement();
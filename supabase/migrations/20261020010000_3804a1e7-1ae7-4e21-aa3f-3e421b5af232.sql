@@ -0,0 +1,429 @@
+-- Documentos de movimentação: um cabeçalho (tipo, referência, locais, data e observação)
+-- com várias linhas, cada uma com sua quantidade e preço. As linhas viram movimentações
+-- ligadas ao documento e são gravadas numa única transação: entram todas ou nenhuma.
+
+CREATE TABLE public.movement_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  number TEXT NOT NULL,
+  type movement_type NOT NULL CHECK (type IN ('IN', 'OUT', 'TRANSFER')),
+  reference TEXT,
+  from_location_id UUID REFERENCES public.locations(id),
+  to_location_id UUID REFERENCES public.locations(id),
+  document_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, number)
+);
+
+ALTER TABLE public.movements
+ADD COLUMN IF NOT EXISTS document_id UUID REFERENCES public.movement_documents(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_movement_documents_organization ON public.movement_documents(organization_id, created_at DESC);
+CREATE INDEX idx_movements_document ON public.movements(document_id) WHERE document_id IS NOT NULL;
+
+ALTER TABLE public.movement_documents ENABLE ROW LEVEL SECURITY;
+
+-- Documentos são gravados apenas por register_movement_document
+CREATE POLICY "Users can view movement documents from their organization"
+ON public.movement_documents FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+-- Numeração sequencial por organização: DM-00001, DM-00002, ...
+CREATE OR REPLACE FUNCTION public.set_movement_document_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.number IS NULL OR NEW.number = '' THEN
+    PERFORM pg_advisory_xact_lock(hashtext('movement_documents:' || NEW.organization_id::TEXT));
+
+    SELECT 'DM-' || LPAD((COUNT(*) + 1)::TEXT, 5, '0')
+    INTO NEW.number
+    FROM public.movement_documents
+    WHERE organization_id = NEW.organization_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_movement_document_number() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER set_movement_document_number_trigger
+BEFORE INSERT ON public.movement_documents
+FOR EACH ROW
+EXECUTE FUNCTION public.set_movement_document_number();
+
+-- Registra um documento de movimentação com todas as suas linhas.
+-- Saídas e transferências conferem o disponível (saldo menos reservas) somando todas as
+-- linhas do documento; produtos com lote consomem os lotes por FEFO nas saídas e exigem o
+-- lote nas entradas; produtos serializados exigem um número de série por unidade.
+-- Entradas e saídas são lançadas no financeiro na data do documento.
+-- _lines: [{ "product_id": uuid, "kit_id": uuid, "assembled": bool, "quantity": n,
+--            "unit_cost": n, "unit_price": n, "lot_code": "...", "expiry_date": "yyyy-mm-dd",
+--            "serial_numbers": ["..."] }]
+-- Retorna o id do documento.
+CREATE OR REPLACE FUNCTION public.register_movement_document(
+  _type movement_type,
+  _lines JSONB,
+  _reference TEXT DEFAULT NULL,
+  _from_location_id UUID DEFAULT NULL,
+  _to_location_id UUID DEFAULT NULL,
+  _document_date DATE DEFAULT NULL,
+  _note TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  org_id UUID;
+  document_row public.movement_documents%ROWTYPE;
+  line_data JSONB;
+  line_number BIGINT;
+  line_product_id UUID;
+  line_kit_id UUID;
+  line_assembled BOOLEAN;
+  line_quantity NUMERIC;
+  line_unit_price NUMERIC;
+  serial_numbers JSONB;
+  item RECORD;
+  component RECORD;
+  locked_quantity NUMERIC;
+  on_hand NUMERIC;
+  reserved NUMERIC;
+  lot_code_value TEXT;
+  lot_id_value UUID;
+  serial_number_value TEXT;
+  serial_id_value UUID;
+  new_movement_id UUID;
+  movement_cost NUMERIC;
+  kit_extra_cost NUMERIC;
+  goods_cost NUMERIC;
+  consumed_cost NUMERIC;
+  sale_value NUMERIC;
+  costing TEXT;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'operador'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role) OR
+          has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para registrar movimentações';
+  END IF;
+
+  org_id := public.get_user_organization_id(auth.uid());
+
+  IF _type NOT IN ('IN', 'OUT', 'TRANSFER') THEN
+    RAISE EXCEPTION 'Documentos aceitam apenas entradas, saídas e transferências';
+  END IF;
+
+  IF _type = 'TRANSFER' AND (_from_location_id IS NULL OR _to_location_id IS NULL) THEN
+    RAISE EXCEPTION 'Transferências exigem local de origem e de destino';
+  END IF;
+
+  IF _type = 'TRANSFER' AND _from_location_id = _to_location_id THEN
+    RAISE EXCEPTION 'Origem e destino devem ser diferentes';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(ARRAY[_from_location_id, _to_location_id]) AS loc(id)
+    WHERE loc.id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.locations WHERE id = loc.id AND organization_id = org_id)
+  ) THEN
+    RAISE EXCEPTION 'Local não encontrado';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'O documento não possui linhas';
+  END IF;
+
+  SELECT COALESCE(
+    (SELECT costing_method FROM public.organization_settings WHERE organization_id = org_id),
+    'average'
+  ) INTO costing;
+
+  INSERT INTO public.movement_documents (
+    organization_id, number, type, reference, from_location_id, to_location_id, document_date, note, created_by
+  )
+  VALUES (
+    org_id,
+    '',
+    _type,
+    NULLIF(TRIM(_reference), ''),
+    CASE WHEN _type IN ('OUT', 'TRANSFER') THEN _from_location_id END,
+    CASE WHEN _type IN ('IN', 'TRANSFER') THEN _to_location_id END,
+    COALESCE(_document_date, CURRENT_DATE),
+    NULLIF(TRIM(_note), ''),
+    auth.uid()
+  )
+  RETURNING * INTO document_row;
+
+  -- O que sai precisa estar disponível, somando as linhas do documento que usam o mesmo produto
+  IF _type IN ('OUT', 'TRANSFER') THEN
+    FOR item IN
+      SELECT p.id, p.name,
+             COALESCE(document_row.from_location_id, p.location_id) AS location_id,
+             SUM(demand.quantity) AS required
+      FROM jsonb_to_recordset(_lines) AS l(product_id UUID, kit_id UUID, assembled BOOLEAN, quantity NUMERIC)
+      JOIN LATERAL (
+        SELECT l.product_id, l.quantity
+        WHERE l.product_id IS NOT NULL
+        UNION ALL
+        SELECT ki.product_id, ki.quantity * l.quantity
+        FROM public.expand_kit_components(l.kit_id) ki
+        WHERE l.product_id IS NULL
+          AND l.kit_id IS NOT NULL
+          AND NOT COALESCE(l.assembled, false)
+      ) demand ON true
+      JOIN public.products p ON p.id = demand.product_id
+      WHERE p.organization_id = org_id
+      GROUP BY p.id, p.name, COALESCE(document_row.from_location_id, p.location_id)
+      ORDER BY p.id
+    LOOP
+      -- Relido depois da trava: o saldo pode ter mudado enquanto esperávamos
+      SELECT quantity INTO locked_quantity FROM public.products WHERE id = item.id FOR UPDATE;
+
+      IF item.location_id IS NULL THEN
+        SELECT locked_quantity - COALESCE(SUM(quantity), 0) INTO on_hand
+        FROM public.stock_balances
+        WHERE product_id = item.id;
+      ELSE
+        SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+        FROM public.stock_balances
+        WHERE product_id = item.id AND location_id = item.location_id;
+      END IF;
+
+      SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+      FROM public.get_reserved_quantities() r
+      WHERE r.product_id = item.id
+        AND r.location_id IS NOT DISTINCT FROM item.location_id;
+
+      IF on_hand - reserved < item.required THEN
+        RAISE EXCEPTION 'Estoque disponível insuficiente para % (disponível: %, necessário: %)',
+          item.name, on_hand - reserved, item.required;
+      END IF;
+    END LOOP;
+
+    FOR item IN
+      SELECT k.id, k.name, SUM(l.quantity) AS required
+      FROM jsonb_to_recordset(_lines) AS l(product_id UUID, kit_id UUID, assembled BOOLEAN, quantity NUMERIC)
+      JOIN public.kits k ON k.id = l.kit_id
+      WHERE l.product_id IS NULL
+        AND COALESCE(l.assembled, false)
+        AND k.organization_id = org_id
+      GROUP BY k.id, k.name
+      ORDER BY k.id
+    LOOP
+      PERFORM 1 FROM public.kits WHERE id = item.id FOR UPDATE;
+
+      SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+      FROM public.kit_stock_balances
+      WHERE kit_id = item.id AND location_id = document_row.from_location_id;
+
+      SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+      FROM public.get_reserved_kit_quantities() r
+      WHERE r.kit_id = item.id AND r.location_id = document_row.from_location_id;
+
+      IF on_hand - reserved < item.required THEN
+        RAISE EXCEPTION 'Kits montados insuficientes de % (disponível: %, necessário: %)',
+          item.name, on_hand - reserved, item.required;
+      END IF;
+    END LOOP;
+  END IF;
+
+  FOR line_data, line_number IN
+    SELECT value, ordinality FROM jsonb_array_elements(_lines) WITH ORDINALITY
+  LOOP
+    line_product_id := NULLIF(line_data->>'product_id', '')::UUID;
+    line_kit_id := NULLIF(line_data->>'kit_id', '')::UUID;
+    line_assembled := line_kit_id IS NOT NULL AND COALESCE((line_data->>'assembled')::BOOLEAN, false);
+    line_quantity := COALESCE((line_data->>'quantity')::NUMERIC, 0);
+    line_unit_price := COALESCE((line_data->>'unit_price')::NUMERIC, 0);
+
+    IF (line_product_id IS NULL) = (line_kit_id IS NULL) THEN
+      RAISE EXCEPTION 'Linha %: informe um produto ou um kit', line_number;
+    END IF;
+
+    IF line_quantity <= 0 THEN
+      RAISE EXCEPTION 'Linha %: a quantidade deve ser maior que zero', line_number;
+    END IF;
+
+    IF line_product_id IS NOT NULL THEN
+      SELECT p.name AS item_name, p.track_lots, p.serialized, COALESCE(p.preco_venda, 0) AS preco_venda
+      INTO item
+      FROM public.products p
+      WHERE p.id = line_product_id AND p.organization_id = org_id;
+    ELSE
+      SELECT k.name AS item_name, false AS track_lots, false AS serialized, COALESCE(k.preco_venda, 0) AS preco_venda
+      INTO item
+      FROM public.kits k
+      WHERE k.id = line_kit_id AND k.organization_id = org_id;
+    END IF;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Linha %: item não encontrado', line_number;
+    END IF;
+
+    lot_code_value := NULLIF(TRIM(line_data->>'lot_code'), '');
+    IF _type = 'IN' AND item.track_lots AND lot_code_value IS NULL THEN
+      RAISE EXCEPTION 'Informe o lote de %', item.item_name;
+    END IF;
+
+    serial_numbers := COALESCE(line_data->'serial_numbers', '[]'::jsonb);
+    IF item.serialized AND jsonb_array_length(serial_numbers) <> line_quantity THEN
+      RAISE EXCEPTION 'Informe um número de série por unidade de %', item.item_name;
+    END IF;
+
+    -- O custo informado na entrada de produtos alimenta o custo médio; nas demais o banco grava o custo vigente
+    INSERT INTO public.movements (
+      organization_id, type, product_id, kit_id, assembled, quantity, from_location_id, to_location_id,
+      reference, note, created_by, unit_cost, preco_venda_usado, document_id
+    )
+    VALUES (
+      org_id,
+      _type,
+      line_product_id,
+      line_kit_id,
+      line_assembled,
+      line_quantity,
+      document_row.from_location_id,
+      document_row.to_location_id,
+      COALESCE(document_row.reference, document_row.number),
+      document_row.note,
+      auth.uid(),
+      CASE WHEN _type = 'IN' AND line_product_id IS NOT NULL THEN (line_data->>'unit_cost')::NUMERIC END,
+      CASE WHEN _type = 'OUT' THEN line_unit_price ELSE 0 END,
+      document_row.id
+    )
+    RETURNING id, COALESCE(unit_cost, 0) INTO new_movement_id, movement_cost;
+
+    IF _type = 'IN' AND item.track_lots THEN
+      SELECT id INTO lot_id_value
+      FROM public.product_lots
+      WHERE product_id = line_product_id AND lot_code = lot_code_value;
+
+      IF NOT FOUND THEN
+        INSERT INTO public.product_lots (organization_id, product_id, lot_code, expiry_date)
+        VALUES (org_id, line_product_id, lot_code_value, NULLIF(line_data->>'expiry_date', '')::DATE)
+        RETURNING id INTO lot_id_value;
+      END IF;
+
+      INSERT INTO public.movement_lots (organization_id, movement_id, lot_id, quantity)
+      VALUES (org_id, new_movement_id, lot_id_value, line_quantity);
+    ELSIF _type = 'OUT' AND item.track_lots THEN
+      PERFORM public.consume_lots_fefo(new_movement_id, org_id, line_product_id, line_quantity);
+    ELSIF _type = 'OUT' AND line_kit_id IS NOT NULL AND NOT line_assembled THEN
+      FOR component IN
+        SELECT ki.product_id, ki.quantity
+        FROM public.expand_kit_components(line_kit_id) ki
+        JOIN public.products p ON p.id = ki.product_id
+        WHERE p.track_lots
+      LOOP
+        PERFORM public.consume_lots_fefo(new_movement_id, org_id, component.product_id, component.quantity * line_quantity);
+      END LOOP;
+    END IF;
+
+    IF item.serialized THEN
+      FOR serial_number_value IN SELECT TRIM(value) FROM jsonb_array_elements_text(serial_numbers)
+      LOOP
+        IF _type = 'IN' THEN
+          IF EXISTS (
+            SELECT 1 FROM public.product_serials
+            WHERE product_id = line_product_id AND serial_number = serial_number_value AND status = 'in_stock'
+          ) THEN
+            RAISE EXCEPTION 'Número de série % já está em estoque', serial_number_value;
+          END IF;
+
+          INSERT INTO public.product_serials (organization_id, product_id, serial_number)
+          VALUES (org_id, line_product_id, serial_number_value)
+          ON CONFLICT (product_id, serial_number) DO UPDATE SET updated_at = now()
+          RETURNING id INTO serial_id_value;
+        ELSE
+          SELECT id INTO serial_id_value
+          FROM public.product_serials
+          WHERE product_id = line_product_id AND serial_number = serial_number_value AND status = 'in_stock'
+            AND (document_row.from_location_id IS NULL OR location_id = document_row.from_location_id)
+          FOR UPDATE;
+
+          IF NOT FOUND THEN
+            RAISE EXCEPTION 'Número de série % não está em estoque no local de origem', serial_number_value;
+          END IF;
+        END IF;
+
+        INSERT INTO public.movement_serials (organization_id, movement_id, serial_id)
+        VALUES (org_id, new_movement_id, serial_id_value);
+      END LOOP;
+    END IF;
+
+    -- Mesmo formato dos lançamentos feitos pela tela de movimentações
+    IF _type = 'IN' THEN
+      goods_cost := movement_cost * line_quantity;
+
+      INSERT INTO public.financeiro (
+        organization_id, user_id, tipo, data, descricao, produto_id, quantidade,
+        custo_total, preco_venda, valor, lucro_liquido, margem_percentual, custos_adicionais
+      )
+      VALUES (
+        org_id,
+        auth.uid(),
+        'entrada',
+        document_row.document_date,
+        'Entrada - ' || item.item_name || ' (' || COALESCE(document_row.reference, document_row.number) || ')',
+        COALESCE(line_product_id, line_kit_id),
+        line_quantity,
+        goods_cost,
+        item.preco_venda,
+        goods_cost,
+        0,
+        0,
+        '[]'::jsonb
+      );
+    ELSIF _type = 'OUT' THEN
+      -- Custos adicionais do kit e dos sub-kits entram no custo da venda
+      kit_extra_cost := 0;
+      IF line_kit_id IS NOT NULL THEN
+        kit_extra_cost := public.get_kit_extra_cost(line_kit_id);
+      END IF;
+
+      goods_cost := movement_cost * line_quantity;
+
+      -- No PEPS o custo da venda é o das camadas consumidas pela saída
+      IF costing = 'fifo' THEN
+        SELECT SUM(quantity * unit_cost) INTO consumed_cost
+        FROM public.cost_layer_consumptions
+        WHERE movement_id = new_movement_id;
+
+        IF consumed_cost IS NOT NULL THEN
+          goods_cost := consumed_cost + kit_extra_cost * line_quantity;
+        END IF;
+      END IF;
+
+      sale_value := line_unit_price * line_quantity;
+
+      INSERT INTO public.financeiro (
+        organization_id, user_id, tipo, data, descricao, produto_id, quantidade,
+        custo_total, preco_venda, valor, lucro_liquido, margem_percentual, custos_adicionais
+      )
+      VALUES (
+        org_id,
+        auth.uid(),
+        'saida',
+        document_row.document_date,
+        'Saída - ' || item.item_name || ' (' || COALESCE(document_row.reference, document_row.number) || ')',
+        COALESCE(line_product_id, line_kit_id),
+        line_quantity,
+        goods_cost,
+        line_unit_price,
+        sale_value,
+        sale_value - goods_cost,
+        CASE WHEN sale_value > 0 THEN ((sale_value - goods_cost) / sale_value) * 100 ELSE 0 END,
+        '[]'::jsonb
+      );
+    END IF;
+  END LOOP;
+
+  RETURN document_row.id;
+END;
+$$;
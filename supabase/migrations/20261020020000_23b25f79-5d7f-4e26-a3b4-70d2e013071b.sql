@@ -0,0 +1,451 @@
+-- Lançamento atômico de uma movimentação avulsa. A verificação de saldo deixa de ser feita
+-- no navegador: a função trava os produtos (ou o kit montado) envolvidos, confere o saldo
+-- disponível e grava a movimentação, os lotes, os números de série e o financeiro na mesma
+-- transação. Duas saídas simultâneas das últimas unidades passam a ser serializadas pela
+-- trava, e a segunda enxerga o saldo já baixado pela primeira.
+--
+-- Erros de regra saem com HINT = código do erro e DETAIL = JSON com os dados, para a tela
+-- montar a mensagem:
+--   insufficient_stock  [{ item_id, item_name, location_id, available, required }]
+--   insufficient_kits   [{ item_id, item_name, location_id, available, required }]
+--   lot_required, lot_unavailable, serial_mismatch, serial_unavailable, invalid_movement, not_found,
+--   not_allowed
+
+CREATE OR REPLACE FUNCTION public.raise_posting_error(_code TEXT, _message TEXT, _detail JSONB DEFAULT '{}'::jsonb)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION USING MESSAGE = _message, HINT = _code, DETAIL = _detail::text;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.raise_posting_error(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- _lot_allocations: [{ "lot_id": uuid, "quantity": n }] escolhidos na saída; vazio = FEFO
+-- _serial_numbers: números recebidos na entrada; _serial_ids: unidades escolhidas na saída/transferência
+-- Retorna o id da movimentação criada.
+CREATE OR REPLACE FUNCTION public.post_movement(
+  _type movement_type,
+  _quantity NUMERIC,
+  _product_id UUID DEFAULT NULL,
+  _kit_id UUID DEFAULT NULL,
+  _assembled BOOLEAN DEFAULT false,
+  _from_location_id UUID DEFAULT NULL,
+  _to_location_id UUID DEFAULT NULL,
+  _reference TEXT DEFAULT NULL,
+  _note TEXT DEFAULT NULL,
+  _unit_cost NUMERIC DEFAULT NULL,
+  _unit_price NUMERIC DEFAULT NULL,
+  _custos_adicionais JSONB DEFAULT '[]'::jsonb,
+  _entered_unit TEXT DEFAULT NULL,
+  _entered_quantity NUMERIC DEFAULT NULL,
+  _lot_code TEXT DEFAULT NULL,
+  _expiry_date DATE DEFAULT NULL,
+  _lot_allocations JSONB DEFAULT '[]'::jsonb,
+  _serial_numbers JSONB DEFAULT '[]'::jsonb,
+  _serial_ids JSONB DEFAULT '[]'::jsonb,
+  _correction_of_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  org_id UUID;
+  is_assembled BOOLEAN := _kit_id IS NOT NULL AND COALESCE(_assembled, false);
+  item RECORD;
+  demand RECORD;
+  allocation RECORD;
+  shortages JSONB := '[]'::jsonb;
+  locked_quantity NUMERIC;
+  on_hand NUMERIC;
+  reserved NUMERIC;
+  lot_id_value UUID;
+  lot_balance NUMERIC;
+  serial_number_value TEXT;
+  serial_id_value UUID;
+  serial_count INTEGER;
+  new_movement_id UUID;
+  movement_cost NUMERIC;
+  unit_cost_value NUMERIC;
+  kit_extra_cost NUMERIC := 0;
+  goods_cost NUMERIC;
+  consumed_cost NUMERIC;
+  extra_costs NUMERIC;
+  total_cost NUMERIC;
+  sale_price NUMERIC;
+  sale_value NUMERIC;
+  costing TEXT;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'operador'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role) OR
+          has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    PERFORM public.raise_posting_error('not_allowed', 'Sem permissão para registrar movimentações');
+  END IF;
+
+  org_id := public.get_user_organization_id(auth.uid());
+
+  IF _type NOT IN ('IN', 'OUT', 'TRANSFER') THEN
+    PERFORM public.raise_posting_error('invalid_movement', 'Use entradas, saídas ou transferências');
+  END IF;
+
+  IF (_product_id IS NULL) = (_kit_id IS NULL) THEN
+    PERFORM public.raise_posting_error('invalid_movement', 'Selecione um produto ou kit');
+  END IF;
+
+  IF COALESCE(_quantity, 0) <= 0 THEN
+    PERFORM public.raise_posting_error('invalid_movement', 'A quantidade deve ser maior que zero');
+  END IF;
+
+  IF _type = 'TRANSFER' AND _to_location_id IS NULL THEN
+    PERFORM public.raise_posting_error('invalid_movement', 'Selecione o local de destino');
+  END IF;
+
+  IF _type = 'TRANSFER' AND _from_location_id IS NOT DISTINCT FROM _to_location_id THEN
+    PERFORM public.raise_posting_error('invalid_movement', 'Origem e destino devem ser diferentes');
+  END IF;
+
+  -- Kits montados não têm local padrão para onde recorrer
+  IF is_assembled AND ((_type <> 'IN' AND _from_location_id IS NULL) OR (_type <> 'OUT' AND _to_location_id IS NULL)) THEN
+    PERFORM public.raise_posting_error('invalid_movement', 'Informe o local dos kits montados');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(ARRAY[_from_location_id, _to_location_id]) AS loc(id)
+    WHERE loc.id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.locations WHERE id = loc.id AND organization_id = org_id)
+  ) THEN
+    PERFORM public.raise_posting_error('not_found', 'Local não encontrado');
+  END IF;
+
+  -- A correção substitui uma movimentação da organização que já foi estornada
+  IF _correction_of_id IS NOT NULL THEN
+    IF NOT EXISTS (SELECT 1 FROM public.movements WHERE id = _correction_of_id AND organization_id = org_id) THEN
+      PERFORM public.raise_posting_error('not_found', 'Movimentação corrigida não encontrada');
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.movements WHERE reversal_of_id = _correction_of_id) THEN
+      PERFORM public.raise_posting_error(
+        'invalid_movement',
+        'Só é possível corrigir uma movimentação já estornada',
+        jsonb_build_object('correction_of_id', _correction_of_id)
+      );
+    END IF;
+  END IF;
+
+  IF _product_id IS NOT NULL THEN
+    SELECT p.name AS item_name, p.track_lots, p.serialized, COALESCE(p.preco_venda, 0) AS preco_venda,
+           COALESCE(p.custo_unitario, 0) AS custo_unitario
+    INTO item
+    FROM public.products p
+    WHERE p.id = _product_id AND p.organization_id = org_id;
+  ELSE
+    SELECT k.name AS item_name, false AS track_lots, false AS serialized, COALESCE(k.preco_venda, 0) AS preco_venda,
+           0::NUMERIC AS custo_unitario
+    INTO item
+    FROM public.kits k
+    WHERE k.id = _kit_id AND k.organization_id = org_id;
+  END IF;
+
+  IF NOT FOUND THEN
+    PERFORM public.raise_posting_error('not_found', 'Produto ou kit não encontrado');
+  END IF;
+
+  IF _type = 'IN' AND item.track_lots AND NULLIF(TRIM(_lot_code), '') IS NULL THEN
+    PERFORM public.raise_posting_error('lot_required', 'Informe o lote da entrada');
+  END IF;
+
+  IF item.serialized THEN
+    serial_count := jsonb_array_length(COALESCE(CASE WHEN _type = 'IN' THEN _serial_numbers ELSE _serial_ids END, '[]'::jsonb));
+    IF serial_count <> _quantity THEN
+      PERFORM public.raise_posting_error(
+        'serial_mismatch',
+        format('Informe um número de série por unidade. Informados: %s, Quantidade: %s', serial_count, _quantity),
+        jsonb_build_object('informed', serial_count, 'quantity', _quantity)
+      );
+    END IF;
+  END IF;
+
+  -- Saldo disponível na origem: trava os produtos em ordem de id (a mesma dos documentos)
+  -- para que lançamentos concorrentes esperem um pelo outro em vez de se cruzarem
+  IF _type IN ('OUT', 'TRANSFER') AND NOT is_assembled THEN
+    FOR demand IN
+      SELECT p.id, p.name,
+             COALESCE(_from_location_id, p.location_id) AS location_id,
+             SUM(d.quantity) AS required
+      FROM (
+        SELECT _product_id AS product_id, _quantity AS quantity
+        WHERE _product_id IS NOT NULL
+        UNION ALL
+        SELECT ki.product_id, ki.quantity * _quantity
+        FROM public.expand_kit_components(_kit_id) ki
+        WHERE _kit_id IS NOT NULL
+      ) d
+      JOIN public.products p ON p.id = d.product_id
+      WHERE p.organization_id = org_id
+      GROUP BY p.id, p.name, COALESCE(_from_location_id, p.location_id)
+      ORDER BY p.id
+    LOOP
+      -- Relido depois da trava: o saldo pode ter mudado enquanto esperávamos
+      SELECT quantity INTO locked_quantity FROM public.products WHERE id = demand.id FOR UPDATE;
+
+      IF demand.location_id IS NULL THEN
+        SELECT locked_quantity - COALESCE(SUM(quantity), 0) INTO on_hand
+        FROM public.stock_balances
+        WHERE product_id = demand.id;
+      ELSE
+        SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+        FROM public.stock_balances
+        WHERE product_id = demand.id AND location_id = demand.location_id;
+      END IF;
+
+      SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+      FROM public.get_reserved_quantities() r
+      WHERE r.product_id = demand.id
+        AND r.location_id IS NOT DISTINCT FROM demand.location_id;
+
+      IF on_hand - reserved < demand.required THEN
+        shortages := shortages || jsonb_build_object(
+          'item_id', demand.id,
+          'item_name', demand.name,
+          'location_id', demand.location_id,
+          'available', on_hand - reserved,
+          'required', demand.required
+        );
+      END IF;
+    END LOOP;
+
+    IF jsonb_array_length(shortages) > 0 THEN
+      PERFORM public.raise_posting_error(
+        'insufficient_stock',
+        'Estoque insuficiente para ' || (
+          SELECT string_agg(s->>'item_name', ', ') FROM jsonb_array_elements(shortages) s
+        ),
+        shortages
+      );
+    END IF;
+  ELSIF _type IN ('OUT', 'TRANSFER') THEN
+    PERFORM 1 FROM public.kits WHERE id = _kit_id FOR UPDATE;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+    FROM public.kit_stock_balances
+    WHERE kit_id = _kit_id AND location_id = _from_location_id;
+
+    SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+    FROM public.get_reserved_kit_quantities() r
+    WHERE r.kit_id = _kit_id AND r.location_id = _from_location_id;
+
+    IF on_hand - reserved < _quantity THEN
+      PERFORM public.raise_posting_error(
+        'insufficient_kits',
+        format('Kits montados insuficientes! Disponível: %s, Solicitado: %s', on_hand - reserved, _quantity),
+        jsonb_build_array(jsonb_build_object(
+          'item_id', _kit_id,
+          'item_name', item.item_name,
+          'location_id', _from_location_id,
+          'available', on_hand - reserved,
+          'required', _quantity
+        ))
+      );
+    END IF;
+  END IF;
+
+  -- O custo informado na entrada de produtos alimenta o custo médio; nas demais o banco grava o custo vigente
+  INSERT INTO public.movements (
+    organization_id, type, product_id, kit_id, assembled, quantity, entered_unit, entered_quantity,
+    from_location_id, to_location_id, reference, note, created_by, unit_cost,
+    custos_adicionais, preco_venda_usado, correction_of_id
+  )
+  VALUES (
+    org_id,
+    _type,
+    _product_id,
+    _kit_id,
+    is_assembled,
+    _quantity,
+    _entered_unit,
+    _entered_quantity,
+    _from_location_id,
+    _to_location_id,
+    NULLIF(TRIM(_reference), ''),
+    NULLIF(TRIM(_note), ''),
+    auth.uid(),
+    CASE WHEN _type = 'IN' AND _product_id IS NOT NULL THEN _unit_cost END,
+    CASE WHEN _type = 'OUT' THEN COALESCE(_custos_adicionais, '[]'::jsonb) ELSE '[]'::jsonb END,
+    CASE WHEN _type = 'OUT' THEN COALESCE(_unit_price, 0) ELSE 0 END,
+    _correction_of_id
+  )
+  RETURNING id, unit_cost INTO new_movement_id, movement_cost;
+
+  -- Lotes recebidos ou consumidos
+  IF _type = 'IN' AND item.track_lots THEN
+    SELECT id INTO lot_id_value
+    FROM public.product_lots
+    WHERE product_id = _product_id AND lot_code = TRIM(_lot_code);
+
+    IF NOT FOUND THEN
+      INSERT INTO public.product_lots (organization_id, product_id, lot_code, expiry_date)
+      VALUES (org_id, _product_id, TRIM(_lot_code), _expiry_date)
+      RETURNING id INTO lot_id_value;
+    END IF;
+
+    INSERT INTO public.movement_lots (organization_id, movement_id, lot_id, quantity)
+    VALUES (org_id, new_movement_id, lot_id_value, _quantity);
+  ELSIF _type = 'OUT' AND item.track_lots AND jsonb_array_length(COALESCE(_lot_allocations, '[]'::jsonb)) > 0 THEN
+    IF (SELECT SUM((a->>'quantity')::NUMERIC) FROM jsonb_array_elements(_lot_allocations) a) > _quantity THEN
+      PERFORM public.raise_posting_error('lot_unavailable', 'A quantidade distribuída entre os lotes é maior que a da saída');
+    END IF;
+
+    FOR allocation IN
+      SELECT (a->>'lot_id')::UUID AS lot_id, (a->>'quantity')::NUMERIC AS quantity
+      FROM jsonb_array_elements(_lot_allocations) a
+      ORDER BY 1
+    LOOP
+      SELECT quantity INTO lot_balance
+      FROM public.product_lots
+      WHERE id = allocation.lot_id AND product_id = _product_id
+      FOR UPDATE;
+
+      IF NOT FOUND OR allocation.quantity > lot_balance THEN
+        PERFORM public.raise_posting_error(
+          'lot_unavailable',
+          'A quantidade informada para um dos lotes é maior que o saldo do lote',
+          jsonb_build_object('lot_id', allocation.lot_id, 'available', COALESCE(lot_balance, 0), 'required', allocation.quantity)
+        );
+      END IF;
+
+      IF allocation.quantity > 0 THEN
+        INSERT INTO public.movement_lots (organization_id, movement_id, lot_id, quantity)
+        VALUES (org_id, new_movement_id, allocation.lot_id, -allocation.quantity);
+      END IF;
+    END LOOP;
+  ELSIF _type = 'OUT' AND item.track_lots THEN
+    PERFORM public.consume_lots_fefo(new_movement_id, org_id, _product_id, _quantity);
+  ELSIF _type = 'OUT' AND _kit_id IS NOT NULL AND NOT is_assembled THEN
+    FOR demand IN
+      SELECT ki.product_id, ki.quantity
+      FROM public.expand_kit_components(_kit_id) ki
+      JOIN public.products p ON p.id = ki.product_id
+      WHERE p.track_lots
+    LOOP
+      PERFORM public.consume_lots_fefo(new_movement_id, org_id, demand.product_id, demand.quantity * _quantity);
+    END LOOP;
+  END IF;
+
+  -- Números de série: na entrada, unidades que já saíram voltam com o mesmo registro
+  IF item.serialized THEN
+    IF _type = 'IN' THEN
+      FOR serial_number_value IN SELECT TRIM(value) FROM jsonb_array_elements_text(_serial_numbers)
+      LOOP
+        IF EXISTS (
+          SELECT 1 FROM public.product_serials
+          WHERE product_id = _product_id AND serial_number = serial_number_value AND status = 'in_stock'
+        ) THEN
+          PERFORM public.raise_posting_error(
+            'serial_unavailable',
+            format('Número de série %s já está em estoque', serial_number_value),
+            jsonb_build_object('serial_number', serial_number_value)
+          );
+        END IF;
+
+        INSERT INTO public.product_serials (organization_id, product_id, serial_number)
+        VALUES (org_id, _product_id, serial_number_value)
+        ON CONFLICT (product_id, serial_number) DO UPDATE SET updated_at = now()
+        RETURNING id INTO serial_id_value;
+
+        INSERT INTO public.movement_serials (organization_id, movement_id, serial_id)
+        VALUES (org_id, new_movement_id, serial_id_value);
+      END LOOP;
+    ELSE
+      FOR serial_id_value IN SELECT value::UUID FROM jsonb_array_elements_text(_serial_ids)
+      LOOP
+        PERFORM 1
+        FROM public.product_serials
+        WHERE id = serial_id_value AND product_id = _product_id AND status = 'in_stock'
+          AND (_from_location_id IS NULL OR location_id = _from_location_id)
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+          PERFORM public.raise_posting_error(
+            'serial_unavailable',
+            'Uma das unidades selecionadas não está mais em estoque no local de origem',
+            jsonb_build_object('serial_id', serial_id_value)
+          );
+        END IF;
+
+        INSERT INTO public.movement_serials (organization_id, movement_id, serial_id)
+        VALUES (org_id, new_movement_id, serial_id_value);
+      END LOOP;
+    END IF;
+  END IF;
+
+  -- Financeiro de entradas e saídas, no mesmo formato que a tela de movimentações gravava
+  IF _type IN ('IN', 'OUT') THEN
+    SELECT COALESCE(
+      (SELECT costing_method FROM public.organization_settings WHERE organization_id = org_id),
+      'average'
+    ) INTO costing;
+
+    IF _kit_id IS NOT NULL THEN
+      kit_extra_cost := public.get_kit_extra_cost(_kit_id);
+    END IF;
+
+    -- Custo gravado na movimentação (vigente no momento); sem ele, o do cadastro
+    IF movement_cost IS NOT NULL THEN
+      unit_cost_value := movement_cost;
+    ELSIF _kit_id IS NOT NULL THEN
+      unit_cost_value := COALESCE(public.get_kit_unit_cost(_kit_id), 0);
+    ELSE
+      SELECT COALESCE(custo_unitario, 0) INTO unit_cost_value FROM public.products WHERE id = _product_id;
+    END IF;
+
+    goods_cost := unit_cost_value * _quantity;
+
+    -- No PEPS o custo da venda é o das camadas consumidas pela saída
+    IF _type = 'OUT' AND costing = 'fifo' THEN
+      SELECT SUM(quantity * unit_cost) INTO consumed_cost
+      FROM public.cost_layer_consumptions
+      WHERE movement_id = new_movement_id;
+
+      IF consumed_cost IS NOT NULL THEN
+        goods_cost := consumed_cost + kit_extra_cost * _quantity;
+      END IF;
+    END IF;
+
+    SELECT COALESCE(SUM((c->>'valor')::NUMERIC), 0) INTO extra_costs
+    FROM jsonb_array_elements(COALESCE(_custos_adicionais, '[]'::jsonb)) c;
+
+    total_cost := goods_cost + extra_costs;
+    sale_price := CASE WHEN _type = 'OUT' THEN COALESCE(_unit_price, item.preco_venda) ELSE item.preco_venda END;
+    sale_value := CASE WHEN _type = 'OUT' THEN sale_price * _quantity ELSE total_cost END;
+
+    INSERT INTO public.financeiro (
+      organization_id, user_id, tipo, data, descricao, produto_id, quantidade,
+      custo_total, preco_venda, valor, lucro_liquido, margem_percentual, custos_adicionais
+    )
+    VALUES (
+      org_id,
+      auth.uid(),
+      CASE WHEN _type = 'IN' THEN 'entrada' ELSE 'saida' END,
+      CURRENT_DATE,
+      CASE WHEN _type = 'IN' THEN 'Entrada - ' ELSE 'Saída - ' END || item.item_name ||
+        COALESCE(' (' || NULLIF(TRIM(_reference), '') || ')', ''),
+      COALESCE(_product_id, _kit_id),
+      _quantity,
+      total_cost,
+      sale_price,
+      sale_value,
+      CASE WHEN _type = 'OUT' THEN sale_value - total_cost ELSE 0 END,
+      CASE WHEN _type = 'OUT' AND sale_value > 0 THEN ((sale_value - total_cost) / sale_value) * 100 ELSE 0 END,
+      COALESCE(_custos_adicionais, '[]'::jsonb)
+    );
+  END IF;
+
+  RETURN new_movement_id;
+END;
+$$;
+
+-- Movimentações passam a ser gravadas só pelas funções de lançamento (SECURITY DEFINER);
+-- o cliente não insere mais direto na tabela
+DROP POLICY IF EXISTS "Operadores and above can create movements in their organization" ON public.movements;
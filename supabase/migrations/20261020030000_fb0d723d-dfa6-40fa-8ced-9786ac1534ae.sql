@@ -0,0 +1,534 @@
+-- Transferências em trânsito entre locais: a mercadoria sai da origem no envio e fica num
+-- local de trânsito da organização até que alguém no destino confirme o recebimento.
+-- O recebimento pode ser parcial; a diferença sai do estoque como perda (ajuste negativo).
+-- Cada etapa é uma movimentação ligada à transferência:
+--   envio        TRANSFER origem → trânsito
+--   recebimento  TRANSFER trânsito → destino (quantidade recebida)
+--   perda        ADJUSTMENT negativo no trânsito (quantidade que não chegou)
+
+-- Local de sistema que guarda o saldo em trânsito; um por organização, criado no primeiro envio
+ALTER TABLE public.locations
+ADD COLUMN IF NOT EXISTS is_transit BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_locations_transit ON public.locations(organization_id) WHERE is_transit;
+
+-- Local de trabalho do usuário: recebe os avisos das transferências destinadas a ele
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL;
+
+CREATE TABLE public.stock_transfers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  from_location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  to_location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'in_transit' CHECK (status IN ('in_transit', 'received')),
+  -- Preenchidos no recebimento: recebido + perdido = enviado
+  received_quantity NUMERIC CHECK (received_quantity >= 0),
+  lost_quantity NUMERIC CHECK (lost_quantity >= 0),
+  reference TEXT,
+  notes TEXT,
+  receipt_notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  received_by UUID REFERENCES auth.users(id),
+  received_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.movements
+ADD COLUMN IF NOT EXISTS transfer_id UUID REFERENCES public.stock_transfers(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_stock_transfers_organization ON public.stock_transfers(organization_id, status);
+CREATE INDEX idx_stock_transfers_destination ON public.stock_transfers(to_location_id) WHERE status = 'in_transit';
+CREATE INDEX idx_movements_transfer ON public.movements(transfer_id) WHERE transfer_id IS NOT NULL;
+
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+
+-- Transferências são gravadas apenas por dispatch_stock_transfer e receive_stock_transfer
+CREATE POLICY "Users can view stock transfers from their organization"
+ON public.stock_transfers FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE TRIGGER update_stock_transfers_updated_at
+BEFORE UPDATE ON public.stock_transfers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.stock_transfers;
+
+-- O local de trânsito só movimenta pelas transferências, e as etapas de uma transferência
+-- não são estornadas: o recebimento já registra o que chegou e o que se perdeu
+CREATE OR REPLACE FUNCTION public.check_transit_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reversal_of_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.movements WHERE id = NEW.reversal_of_id AND transfer_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Movimentações de transferências em trânsito não podem ser estornadas';
+  END IF;
+
+  IF NEW.transfer_id IS NULL AND EXISTS (
+    SELECT 1 FROM public.locations
+    WHERE id IN (NEW.from_location_id, NEW.to_location_id) AND is_transit
+  ) THEN
+    RAISE EXCEPTION 'O local de trânsito só é movimentado por transferências em trânsito';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_transit_movement() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER check_transit_movement_trigger
+BEFORE INSERT ON public.movements
+FOR EACH ROW
+EXECUTE FUNCTION public.check_transit_movement();
+
+-- Ajustes negativos tiram a unidade do estoque, como as saídas (perdas em trânsito e de inventário)
+CREATE OR REPLACE FUNCTION public.refresh_serial_state(_serial_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  last_movement RECORD;
+BEGIN
+  SELECT m.type, m.quantity, m.to_location_id INTO last_movement
+  FROM public.movement_serials ms
+  JOIN public.movements m ON m.id = ms.movement_id
+  WHERE ms.serial_id = _serial_id
+  ORDER BY m.created_at DESC, ms.created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND OR last_movement.type = 'OUT' OR (last_movement.type = 'ADJUSTMENT' AND last_movement.quantity < 0) THEN
+    UPDATE public.product_serials
+    SET status = 'out', location_id = NULL
+    WHERE id = _serial_id;
+  ELSE
+    UPDATE public.product_serials
+    SET status = 'in_stock', location_id = last_movement.to_location_id
+    WHERE id = _serial_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_serial_state(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Local de trânsito da organização (criado na primeira vez). O código de local é único entre
+-- todas as organizações, por isso leva o começo do id da organização.
+CREATE OR REPLACE FUNCTION public.get_transit_location_id(_organization_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  transit_id UUID;
+BEGIN
+  SELECT id INTO transit_id
+  FROM public.locations
+  WHERE organization_id = _organization_id AND is_transit;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.locations (organization_id, name, code, is_transit)
+    VALUES (
+      _organization_id,
+      'Em trânsito',
+      'TRANSITO-' || upper(left(replace(_organization_id::text, '-', ''), 8)),
+      true
+    )
+    ON CONFLICT DO NOTHING
+    RETURNING id INTO transit_id;
+
+    -- Outro envio simultâneo pode ter criado o local primeiro
+    IF transit_id IS NULL THEN
+      SELECT id INTO transit_id
+      FROM public.locations
+      WHERE organization_id = _organization_id AND is_transit;
+    END IF;
+  END IF;
+
+  RETURN transit_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_transit_location_id(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Envia produtos para outro local: confere o saldo disponível na origem (com o produto
+-- travado, como em post_movement), tira a quantidade da origem para o local de trânsito e
+-- avisa os usuários que trabalham no destino (sem ninguém lá, administradores e almoxarifes).
+-- Sem origem informada, sai do local padrão do produto. Erros de regra usam os mesmos
+-- códigos de post_movement.
+-- _serial_ids: unidades enviadas, para produtos serializados
+-- Retorna o id da transferência.
+CREATE OR REPLACE FUNCTION public.dispatch_stock_transfer(
+  _product_id UUID,
+  _quantity NUMERIC,
+  _to_location_id UUID,
+  _from_location_id UUID DEFAULT NULL,
+  _reference TEXT DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _entered_unit TEXT DEFAULT NULL,
+  _entered_quantity NUMERIC DEFAULT NULL,
+  _serial_ids JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  org_id UUID;
+  product_row RECORD;
+  origin_id UUID;
+  origin_name TEXT;
+  destination_name TEXT;
+  transit_id UUID;
+  on_hand NUMERIC;
+  reserved NUMERIC;
+  serial_count INTEGER;
+  serial_id_value UUID;
+  new_transfer_id UUID;
+  new_movement_id UUID;
+  recipient RECORD;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'operador'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role) OR
+          has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para registrar movimentações';
+  END IF;
+
+  org_id := public.get_user_organization_id(auth.uid());
+
+  IF COALESCE(_quantity, 0) <= 0 THEN
+    PERFORM public.raise_posting_error('invalid_movement', 'A quantidade deve ser maior que zero');
+  END IF;
+
+  SELECT id, name, unit, serialized, location_id INTO product_row
+  FROM public.products
+  WHERE id = _product_id AND organization_id = org_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    PERFORM public.raise_posting_error('not_found', 'Produto não encontrado');
+  END IF;
+
+  origin_id := COALESCE(_from_location_id, product_row.location_id);
+
+  IF origin_id IS NULL OR _to_location_id IS NULL THEN
+    PERFORM public.raise_posting_error('invalid_movement', 'Selecione os locais de origem e destino');
+  END IF;
+
+  IF origin_id = _to_location_id THEN
+    PERFORM public.raise_posting_error('invalid_movement', 'Origem e destino devem ser diferentes');
+  END IF;
+
+  SELECT name INTO origin_name
+  FROM public.locations
+  WHERE id = origin_id AND organization_id = org_id AND NOT is_transit;
+
+  SELECT name INTO destination_name
+  FROM public.locations
+  WHERE id = _to_location_id AND organization_id = org_id AND NOT is_transit;
+
+  IF origin_name IS NULL OR destination_name IS NULL THEN
+    PERFORM public.raise_posting_error('not_found', 'Local não encontrado');
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO on_hand
+  FROM public.stock_balances
+  WHERE product_id = _product_id AND location_id = origin_id;
+
+  SELECT COALESCE(SUM(r.reserved_quantity), 0) INTO reserved
+  FROM public.get_reserved_quantities() r
+  WHERE r.product_id = _product_id AND r.location_id = origin_id;
+
+  IF on_hand - reserved < _quantity THEN
+    PERFORM public.raise_posting_error(
+      'insufficient_stock',
+      'Estoque insuficiente para ' || product_row.name,
+      jsonb_build_array(jsonb_build_object(
+        'item_id', _product_id,
+        'item_name', product_row.name,
+        'location_id', origin_id,
+        'available', on_hand - reserved,
+        'required', _quantity
+      ))
+    );
+  END IF;
+
+  IF product_row.serialized THEN
+    serial_count := jsonb_array_length(COALESCE(_serial_ids, '[]'::jsonb));
+    IF serial_count <> _quantity THEN
+      PERFORM public.raise_posting_error(
+        'serial_mismatch',
+        format('Informe um número de série por unidade. Informados: %s, Quantidade: %s', serial_count, _quantity),
+        jsonb_build_object('informed', serial_count, 'quantity', _quantity)
+      );
+    END IF;
+  END IF;
+
+  transit_id := public.get_transit_location_id(org_id);
+
+  INSERT INTO public.stock_transfers (
+    organization_id, product_id, quantity, from_location_id, to_location_id, reference, notes, created_by
+  )
+  VALUES (
+    org_id, _product_id, _quantity, origin_id, _to_location_id,
+    NULLIF(TRIM(_reference), ''), NULLIF(TRIM(_notes), ''), auth.uid()
+  )
+  RETURNING id INTO new_transfer_id;
+
+  INSERT INTO public.movements (
+    organization_id, type, product_id, quantity, entered_unit, entered_quantity,
+    from_location_id, to_location_id, reference, note, created_by, transfer_id
+  )
+  VALUES (
+    org_id,
+    'TRANSFER',
+    _product_id,
+    _quantity,
+    _entered_unit,
+    _entered_quantity,
+    origin_id,
+    transit_id,
+    NULLIF(TRIM(_reference), ''),
+    'Em trânsito para ' || destination_name || COALESCE(' - ' || NULLIF(TRIM(_notes), ''), ''),
+    auth.uid(),
+    new_transfer_id
+  )
+  RETURNING id INTO new_movement_id;
+
+  IF product_row.serialized THEN
+    FOR serial_id_value IN SELECT value::UUID FROM jsonb_array_elements_text(_serial_ids)
+    LOOP
+      PERFORM 1
+      FROM public.product_serials
+      WHERE id = serial_id_value AND product_id = _product_id AND status = 'in_stock'
+        AND location_id = origin_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        PERFORM public.raise_posting_error(
+          'serial_unavailable',
+          'Uma das unidades selecionadas não está mais em estoque no local de origem',
+          jsonb_build_object('serial_id', serial_id_value)
+        );
+      END IF;
+
+      INSERT INTO public.movement_serials (organization_id, movement_id, serial_id)
+      VALUES (org_id, new_movement_id, serial_id_value);
+    END LOOP;
+  END IF;
+
+  FOR recipient IN
+    SELECT DISTINCT pr.user_id
+    FROM public.profiles pr
+    WHERE pr.organization_id = org_id AND pr.location_id = _to_location_id
+    UNION
+    SELECT DISTINCT om.user_id
+    FROM public.organization_members om
+    INNER JOIN public.user_roles ur ON ur.user_id = om.user_id
+    WHERE om.organization_id = org_id
+      AND ur.role IN ('admin', 'superadmin', 'almoxarife')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.profiles pr
+        WHERE pr.organization_id = org_id AND pr.location_id = _to_location_id
+      )
+  LOOP
+    INSERT INTO public.notifications (
+      organization_id, user_id, title, message, type, related_entity_id, related_entity_type
+    )
+    VALUES (
+      org_id,
+      recipient.user_id,
+      'Transferência a receber',
+      format('%s %s de "%s" saíram de %s para %s. Confirme o recebimento quando a mercadoria chegar.',
+             _quantity, product_row.unit, product_row.name, origin_name, destination_name),
+      'info',
+      new_transfer_id,
+      'stock_transfer'
+    );
+  END LOOP;
+
+  RETURN new_transfer_id;
+END;
+$$;
+
+-- Confirma a chegada de uma transferência: a quantidade recebida vai do trânsito para o
+-- destino e o que faltar sai do estoque como perda (com os lotes pela ordem de vencimento).
+-- _received_serial_ids: unidades que chegaram, para produtos serializados; as demais
+-- unidades enviadas são baixadas como perda.
+CREATE OR REPLACE FUNCTION public.receive_stock_transfer(
+  _transfer_id UUID,
+  _received_quantity NUMERIC,
+  _notes TEXT DEFAULT NULL,
+  _received_serial_ids JSONB DEFAULT '[]'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  transfer public.stock_transfers%ROWTYPE;
+  product_row RECORD;
+  transit_id UUID;
+  shortfall NUMERIC;
+  serial_count INTEGER;
+  new_movement_id UUID;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'operador'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role) OR
+          has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Sem permissão para registrar movimentações';
+  END IF;
+
+  SELECT * INTO transfer
+  FROM public.stock_transfers
+  WHERE id = _transfer_id
+    AND organization_id = public.get_user_organization_id(auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    PERFORM public.raise_posting_error('not_found', 'Transferência não encontrada');
+  END IF;
+
+  IF transfer.status <> 'in_transit' THEN
+    PERFORM public.raise_posting_error('invalid_movement', 'Esta transferência já foi recebida');
+  END IF;
+
+  IF transfer.to_location_id IS NULL THEN
+    PERFORM public.raise_posting_error('not_found', 'O local de destino desta transferência foi excluído');
+  END IF;
+
+  -- A chegada é confirmada no destino: por quem está lotado nele ou por um administrador
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR
+          EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE user_id = auth.uid() AND location_id = transfer.to_location_id
+          )) THEN
+    PERFORM public.raise_posting_error(
+      'not_allowed',
+      'Apenas usuários do local de destino ou administradores podem confirmar o recebimento'
+    );
+  END IF;
+
+  IF _received_quantity IS NULL OR _received_quantity < 0 OR _received_quantity > transfer.quantity THEN
+    PERFORM public.raise_posting_error(
+      'invalid_movement',
+      format('A quantidade recebida deve estar entre 0 e %s', transfer.quantity)
+    );
+  END IF;
+
+  SELECT id, track_lots, serialized INTO product_row
+  FROM public.products
+  WHERE id = transfer.product_id
+  FOR UPDATE;
+
+  IF product_row.serialized THEN
+    serial_count := jsonb_array_length(COALESCE(_received_serial_ids, '[]'::jsonb));
+    IF serial_count <> _received_quantity THEN
+      PERFORM public.raise_posting_error(
+        'serial_mismatch',
+        format('Marque as unidades recebidas. Marcadas: %s, Quantidade recebida: %s', serial_count, _received_quantity),
+        jsonb_build_object('informed', serial_count, 'quantity', _received_quantity)
+      );
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(_received_serial_ids) s
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM public.movement_serials ms
+        JOIN public.movements m ON m.id = ms.movement_id
+        WHERE m.transfer_id = _transfer_id AND ms.serial_id = s.value::UUID
+      )
+    ) THEN
+      PERFORM public.raise_posting_error('serial_unavailable', 'Uma das unidades marcadas não faz parte desta transferência');
+    END IF;
+  END IF;
+
+  transit_id := public.get_transit_location_id(transfer.organization_id);
+  shortfall := transfer.quantity - _received_quantity;
+
+  IF _received_quantity > 0 THEN
+    INSERT INTO public.movements (
+      organization_id, type, product_id, quantity, from_location_id, to_location_id,
+      reference, note, created_by, transfer_id
+    )
+    VALUES (
+      transfer.organization_id,
+      'TRANSFER',
+      transfer.product_id,
+      _received_quantity,
+      transit_id,
+      transfer.to_location_id,
+      transfer.reference,
+      'Recebimento de transferência' || COALESCE(' - ' || NULLIF(TRIM(_notes), ''), ''),
+      auth.uid(),
+      _transfer_id
+    )
+    RETURNING id INTO new_movement_id;
+
+    IF product_row.serialized THEN
+      INSERT INTO public.movement_serials (organization_id, movement_id, serial_id)
+      SELECT transfer.organization_id, new_movement_id, value::UUID
+      FROM jsonb_array_elements_text(_received_serial_ids);
+    END IF;
+  END IF;
+
+  IF shortfall > 0 THEN
+    INSERT INTO public.movements (
+      organization_id, type, product_id, quantity, to_location_id, reference, note, created_by, transfer_id
+    )
+    VALUES (
+      transfer.organization_id,
+      'ADJUSTMENT',
+      transfer.product_id,
+      -shortfall,
+      transit_id,
+      transfer.reference,
+      'Perda em trânsito' || COALESCE(' - ' || NULLIF(TRIM(_notes), ''), ''),
+      auth.uid(),
+      _transfer_id
+    )
+    RETURNING id INTO new_movement_id;
+
+    IF product_row.track_lots THEN
+      PERFORM public.consume_lots_fefo(new_movement_id, transfer.organization_id, transfer.product_id, shortfall);
+    END IF;
+
+    -- Unidades enviadas que não foram marcadas como recebidas
+    IF product_row.serialized THEN
+      INSERT INTO public.movement_serials (organization_id, movement_id, serial_id)
+      SELECT transfer.organization_id, new_movement_id, ms.serial_id
+      FROM public.movement_serials ms
+      JOIN public.movements m ON m.id = ms.movement_id
+      WHERE m.transfer_id = _transfer_id
+        AND m.to_location_id = transit_id
+        AND m.type = 'TRANSFER'
+        AND NOT (COALESCE(_received_serial_ids, '[]'::jsonb) ? ms.serial_id::text);
+    END IF;
+  END IF;
+
+  UPDATE public.stock_transfers
+  SET status = 'received',
+      received_quantity = _received_quantity,
+      lost_quantity = shortfall,
+      receipt_notes = NULLIF(TRIM(_notes), ''),
+      received_by = auth.uid(),
+      received_at = now()
+  WHERE id = _transfer_id;
+
+  -- O aviso deixa de estar pendente para todos que o receberam
+  UPDATE public.notifications
+  SET read = true
+  WHERE related_entity_type = 'stock_transfer' AND related_entity_id = _transfer_id;
+END;
+$$;
@@ -0,0 +1,282 @@
+-- Níveis mínimo e máximo por produto e local. Quando um produto tem níveis por local,
+-- a falta é avaliada pelo saldo de cada local; sem níveis por local continua valendo o
+-- products.min_quantity sobre o estoque total.
+
+CREATE TABLE public.product_location_levels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  min_quantity NUMERIC NOT NULL DEFAULT 0 CHECK (min_quantity >= 0),
+  -- Estoque alvo da reposição do local; vazio quando o local só tem mínimo
+  max_quantity NUMERIC CHECK (max_quantity IS NULL OR max_quantity >= min_quantity),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (product_id, location_id)
+);
+
+CREATE INDEX idx_product_location_levels_location ON public.product_location_levels(location_id);
+
+CREATE TRIGGER update_product_location_levels_updated_at
+BEFORE UPDATE ON public.product_location_levels
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.product_location_levels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view location levels from their organization"
+ON public.product_location_levels FOR SELECT
+USING (organization_id = public.get_user_organization_id(auth.uid()));
+
+CREATE POLICY "Almoxarifes and admins can manage location levels in their organization"
+ON public.product_location_levels FOR ALL
+USING (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role))
+)
+WITH CHECK (
+  organization_id = public.get_user_organization_id(auth.uid()) AND
+  (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role) OR has_role(auth.uid(), 'almoxarife'::app_role))
+);
+
+-- Faltas de estoque da organização: uma linha por local abaixo do seu mínimo e uma linha
+-- por produto sem níveis por local com o total abaixo do mínimo do produto (no local padrão).
+-- Usada por get_critical_products e pelo envio de alertas por e-mail (service role).
+CREATE OR REPLACE FUNCTION public.get_stock_shortages(_organization_id UUID)
+RETURNS TABLE (
+  product_id UUID,
+  sku TEXT,
+  product_name TEXT,
+  unit TEXT,
+  location_id UUID,
+  location_name TEXT,
+  quantity DECIMAL,
+  min_quantity DECIMAL,
+  max_quantity DECIMAL,
+  per_location BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.sku,
+    p.name,
+    p.unit,
+    l.id,
+    l.name,
+    COALESCE(sb.quantity, 0),
+    lv.min_quantity,
+    lv.max_quantity,
+    true
+  FROM public.product_location_levels lv
+  JOIN public.products p ON p.id = lv.product_id
+  JOIN public.locations l ON l.id = lv.location_id AND NOT l.is_transit
+  LEFT JOIN public.stock_balances sb ON sb.product_id = lv.product_id AND sb.location_id = lv.location_id
+  WHERE lv.organization_id = _organization_id
+    AND COALESCE(sb.quantity, 0) <= lv.min_quantity
+
+  UNION ALL
+
+  SELECT
+    p.id,
+    p.sku,
+    p.name,
+    p.unit,
+    p.location_id,
+    l.name,
+    p.quantity,
+    p.min_quantity,
+    NULL::DECIMAL,
+    false
+  FROM public.products p
+  LEFT JOIN public.locations l ON l.id = p.location_id
+  WHERE p.organization_id = _organization_id
+    AND p.quantity <= p.min_quantity
+    AND NOT EXISTS (
+      SELECT 1 FROM public.product_location_levels lv WHERE lv.product_id = p.id
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_stock_shortages(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Produtos críticos passam a ser avaliados por local: location_quantity, location_min_quantity
+-- e location_max_quantity são o saldo e os níveis que geraram a falta
+DROP FUNCTION IF EXISTS public.get_critical_products();
+
+CREATE FUNCTION public.get_critical_products()
+RETURNS TABLE (
+  id UUID,
+  sku TEXT,
+  barcode TEXT,
+  name TEXT,
+  description TEXT,
+  category_id UUID,
+  unit TEXT,
+  cost DECIMAL,
+  preco_venda DECIMAL,
+  quantity DECIMAL,
+  min_quantity DECIMAL,
+  location_id UUID,
+  supplier_id UUID,
+  image_url TEXT,
+  active BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  category_name TEXT,
+  supplier_name TEXT,
+  location_name TEXT,
+  location_quantity DECIMAL,
+  location_min_quantity DECIMAL,
+  location_max_quantity DECIMAL,
+  per_location BOOLEAN
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.sku,
+    p.barcode,
+    p.name,
+    p.description,
+    p.category_id,
+    p.unit,
+    p.cost,
+    p.preco_venda,
+    p.quantity,
+    p.min_quantity,
+    s.location_id,
+    p.supplier_id,
+    p.image_url,
+    p.active,
+    p.created_at,
+    p.updated_at,
+    c.name AS category_name,
+    su.name AS supplier_name,
+    s.location_name,
+    s.quantity AS location_quantity,
+    s.min_quantity AS location_min_quantity,
+    s.max_quantity AS location_max_quantity,
+    s.per_location
+  FROM public.get_stock_shortages(public.get_user_organization_id(auth.uid())) s
+  JOIN public.products p ON p.id = s.product_id
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  LEFT JOIN public.suppliers su ON su.id = p.supplier_id
+  ORDER BY s.quantity ASC, p.name ASC
+$$;
+
+-- Avisa os responsáveis quando um local fica no mínimo ou abaixo dele: quem trabalha no
+-- local e os administradores e almoxarifes
+CREATE OR REPLACE FUNCTION public.notify_location_low_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  level_row RECORD;
+  product_row RECORD;
+  recipient RECORD;
+BEGIN
+  SELECT lv.min_quantity, l.name AS location_name
+  INTO level_row
+  FROM public.product_location_levels lv
+  JOIN public.locations l ON l.id = lv.location_id
+  WHERE lv.product_id = NEW.product_id AND lv.location_id = NEW.location_id;
+
+  IF NOT FOUND OR NEW.quantity > level_row.min_quantity THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name, unit INTO product_row FROM public.products WHERE id = NEW.product_id;
+
+  FOR recipient IN
+    SELECT pr.user_id
+    FROM public.profiles pr
+    WHERE pr.organization_id = NEW.organization_id AND pr.location_id = NEW.location_id
+    UNION
+    SELECT om.user_id
+    FROM public.organization_members om
+    INNER JOIN public.user_roles ur ON ur.user_id = om.user_id
+    WHERE om.organization_id = NEW.organization_id
+      AND ur.role IN ('admin', 'superadmin', 'almoxarife')
+  LOOP
+    INSERT INTO public.notifications (
+      organization_id, user_id, title, message, type, related_entity_id, related_entity_type
+    )
+    VALUES (
+      NEW.organization_id,
+      recipient.user_id,
+      'Estoque Baixo',
+      format('O produto "%s" está com estoque baixo em %s (%s %s, mínimo %s)',
+             product_row.name, level_row.location_name, NEW.quantity, product_row.unit, level_row.min_quantity),
+      'warning',
+      NEW.product_id,
+      'product'
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_notify_location_low_stock ON public.stock_balances;
+CREATE TRIGGER trigger_notify_location_low_stock
+  AFTER INSERT OR UPDATE OF quantity
+  ON public.stock_balances
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_location_low_stock();
+
+-- O aviso pelo estoque total só vale para produtos sem níveis por local
+CREATE OR REPLACE FUNCTION public.notify_low_stock()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  admin_record RECORD;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.product_location_levels WHERE product_id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Check if product is now at or below minimum quantity
+  IF NEW.quantity <= NEW.min_quantity THEN
+    -- Get all admins and almoxarifes from the organization
+    FOR admin_record IN
+      SELECT DISTINCT om.user_id
+      FROM public.organization_members om
+      INNER JOIN public.user_roles ur ON ur.user_id = om.user_id
+      WHERE om.organization_id = NEW.organization_id
+        AND ur.role IN ('admin', 'superadmin', 'almoxarife')
+    LOOP
+      -- Create notification for each admin/almoxarife
+      INSERT INTO public.notifications (
+        organization_id,
+        user_id,
+        title,
+        message,
+        type,
+        related_entity_id,
+        related_entity_type
+      ) VALUES (
+        NEW.organization_id,
+        admin_record.user_id,
+        'Estoque Baixo',
+        'O produto "' || NEW.name || '" está com estoque baixo (' || NEW.quantity || ' unidades)',
+        'warning',
+        NEW.id,
+        'product'
+      );
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,170 @@
+-- Classificação ABC/XYZ do estoque. ABC ordena os produtos pelo valor no período
+-- (faturamento das vendas ou valor consumido nas saídas) e corta pela participação
+-- acumulada; XYZ mede a variabilidade da demanda semanal (coeficiente de variação das
+-- saídas). A classe fica gravada no produto para filtros e relatórios.
+
+ALTER TABLE public.organization_settings
+ADD COLUMN IF NOT EXISTS abc_basis TEXT NOT NULL DEFAULT 'revenue' CHECK (abc_basis IN ('revenue', 'consumption')),
+-- Participação acumulada (%) até onde vão as classes A e B
+ADD COLUMN IF NOT EXISTS abc_a_threshold NUMERIC NOT NULL DEFAULT 80,
+ADD COLUMN IF NOT EXISTS abc_b_threshold NUMERIC NOT NULL DEFAULT 95,
+-- Coeficiente de variação máximo das classes X e Y
+ADD COLUMN IF NOT EXISTS xyz_x_threshold NUMERIC NOT NULL DEFAULT 0.5,
+ADD COLUMN IF NOT EXISTS xyz_y_threshold NUMERIC NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS classification_period_days INTEGER NOT NULL DEFAULT 90 CHECK (classification_period_days >= 7);
+
+ALTER TABLE public.organization_settings
+ADD CONSTRAINT organization_settings_abc_thresholds_check
+  CHECK (abc_a_threshold > 0 AND abc_a_threshold < abc_b_threshold AND abc_b_threshold <= 100),
+ADD CONSTRAINT organization_settings_xyz_thresholds_check
+  CHECK (xyz_x_threshold > 0 AND xyz_x_threshold < xyz_y_threshold);
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS abc_class TEXT CHECK (abc_class IN ('A', 'B', 'C')),
+ADD COLUMN IF NOT EXISTS xyz_class TEXT CHECK (xyz_class IN ('X', 'Y', 'Z')),
+-- Valor usado na curva ABC e coeficiente de variação da demanda (nulo sem saídas)
+ADD COLUMN IF NOT EXISTS classification_value NUMERIC,
+ADD COLUMN IF NOT EXISTS demand_variation NUMERIC,
+ADD COLUMN IF NOT EXISTS classified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_products_classification ON public.products(organization_id, abc_class, xyz_class);
+
+-- Reclassifica todos os produtos da organização do usuário com os limites configurados.
+-- A demanda são as saídas no período, sem estornos, saídas estornadas e devoluções a
+-- fornecedor; saídas de kit não montado contam para os componentes. O consumo é valorizado
+-- pelo custo gravado na saída (sem ele, o do cadastro). Semanas sem saída contam como
+-- demanda zero. Produtos sem saída no período ficam em Z.
+CREATE OR REPLACE FUNCTION public.classify_inventory()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  org_id UUID;
+  cfg RECORD;
+  period_start TIMESTAMP WITH TIME ZONE;
+  week_count INTEGER;
+  classified INTEGER;
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'superadmin'::app_role)) THEN
+    RAISE EXCEPTION 'Apenas administradores podem reclassificar o estoque';
+  END IF;
+
+  org_id := public.get_user_organization_id(auth.uid());
+
+  SELECT
+    COALESCE(s.abc_basis, 'revenue') AS abc_basis,
+    COALESCE(s.abc_a_threshold, 80) AS abc_a_threshold,
+    COALESCE(s.abc_b_threshold, 95) AS abc_b_threshold,
+    COALESCE(s.xyz_x_threshold, 0.5) AS xyz_x_threshold,
+    COALESCE(s.xyz_y_threshold, 1) AS xyz_y_threshold,
+    COALESCE(s.classification_period_days, 90) AS period_days
+  INTO cfg
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.organization_settings s ON s.organization_id = org_id;
+
+  period_start := now() - make_interval(days => cfg.period_days);
+  week_count := CEIL(cfg.period_days / 7.0);
+
+  WITH outs AS (
+    SELECT m.product_id, m.kit_id, m.assembled, m.quantity, m.unit_cost, m.created_at
+    FROM public.movements m
+    WHERE m.organization_id = org_id
+      AND m.type = 'OUT'
+      AND m.created_at >= period_start
+      AND m.reversal_of_id IS NULL
+      AND NOT EXISTS (SELECT 1 FROM public.movements r WHERE r.reversal_of_id = m.id)
+      -- Devoluções a fornecedor não são consumo
+      AND NOT EXISTS (SELECT 1 FROM public.stock_returns sr WHERE sr.return_movement_id = m.id)
+  ),
+  product_outs AS (
+    SELECT o.product_id, o.created_at, o.quantity, o.quantity * COALESCE(o.unit_cost, p.cost, 0) AS value
+    FROM outs o
+    JOIN public.products p ON p.id = o.product_id
+    WHERE o.product_id IS NOT NULL
+
+    UNION ALL
+
+    -- Saídas de kit não montado movimentam os componentes diretamente; o custo da saída é
+    -- o do kit, então o componente vale pelo cadastro
+    SELECT ki.product_id, o.created_at, o.quantity * ki.quantity, o.quantity * ki.quantity * COALESCE(p.cost, 0)
+    FROM outs o
+    CROSS JOIN LATERAL public.expand_kit_components(o.kit_id) ki
+    JOIN public.products p ON p.id = ki.product_id
+    WHERE o.kit_id IS NOT NULL
+      AND NOT o.assembled
+  ),
+  weekly AS (
+    SELECT product_id, date_trunc('week', created_at) AS week, SUM(quantity) AS quantity, SUM(value) AS value
+    FROM product_outs
+    GROUP BY product_id, date_trunc('week', created_at)
+  ),
+  demand AS (
+    SELECT
+      product_id,
+      SUM(value) AS consumed_value,
+      SUM(quantity) / week_count AS mean_quantity,
+      SQRT(GREATEST(SUM(quantity * quantity) / week_count - POWER(SUM(quantity) / week_count, 2), 0)) AS std_quantity
+    FROM weekly
+    GROUP BY product_id
+  ),
+  revenue AS (
+    SELECT f.produto_id AS product_id,
+           SUM(CASE WHEN f.preco_venda IS NOT NULL AND f.quantidade IS NOT NULL
+                    THEN f.preco_venda * f.quantidade ELSE f.valor END) AS amount
+    FROM public.financeiro f
+    WHERE f.organization_id = org_id
+      AND f.tipo = 'saida'
+      AND f.produto_id IS NOT NULL
+      AND f.data >= period_start::date
+    GROUP BY f.produto_id
+  ),
+  valued AS (
+    SELECT
+      p.id,
+      GREATEST(
+        CASE WHEN cfg.abc_basis = 'revenue' THEN COALESCE(r.amount, 0)
+             ELSE COALESCE(d.consumed_value, 0) END,
+        0
+      ) AS amount,
+      CASE WHEN d.mean_quantity > 0 THEN d.std_quantity / d.mean_quantity END AS variation
+    FROM public.products p
+    LEFT JOIN demand d ON d.product_id = p.id
+    LEFT JOIN revenue r ON r.product_id = p.id
+    WHERE p.organization_id = org_id
+  ),
+  ranked AS (
+    SELECT
+      id,
+      amount,
+      variation,
+      -- Participação acumulada antes do produto: o item que cruza o limite ainda entra na classe
+      (SUM(amount) OVER (ORDER BY amount DESC, id ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW) - amount)
+        / NULLIF(SUM(amount) OVER (), 0) * 100 AS share_before
+    FROM valued
+  )
+  UPDATE public.products p
+  SET
+    abc_class = CASE
+      WHEN ranked.amount <= 0 OR ranked.share_before IS NULL THEN 'C'
+      WHEN ranked.share_before < cfg.abc_a_threshold THEN 'A'
+      WHEN ranked.share_before < cfg.abc_b_threshold THEN 'B'
+      ELSE 'C'
+    END,
+    xyz_class = CASE
+      WHEN ranked.variation IS NULL THEN 'Z'
+      WHEN ranked.variation <= cfg.xyz_x_threshold THEN 'X'
+      WHEN ranked.variation <= cfg.xyz_y_threshold THEN 'Y'
+      ELSE 'Z'
+    END,
+    classification_value = ranked.amount,
+    demand_variation = ranked.variation,
+    classified_at = now()
+  FROM ranked
+  WHERE p.id = ranked.id;
+
+  GET DIAGNOSTICS classified = ROW_COUNT;
+  RETURN classified;
+END;
+$$;
@@ -0,0 +1,97 @@
+-- Envelhecimento do estoque: quanto tempo cada produto está sem saída e quanto valor
+-- está parado nele. A idade conta da última saída não estornada do produto (direta ou
+-- como componente de kit) ou, se ele nunca saiu, do cadastro.
+
+-- Uma linha por produto e local com saldo (mais o estoque sem local), fora o trânsito.
+-- Usada por get_stock_aging e pelo relatório mensal por e-mail (service role).
+CREATE OR REPLACE FUNCTION public.get_stock_aging_for_organization(_organization_id UUID)
+RETURNS TABLE (
+  product_id UUID,
+  location_id UUID,
+  quantity DECIMAL,
+  unit_cost DECIMAL,
+  last_out_at TIMESTAMP WITH TIME ZONE,
+  days_without_out INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH outs AS (
+    -- Saídas válidas: nem estornos nem saídas que foram estornadas depois
+    SELECT m.product_id, m.kit_id, m.assembled, m.created_at
+    FROM public.movements m
+    WHERE m.organization_id = _organization_id
+      AND m.type = 'OUT'
+      AND m.reversal_of_id IS NULL
+      AND NOT EXISTS (SELECT 1 FROM public.movements r WHERE r.reversal_of_id = m.id)
+  ),
+  last_out AS (
+    SELECT product_id, MAX(created_at) AS last_out_at
+    FROM (
+      SELECT o.product_id, o.created_at
+      FROM outs o
+      WHERE o.product_id IS NOT NULL
+
+      UNION ALL
+
+      -- Saídas de kit não montado movimentam os componentes diretamente
+      SELECT ki.product_id, o.created_at
+      FROM outs o
+      CROSS JOIN LATERAL public.expand_kit_components(o.kit_id) ki
+      WHERE o.kit_id IS NOT NULL
+        AND NOT o.assembled
+    ) product_outs
+    GROUP BY product_id
+  ),
+  stock AS (
+    SELECT sb.product_id, sb.location_id, sb.quantity
+    FROM public.stock_balances sb
+    JOIN public.locations l ON l.id = sb.location_id AND NOT l.is_transit
+    WHERE sb.organization_id = _organization_id
+
+    UNION ALL
+
+    -- Estoque sem local: total do produto menos os saldos por local
+    SELECT p.id, NULL::UUID, p.quantity - COALESCE((
+      SELECT SUM(sb.quantity) FROM public.stock_balances sb WHERE sb.product_id = p.id
+    ), 0)
+    FROM public.products p
+    WHERE p.organization_id = _organization_id
+  )
+  SELECT
+    s.product_id,
+    s.location_id,
+    s.quantity,
+    COALESCE(p.cost, 0),
+    lo.last_out_at,
+    CURRENT_DATE - COALESCE(lo.last_out_at, p.created_at)::date
+  FROM stock s
+  JOIN public.products p ON p.id = s.product_id
+  LEFT JOIN last_out lo ON lo.product_id = s.product_id
+  WHERE s.quantity > 0
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_stock_aging_for_organization(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_stock_aging()
+RETURNS TABLE (
+  product_id UUID,
+  location_id UUID,
+  quantity DECIMAL,
+  unit_cost DECIMAL,
+  last_out_at TIMESTAMP WITH TIME ZONE,
+  days_without_out INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM public.get_stock_aging_for_organization(public.get_user_organization_id(auth.uid()))
+$$;
+
+-- Seção mensal de estoque parado no relatório por e-mail (enviada no primeiro dia do mês)
+ALTER TABLE public.relatorio_configuracoes
+ADD COLUMN IF NOT EXISTS incluir_estoque_parado BOOLEAN NOT NULL DEFAULT false;